@@ -0,0 +1,15 @@
+-- Migration: 0006_worker_sync_sources.sql
+-- Purpose: Register every source the Worker cron syncs so sources/sync_runs rows exist for each
+
+INSERT OR IGNORE INTO sources (id, name, url, type, section) VALUES
+('woodpeckers', 'Fayetteville Woodpeckers', 'https://statsapi.mlb.com/api/v1/schedule?teamId=3712', 'api', 'downtown'),
+('crown_complex', 'Crown Complex', 'https://www.crowncomplexnc.com/events/all', 'scrape', 'crown'),
+('faydta', 'Downtown Alliance (FayDTA)', 'https://www.faydta.com/wp-json/mec/v1/events', 'api', 'downtown'),
+('mlk_committee', 'MLK Committee', 'https://mlkmemorialpark.org/upcoming-events/', 'scrape', 'downtown'),
+('library_hq', 'Headquarters Library', 'https://cumberland.librarycalendar.com/events/upcoming', 'scrape', 'downtown'),
+('fort_liberty_holidays', 'Fort Bragg Training Holidays', 'https://home.army.mil/liberty', 'json', 'fort_bragg'),
+('arts_council', 'Arts Council of Fayetteville', 'https://www.wearethearts.com', 'scrape', 'downtown'),
+('fayetteville_symphony', 'Fayetteville Symphony Orchestra', 'https://www.fayettevillesymphony.org/2025-2026-season/', 'scrape', 'downtown'),
+('cameo_art_house', 'Cameo Art House Theatre', 'https://www.cameoarthouse.com/now-showing/', 'scrape', 'downtown'),
+('fayetteville_speedway', 'Fayetteville Motor Speedway', 'https://www.myracepass.com/tracks/2933/schedule', 'scrape', 'downtown'),
+('fsu_sports', 'FSU Broncos', 'https://fsubroncos.com/sports', 'scrape', 'downtown');
@@ -0,0 +1,14 @@
+-- Migration: 0007_source_sync_intervals.sql
+-- Purpose: Per-source sync intervals now that the Worker cron honours sync_interval_minutes
+
+-- Static schedules and annual signature events only need a daily check
+UPDATE sources SET sync_interval_minutes = 1440
+WHERE id IN ('fort_liberty_holidays', 'fayetteville_symphony', 'mlk_committee', 'dogwood_festival', 'faydta');
+
+-- Sports schedules change a few times a week at most
+UPDATE sources SET sync_interval_minutes = 360
+WHERE id IN ('woodpeckers', 'fsu_sports', 'fayetteville_speedway', 'crown_complex');
+
+-- Scrapers that fan out to one request per event page are the most expensive
+UPDATE sources SET sync_interval_minutes = 180
+WHERE id IN ('distinctly_fayetteville', 'library_hq', 'fort_liberty_mwr');
@@ -0,0 +1,23 @@
+-- Migration: 0008_event_deduplication.sql
+-- Purpose: Link cross-source duplicate events to one canonical event
+
+-- 1. Source priority for choosing the canonical event (lower wins)
+ALTER TABLE sources ADD COLUMN priority INTEGER DEFAULT 100;
+
+-- 2. Non-canonical duplicates point at the event they duplicate (NULL = canonical or unique)
+ALTER TABLE events ADD COLUMN canonical_event_id TEXT REFERENCES events(id);
+
+CREATE INDEX IF NOT EXISTS idx_events_canonical ON events(canonical_event_id);
+
+-- 3. Venues and organizers own their listings
+UPDATE sources SET priority = 10
+WHERE id IN ('segra_stadium', 'woodpeckers', 'crown_complex', 'cameo_art_house', 'fayetteville_symphony',
+             'fayetteville_speedway', 'fsu_sports', 'library_hq', 'fort_liberty_mwr', 'fort_liberty_holidays');
+
+UPDATE sources SET priority = 20
+WHERE id IN ('dogwood_festival', 'mlk_committee', 'arts_council');
+
+-- 4. Downtown aggregators republish other sources' events
+UPDATE sources SET priority = 50 WHERE id = 'faydta';
+UPDATE sources SET priority = 60 WHERE id = 'visit_downtown';
+UPDATE sources SET priority = 70 WHERE id = 'distinctly_fayetteville';
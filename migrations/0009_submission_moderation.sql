@@ -0,0 +1,27 @@
+-- Migration: 0009_submission_moderation.sql
+-- Purpose: Public community submissions with an admin review workflow
+
+-- 1. Extra submission fields
+ALTER TABLE pending_events ADD COLUMN submitter_name TEXT;
+ALTER TABLE pending_events ADD COLUMN url TEXT;
+ALTER TABLE pending_events ADD COLUMN ticket_url TEXT;
+ALTER TABLE pending_events ADD COLUMN categories TEXT;              -- JSON array
+ALTER TABLE pending_events ADD COLUMN section TEXT DEFAULT 'downtown';
+
+-- 2. Spam throttling: SHA-256 of the submitter's IP (never the raw IP)
+ALTER TABLE pending_events ADD COLUMN submitter_fingerprint TEXT;
+
+-- 3. Review trail
+ALTER TABLE pending_events ADD COLUMN reviewed_by TEXT;
+ALTER TABLE pending_events ADD COLUMN reviewed_at TIMESTAMP;
+ALTER TABLE pending_events ADD COLUMN review_reason TEXT;
+ALTER TABLE pending_events ADD COLUMN event_id TEXT REFERENCES events(id); -- Set when approved
+ALTER TABLE pending_events ADD COLUMN updated_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_pending_events_status ON pending_events(status, submitted_at);
+CREATE INDEX IF NOT EXISTS idx_pending_events_fingerprint ON pending_events(submitter_fingerprint, submitted_at);
+
+-- 4. Approved submissions are published under the 'community' source.
+-- 'manual' sources have no adapter and are skipped by the sync cron.
+INSERT OR IGNORE INTO sources (id, name, url, type, section, priority) VALUES
+('community', 'Community Submissions', 'https://ncfayetteville.com', 'manual', 'downtown', 90);
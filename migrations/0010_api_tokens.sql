@@ -0,0 +1,18 @@
+-- Migration: 0010_api_tokens.sql
+-- Purpose: Hashed API tokens with scopes for write/admin endpoints
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,                -- Who holds the token; recorded as reviewer/actor
+  token_hash TEXT NOT NULL UNIQUE,   -- SHA-256 hex of the token (plaintext is never stored)
+  token_prefix TEXT NOT NULL,        -- First characters, to recognise a token in lists
+  scopes TEXT NOT NULL,              -- JSON array: 'admin', 'moderator', 'venue_owner'
+  venue_ids TEXT,                    -- JSON array of venues a venue_owner may edit
+  created_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP,
+  expires_at TIMESTAMP,              -- NULL = no expiry
+  revoked_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_hash ON api_tokens(token_hash);
@@ -0,0 +1,13 @@
+-- Migration: 0011_recurring_events.sql
+-- Purpose: Store recurring events once with an RFC 5545 rule instead of one row per occurrence
+
+-- 1. RRULE value, e.g. 'FREQ=WEEKLY;BYDAY=TU' (start/end_datetime describe the first occurrence)
+ALTER TABLE events ADD COLUMN recurrence_rule TEXT;
+
+-- 2. JSON array of ISO start times of skipped occurrences (EXDATE)
+ALTER TABLE events ADD COLUMN recurrence_exdates TEXT;
+
+-- 3. End of the last occurrence; NULL for open-ended series. Lets queries skip finished series.
+ALTER TABLE events ADD COLUMN recurrence_end TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurrence ON events(recurrence_rule) WHERE recurrence_rule IS NOT NULL;
@@ -0,0 +1,91 @@
+-- Migration: 0012_full_text_search.sql
+-- Purpose: FTS5 indexes over events and venues for ranked search with snippets
+
+-- 1. Event search index (rowid = events.rowid). venue_name is copied from venues
+--    so a search for the venue finds its events.
+CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(
+  title,
+  description,
+  venue_name,
+  location_name,
+  categories,
+  tokenize = 'porter unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- 2. Venue search index (rowid = venues.rowid). tags holds type/category/cuisine.
+CREATE VIRTUAL TABLE IF NOT EXISTS venues_fts USING fts5(
+  name,
+  description,
+  address,
+  tags,
+  tokenize = 'porter unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- 3. Keep events_fts in sync. The insert trigger clears the rowid first because
+--    INSERT OR REPLACE deletes without firing the delete trigger.
+CREATE TRIGGER IF NOT EXISTS events_fts_insert AFTER INSERT ON events BEGIN
+  DELETE FROM events_fts WHERE rowid = new.rowid;
+  INSERT INTO events_fts (rowid, title, description, venue_name, location_name, categories)
+  VALUES (
+    new.rowid, new.title, new.description,
+    (SELECT name FROM venues WHERE id = new.venue_id),
+    new.location_name, new.categories
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS events_fts_update
+AFTER UPDATE OF title, description, venue_id, location_name, categories ON events BEGIN
+  DELETE FROM events_fts WHERE rowid = old.rowid;
+  INSERT INTO events_fts (rowid, title, description, venue_name, location_name, categories)
+  VALUES (
+    new.rowid, new.title, new.description,
+    (SELECT name FROM venues WHERE id = new.venue_id),
+    new.location_name, new.categories
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS events_fts_delete AFTER DELETE ON events BEGIN
+  DELETE FROM events_fts WHERE rowid = old.rowid;
+END;
+
+-- 4. Keep venues_fts in sync, and refresh venue_name on the venue's events
+CREATE TRIGGER IF NOT EXISTS venues_fts_insert AFTER INSERT ON venues BEGIN
+  DELETE FROM venues_fts WHERE rowid = new.rowid;
+  INSERT INTO venues_fts (rowid, name, description, address, tags)
+  VALUES (
+    new.rowid, new.name, new.description, new.address,
+    trim(coalesce(new.venue_type, '') || ' ' || coalesce(new.category, '') || ' ' ||
+         coalesce(new.subcategory, '') || ' ' || coalesce(new.cuisine_type, ''))
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS venues_fts_update
+AFTER UPDATE OF name, description, address, venue_type, category, subcategory, cuisine_type ON venues BEGIN
+  DELETE FROM venues_fts WHERE rowid = old.rowid;
+  INSERT INTO venues_fts (rowid, name, description, address, tags)
+  VALUES (
+    new.rowid, new.name, new.description, new.address,
+    trim(coalesce(new.venue_type, '') || ' ' || coalesce(new.category, '') || ' ' ||
+         coalesce(new.subcategory, '') || ' ' || coalesce(new.cuisine_type, ''))
+  );
+  UPDATE events_fts SET venue_name = new.name
+  WHERE rowid IN (SELECT rowid FROM events WHERE venue_id = new.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS venues_fts_delete AFTER DELETE ON venues BEGIN
+  DELETE FROM venues_fts WHERE rowid = old.rowid;
+END;
+
+-- 5. Index existing rows
+INSERT INTO events_fts (rowid, title, description, venue_name, location_name, categories)
+SELECT e.rowid, e.title, e.description, v.name, e.location_name, e.categories
+FROM events e
+LEFT JOIN venues v ON e.venue_id = v.id;
+
+INSERT INTO venues_fts (rowid, name, description, address, tags)
+SELECT rowid, name, description, address,
+  trim(coalesce(venue_type, '') || ' ' || coalesce(category, '') || ' ' ||
+       coalesce(subcategory, '') || ' ' || coalesce(cuisine_type, ''))
+FROM venues;
@@ -0,0 +1,16 @@
+-- Migration: 0013_calendar_subscriptions.sql
+-- Purpose: Saved calendar filter sets served at /cal/u/:token.ics
+
+CREATE TABLE IF NOT EXISTS calendar_subscriptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,       -- SHA-256 hex of the feed token in the URL
+  edit_token_hash TEXT NOT NULL,         -- SHA-256 hex of the token that may change the filters
+  filters TEXT NOT NULL,                 -- JSON: { include: [...], exclude: {...}, alarm_minutes }
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_fetched_at TIMESTAMP,             -- Last time a calendar app pulled the feed
+  fetch_count INTEGER DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_subscriptions_token ON calendar_subscriptions(token_hash);
@@ -0,0 +1,73 @@
+-- Migration: 0014_event_revisions.sql
+-- Purpose: Field-level change history for events, feeding /api/events/:id/history and /api/changes
+
+CREATE TABLE IF NOT EXISTS event_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_id TEXT NOT NULL,
+  change_type TEXT NOT NULL,      -- 'inserted', 'updated', 'rescheduled', 'cancelled'
+  changes TEXT,                   -- JSON: { field: { "from": old, "to": new } }; NULL for inserts
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_revisions_event ON event_revisions(event_id, id);
+CREATE INDEX IF NOT EXISTS idx_event_revisions_created ON event_revisions(created_at);
+
+-- Triggers record every writer (Worker sync, scripts, admin edits) in one place.
+-- Bookkeeping columns (last_seen_at, updated_at, content_hash, featured) are not
+-- tracked, and the nightly confirmed -> past archive is not a change.
+CREATE TRIGGER IF NOT EXISTS event_revisions_insert AFTER INSERT ON events BEGIN
+  INSERT INTO event_revisions (event_id, change_type) VALUES (new.id, 'inserted');
+END;
+
+CREATE TRIGGER IF NOT EXISTS event_revisions_update
+AFTER UPDATE OF title, description, start_datetime, end_datetime, venue_id, location_name,
+  url, ticket_url, image_url, categories, status, section, recurrence_rule, recurrence_exdates
+ON events
+WHEN old.title IS NOT new.title
+  OR old.description IS NOT new.description
+  OR old.start_datetime IS NOT new.start_datetime
+  OR old.end_datetime IS NOT new.end_datetime
+  OR old.venue_id IS NOT new.venue_id
+  OR old.location_name IS NOT new.location_name
+  OR old.url IS NOT new.url
+  OR old.ticket_url IS NOT new.ticket_url
+  OR old.image_url IS NOT new.image_url
+  OR old.categories IS NOT new.categories
+  OR (old.status IS NOT new.status AND new.status != 'past')
+  OR old.section IS NOT new.section
+  OR old.recurrence_rule IS NOT new.recurrence_rule
+  OR old.recurrence_exdates IS NOT new.recurrence_exdates
+BEGIN
+  -- One [field, old, new] triple per tracked column; D1 caps compound SELECTs,
+  -- so the list is a JSON array rather than a UNION
+  INSERT INTO event_revisions (event_id, change_type, changes)
+  SELECT
+    new.id,
+    CASE
+      WHEN new.status = 'cancelled' AND old.status IS NOT 'cancelled' THEN 'cancelled'
+      WHEN old.start_datetime IS NOT new.start_datetime OR old.end_datetime IS NOT new.end_datetime THEN 'rescheduled'
+      ELSE 'updated'
+    END,
+    json_group_object(
+      json_extract(value, '$[0]'),
+      json_object('from', json_extract(value, '$[1]'), 'to', json_extract(value, '$[2]'))
+    )
+  FROM json_each(json_array(
+    json_array('title', old.title, new.title),
+    json_array('description', old.description, new.description),
+    json_array('start_datetime', old.start_datetime, new.start_datetime),
+    json_array('end_datetime', old.end_datetime, new.end_datetime),
+    json_array('venue_id', old.venue_id, new.venue_id),
+    json_array('location_name', old.location_name, new.location_name),
+    json_array('url', old.url, new.url),
+    json_array('ticket_url', old.ticket_url, new.ticket_url),
+    json_array('image_url', old.image_url, new.image_url),
+    json_array('categories', old.categories, new.categories),
+    json_array('status', old.status, new.status),
+    json_array('section', old.section, new.section),
+    json_array('recurrence_rule', old.recurrence_rule, new.recurrence_rule),
+    json_array('recurrence_exdates', old.recurrence_exdates, new.recurrence_exdates)
+  ))
+  WHERE json_extract(value, '$[1]') IS NOT json_extract(value, '$[2]')
+    AND NOT (json_extract(value, '$[0]') = 'status' AND new.status = 'past');
+END;
@@ -0,0 +1,17 @@
+-- Migration: 0015_event_status_reasons.sql
+-- Purpose: Keep cancelled/postponed/rescheduled events visible with a reason and timestamp
+
+-- 1. Why the status last changed, e.g. 'No longer listed by the source' or a moderator's note
+ALTER TABLE events ADD COLUMN status_reason TEXT;
+
+-- 2. When the status last changed (ISO timestamp); cancelled/postponed events stay listed for a grace period after it
+ALTER TABLE events ADD COLUMN status_changed_at TEXT;
+
+-- 3. Start time before the event was rescheduled
+ALTER TABLE events ADD COLUMN previous_start_datetime TEXT;
+
+-- Every cancellation so far came from the missing-event cleanup. The change
+-- time is unknown, so these stay out of listings.
+UPDATE events SET status_reason = 'No longer listed by the source' WHERE status = 'cancelled';
+
+CREATE INDEX IF NOT EXISTS idx_events_status_changed ON events(status, status_changed_at);
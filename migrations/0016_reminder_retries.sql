@@ -0,0 +1,13 @@
+-- Migration: 0016_reminder_retries.sql
+-- Purpose: Retry failed Discord reminders from the Worker cron with backoff
+
+-- 1. Sends tried so far (the row is claimed before the first one)
+ALTER TABLE reminder_log ADD COLUMN attempts INTEGER DEFAULT 0;
+
+-- 2. When the last send was tried (ISO timestamp)
+ALTER TABLE reminder_log ADD COLUMN last_attempt_at TEXT;
+
+-- 3. Earliest time a failed reminder may be retried; NULL once sent or out of attempts
+ALTER TABLE reminder_log ADD COLUMN next_attempt_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_reminder_retry ON reminder_log(status, next_attempt_at);
@@ -0,0 +1,17 @@
+-- Migration: 0017_notification_channels.sql
+-- Purpose: Discord webhooks per community channel, each with its own filters, digest time and reminder types
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  webhook_url TEXT NOT NULL,
+  filters TEXT NOT NULL DEFAULT '{}',   -- JSON: { sections: [], categories: [], sources: [] }; empty = everything
+  digest_hour INTEGER,                  -- Local hour (0-23, America/New_York) for the daily digest; NULL = no digest
+  reminder_types TEXT NOT NULL DEFAULT '["1_week","1_day","new_event"]',  -- JSON array
+  paused INTEGER NOT NULL DEFAULT 0,
+  last_digest_date TEXT,                -- Local date (YYYY-MM-DD) of the last digest, so a day is never posted twice
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- reminder_log.channel is 'discord' for DISCORD_WEBHOOK_URL and 'discord:<id>' for these channels
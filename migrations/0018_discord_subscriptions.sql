@@ -0,0 +1,16 @@
+-- Migration: 0018_discord_subscriptions.sql
+-- Purpose: Personal event reminders added with the /subscribe Discord command, sent as DMs
+
+CREATE TABLE IF NOT EXISTS discord_subscriptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,          -- Discord user id (snowflake)
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  reminder_type TEXT NOT NULL,    -- '1_week' or '1_day'
+  guild_id TEXT,                  -- Server the command was used in (NULL in DMs)
+  created_at TEXT NOT NULL,
+  UNIQUE(user_id, event_id, reminder_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discord_subscriptions_event ON discord_subscriptions(event_id, reminder_type);
+
+-- Sends are logged in reminder_log with channel 'discord-dm:<user_id>'
@@ -0,0 +1,20 @@
+-- Migration: 0019_email_subscribers.sql
+-- Purpose: Email digest subscribers with double opt-in and per-subscriber preferences
+
+CREATE TABLE IF NOT EXISTS email_subscribers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email TEXT NOT NULL UNIQUE,             -- Lowercased
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'confirmed' or 'unsubscribed'
+  frequency TEXT NOT NULL DEFAULT 'weekly', -- 'daily' or 'weekly'
+  sections TEXT NOT NULL DEFAULT '[]',    -- JSON array; empty = every section
+  categories TEXT NOT NULL DEFAULT '[]',  -- JSON array; empty = every category
+  confirmation_sent_at TEXT,              -- Throttles repeat confirmation emails
+  confirmed_at TEXT,
+  unsubscribed_at TEXT,
+  last_digest_date TEXT,                  -- Local date (YYYY-MM-DD) of the last digest sent
+  last_error TEXT,                        -- Last failed send, cleared on success
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_subscribers_due ON email_subscribers(status, frequency, last_digest_date);
@@ -0,0 +1,23 @@
+-- Migration: 0020_venue_match_queue.sql
+-- Purpose: Review queue for event locations the venue resolver could not match confidently
+
+CREATE TABLE IF NOT EXISTS venue_match_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  normalized_name TEXT NOT NULL UNIQUE,   -- One entry per normalized location name
+  location_name TEXT NOT NULL,            -- As the source wrote it (matches events.location_name)
+  name TEXT NOT NULL,                     -- Name part, without any address; becomes the alias
+  address TEXT,
+  latitude REAL,
+  longitude REAL,
+  suggested_venue_id TEXT REFERENCES venues(id) ON DELETE SET NULL,
+  confidence REAL,                        -- 0-1, below the auto-match threshold
+  method TEXT,                            -- 'name', 'core_name', 'address', 'fuzzy', 'coordinates'
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'matched' or 'ignored'
+  venue_id TEXT REFERENCES venues(id) ON DELETE SET NULL, -- Venue chosen on review
+  reviewed_by TEXT,
+  reviewed_at TEXT,
+  first_seen_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_match_queue_status ON venue_match_queue(status, last_seen_at);
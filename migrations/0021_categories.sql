@@ -0,0 +1,68 @@
+-- Migration: 0021_categories.sql
+-- Purpose: Admin-editable category taxonomy and raw source label mappings
+
+CREATE TABLE IF NOT EXISTS categories (
+  slug TEXT PRIMARY KEY,                  -- 'live-music'
+  label TEXT NOT NULL UNIQUE,             -- 'Live Music' (what events.categories stores)
+  emoji TEXT,                             -- Falls back to the parent's
+  color TEXT,                             -- '#RRGGBB', falls back to the parent's
+  display_order INTEGER NOT NULL DEFAULT 0,
+  parent_slug TEXT REFERENCES categories(slug),  -- One level deep
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS category_mappings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  raw_label TEXT NOT NULL UNIQUE,         -- Lowercased label as sources write it
+  category_slug TEXT NOT NULL REFERENCES categories(slug) ON DELETE CASCADE,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_mappings_slug ON category_mappings(category_slug);
+
+-- Seed with the categories the site has shown so far
+INSERT OR IGNORE INTO categories (slug, label, emoji, color, display_order, parent_slug) VALUES
+  ('community', 'Community', '🏘️', '#A65D57', 10, NULL),
+  ('arts', 'Arts', '🎨', '#8E5572', 20, NULL),
+  ('live-music', 'Live Music', '🎵', '#6B4E9B', 30, NULL),
+  ('movies', 'Movies', '🎬', '#4A5568', 40, NULL),
+  ('family', 'Family', '👨‍👩‍👧‍👦', '#D69E2E', 50, NULL),
+  ('festivals', 'Festivals', '🎉', '#DD6B20', 60, NULL),
+  ('sports', 'Sports', '⚽', '#2D6A4F', 70, NULL),
+  ('fsu-sports', 'FSU Sports', '🏀', NULL, 75, 'sports'),
+  ('military', 'Military', '🎖️', '#1E3A5F', 80, NULL),
+  ('long-weekend', 'Long Weekend', '📅', NULL, 85, 'military'),
+  ('nightlife', 'Nightlife', '🌙', '#2C5282', 90, NULL),
+  ('expos', 'Expos', '🏛️', '#718096', 100, NULL);
+
+INSERT OR IGNORE INTO category_mappings (raw_label, category_slug) VALUES
+  ('art', 'arts'),
+  ('arts & culture', 'arts'),
+  ('arts &amp; culture', 'arts'),
+  ('arts &amp; crafts', 'arts'),
+  ('gallery', 'arts'),
+  ('performing arts', 'arts'),
+  ('cultural', 'arts'),
+  ('classical music', 'live-music'),
+  ('chamber music', 'live-music'),
+  ('orchestra', 'live-music'),
+  ('gospel', 'live-music'),
+  ('film music', 'live-music'),
+  ('americana', 'live-music'),
+  ('film', 'movies'),
+  ('classic film', 'movies'),
+  ('special screening', 'movies'),
+  ('mwr', 'military'),
+  ('training holiday', 'military'),
+  ('3-day weekend', 'long-weekend'),
+  ('4-day weekend', 'long-weekend'),
+  ('youth', 'family'),
+  ('story time', 'family'),
+  ('educational', 'family'),
+  ('library programs', 'family'),
+  ('parades', 'community'),
+  ('signature events', 'community'),
+  ('festivals & fairs', 'festivals'),
+  ('holiday', 'festivals'),
+  ('expos & trade shows', 'expos');
@@ -0,0 +1,27 @@
+-- Migration: 0022_event_enrichment.sql
+-- Purpose: Model-suggested categories, audience, price hint and summary for synced events
+
+-- One row per event: the latest enrichment and what produced it
+CREATE TABLE IF NOT EXISTS event_enrichments (
+  event_id TEXT PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  content_hash TEXT,                  -- events.content_hash the enrichment was made from
+  provider TEXT NOT NULL,             -- 'workers-ai', 'openai' or 'stub'
+  model TEXT NOT NULL,
+  categories TEXT NOT NULL DEFAULT '[]',  -- JSON array of taxonomy labels
+  audience TEXT,                      -- 'family', '21+', 'military' or NULL (everyone)
+  price_hint TEXT,                    -- 'free', '$', '$$', '$$$' or NULL (unknown)
+  summary TEXT,                       -- At most 160 characters
+  error TEXT,                         -- Last failure; the other fields keep the previous result
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Copied onto events so the API and filters can use them without a join.
+-- categories_source is 'source' when the categories came from the source and
+-- 'ai' when the source gave none and the enrichment filled them in.
+ALTER TABLE events ADD COLUMN summary TEXT;
+ALTER TABLE events ADD COLUMN audience TEXT;
+ALTER TABLE events ADD COLUMN price_hint TEXT;
+ALTER TABLE events ADD COLUMN categories_source TEXT DEFAULT 'source';
+
+CREATE INDEX IF NOT EXISTS idx_events_audience ON events(audience);
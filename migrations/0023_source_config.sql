@@ -0,0 +1,9 @@
+-- Migration: 0023_source_config.sql
+-- Purpose: Per-source settings so generic adapters (type 'ical') need only a sources row
+
+ALTER TABLE sources ADD COLUMN config TEXT;  -- JSON, read by the adapter for the source's type
+
+-- Adding an iCalendar feed:
+-- INSERT INTO sources (id, name, url, type, section, sync_interval_minutes, config) VALUES
+-- ('example_church', 'Example Church', 'https://calendar.google.com/calendar/ical/.../public/basic.ics',
+--  'ical', 'downtown', 360, '{"categories": ["Community"], "venue": {"name": "Example Church"}}');
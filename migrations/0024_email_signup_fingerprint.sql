@@ -0,0 +1,6 @@
+-- Migration: 0024_email_signup_fingerprint.sql
+-- Purpose: Per-IP limits on digest sign-ups, which send a confirmation email
+
+ALTER TABLE email_subscribers ADD COLUMN signup_fingerprint TEXT;  -- SHA-256 of the IP behind the last confirmation email
+
+CREATE INDEX IF NOT EXISTS idx_email_subscribers_signup ON email_subscribers(signup_fingerprint, confirmation_sent_at);
@@ -0,0 +1,45 @@
+/**
+ * Register the slash commands (/events, /event, /plan-date, /subscribe)
+ *
+ * Global commands can take up to an hour to show up; --guild registers them
+ * on one server instantly, for testing. Re-run after changing COMMANDS in
+ * src/lib/discord-interactions.ts (registering replaces the whole set).
+ *
+ * Usage:
+ *   DISCORD_APPLICATION_ID=... DISCORD_BOT_TOKEN=... npx tsx scripts/register-discord-commands.ts
+ *   DISCORD_APPLICATION_ID=... DISCORD_BOT_TOKEN=... npx tsx scripts/register-discord-commands.ts --guild=123456789
+ */
+
+import { COMMANDS } from '../src/lib/discord-interactions';
+
+const applicationId = process.env.DISCORD_APPLICATION_ID;
+const botToken = process.env.DISCORD_BOT_TOKEN;
+const guildId = process.argv.find(arg => arg.startsWith('--guild='))?.split('=')[1];
+
+if (!applicationId || !botToken) {
+  console.error('DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN are required');
+  process.exit(1);
+}
+
+async function register() {
+  const url = guildId
+    ? `https://discord.com/api/v10/applications/${applicationId}/guilds/${guildId}/commands`
+    : `https://discord.com/api/v10/applications/${applicationId}/commands`;
+
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bot ${botToken}` },
+    body: JSON.stringify(COMMANDS),
+  });
+
+  if (!response.ok) {
+    console.error(`Registration failed: HTTP ${response.status}`);
+    console.error(await response.text());
+    process.exit(1);
+  }
+
+  const registered = await response.json() as { name: string }[];
+  console.log(`Registered ${registered.map(command => `/${command.name}`).join(', ')}${guildId ? ` on guild ${guildId}` : ' globally'}`);
+}
+
+register();
@@ -0,0 +1,96 @@
+/**
+ * Replay a raw scrape archive through its source parser
+ *
+ * Every Worker sync stores the responses each source returned in the
+ * downtown-raw-data R2 bucket (key in raw_scrapes.raw_content_url). This
+ * re-runs the same adapter against that archive instead of the live site, so
+ * parser fixes can be checked against the exact payload that broke them.
+ *
+ * Archives carry the sources row the sync ran with, so generic iCal and
+ * JSON-LD sources replay with the same URL and config. Older archives without
+ * it fall back to the adapter registered under the source id.
+ *
+ * Note: parsers still drop events that have already ended relative to now,
+ * so replaying an old archive shows only the events that are still upcoming.
+ *
+ * Usage:
+ *   npx tsx scripts/replay-raw-scrape.ts raw/segra_stadium/2026-01-05/2026-01-05T13-00-02-118Z.json
+ *   npx tsx scripts/replay-raw-scrape.ts ./archive.json                # Local copy of an archive
+ *   npx tsx scripts/replay-raw-scrape.ts <key> --json > events.json
+ *   npx tsx scripts/replay-raw-scrape.ts <key> --save=./archive.json   # Keep a local copy
+ */
+
+import * as fs from 'fs';
+import { RawArchive, createReplayFetch } from '../src/sync/archive';
+import { adapterForSource, getAdapter } from '../src/sync/sources';
+
+const R2_BUCKET = 'downtown-raw-data';
+
+/**
+ * Read an archive from disk, or from R2 via wrangler when the path is not a local file
+ */
+async function loadArchive(location: string): Promise<RawArchive> {
+  if (fs.existsSync(location)) {
+    return JSON.parse(fs.readFileSync(location, 'utf-8'));
+  }
+
+  const { spawnSync } = await import('child_process');
+  const result = spawnSync('npx', [
+    'wrangler', 'r2', 'object', 'get', `${R2_BUCKET}/${location}`,
+    '--remote', '--pipe'
+  ], { stdio: 'pipe', encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024 });
+
+  if (result.status !== 0 || !result.stdout) {
+    throw new Error(`Could not fetch ${location} from R2: ${result.stderr || 'empty response'}`);
+  }
+
+  return JSON.parse(result.stdout);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const location = args.find(a => !a.startsWith('--'));
+  const jsonOutput = args.includes('--json');
+  const saveArg = args.find(a => a.startsWith('--save='));
+
+  if (!location) {
+    console.error('Usage: npx tsx scripts/replay-raw-scrape.ts <r2-key|file> [--json] [--save=path]');
+    process.exit(1);
+  }
+
+  const archive = await loadArchive(location);
+
+  if (saveArg) {
+    fs.writeFileSync(saveArg.split('=')[1], JSON.stringify(archive, null, 2));
+  }
+
+  const adapter = archive.source ? adapterForSource(archive.source) : getAdapter(archive.sourceId);
+  if (!adapter) {
+    console.error(`No adapter registered for source ${archive.sourceId}`);
+    process.exit(1);
+  }
+
+  console.error(`Replaying ${archive.responses.length} responses for ${archive.sourceId} (fetched ${archive.fetchedAt})`);
+
+  const events = await adapter.fetch({ http: createReplayFetch(archive), source: archive.source });
+  events.sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(events, null, 2));
+    return;
+  }
+
+  console.log(`\n${events.length} events parsed from ${archive.sourceId}:\n`);
+  for (const event of events) {
+    const date = event.startDateTime.toLocaleDateString('en-US', {
+      weekday: 'short', month: 'short', day: 'numeric', year: 'numeric'
+    });
+    console.log(`  ${date} - ${event.title}`);
+    if (event.venue?.name) console.log(`    @ ${event.venue.name}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
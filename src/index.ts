@@ -9,14 +9,26 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { cache } from 'hono/cache';
 import { secureHeaders } from 'hono/secure-headers';
-import { Bindings } from './types';
+import { Bindings, Variables } from './types';
 import eventsRouter from './routes/events';
 import datePlannerRouter from './routes/date-planner';
 import metaRouter from './routes/meta';
 import calendarRouter from './routes/calendar';
+import submissionsRouter from './routes/submissions';
+import adminRouter from './routes/admin';
+import searchRouter from './routes/search';
+import ogRouter from './routes/og';
+import calendarSubscriptionsRouter from './routes/calendar-subscriptions';
+import changesRouter from './routes/changes';
+import discordInteractionsRouter from './routes/discord-interactions';
+import emailRouter from './routes/email';
 import { sendDailyDigest, sendDiscordMessage } from './lib/discord';
+import { sendReminders } from './lib/reminders';
+import { sendEmailDigests } from './lib/email-digest';
+import { runScheduledSync } from './sync';
+import { requireAdmin } from './lib/auth';
 
-const app = new Hono<{ Bindings: Bindings }>();
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
 const ALLOWED_ORIGINS = [
   'https://ncfayetteville.com',
@@ -36,8 +48,8 @@ app.use('*', cors({
     }
     return null;  // Reject other origins
   },
-  allowMethods: ['GET', 'POST', 'OPTIONS'],
-  allowHeaders: ['Content-Type'],
+  allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Edit-Token'],
   maxAge: 86400,  // 24 hours
 }));
 
@@ -62,6 +74,12 @@ const RATE_LIMIT = 100;  // requests per window
 const RATE_WINDOW = 60 * 1000;  // 1 minute
 
 app.use('/api/*', async (c, next) => {
+  // Every slash command arrives from Discord's own servers, already signed
+  if (c.req.path === '/api/discord/interactions') {
+    await next();
+    return;
+  }
+
   const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for') || 'unknown';
   const now = Date.now();
 
@@ -87,8 +105,15 @@ app.use('/api/*', async (c, next) => {
 
 // Cache GET API responses for 5 minutes (POST requests should NOT be cached)
 app.use('/api/*', async (c, next) => {
-  // Only cache GET requests, skip POST/PUT/DELETE
-  if (c.req.method !== 'GET') {
+  // Only cache GET requests, skip POST/PUT/DELETE, anything authenticated and
+  // editable calendar subscriptions and email preferences
+  if (
+    c.req.method !== 'GET' ||
+    c.req.path.startsWith('/api/admin') ||
+    c.req.path.startsWith('/api/calendar/subscriptions') ||
+    c.req.path.startsWith('/api/email') ||
+    c.req.header('Authorization')
+  ) {
     await next();
     return;
   }
@@ -116,20 +141,39 @@ app.onError((err, c) => {
 app.route('/api/events', eventsRouter);
 app.route('/api/date-planner', datePlannerRouter);
 app.route('/api', metaRouter); // mounts /api/sources and /api/categories
-app.route('/cal', calendarRouter); // mounts /cal/events.ics
+app.route('/cal', calendarRouter); // mounts /cal/events.ics and /cal/u/:token.ics
+app.route('/api/calendar/subscriptions', calendarSubscriptionsRouter);
+app.route('/api/submissions', submissionsRouter);
+app.route('/api/search', searchRouter);
+app.route('/api/changes', changesRouter);
+app.route('/og', ogRouter); // mounts /og/events/:id.png
+app.route('/api/admin', adminRouter); // requires an API token (see lib/auth.ts)
+app.route('/api/discord/interactions', discordInteractionsRouter); // signed by Discord (see lib/discord-interactions.ts)
+app.route('/api/email', emailRouter); // digest sign-up; links carry signed tokens (see lib/email-subscribers.ts)
 
 // Health Check
 app.get('/api/health', (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Discord Test Endpoints
-app.post('/api/discord/daily-digest', async (c) => {
-  const result = await sendDailyDigest(c.env);
+// Discord Endpoints (admin only: these post to the public channel)
+// Posts to every channel with a digest, whatever its digest hour
+app.post('/api/discord/daily-digest', requireAdmin, async (c) => {
+  const result = await sendDailyDigest(c.env, { force: true });
   return c.json(result);
 });
 
-app.get('/api/discord/test', async (c) => {
+// ?dry_run=true lists due reminders without sending; reminders normally wait
+// for daytime, so manual runs pass force
+app.post('/api/discord/reminders', requireAdmin, async (c) => {
+  const result = await sendReminders(c.env, {
+    dryRun: c.req.query('dry_run') === 'true',
+    force: true,
+  });
+  return c.json(result);
+});
+
+app.get('/api/discord/test', requireAdmin, async (c) => {
   if (!c.env.DISCORD_WEBHOOK_URL) {
     return c.json({ error: 'Discord webhook not configured' }, 500);
   }
@@ -154,8 +198,16 @@ app.get('/', (c) => {
       eventsToday: '/api/events/today',
       eventsUpcoming: '/api/events/upcoming',
       eventById: '/api/events/:id',
+      eventHistory: '/api/events/:id/history',
+      changes: '/api/changes?since=',
+      search: '/api/search?q=',
       datePlanner: '/api/date-planner/suggestions',
+      submitEvent: 'POST /api/submissions',
       icalFeed: '/cal/events.ics',
+      calendarSubscriptions: 'POST /api/calendar/subscriptions',
+      eventImage: '/og/events/:id.png',
+      discordInteractions: 'POST /api/discord/interactions',
+      emailSubscribe: 'POST /api/email/subscribe',
     },
     docs: 'https://github.com/gitayam/Downtown-Guide',
   });
@@ -165,29 +217,55 @@ export default {
   fetch: app.fetch,
 
   async scheduled(event: ScheduledEvent, env: Bindings, ctx: ExecutionContext) {
-    const now = new Date();
+    // The tick's own time, so runs an hour apart are exactly an hour apart
+    const now = new Date(event.scheduledTime);
     const hour = now.getUTCHours();
 
     console.log(`Scheduled job triggered at ${now.toISOString()} (UTC hour: ${hour})`);
 
-    // Send daily digest at 13:00 UTC (8:00 AM EST)
-    if (hour === 13) {
-      console.log('Sending daily Discord digest...');
-      const result = await sendDailyDigest(env);
-      console.log(`Daily digest sent: ${result.eventCount} events, success: ${result.success}`);
+    // Daily digests for channels whose digest hour (local time) this is
+    try {
+      const digest = await sendDailyDigest(env, { now });
+      for (const result of digest.channels) {
+        console.log(`Daily digest to ${result.channel}: ${result.eventCount} events, success: ${result.success}`);
+      }
+    } catch (error) {
+      console.error('Daily digest failed:', error);
     }
 
-    // Update sources sync timestamp
+    // Sync sources whose interval has elapsed into D1
     try {
-      await env.DB.prepare(`
-        UPDATE sources
-        SET last_sync = ?
-        WHERE is_active = 1
-      `).bind(now.toISOString()).run();
+      const results = await runScheduledSync(env, now);
+      const failed = results.filter(r => r.status === 'error').map(r => r.sourceId);
 
-      console.log('Cron job completed successfully');
+      console.log(`Cron sync completed: ${results.length - failed.length}/${results.length} sources succeeded`);
+      if (failed.length > 0) {
+        console.error(`Failed sources: ${failed.join(', ')}`);
+      }
     } catch (error) {
       console.error('Cron job failed:', error);
     }
+
+    // Week-out, day-before and new-event reminders (after the sync so new
+    // events are in D1); failed sends from earlier runs are retried here too
+    try {
+      const reminders = await sendReminders(env, { now });
+      if (reminders.sent > 0 || reminders.failed > 0) {
+        console.log(`Discord reminders: ${reminders.sent} sent, ${reminders.failed} failed`);
+      }
+    } catch (error) {
+      console.error('Discord reminders failed:', error);
+    }
+
+    // Email digests (daily every morning, weekly on Thursdays); subscribers
+    // missed this hour are picked up by the next run
+    try {
+      const emails = await sendEmailDigests(env, { now });
+      if (emails.sent > 0 || emails.failed > 0) {
+        console.log(`Email digests: ${emails.sent} sent, ${emails.failed} failed`);
+      }
+    } catch (error) {
+      console.error('Email digests failed:', error);
+    }
   },
 };
\ No newline at end of file
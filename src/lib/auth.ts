@@ -0,0 +1,133 @@
+/**
+ * API token authentication
+ *
+ * Tokens are random strings handed out once and stored only as SHA-256 hashes
+ * in api_tokens. Each token carries scopes; `admin` implies every other scope.
+ * ADMIN_API_KEY (a Worker secret) still works as a break-glass admin token,
+ * e.g. to mint the first real token.
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { D1Database } from '@cloudflare/workers-types';
+import { Bindings, Variables } from '../types';
+
+export type Scope = 'admin' | 'moderator' | 'venue_owner';
+
+export const SCOPES: Scope[] = ['admin', 'moderator', 'venue_owner'];
+
+export interface AuthContext {
+  tokenId: number | null; // null for ADMIN_API_KEY
+  name: string;
+  scopes: Scope[];
+  venueIds: string[];     // Venues a venue_owner may edit
+}
+
+interface ApiTokenRow {
+  id: number;
+  name: string;
+  scopes: string;
+  venue_ids: string | null;
+  expires_at: string | null;
+}
+
+const TOKEN_PREFIX = 'fcc_';
+
+/**
+ * SHA-256 hex digest (used for tokens and IP fingerprints, never stored raw)
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * New random token, e.g. fcc_3f9a... (32 random bytes)
+ */
+export function generateToken(prefix: string = TOKEN_PREFIX): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return prefix + [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function getBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function hasScope(auth: AuthContext, scope: Scope): boolean {
+  return auth.scopes.includes('admin') || auth.scopes.includes(scope);
+}
+
+/**
+ * Resolve a bearer token to its AuthContext, or null if unknown, expired or revoked
+ */
+export async function authenticateToken(env: Bindings, token: string): Promise<AuthContext | null> {
+  const tokenHash = await sha256Hex(token);
+
+  // Compare digests so the comparison time does not depend on the key
+  if (env.ADMIN_API_KEY && tokenHash === await sha256Hex(env.ADMIN_API_KEY)) {
+    return { tokenId: null, name: 'admin', scopes: ['admin'], venueIds: [] };
+  }
+
+  const row = await env.DB.prepare(`
+    SELECT id, name, scopes, venue_ids, expires_at FROM api_tokens
+    WHERE token_hash = ? AND revoked_at IS NULL
+  `).bind(tokenHash).first<ApiTokenRow>();
+
+  if (!row) return null;
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return null;
+
+  await touchToken(env.DB, row.id);
+
+  return {
+    tokenId: row.id,
+    name: row.name,
+    scopes: parseJsonArray<Scope>(row.scopes).filter(s => SCOPES.includes(s)),
+    venueIds: parseJsonArray<string>(row.venue_ids),
+  };
+}
+
+async function touchToken(DB: D1Database, id: number): Promise<void> {
+  try {
+    await DB.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?')
+      .bind(new Date().toISOString(), id).run();
+  } catch (error) {
+    console.error('Failed to update token last_used_at:', error);
+  }
+}
+
+/**
+ * Require a valid bearer token holding `scope` (admin tokens always pass).
+ * Sets `auth`, and `actor` so handlers can record who made a change.
+ */
+export function requireScope(scope: Scope) {
+  return createMiddleware<{ Bindings: Bindings; Variables: Variables }>(async (c, next) => {
+    const token = getBearerToken(c.req.header('Authorization'));
+    if (!token) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const auth = await authenticateToken(c.env, token);
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    if (!hasScope(auth, scope)) {
+      return c.json({ error: `Forbidden: requires ${scope} scope` }, 403);
+    }
+
+    c.set('auth', auth);
+    c.set('actor', auth.name);
+    await next();
+  });
+}
+
+export const requireAdmin = requireScope('admin');
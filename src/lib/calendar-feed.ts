@@ -0,0 +1,156 @@
+/**
+ * Calendar feed queries
+ *
+ * Event selection for /cal/events.ics (one filter from the query string) and
+ * saved subscriptions at /cal/u/:token.ics (several filters ORed together,
+ * minus exclusions).
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { NearFilter, distanceSquaredSql } from './geo';
+import { VISIBLE_STATUS_SQL } from './event-status';
+
+const FEED_LIMIT = 500;
+
+/**
+ * One set of conditions; an event must match all of them
+ */
+export interface FeedFilter {
+  section?: string;
+  source?: string;
+  categories?: string[];   // Any of these
+  near?: NearFilter;       // Only filters when radiusMiles is set
+}
+
+/**
+ * Events matching any of these are dropped
+ */
+export interface FeedExclusions {
+  keywords: string[];      // Matched against title and description
+  sources: string[];
+  venues: string[];
+  categories: string[];
+}
+
+interface SqlFragment {
+  sql: string;
+  params: unknown[];
+}
+
+// Keywords are plain text: % and _ must not act as LIKE wildcards
+function likeContains(value: string): string {
+  return `%${value.replace(/[\\%_]/g, ch => `\\${ch}`)}%`;
+}
+
+function filterConditions(filter: FeedFilter): SqlFragment {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.section && filter.section !== 'all') {
+    conditions.push('e.section = ?');
+    params.push(filter.section);
+  }
+
+  if (filter.source) {
+    conditions.push('e.source_id = ?');
+    params.push(filter.source);
+  }
+
+  if (filter.categories && filter.categories.length > 0) {
+    conditions.push(`(${filter.categories.map(() => 'e.categories LIKE ?').join(' OR ')})`);
+    filter.categories.forEach(cat => params.push(`%"${cat}"%`));
+  }
+
+  // Only events at venues within radius_miles (lat/lng alone don't filter a feed)
+  if (filter.near?.radiusMiles !== undefined) {
+    const distance = distanceSquaredSql('latitude', 'longitude', filter.near);
+    conditions.push(`e.venue_id IN (
+      SELECT id FROM venues
+      WHERE latitude IS NOT NULL AND longitude IS NOT NULL AND (${distance.sql}) <= ?
+    )`);
+    params.push(...distance.params, filter.near.radiusMiles ** 2);
+  }
+
+  return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', params };
+}
+
+function exclusionConditions(exclude: FeedExclusions): SqlFragment {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  for (const keyword of exclude.keywords) {
+    conditions.push(`e.title LIKE ? ESCAPE '\\'`, `COALESCE(e.description, '') LIKE ? ESCAPE '\\'`);
+    params.push(likeContains(keyword), likeContains(keyword));
+  }
+
+  if (exclude.sources.length > 0) {
+    conditions.push(`e.source_id IN (${exclude.sources.map(() => '?').join(', ')})`);
+    params.push(...exclude.sources);
+  }
+
+  if (exclude.venues.length > 0) {
+    conditions.push(`COALESCE(e.venue_id, '') IN (${exclude.venues.map(() => '?').join(', ')})`);
+    params.push(...exclude.venues);
+  }
+
+  for (const category of exclude.categories) {
+    conditions.push(`COALESCE(e.categories, '') LIKE ?`);
+    params.push(`%"${category}"%`);
+  }
+
+  return { sql: conditions.length > 0 ? `NOT (${conditions.join(' OR ')})` : '1 = 1', params };
+}
+
+/**
+ * Upcoming events (and unfinished recurring series) for a feed, with the
+ * venue and source columns the iCal writer needs. An empty `include` matches
+ * every event.
+ */
+export async function fetchFeedEvents(
+  DB: D1Database,
+  include: FeedFilter[],
+  exclude?: FeedExclusions
+): Promise<Record<string, any>[]> {
+  const now = new Date().toISOString();
+
+  // Recently cancelled events stay in the feed (as STATUS:CANCELLED) so
+  // subscribed calendars drop them instead of keeping a stale copy
+  let query = `
+    SELECT
+      e.*,
+      v.name as venue_name,
+      v.address as venue_address,
+      v.city as venue_city,
+      v.state as venue_state,
+      v.zip as venue_zip,
+      v.latitude as venue_latitude,
+      v.longitude as venue_longitude,
+      s.name as source_name,
+      s.url as source_url
+    FROM events e
+    LEFT JOIN venues v ON e.venue_id = v.id
+    LEFT JOIN sources s ON e.source_id = s.id
+    WHERE (datetime(e.end_datetime) >= datetime(?)
+       OR (e.recurrence_rule IS NOT NULL AND (e.recurrence_end IS NULL OR datetime(e.recurrence_end) >= datetime(?))))
+      AND ${VISIBLE_STATUS_SQL}
+      AND e.canonical_event_id IS NULL
+  `;
+  const params: unknown[] = [now, now];
+
+  if (include.length > 0) {
+    const groups = include.map(filterConditions);
+    query += ` AND (${groups.map(g => `(${g.sql})`).join(' OR ')})`;
+    groups.forEach(g => params.push(...g.params));
+  }
+
+  if (exclude) {
+    const excluded = exclusionConditions(exclude);
+    query += ` AND ${excluded.sql}`;
+    params.push(...excluded.params);
+  }
+
+  query += ` ORDER BY e.featured DESC, e.start_datetime ASC LIMIT ${FEED_LIMIT}`;
+
+  const result = await DB.prepare(query).bind(...params).all();
+  return result.results || [];
+}
@@ -0,0 +1,208 @@
+/**
+ * Personal calendar subscriptions (calendar_subscriptions)
+ *
+ * A subscription is a named filter set behind a stable /cal/u/:token.ics URL.
+ * The feed token only reads; a separate edit token (returned once, at
+ * creation) is needed to change or delete the filters. Both are stored as
+ * SHA-256 hashes.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { generateToken, sha256Hex } from './auth';
+import { FeedExclusions, FeedFilter } from './calendar-feed';
+import { parseNearQuery } from './geo';
+
+export const MAX_ALARM_MINUTES = 7 * 24 * 60;  // One week
+
+const MAX_INCLUDE = 10;
+const MAX_LIST = 50;
+const MAX_NAME = 100;
+const MAX_VALUE = 100;
+
+// One include filter as sent and stored (same names as /cal/events.ics params)
+export interface SavedFilter {
+  section?: string;
+  source?: string;
+  categories?: string[];
+  lat?: number;
+  lng?: number;
+  radius_miles?: number;
+}
+
+export interface SavedFilterSet {
+  include: SavedFilter[];       // ORed together; empty = every event
+  exclude: FeedExclusions;
+  alarm_minutes: number | null;
+}
+
+export interface CalendarSubscriptionRow {
+  id: number;
+  name: string;
+  filters: string;
+  edit_token_hash: string;
+  created_at: string;
+  updated_at: string;
+  last_fetched_at: string | null;
+  fetch_count: number;
+}
+
+function stringList(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    errors.push(`${field} must be an array of strings`);
+    return [];
+  }
+  const list = [...new Set(value.map(v => v.trim()).filter(Boolean))];
+  if (list.length > MAX_LIST) errors.push(`${field} may have at most ${MAX_LIST} entries`);
+  if (list.some(v => v.length > MAX_VALUE)) errors.push(`${field} entries must be at most ${MAX_VALUE} characters`);
+  return list;
+}
+
+function optionalString(value: unknown, field: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > MAX_VALUE) {
+    errors.push(`${field} must be a string of at most ${MAX_VALUE} characters`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+function validateFilter(value: unknown, field: string, errors: string[]): SavedFilter {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${field} must be an object`);
+    return {};
+  }
+  const raw = value as Record<string, unknown>;
+  const filter: SavedFilter = {
+    section: optionalString(raw.section, `${field}.section`, errors),
+    source: optionalString(raw.source, `${field}.source`, errors),
+    categories: stringList(raw.categories, `${field}.categories`, errors),
+  };
+
+  if (raw.lat !== undefined || raw.lng !== undefined || raw.radius_miles !== undefined) {
+    const { near, error } = parseNearQuery({
+      lat: raw.lat === undefined ? undefined : String(raw.lat),
+      lng: raw.lng === undefined ? undefined : String(raw.lng),
+      radius_miles: raw.radius_miles === undefined ? undefined : String(raw.radius_miles),
+    });
+    if (error) errors.push(`${field}: ${error}`);
+    if (near) {
+      filter.lat = near.latitude;
+      filter.lng = near.longitude;
+      filter.radius_miles = near.radiusMiles;
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Validate a filter set body:
+ * { include: [{ section, source, categories, lat, lng, radius_miles }],
+ *   exclude: { keywords, sources, venues, categories }, alarm_minutes }
+ */
+export function validateFilterSet(body: Record<string, unknown>): { value: SavedFilterSet; errors: string[] } {
+  const errors: string[] = [];
+
+  let include: SavedFilter[] = [];
+  if (body.include !== undefined && body.include !== null) {
+    if (!Array.isArray(body.include)) {
+      errors.push('include must be an array of filters');
+    } else if (body.include.length > MAX_INCLUDE) {
+      errors.push(`include may have at most ${MAX_INCLUDE} filters`);
+    } else {
+      include = body.include.map((filter, i) => validateFilter(filter, `include[${i}]`, errors));
+    }
+  }
+
+  const rawExclude = (body.exclude ?? {}) as Record<string, unknown>;
+  if (typeof rawExclude !== 'object' || Array.isArray(rawExclude)) {
+    errors.push('exclude must be an object');
+  }
+  const exclude: FeedExclusions = {
+    keywords: stringList(rawExclude.keywords, 'exclude.keywords', errors),
+    sources: stringList(rawExclude.sources, 'exclude.sources', errors),
+    venues: stringList(rawExclude.venues, 'exclude.venues', errors),
+    categories: stringList(rawExclude.categories, 'exclude.categories', errors),
+  };
+
+  let alarmMinutes: number | null = null;
+  if (body.alarm_minutes !== undefined && body.alarm_minutes !== null) {
+    const minutes = body.alarm_minutes;
+    if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 0 || minutes > MAX_ALARM_MINUTES) {
+      errors.push(`alarm_minutes must be a whole number between 0 and ${MAX_ALARM_MINUTES}`);
+    } else {
+      alarmMinutes = minutes;
+    }
+  }
+
+  return { value: { include, exclude, alarm_minutes: alarmMinutes }, errors };
+}
+
+export function validateName(value: unknown, errors: string[]): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push('name is required');
+    return '';
+  }
+  if (value.trim().length > MAX_NAME) {
+    errors.push(`name must be at most ${MAX_NAME} characters`);
+  }
+  return value.trim();
+}
+
+export function parseFilterSet(json: string): SavedFilterSet {
+  return validateFilterSet(JSON.parse(json)).value;
+}
+
+export function toFeedFilters(filters: SavedFilterSet): FeedFilter[] {
+  return filters.include.map(({ lat, lng, radius_miles, ...rest }) => ({
+    ...rest,
+    near: lat !== undefined && lng !== undefined
+      ? { latitude: lat, longitude: lng, radiusMiles: radius_miles }
+      : undefined,
+  }));
+}
+
+/**
+ * Store a new subscription. Returns the plaintext tokens; they are not kept.
+ */
+export async function createSubscription(
+  DB: D1Database,
+  name: string,
+  filters: SavedFilterSet
+): Promise<{ token: string; editToken: string }> {
+  const token = generateToken('cal_');
+  const editToken = generateToken('cale_');
+  const now = new Date().toISOString();
+
+  await DB.prepare(`
+    INSERT INTO calendar_subscriptions (name, token_hash, edit_token_hash, filters, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).bind(name, await sha256Hex(token), await sha256Hex(editToken), JSON.stringify(filters), now, now).run();
+
+  return { token, editToken };
+}
+
+export async function findSubscription(DB: D1Database, token: string): Promise<CalendarSubscriptionRow | null> {
+  return DB.prepare(`
+    SELECT id, name, filters, edit_token_hash, created_at, updated_at, last_fetched_at, fetch_count
+    FROM calendar_subscriptions
+    WHERE token_hash = ?
+  `).bind(await sha256Hex(token)).first<CalendarSubscriptionRow>();
+}
+
+export async function canEdit(row: CalendarSubscriptionRow, editToken: string | undefined): Promise<boolean> {
+  return !!editToken && await sha256Hex(editToken) === row.edit_token_hash;
+}
+
+export async function recordFetch(DB: D1Database, id: number): Promise<void> {
+  try {
+    await DB.prepare(`
+      UPDATE calendar_subscriptions
+      SET last_fetched_at = ?, fetch_count = COALESCE(fetch_count, 0) + 1
+      WHERE id = ?
+    `).bind(new Date().toISOString(), id).run();
+  } catch (error) {
+    console.error('Failed to record calendar subscription fetch:', error);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Category taxonomy
+ *
+ * Events store category labels ("Live Music"). The categories table is the
+ * canonical list with each label's emoji, color, display order and optional
+ * parent; category_mappings points the raw labels sources use ("chamber
+ * music") at a category. Sync normalization, Discord embeds, share cards and
+ * the web filter all read the taxonomy from here.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CategoryRow {
+  slug: string;
+  label: string;
+  emoji: string | null;
+  color: string | null;
+  display_order: number;
+  parent_slug: string | null;
+}
+
+export interface CategoryMappingRow {
+  raw_label: string;
+  category_slug: string;
+}
+
+export interface CategoryTaxonomy {
+  categories: CategoryRow[];              // Display order
+  bySlug: Map<string, CategoryRow>;
+  byLabel: Map<string, CategoryRow>;      // Lowercased label
+  mappings: Map<string, CategoryRow>;     // Lowercased raw label
+}
+
+/**
+ * A category as the API returns it, with emoji and color inherited from the
+ * parent when the category has none of its own
+ */
+export interface PublicCategory {
+  slug: string;
+  label: string;
+  emoji: string | null;
+  color: string | null;
+  display_order: number;
+  parent: string | null;
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MAX_SLUG = 40;
+const MAX_LABEL = 50;
+const MAX_RAW_LABEL = 100;
+const MAX_EMOJI = 16;
+
+/**
+ * Key raw labels are looked up by
+ */
+export function rawLabelKey(label: string): string {
+  return label.toLowerCase().trim();
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+export function buildTaxonomy(categories: CategoryRow[], mappings: CategoryMappingRow[]): CategoryTaxonomy {
+  const sorted = [...categories].sort((a, b) => a.display_order - b.display_order || a.label.localeCompare(b.label));
+  const bySlug = new Map(sorted.map(category => [category.slug, category]));
+  const byLabel = new Map(sorted.map(category => [rawLabelKey(category.label), category]));
+
+  const mapped = new Map<string, CategoryRow>();
+  for (const mapping of mappings) {
+    const category = bySlug.get(mapping.category_slug);
+    if (category) mapped.set(rawLabelKey(mapping.raw_label), category);
+  }
+
+  return { categories: sorted, bySlug, byLabel, mappings: mapped };
+}
+
+export async function loadTaxonomy(DB: D1Database): Promise<CategoryTaxonomy> {
+  const [categories, mappings] = await DB.batch([
+    DB.prepare('SELECT slug, label, emoji, color, display_order, parent_slug FROM categories'),
+    DB.prepare('SELECT raw_label, category_slug FROM category_mappings'),
+  ]);
+  return buildTaxonomy(
+    (categories.results || []) as CategoryRow[],
+    (mappings.results || []) as CategoryMappingRow[]
+  );
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+export function toPublicCategory(taxonomy: CategoryTaxonomy, category: CategoryRow): PublicCategory {
+  const parent = category.parent_slug ? taxonomy.bySlug.get(category.parent_slug) : undefined;
+  return {
+    slug: category.slug,
+    label: category.label,
+    emoji: category.emoji || parent?.emoji || null,
+    color: category.color || parent?.color || null,
+    display_order: category.display_order,
+    parent: category.parent_slug,
+  };
+}
+
+/**
+ * Emoji for a stored category label, or null for labels outside the taxonomy
+ */
+export function categoryEmoji(taxonomy: CategoryTaxonomy, label: string): string | null {
+  const category = taxonomy.byLabel.get(rawLabelKey(label));
+  return category ? toPublicCategory(taxonomy, category).emoji : null;
+}
+
+/**
+ * Map raw source labels to canonical category labels, in display order.
+ * A raw label matches a mapping first, then a category's own label or slug;
+ * anything else is kept as is (capitalized) and sorts after the taxonomy.
+ */
+export function normalizeCategories(categories: string[], taxonomy: CategoryTaxonomy): string[] {
+  const normalized = new Set<string>();
+
+  for (const cat of categories) {
+    const key = rawLabelKey(cat);
+    const category = taxonomy.mappings.get(key) || taxonomy.byLabel.get(key) || taxonomy.bySlug.get(key);
+
+    if (category) {
+      normalized.add(category.label);
+    } else {
+      normalized.add(cat.charAt(0).toUpperCase() + cat.slice(1));
+    }
+  }
+
+  const order = (label: string) => taxonomy.categories.indexOf(taxonomy.byLabel.get(rawLabelKey(label))!);
+  return Array.from(normalized).sort((a, b) => {
+    const aIdx = order(a);
+    const bIdx = order(b);
+    if (aIdx === -1 && bIdx === -1) return a.localeCompare(b);
+    if (aIdx === -1) return 1;
+    if (bIdx === -1) return -1;
+    return aIdx - bIdx;
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export interface CategoryInput {
+  slug?: string;
+  label?: string;
+  emoji?: string | null;
+  color?: string | null;
+  display_order?: number;
+  parent_slug?: string | null;
+}
+
+/**
+ * Validate a category body. `partial` is for PATCH (the slug can't change).
+ * Parents are checked against the taxonomy: one level deep, so a parent
+ * can't itself have a parent.
+ */
+export function validateCategory(
+  body: Record<string, unknown>,
+  taxonomy: CategoryTaxonomy,
+  existing?: CategoryRow
+): { value: CategoryInput; errors: string[] } {
+  const errors: string[] = [];
+  const value: CategoryInput = {};
+  const slug = existing?.slug ?? body.slug;
+
+  if (!existing) {
+    if (typeof body.slug !== 'string' || !SLUG_PATTERN.test(body.slug) || body.slug.length > MAX_SLUG) {
+      errors.push(`slug is required (lowercase letters, numbers and dashes, at most ${MAX_SLUG} characters)`);
+    } else if (taxonomy.bySlug.has(body.slug)) {
+      errors.push(`slug ${body.slug} is already used`);
+    } else {
+      value.slug = body.slug;
+    }
+  }
+
+  if (body.label !== undefined || !existing) {
+    const label = typeof body.label === 'string' ? body.label.trim() : '';
+    const other = taxonomy.byLabel.get(rawLabelKey(label));
+    if (!label || label.length > MAX_LABEL) {
+      errors.push(`label is required (at most ${MAX_LABEL} characters)`);
+    } else if (other && other.slug !== slug) {
+      errors.push(`label ${label} is already used by ${other.slug}`);
+    } else {
+      value.label = label;
+    }
+  }
+
+  if (body.emoji !== undefined) {
+    if (body.emoji !== null && (typeof body.emoji !== 'string' || !body.emoji.trim() || body.emoji.length > MAX_EMOJI)) {
+      errors.push('emoji must be a short string or null');
+    } else {
+      value.emoji = typeof body.emoji === 'string' ? body.emoji.trim() : null;
+    }
+  }
+
+  if (body.color !== undefined) {
+    if (body.color !== null && (typeof body.color !== 'string' || !COLOR_PATTERN.test(body.color))) {
+      errors.push('color must be a hex color like #A65D57, or null');
+    } else {
+      value.color = body.color as string | null;
+    }
+  }
+
+  if (body.display_order !== undefined) {
+    if (typeof body.display_order !== 'number' || !Number.isInteger(body.display_order)) {
+      errors.push('display_order must be a whole number');
+    } else {
+      value.display_order = body.display_order;
+    }
+  }
+
+  if (body.parent !== undefined) {
+    const parent = typeof body.parent === 'string' ? taxonomy.bySlug.get(body.parent) : undefined;
+    const hasChildren = existing && taxonomy.categories.some(category => category.parent_slug === existing.slug);
+    if (body.parent === null) {
+      value.parent_slug = null;
+    } else if (!parent) {
+      errors.push('parent must be the slug of an existing category, or null');
+    } else if (parent.slug === slug || parent.parent_slug) {
+      errors.push('parent must be a top-level category other than this one');
+    } else if (hasChildren) {
+      errors.push('a category with subcategories can\'t have a parent');
+    } else {
+      value.parent_slug = parent.slug;
+    }
+  }
+
+  return { value, errors };
+}
+
+/**
+ * Validate a { raw_label, category } mapping body
+ */
+export function validateMapping(
+  body: Record<string, unknown>,
+  taxonomy: CategoryTaxonomy
+): { value: CategoryMappingRow; errors: string[] } {
+  const errors: string[] = [];
+  const rawLabel = typeof body.raw_label === 'string' ? rawLabelKey(body.raw_label) : '';
+
+  if (!rawLabel || rawLabel.length > MAX_RAW_LABEL) {
+    errors.push(`raw_label is required (at most ${MAX_RAW_LABEL} characters)`);
+  }
+  if (typeof body.category !== 'string' || !taxonomy.bySlug.has(body.category)) {
+    errors.push('category must be the slug of an existing category');
+  }
+
+  return { value: { raw_label: rawLabel, category_slug: String(body.category) }, errors };
+}
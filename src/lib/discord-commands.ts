@@ -0,0 +1,270 @@
+/**
+ * Slash command handlers
+ *
+ * Replies reuse the digest's section embeds (SECTION_COLORS/SECTION_EMOJIS).
+ * /plan-date answers with a deferred response and edits it once the plan is
+ * ready, since planning can take longer than Discord's 3 second limit.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { Bindings } from '../types';
+import { DiscordEmbed, buildEventEmbed, buildSectionEmbeds } from './discord';
+import {
+  Interaction, InteractionResponse, InteractionResponseType, EPHEMERAL,
+  isBudget, isVibe, optionValue, reply, subcommand,
+} from './discord-interactions';
+import { fetchEvents } from './events';
+import { LIVE_STATUS_SQL } from './event-status';
+import { buildFtsQuery } from './search';
+import { SUBSCRIPTION_TYPES } from './reminders';
+import { ReminderType } from './notification-channels';
+import { TIMEZONE, localDateString, localDayRange, weekendRange } from './timezone';
+import { generateDatePlan, DatePlan } from '../services/date-generator';
+
+const SITE_URL = 'https://fayetteville-events.pages.dev';
+
+const MAX_LISTED = 25;
+const MAX_SUBSCRIPTIONS = 25;  // Upcoming reminders per user
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+// ============================================================================
+// /events
+// ============================================================================
+
+function listReply(title: string, url: string, events: Record<string, any>[], empty: string): InteractionResponse {
+  if (events.length === 0) return reply(empty);
+
+  const header: DiscordEmbed = {
+    title,
+    description: `**${events.length}${events.length === MAX_LISTED ? '+' : ''}** event${events.length !== 1 ? 's' : ''}`,
+    url,
+    color: 0xA65D57,
+  };
+
+  return {
+    type: InteractionResponseType.CHANNEL_MESSAGE,
+    data: { embeds: [header, ...buildSectionEmbeds(events)].slice(0, 10) },
+  };
+}
+
+async function eventsCommand(DB: D1Database, interaction: Interaction): Promise<InteractionResponse> {
+  const options = interaction.data?.options;
+  const now = new Date();
+
+  switch (subcommand(options)) {
+    case 'today': {
+      // Events still on now that start before the end of today; `to` is inclusive
+      const today = localDayRange(now);
+      const events = await fetchEvents(DB, { to: new Date(today.to.getTime() - 1).toISOString(), limit: MAX_LISTED });
+      const date = today.from.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: TIMEZONE });
+      return listReply(`📅 Today in Fayetteville · ${date}`, SITE_URL, events, 'No more events today. Try `/events weekend`.');
+    }
+
+    case 'weekend': {
+      const weekend = weekendRange(now);
+      const events = await fetchEvents(DB, {
+        from: weekend.from.toISOString(),
+        to: new Date(weekend.to.getTime() - 1).toISOString(),
+        limit: MAX_LISTED,
+      });
+      return listReply('🎉 This Weekend in Fayetteville', SITE_URL, events, 'Nothing listed for this weekend yet.');
+    }
+
+    case 'search': {
+      const query = (optionValue(options, 'query') || '').trim();
+      if (!buildFtsQuery(query) || query.length > 200) {
+        return reply('Search for a word or phrase (up to 200 characters).', true);
+      }
+      const events = await fetchEvents(DB, { search: query, limit: 10 });
+      return listReply(`🔍 Events matching "${query}"`, SITE_URL, events, `No upcoming events match "${query}".`);
+    }
+
+    default:
+      return reply('Use `/events today`, `/events weekend` or `/events search`.', true);
+  }
+}
+
+// ============================================================================
+// /event
+// ============================================================================
+
+async function findEvent(DB: D1Database, id: string) {
+  return DB.prepare(`
+    SELECT e.*, s.name as source_name, v.name as venue_name, v.address as venue_address
+    FROM events e
+    LEFT JOIN sources s ON e.source_id = s.id
+    LEFT JOIN venues v ON e.venue_id = v.id
+    WHERE e.id = ?
+  `).bind(id).first<Record<string, any>>();
+}
+
+// Accept a pasted event link as well as a bare id
+function eventId(input: string | undefined): string {
+  const value = (input || '').trim();
+  return value.match(/\/events\/([^/?#\s]+)/)?.[1] ?? value;
+}
+
+async function eventCommand(DB: D1Database, interaction: Interaction): Promise<InteractionResponse> {
+  const id = eventId(optionValue(interaction.data?.options, 'id'));
+  const event = id ? await findEvent(DB, id) : null;
+
+  if (!event) {
+    return reply(`No event with id \`${id.slice(0, 100)}\`. Find one with \`/events search\`.`, true);
+  }
+
+  return {
+    type: InteractionResponseType.CHANNEL_MESSAGE,
+    data: { embeds: [buildEventEmbed(event)] },
+  };
+}
+
+// ============================================================================
+// /plan-date
+// ============================================================================
+
+function planEmbed(plan: DatePlan, vibe: string, budget: string): DiscordEmbed {
+  const hours = Math.round(plan.totalDuration / 30) / 2;
+
+  return {
+    title: `💕 ${plan.title}`.slice(0, 256),
+    description: `${hours} hours · about $${Math.round(plan.estimatedCost)} · ${vibe.replace(/_/g, ' ')} · ${budget}`,
+    url: `${SITE_URL}/plan-date`,
+    color: 0xA65D57,
+    fields: plan.stops.slice(0, 8).map(stop => ({
+      name: `${stop.order}. ${stop.activity}`.slice(0, 256),
+      value: [
+        stop.event ? `**[${stop.event.title}](${SITE_URL}/events/${stop.event.id})**` : stop.venue?.name ? `**${stop.venue.name}**` : null,
+        stop.notes || null,
+      ].filter(Boolean).join('\n').slice(0, 1024) || '—',
+      inline: false,
+    })),
+    footer: { text: 'Fayetteville Central Calendar · Customize it on the date planner' },
+  };
+}
+
+async function finishDatePlan(interaction: Interaction, DB: D1Database, vibe: string, budget: string): Promise<void> {
+  let body: { content?: string; embeds?: DiscordEmbed[] };
+  try {
+    const plan = await generateDatePlan(DB, {
+      event_type: 'date_night',
+      budget_range: budget,
+      vibes: [vibe],
+      duration_hours: 3,
+      date: localDateString(new Date()),
+      time_of_day: 'evening',
+    });
+    body = plan.stops.length > 0
+      ? { embeds: [planEmbed(plan, vibe, budget)] }
+      : { content: `Couldn't put together a ${budget} date tonight. Try a different budget or vibe.` };
+  } catch (error) {
+    console.error('Discord /plan-date error:', error);
+    body = { content: 'Something went wrong planning your date. Try again in a bit.' };
+  }
+
+  // Edit the "thinking..." message
+  const response = await fetch(
+    `https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`,
+    { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+  );
+  if (!response.ok) {
+    console.error(`Discord /plan-date follow-up failed: HTTP ${response.status}`);
+  }
+}
+
+function planDateCommand(DB: D1Database, interaction: Interaction, waitUntil: WaitUntil): InteractionResponse {
+  const options = interaction.data?.options;
+  const vibe = optionValue(options, 'vibe');
+  const budget = optionValue(options, 'budget');
+
+  waitUntil(finishDatePlan(interaction, DB, isVibe(vibe) ? vibe : 'romantic', isBudget(budget) ? budget : '$$'));
+  return { type: InteractionResponseType.DEFERRED_CHANNEL_MESSAGE };
+}
+
+// ============================================================================
+// /subscribe
+// ============================================================================
+
+async function subscribeCommand(env: Bindings, interaction: Interaction): Promise<InteractionResponse> {
+  if (!env.DISCORD_BOT_TOKEN) {
+    return reply('Event reminders by DM are not set up on this server yet.', true);
+  }
+
+  const user = interaction.member?.user || interaction.user;
+  if (!user) return reply('Could not tell who you are.', true);
+
+  const options = interaction.data?.options;
+  const id = eventId(optionValue(options, 'event'));
+  const when = (optionValue(options, 'when') || '1_day') as ReminderType;
+  if (!SUBSCRIPTION_TYPES.includes(when)) {
+    return reply('`when` must be the day before or a week before.', true);
+  }
+
+  const event = await env.DB.prepare(`
+    SELECT e.id, e.title, e.start_datetime, e.recurrence_rule FROM events e
+    WHERE e.id = ? AND ${LIVE_STATUS_SQL}
+  `).bind(id).first<{ id: string; title: string; start_datetime: string; recurrence_rule: string | null }>();
+
+  if (!event) {
+    return reply(`No upcoming event with id \`${id.slice(0, 100)}\`. Find one with \`/events search\`.`, true);
+  }
+  if (event.recurrence_rule) {
+    return reply('Reminders for repeating events are not supported yet.', true);
+  }
+
+  // The reminder goes out on the local day 1 (or 7) days before the event,
+  // so the event has to start on or after that many days from today
+  const now = new Date();
+  const earliest = localDayRange(now, TIMEZONE, when === '1_week' ? 7 : 1).from;
+  if (new Date(event.start_datetime) < earliest) {
+    return reply(when === '1_week'
+      ? `**${event.title}** is less than a week away. Try \`when: The day before\`.`
+      : `**${event.title}** is today or has already started, so it is too late for a reminder.`, true);
+  }
+
+  const count = await env.DB.prepare(`
+    SELECT COUNT(*) as total FROM discord_subscriptions ds
+    JOIN events e ON e.id = ds.event_id
+    WHERE ds.user_id = ? AND datetime(e.start_datetime) > datetime(?)
+  `).bind(user.id, now.toISOString()).first<{ total: number }>();
+  if ((count?.total || 0) >= MAX_SUBSCRIPTIONS) {
+    return reply(`You already have ${MAX_SUBSCRIPTIONS} upcoming reminders.`, true);
+  }
+
+  await env.DB.prepare(`
+    INSERT INTO discord_subscriptions (user_id, event_id, reminder_type, guild_id, created_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(user_id, event_id, reminder_type) DO NOTHING
+  `).bind(user.id, event.id, when, interaction.guild_id ?? null, now.toISOString()).run();
+
+  const date = new Date(event.start_datetime).toLocaleDateString('en-US', {
+    weekday: 'long', month: 'long', day: 'numeric', timeZone: TIMEZONE,
+  });
+  return {
+    type: InteractionResponseType.CHANNEL_MESSAGE,
+    data: {
+      content: `🔔 I'll DM you ${when === '1_week' ? 'a week' : 'the day'} before **${event.title}** (${date}). ` +
+        'Make sure direct messages from server members are allowed.',
+      flags: EPHEMERAL,
+    },
+  };
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+export async function handleCommand(env: Bindings, interaction: Interaction, waitUntil: WaitUntil): Promise<InteractionResponse> {
+  switch (interaction.data?.name) {
+    case 'events':
+      return eventsCommand(env.DB, interaction);
+    case 'event':
+      return eventCommand(env.DB, interaction);
+    case 'plan-date':
+      return planDateCommand(env.DB, interaction, waitUntil);
+    case 'subscribe':
+      return subscribeCommand(env, interaction);
+    default:
+      return reply('Unknown command.', true);
+  }
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyDiscordSignature } from './discord-interactions';
+
+const toHex = (buffer: ArrayBuffer) => Buffer.from(buffer).toString('hex');
+
+async function keyPair() {
+  const pair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  return { privateKey: pair.privateKey, publicKeyHex: toHex(await crypto.subtle.exportKey('raw', pair.publicKey)) };
+}
+
+async function sign(privateKey: CryptoKey, timestamp: string, body: string): Promise<string> {
+  return toHex(await crypto.subtle.sign('Ed25519', privateKey, new TextEncoder().encode(timestamp + body)));
+}
+
+const body = JSON.stringify({ type: 1 });
+const now = Date.parse('2026-10-19T12:00:00Z');
+const timestamp = String(now / 1000);
+
+test('a request signed with the application key is accepted', async () => {
+  const { privateKey, publicKeyHex } = await keyPair();
+  const signature = await sign(privateKey, timestamp, body);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, signature, timestamp, body, now), true);
+});
+
+test('a tampered body or timestamp is rejected', async () => {
+  const { privateKey, publicKeyHex } = await keyPair();
+  const signature = await sign(privateKey, timestamp, body);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, signature, timestamp, JSON.stringify({ type: 2 }), now), false);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, signature, String(now / 1000 + 1), body, now), false);
+});
+
+test('a request signed with another key is rejected', async () => {
+  const { privateKey } = await keyPair();
+  const { publicKeyHex } = await keyPair();
+  const signature = await sign(privateKey, timestamp, body);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, signature, timestamp, body, now), false);
+});
+
+test('a validly signed request with a stale timestamp is rejected', async () => {
+  const { privateKey, publicKeyHex } = await keyPair();
+  const stale = String(now / 1000 - 10 * 60);
+  const signature = await sign(privateKey, stale, body);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, signature, stale, body, now), false);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, signature, stale, body, now - 9 * 60 * 1000), true);
+});
+
+test('missing or malformed headers are rejected', async () => {
+  const { publicKeyHex } = await keyPair();
+  assert.equal(await verifyDiscordSignature(publicKeyHex, null, timestamp, body, now), false);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, 'not-hex', timestamp, body, now), false);
+  assert.equal(await verifyDiscordSignature(publicKeyHex, 'ab'.repeat(64), null, body, now), false);
+});
@@ -0,0 +1,206 @@
+/**
+ * Discord interactions (slash commands)
+ *
+ * Discord POSTs every command to /api/discord/interactions, signed with the
+ * application's Ed25519 key: X-Signature-Ed25519 is the signature of
+ * X-Signature-Timestamp + raw body. Unsigned or badly signed requests must
+ * get a 401; Discord sends some on purpose when the endpoint URL is saved.
+ * Requests with a stale timestamp are refused too, so a captured request
+ * can't be replayed later.
+ *
+ * COMMANDS is what scripts/register-discord-commands.ts registers.
+ */
+
+import { DiscordEmbed } from './discord';
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+export const InteractionType = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+} as const;
+
+export const InteractionResponseType = {
+  PONG: 1,
+  CHANNEL_MESSAGE: 4,
+  DEFERRED_CHANNEL_MESSAGE: 5,  // "Thinking..."; the answer is sent as an edit within 15 minutes
+} as const;
+
+// Only the user who ran the command sees the reply
+export const EPHEMERAL = 1 << 6;
+
+const OptionType = {
+  SUB_COMMAND: 1,
+  STRING: 3,
+} as const;
+
+export interface InteractionOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: InteractionOption[];
+}
+
+export interface Interaction {
+  id: string;
+  application_id: string;
+  type: number;
+  token: string;
+  data?: { name: string; options?: InteractionOption[] };
+  guild_id?: string;
+  member?: { user: { id: string; username: string } };  // In servers
+  user?: { id: string; username: string };              // In DMs
+}
+
+export interface InteractionResponse {
+  type: number;
+  data?: { content?: string; embeds?: DiscordEmbed[]; flags?: number };
+}
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+// How far X-Signature-Timestamp (Unix seconds) may be from our clock
+const MAX_TIMESTAMP_SKEW_SECONDS = 5 * 60;
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Check a request's Ed25519 signature against the application public key
+ * (hex, as shown in the Discord developer portal). Takes plain values so it
+ * can be checked against a locally generated key pair.
+ */
+export async function verifyDiscordSignature(
+  publicKeyHex: string,
+  signatureHex: string | null | undefined,
+  timestamp: string | null | undefined,
+  body: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  const publicKey = hexToBytes(publicKeyHex || '');
+  const signature = hexToBytes(signatureHex || '');
+  if (!publicKey || publicKey.length !== 32 || !signature || signature.length !== 64 || !timestamp) {
+    return false;
+  }
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > MAX_TIMESTAMP_SKEW_SECONDS) {
+    return false;
+  }
+
+  try {
+    const key = await crypto.subtle.importKey('raw', publicKey, { name: 'Ed25519' }, false, ['verify']);
+    return await crypto.subtle.verify('Ed25519', key, signature, new TextEncoder().encode(timestamp + body));
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+// Same ids as GET /api/date-planner/suggestions
+const VIBES = [
+  'romantic', 'fun', 'relaxed', 'adventurous', 'cultural', 'outdoors',
+  'foodie', 'artsy', 'sporty', 'cozy', 'upscale', 'budget_friendly',
+];
+const BUDGETS = ['$', '$$', '$$$', '$$$$'];
+
+function label(id: string): string {
+  return id.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+export const COMMANDS = [
+  {
+    name: 'events',
+    description: 'Find events in Fayetteville',
+    options: [
+      { type: OptionType.SUB_COMMAND, name: 'today', description: "Today's events" },
+      { type: OptionType.SUB_COMMAND, name: 'weekend', description: "This weekend's events" },
+      {
+        type: OptionType.SUB_COMMAND,
+        name: 'search',
+        description: 'Search upcoming events',
+        options: [{ type: OptionType.STRING, name: 'query', description: 'e.g. jazz, "art walk"', required: true, max_length: 200 }],
+      },
+    ],
+  },
+  {
+    name: 'event',
+    description: 'Show one event',
+    options: [{ type: OptionType.STRING, name: 'id', description: 'Event id (from its ncfayetteville.com link)', required: true }],
+  },
+  {
+    name: 'plan-date',
+    description: 'Plan a date for tonight',
+    options: [
+      {
+        type: OptionType.STRING,
+        name: 'vibe',
+        description: 'What kind of date',
+        choices: VIBES.map(vibe => ({ name: label(vibe), value: vibe })),
+      },
+      {
+        type: OptionType.STRING,
+        name: 'budget',
+        description: 'Spend per person',
+        choices: BUDGETS.map(budget => ({ name: budget, value: budget })),
+      },
+    ],
+  },
+  {
+    name: 'subscribe',
+    description: 'Get a DM reminder before an event',
+    options: [
+      { type: OptionType.STRING, name: 'event', description: 'Event id (from its ncfayetteville.com link)', required: true },
+      {
+        type: OptionType.STRING,
+        name: 'when',
+        description: 'When to remind you (default: the day before)',
+        choices: [
+          { name: 'The day before', value: '1_day' },
+          { name: 'A week before', value: '1_week' },
+        ],
+      },
+    ],
+  },
+];
+
+export function isVibe(value: unknown): value is string {
+  return typeof value === 'string' && VIBES.includes(value);
+}
+
+export function isBudget(value: unknown): value is string {
+  return typeof value === 'string' && BUDGETS.includes(value);
+}
+
+/**
+ * Value of a command option, looking inside a subcommand if there is one
+ */
+export function optionValue(options: InteractionOption[] | undefined, name: string): string | undefined {
+  for (const option of options || []) {
+    if (option.name === name && option.value !== undefined) return String(option.value);
+    if (option.type === OptionType.SUB_COMMAND) {
+      const nested = optionValue(option.options, name);
+      if (nested !== undefined) return nested;
+    }
+  }
+  return undefined;
+}
+
+export function subcommand(options: InteractionOption[] | undefined): string | undefined {
+  return options?.find(option => option.type === OptionType.SUB_COMMAND)?.name;
+}
+
+export function reply(content: string, ephemeral = false): InteractionResponse {
+  return { type: InteractionResponseType.CHANNEL_MESSAGE, data: { content, ...(ephemeral ? { flags: EPHEMERAL } : {}) } };
+}
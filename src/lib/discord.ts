@@ -1,7 +1,11 @@
 
+import { fetchDigestEvents } from './events';
+import { statusNote } from './event-status';
+import { DEFAULT_DIGEST_HOUR, NotificationChannel, loadChannels, markDigestSent, matchesFilters } from './notification-channels';
+import { TIMEZONE, localDateString, localDayRange, toWallTime } from './timezone';
 import { Bindings } from '../types';
 
-interface DiscordEmbed {
+export interface DiscordEmbed {
   title: string;
   description?: string;
   url?: string;
@@ -9,24 +13,25 @@ interface DiscordEmbed {
   fields?: { name: string; value: string; inline?: boolean }[];
   footer?: { text: string };
   thumbnail?: { url: string };
+  image?: { url: string };
   timestamp?: string;
 }
 
-interface DiscordWebhookPayload {
+export interface DiscordWebhookPayload {
   content?: string;
   embeds?: DiscordEmbed[];
   username?: string;
   avatar_url?: string;
 }
 
-const SECTION_COLORS: Record<string, number> = {
+export const SECTION_COLORS: Record<string, number> = {
   downtown: 0xA65D57,  // brick
   crown: 0x2D6A4F,     // capefear
   fort_bragg: 0x1E3A5F, // liberty
   default: 0x4A5568,   // gray
 };
 
-const SECTION_EMOJIS: Record<string, string> = {
+export const SECTION_EMOJIS: Record<string, string> = {
   downtown: '🏙️',
   crown: '🏟️',
   fort_bragg: '🎖️',
@@ -40,7 +45,7 @@ function formatEventTime(dateStr: string): string {
     day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
-    timeZone: 'America/New_York',
+    timeZone: TIMEZONE,
   });
 }
 
@@ -49,75 +54,96 @@ function truncateText(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + '...';
 }
 
-export async function sendDiscordMessage(webhookUrl: string, payload: DiscordWebhookPayload): Promise<boolean> {
+export interface WebhookResult {
+  ok: boolean;
+  messageId: string | null;
+  error: string | null;
+}
+
+/**
+ * Post to a webhook and wait for the created message, so callers get its id
+ * or a readable error (status, body, Retry-After on 429)
+ */
+export async function executeWebhook(webhookUrl: string, payload: DiscordWebhookPayload): Promise<WebhookResult> {
   try {
-    const response = await fetch(webhookUrl, {
+    const url = new URL(webhookUrl);
+    url.searchParams.set('wait', 'true');
+    const response = await fetch(url.toString(), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload),
     });
 
     if (!response.ok) {
-      console.error('Discord webhook failed:', response.status, await response.text());
-      return false;
+      const retryAfter = response.headers.get('Retry-After');
+      const body = truncateText(await response.text(), 300);
+      const error = `HTTP ${response.status}${retryAfter ? ` (retry after ${retryAfter}s)` : ''}: ${body}`;
+      console.error('Discord webhook failed:', error);
+      return { ok: false, messageId: null, error };
     }
-    return true;
+
+    const message = await response.json<{ id?: string }>().catch(() => null);
+    return { ok: true, messageId: message?.id ?? null, error: null };
   } catch (error) {
     console.error('Discord webhook error:', error);
-    return false;
+    return { ok: false, messageId: null, error: String(error) };
   }
 }
 
-export async function sendDailyDigest(env: Bindings): Promise<{ success: boolean; eventCount: number }> {
-  if (!env.DISCORD_WEBHOOK_URL) {
-    console.log('Discord webhook URL not configured');
-    return { success: false, eventCount: 0 };
-  }
+export async function sendDiscordMessage(webhookUrl: string, payload: DiscordWebhookPayload): Promise<boolean> {
+  return (await executeWebhook(webhookUrl, payload)).ok;
+}
 
-  // Get today's events (Eastern Time)
-  const now = new Date();
-  const estOffset = -5 * 60; // EST offset in minutes
-  const utcOffset = now.getTimezoneOffset();
-  const estTime = new Date(now.getTime() + (utcOffset + estOffset) * 60000);
-
-  const startOfDay = new Date(estTime.getFullYear(), estTime.getMonth(), estTime.getDate());
-  const endOfDay = new Date(estTime.getFullYear(), estTime.getMonth(), estTime.getDate() + 1);
-
-  // Convert back to UTC for DB query
-  const startUTC = new Date(startOfDay.getTime() - (utcOffset + estOffset) * 60000).toISOString();
-  const endUTC = new Date(endOfDay.getTime() - (utcOffset + estOffset) * 60000).toISOString();
-
-  // Show events that start today OR are still ongoing (end_datetime >= now)
-  const nowUTC = new Date().toISOString();
-  const result = await env.DB.prepare(`
-    SELECT e.*, s.name as source_name
-    FROM events e
-    LEFT JOIN sources s ON e.source_id = s.id
-    WHERE ((datetime(e.start_datetime) >= datetime(?) AND datetime(e.start_datetime) < datetime(?))
-       OR (datetime(e.start_datetime) < datetime(?) AND datetime(e.end_datetime) >= datetime(?))) 
-      AND e.status IN ('confirmed', 'active')
-    ORDER BY e.featured DESC, e.start_datetime ASC
-    LIMIT 25
-  `).bind(startUTC, endUTC, startUTC, nowUTC).all();
-
-  const events = result.results || [];
+const DISCORD_API = 'https://discord.com/api/v10';
 
-  if (events.length === 0) {
-    // Send "no events" message
-    await sendDiscordMessage(env.DISCORD_WEBHOOK_URL, {
-      username: 'Fayetteville Events',
-      avatar_url: 'https://fayetteville-events.pages.dev/logo.png',
-      embeds: [{
-        title: '📅 No Events Today',
-        description: 'There are no scheduled events for today. Check back tomorrow!',
-        color: 0x4A5568,
-        footer: { text: 'Fayetteville Central Calendar' },
-        timestamp: new Date().toISOString(),
-      }],
+/**
+ * DM a user as the bot (opens the DM channel first). Fails for users who
+ * don't share a server with the bot or have server DMs turned off.
+ */
+export async function sendDirectMessage(botToken: string, userId: string, payload: DiscordWebhookPayload): Promise<WebhookResult> {
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bot ${botToken}` };
+
+  try {
+    const channelResponse = await fetch(`${DISCORD_API}/users/@me/channels`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ recipient_id: userId }),
     });
-    return { success: true, eventCount: 0 };
+    if (!channelResponse.ok) {
+      const error = `Open DM HTTP ${channelResponse.status}: ${truncateText(await channelResponse.text(), 300)}`;
+      return { ok: false, messageId: null, error };
+    }
+    const channel = await channelResponse.json<{ id: string }>();
+
+    const response = await fetch(`${DISCORD_API}/channels/${channel.id}/messages`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ content: payload.content, embeds: payload.embeds }),
+    });
+    if (!response.ok) {
+      const retryAfter = response.headers.get('Retry-After');
+      const body = truncateText(await response.text(), 300);
+      return { ok: false, messageId: null, error: `HTTP ${response.status}${retryAfter ? ` (retry after ${retryAfter}s)` : ''}: ${body}` };
+    }
+
+    const message = await response.json<{ id?: string }>().catch(() => null);
+    return { ok: true, messageId: message?.id ?? null, error: null };
+  } catch (error) {
+    console.error('Discord DM error:', error);
+    return { ok: false, messageId: null, error: String(error) };
   }
+}
 
+export const SECTION_NAMES: Record<string, string> = {
+  downtown: 'Downtown',
+  crown: 'Crown Complex',
+  fort_bragg: 'Fort Bragg',
+};
+
+/**
+ * One embed per section with events (up to 6 listed each), in section order
+ */
+export function buildSectionEmbeds(events: Record<string, any>[]): DiscordEmbed[] {
   // Group events by section
   const eventsBySection: Record<string, any[]> = {
     downtown: [],
@@ -134,32 +160,12 @@ export async function sendDailyDigest(env: Bindings): Promise<{ success: boolean
     }
   }
 
-  // Create embeds for each section with events
   const embeds: DiscordEmbed[] = [];
-  const dateStr = estTime.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-    timeZone: 'America/New_York',
-  });
-
-  // Header embed
-  embeds.push({
-    title: `📅 Events for ${dateStr}`,
-    description: `**${events.length}** event${events.length !== 1 ? 's' : ''} happening today in Fayetteville!`,
-    color: 0xA65D57,
-    url: 'https://fayetteville-events.pages.dev',
-  });
-
-  // Create embed for each section with events
   for (const [section, sectionEvents] of Object.entries(eventsBySection)) {
     if (sectionEvents.length === 0) continue;
 
     const emoji = SECTION_EMOJIS[section] || '📍';
-    const sectionName = section === 'downtown' ? 'Downtown' :
-                       section === 'crown' ? 'Crown Complex' :
-                       section === 'fort_bragg' ? 'Fort Bragg' : section;
+    const sectionName = SECTION_NAMES[section] || section;
 
     const fields = sectionEvents.slice(0, 6).map((event: any) => ({
       name: `${formatEventTime(event.start_datetime)}`,
@@ -174,20 +180,156 @@ export async function sendDailyDigest(env: Bindings): Promise<{ success: boolean
     });
   }
 
+  return embeds;
+}
+
+/**
+ * A single event in its section's color: when, where, categories and a link
+ * to the event page
+ */
+export function buildEventEmbed(event: Record<string, any>): DiscordEmbed {
+  const section = event.section || 'downtown';
+  const fields: { name: string; value: string; inline?: boolean }[] = [
+    { name: '📅 When', value: formatEventTime(event.start_datetime), inline: true },
+    { name: `${SECTION_EMOJIS[section] || '📍'} Area`, value: SECTION_NAMES[section] || section, inline: true },
+  ];
+
+  const venue = event.venue_name || event.location_name;
+  if (venue) {
+    fields.push({
+      name: '📍 Location',
+      value: truncateText(event.venue_address ? `${venue}\n${event.venue_address}` : venue, 1024),
+      inline: false,
+    });
+  }
+
+  let categories: string[] = [];
+  try {
+    categories = JSON.parse(event.categories || '[]');
+  } catch {
+    // Leave categories out
+  }
+  if (Array.isArray(categories) && categories.length > 0) {
+    fields.push({ name: '🏷️ Categories', value: categories.slice(0, 3).join(' • '), inline: false });
+  }
+
+  const note = statusNote(event as { status: string });
+  const description = [note && `⚠️ **${note}**`, event.description && truncateText(event.description, 300)]
+    .filter(Boolean).join('\n\n');
+
+  return {
+    title: truncateText(event.title, 256),
+    description: description || undefined,
+    url: `https://fayetteville-events.pages.dev/events/${event.id}`,
+    color: SECTION_COLORS[section] || SECTION_COLORS.default,
+    fields,
+    footer: { text: `${event.source_name || 'Fayetteville Events'} • Fayetteville Central Calendar` },
+    timestamp: new Date(event.start_datetime).toISOString(),
+    ...(event.image_url ? { thumbnail: { url: event.image_url } } : {}),
+  };
+}
+
+function buildDigest(events: Record<string, any>[], channel: NotificationChannel, now: Date): DiscordWebhookPayload {
+  if (events.length === 0) {
+    return {
+      username: 'Fayetteville Events',
+      avatar_url: 'https://fayetteville-events.pages.dev/logo.png',
+      embeds: [{
+        title: '📅 No Events Today',
+        description: 'There are no scheduled events for today. Check back tomorrow!',
+        color: 0x4A5568,
+        footer: { text: 'Fayetteville Central Calendar' },
+        timestamp: now.toISOString(),
+      }],
+    };
+  }
+
+  const embeds: DiscordEmbed[] = [];
+  const today = localDayRange(now);
+  const dateStr = today.from.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: TIMEZONE,
+  });
+
+  // A channel following a single section gets that section's share card
+  const imageSection = channel.filters.sections.length === 1 ? `&section=${channel.filters.sections[0]}` : '';
+
+  // Header embed
+  embeds.push({
+    title: `📅 Events for ${dateStr}`,
+    description: `**${events.length}** event${events.length !== 1 ? 's' : ''} happening today in Fayetteville!`,
+    color: 0xA65D57,
+    url: 'https://fayetteville-events.pages.dev',
+    // Server-rendered share card; the day in the URL keeps Discord from reusing yesterday's image
+    image: {
+      url: `https://fayetteville-events.pages.dev/api/events/image?date=today&format=png&size=og${imageSection}&day=${localDateString(today.from)}`,
+    },
+  });
+
+  embeds.push(...buildSectionEmbeds(events));
+
   // Footer embed
+  const hour = channel.digest_hour ?? DEFAULT_DIGEST_HOUR;
+  const digestTime = `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
   embeds.push({
     description: '🔗 [View All Events](https://fayetteville-events.pages.dev) | [Subscribe to Calendar](https://fayetteville-events.pages.dev/calendar)',
     color: 0x4A5568,
-    footer: { text: 'Fayetteville Central Calendar • Updated daily at 8 AM' },
-    timestamp: new Date().toISOString(),
+    footer: { text: `Fayetteville Central Calendar • Updated daily at ${digestTime}` },
+    timestamp: now.toISOString(),
   });
 
-  // Send to Discord (max 10 embeds per message)
-  const success = await sendDiscordMessage(env.DISCORD_WEBHOOK_URL, {
+  // Max 10 embeds per message
+  return {
     username: 'Fayetteville Events',
     avatar_url: 'https://fayetteville-events.pages.dev/logo.png',
     embeds: embeds.slice(0, 10),
-  });
+  };
+}
+
+export interface DigestResult {
+  channel: string;
+  success: boolean;
+  eventCount: number;
+  error?: string;
+}
+
+/**
+ * Post today's digest to every active channel whose digest_hour is the
+ * current local hour and that has not had today's digest yet. `force` posts
+ * to every channel with a digest regardless of the hour.
+ */
+export async function sendDailyDigest(
+  env: Bindings,
+  options: { now?: Date; force?: boolean } = {}
+): Promise<{ success: boolean; channels: DigestResult[] }> {
+  const now = options.now || new Date();
+  const localDate = localDateString(now);
+  const { hour } = toWallTime(now);
+
+  const channels = (await loadChannels(env)).filter(channel =>
+    channel.digest_hour !== null &&
+    (options.force || (channel.digest_hour === hour && channel.last_digest_date !== localDate))
+  );
+  if (channels.length === 0) return { success: true, channels: [] };
+
+  const events = await fetchDigestEvents(env.DB, localDayRange(now), now);
+  const results: DigestResult[] = [];
+
+  for (const channel of channels) {
+    const channelEvents = events.filter(event => matchesFilters(event, channel.filters)).slice(0, 25);
+    const result = await executeWebhook(channel.webhook_url, buildDigest(channelEvents, channel, now));
+    if (result.ok) await markDigestSent(env.DB, channel, localDate);
+
+    results.push({
+      channel: channel.key,
+      success: result.ok,
+      eventCount: channelEvents.length,
+      ...(result.error ? { error: result.error } : {}),
+    });
+  }
 
-  return { success, eventCount: events.length };
+  return { success: results.every(result => result.success), channels: results };
 }
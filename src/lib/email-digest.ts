@@ -0,0 +1,147 @@
+/**
+ * Email digest
+ *
+ * Runs from the hourly cron. Confirmed subscribers get the same event
+ * selection as the Discord digest (fetchDigestEvents), narrowed to their
+ * sections and categories: today's events every morning for 'daily', the next
+ * seven days on Thursday mornings for 'weekly'. last_digest_date is claimed
+ * before sending so overlapping runs don't email anyone twice; a failed send
+ * gives the date back and is retried the next hour.
+ */
+
+import { Bindings } from '../types';
+import { fetchDigestEvents } from './events';
+import { matchesFilters } from './notification-channels';
+import { createTransport } from './mail';
+import { renderDigestEmail } from './email-templates';
+import { EmailFrequency, FREQUENCIES, SubscriberRow, manageUrls, toSubscriber } from './email-subscribers';
+import { localDateString, localDayRange, localWeekday, toWallTime } from './timezone';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+// Local hours digests may go out in; anyone missed at 7 AM goes later that day
+const SEND_HOURS = { from: 7, to: 21 };
+
+const WEEKLY_DAY = 4;           // Thursday: the week ahead covers the weekend
+const WEEKLY_DAYS = 7;
+const MAX_PER_RUN = 40;         // The rest go out next hour
+
+export interface EmailDigestResult {
+  sent: number;
+  failed: number;
+  pending?: { email: string; frequency: EmailFrequency; event_count: number }[];  // dryRun only
+}
+
+function isSendDay(frequency: EmailFrequency, now: Date): boolean {
+  return frequency === 'daily' || localWeekday(now) === WEEKLY_DAY;
+}
+
+function digestRange(frequency: EmailFrequency, now: Date) {
+  return localDayRange(now, undefined, 0, frequency === 'weekly' ? WEEKLY_DAYS : 1);
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Email every confirmed subscriber whose digest is due today and hasn't gone
+ * out yet. `force` ignores the send hours and weekly send day (but still only
+ * sends once per local day); `dryRun` lists what would be sent.
+ */
+export async function sendEmailDigests(
+  env: Bindings,
+  options: { now?: Date; force?: boolean; dryRun?: boolean } = {}
+): Promise<EmailDigestResult> {
+  const now = options.now || new Date();
+  const totals: EmailDigestResult = { sent: 0, failed: 0, ...(options.dryRun ? { pending: [] } : {}) };
+
+  if (!env.EMAIL_TOKEN_SECRET) {
+    console.log('EMAIL_TOKEN_SECRET not set; skipping email digests');
+    return totals;
+  }
+
+  const { hour } = toWallTime(now);
+  if (!options.force && (hour < SEND_HOURS.from || hour >= SEND_HOURS.to)) {
+    return totals;
+  }
+
+  const localDate = localDateString(now);
+  const frequencies = FREQUENCIES.filter(frequency => options.force || isSendDay(frequency, now));
+  const transport = createTransport(env);
+  let budget = MAX_PER_RUN;
+
+  for (const frequency of frequencies) {
+    if (budget <= 0) break;
+
+    const due = await env.DB.prepare(`
+      SELECT * FROM email_subscribers
+      WHERE status = 'confirmed' AND frequency = ?
+        AND (last_digest_date IS NULL OR last_digest_date != ?)
+      ORDER BY id
+      LIMIT ?
+    `).bind(frequency, localDate, budget).all<SubscriberRow>();
+    const subscribers = (due.results || []).map(toSubscriber);
+    if (subscribers.length === 0) continue;
+
+    const range = digestRange(frequency, now);
+    const events = await fetchDigestEvents(env.DB, range, now);
+
+    for (const subscriber of subscribers) {
+      const matching = events.filter(event => matchesFilters(event, {
+        sections: subscriber.sections,
+        categories: subscriber.categories,
+        sources: [],
+      }));
+
+      if (options.dryRun) {
+        totals.pending!.push({ email: subscriber.email, frequency, event_count: matching.length });
+        continue;
+      }
+
+      // Claim today's digest; another run may have taken it already
+      const claim = await env.DB.prepare(`
+        UPDATE email_subscribers SET last_digest_date = ?
+        WHERE id = ? AND status = 'confirmed' AND (last_digest_date IS NULL OR last_digest_date != ?)
+        RETURNING id
+      `).bind(localDate, subscriber.id, localDate).all();
+      if ((claim.results || []).length === 0) continue;
+      budget--;
+
+      const urls = await manageUrls(env, subscriber.id);
+      const email = renderDigestEmail({
+        events: matching,
+        frequency,
+        range,
+        preferencesUrl: urls.preferences,
+        unsubscribeUrl: urls.unsubscribe,
+      });
+
+      const result = await transport.send({
+        to: subscriber.email,
+        ...email,
+        headers: {
+          // One-click unsubscribe from the mail client (RFC 8058)
+          'List-Unsubscribe': `<${urls.unsubscribe}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      });
+
+      if (result.ok) {
+        totals.sent++;
+        if (subscriber.last_error) {
+          await env.DB.prepare('UPDATE email_subscribers SET last_error = NULL WHERE id = ?').bind(subscriber.id).run();
+        }
+      } else {
+        totals.failed++;
+        console.error(`Email digest to subscriber ${subscriber.id} failed:`, result.error);
+        await env.DB.prepare('UPDATE email_subscribers SET last_digest_date = ?, last_error = ? WHERE id = ?')
+          .bind(subscriber.last_digest_date, result.error, subscriber.id).run();
+      }
+    }
+  }
+
+  return totals;
+}
@@ -0,0 +1,307 @@
+/**
+ * Email digest subscribers (email_subscribers)
+ *
+ * Sign-up is double opt-in: a subscriber stays 'pending' until they follow
+ * the link in the confirmation email. Every digest carries a link to manage
+ * preferences and a one-click unsubscribe link.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { Bindings } from '../types';
+
+export type EmailFrequency = 'daily' | 'weekly';
+
+export const FREQUENCIES: EmailFrequency[] = ['daily', 'weekly'];
+
+export type SubscriberStatus = 'pending' | 'confirmed' | 'unsubscribed';
+
+const SECTIONS = ['downtown', 'crown', 'fort_bragg'];
+
+const MAX_EMAIL = 254;
+const MAX_LIST = 20;
+
+// Links in emails outlive the request that sent them, so they use a fixed base
+const DEFAULT_API_URL = 'https://downtown-guide.wemea-5ahhf.workers.dev';
+
+export interface EmailSubscriber {
+  id: number;
+  email: string;
+  status: SubscriberStatus;
+  frequency: EmailFrequency;
+  sections: string[];     // Empty = every section
+  categories: string[];   // Empty = every category
+  confirmation_sent_at: string | null;
+  signup_fingerprint: string | null;  // SHA-256 of the IP behind the last confirmation email
+  confirmed_at: string | null;
+  unsubscribed_at: string | null;
+  last_digest_date: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubscriberRow extends Omit<EmailSubscriber, 'sections' | 'categories'> {
+  sections: string;
+  categories: string;
+}
+
+function parseList(json: string | null): string[] {
+  try {
+    const value = JSON.parse(json || '[]');
+    return Array.isArray(value) ? value.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toSubscriber(row: SubscriberRow): EmailSubscriber {
+  return { ...row, sections: parseList(row.sections), categories: parseList(row.categories) };
+}
+
+// What a subscriber sees on the preferences page
+export function toPublicSubscriber(subscriber: EmailSubscriber) {
+  return {
+    email: subscriber.email,
+    status: subscriber.status,
+    frequency: subscriber.frequency,
+    sections: subscriber.sections,
+    categories: subscriber.categories,
+  };
+}
+
+export function apiBaseUrl(env: Bindings): string {
+  return (env.PUBLIC_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+}
+
+// ============================================================================
+// LINK TOKENS
+// ============================================================================
+
+export type TokenPurpose = 'confirm' | 'manage';
+
+/**
+ * Tokens are `<id>.<HMAC-SHA256 of purpose:id>` under EMAIL_TOKEN_SECRET.
+ * Unlike API and calendar tokens they are not stored: every digest has to
+ * carry a working manage link, so the link must be reproducible on demand.
+ * 'manage' tokens cover both the preferences page and unsubscribing.
+ */
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export async function signToken(secret: string, purpose: TokenPurpose, id: number): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(`${purpose}:${id}`));
+  return `${id}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Subscriber id from a valid token, or null
+ */
+export async function verifyToken(secret: string, purpose: TokenPurpose, token: string | undefined): Promise<number | null> {
+  const match = token?.match(/^(\d{1,15})\.([\w-]{43})$/);
+  if (!match) return null;
+
+  const signature = fromBase64Url(match[2]);
+  if (!signature) return null;
+
+  const id = parseInt(match[1], 10);
+  const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), signature, new TextEncoder().encode(`${purpose}:${id}`));
+  return valid ? id : null;
+}
+
+export async function manageUrls(env: Bindings, id: number) {
+  const token = await signToken(env.EMAIL_TOKEN_SECRET, 'manage', id);
+  const base = apiBaseUrl(env);
+  return {
+    preferences: `${base}/api/email/preferences?token=${token}`,
+    unsubscribe: `${base}/api/email/unsubscribe?token=${token}`,
+  };
+}
+
+export async function confirmUrl(env: Bindings, id: number): Promise<string> {
+  return `${apiBaseUrl(env)}/api/email/confirm?token=${await signToken(env.EMAIL_TOKEN_SECRET, 'confirm', id)}`;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export interface PreferencesInput {
+  frequency?: EmailFrequency;
+  sections?: string[];
+  categories?: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const email = value.trim().toLowerCase();
+  return email.length <= MAX_EMAIL && EMAIL_PATTERN.test(email) ? email : null;
+}
+
+function stringList(value: unknown, field: string, errors: string[], allowed?: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    errors.push(`${field} must be an array of strings`);
+    return [];
+  }
+  const list = [...new Set(value.map(v => v.trim()).filter(Boolean))];
+  if (list.length > MAX_LIST) errors.push(`${field} may have at most ${MAX_LIST} entries`);
+  if (allowed && list.some(v => !allowed.includes(v))) errors.push(`${field} entries must be one of: ${allowed.join(', ')}`);
+  return list;
+}
+
+/**
+ * Validate { frequency, sections, categories }; only fields present are set
+ */
+export function validatePreferences(body: Record<string, unknown>): { value: PreferencesInput; errors: string[] } {
+  const errors: string[] = [];
+  const value: PreferencesInput = {};
+
+  if (body.frequency !== undefined) {
+    if (!FREQUENCIES.includes(body.frequency as EmailFrequency)) {
+      errors.push(`frequency must be one of: ${FREQUENCIES.join(', ')}`);
+    } else {
+      value.frequency = body.frequency as EmailFrequency;
+    }
+  }
+  if (body.sections !== undefined) value.sections = stringList(body.sections, 'sections', errors, SECTIONS);
+  if (body.categories !== undefined) value.categories = stringList(body.categories, 'categories', errors);
+
+  return { value, errors };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export async function getSubscriber(DB: D1Database, id: number): Promise<EmailSubscriber | null> {
+  const row = await DB.prepare('SELECT * FROM email_subscribers WHERE id = ?').bind(id).first<SubscriberRow>();
+  return row ? toSubscriber(row) : null;
+}
+
+export async function findSubscriberByEmail(DB: D1Database, email: string): Promise<EmailSubscriber | null> {
+  const row = await DB.prepare('SELECT * FROM email_subscribers WHERE email = ?').bind(email).first<SubscriberRow>();
+  return row ? toSubscriber(row) : null;
+}
+
+/**
+ * Start (or restart) a sign-up. New and unsubscribed addresses go back to
+ * 'pending' with the given preferences; confirmed subscribers are left as
+ * they are, so a stranger can't change someone else's preferences.
+ */
+export async function upsertPendingSubscriber(DB: D1Database, email: string, input: PreferencesInput): Promise<EmailSubscriber> {
+  const now = new Date().toISOString();
+  const row = await DB.prepare(`
+    INSERT INTO email_subscribers (email, status, frequency, sections, categories, created_at, updated_at)
+    VALUES (?, 'pending', ?, ?, ?, ?, ?)
+    ON CONFLICT(email) DO UPDATE SET
+      status = 'pending',
+      frequency = excluded.frequency,
+      sections = excluded.sections,
+      categories = excluded.categories,
+      updated_at = excluded.updated_at
+    WHERE email_subscribers.status = 'unsubscribed'
+    RETURNING *
+  `).bind(
+    email,
+    input.frequency || 'weekly',
+    JSON.stringify(input.sections || []),
+    JSON.stringify(input.categories || []),
+    now,
+    now
+  ).first<SubscriberRow>();
+
+  // RETURNING is empty when the conflict update was skipped
+  return row ? toSubscriber(row) : (await findSubscriberByEmail(DB, email))!;
+}
+
+export async function markConfirmationSent(DB: D1Database, id: number, fingerprint: string): Promise<void> {
+  await DB.prepare('UPDATE email_subscribers SET confirmation_sent_at = ?, signup_fingerprint = ? WHERE id = ?')
+    .bind(new Date().toISOString(), fingerprint, id).run();
+}
+
+/**
+ * Confirmation emails sent in the last hour and day, for one fingerprint
+ * and for everyone
+ */
+export async function countConfirmationsSent(DB: D1Database, fingerprint: string, now: number = Date.now()): Promise<{
+  lastHour: number;
+  lastDay: number;
+  allLastDay: number;
+}> {
+  const hourAgo = new Date(now - 60 * 60 * 1000).toISOString();
+  const dayAgo = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+  const counts = await DB.prepare(`
+    SELECT
+      SUM(CASE WHEN signup_fingerprint = ? AND confirmation_sent_at >= ? THEN 1 ELSE 0 END) as last_hour,
+      SUM(CASE WHEN signup_fingerprint = ? THEN 1 ELSE 0 END) as last_day,
+      COUNT(*) as all_last_day
+    FROM email_subscribers
+    WHERE confirmation_sent_at >= ?
+  `).bind(fingerprint, hourAgo, fingerprint, dayAgo).first<{ last_hour: number | null; last_day: number | null; all_last_day: number }>();
+
+  return {
+    lastHour: counts?.last_hour ?? 0,
+    lastDay: counts?.last_day ?? 0,
+    allLastDay: counts?.all_last_day ?? 0,
+  };
+}
+
+export async function confirmSubscriber(DB: D1Database, id: number): Promise<EmailSubscriber | null> {
+  const now = new Date().toISOString();
+  await DB.prepare(`
+    UPDATE email_subscribers SET status = 'confirmed', confirmed_at = ?, updated_at = ?
+    WHERE id = ? AND status = 'pending'
+  `).bind(now, now, id).run();
+  return getSubscriber(DB, id);
+}
+
+export async function unsubscribe(DB: D1Database, id: number): Promise<void> {
+  const now = new Date().toISOString();
+  await DB.prepare(`
+    UPDATE email_subscribers SET status = 'unsubscribed', unsubscribed_at = ?, updated_at = ?
+    WHERE id = ? AND status != 'unsubscribed'
+  `).bind(now, now, id).run();
+}
+
+export async function updatePreferences(DB: D1Database, id: number, input: PreferencesInput): Promise<EmailSubscriber | null> {
+  const sets: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (input.frequency !== undefined) {
+    sets.push('frequency = ?');
+    params.push(input.frequency);
+  }
+  if (input.sections !== undefined) {
+    sets.push('sections = ?');
+    params.push(JSON.stringify(input.sections));
+  }
+  if (input.categories !== undefined) {
+    sets.push('categories = ?');
+    params.push(JSON.stringify(input.categories));
+  }
+
+  if (sets.length > 0) {
+    sets.push('updated_at = ?');
+    params.push(new Date().toISOString());
+    await DB.prepare(`UPDATE email_subscribers SET ${sets.join(', ')} WHERE id = ?`).bind(...params, id).run();
+  }
+  return getSubscriber(DB, id);
+}
@@ -0,0 +1,193 @@
+/**
+ * Email templates
+ *
+ * Every email has an HTML part (table layout with inline styles, since mail
+ * clients ignore <style> blocks) and a plain-text part with the same content.
+ */
+
+import { SECTION_COLORS, SECTION_EMOJIS, SECTION_NAMES } from './discord';
+import { statusNote } from './event-status';
+import { TIMEZONE } from './timezone';
+import { EmailFrequency } from './email-subscribers';
+import { escapeHtml } from './html';
+
+const SITE_URL = 'https://fayetteville-events.pages.dev';
+
+const MAX_PER_SECTION = 15;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function hexColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+function formatWhen(dateStr: string, frequency: EmailFrequency): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    ...(frequency === 'weekly' ? { weekday: 'short', month: 'short', day: 'numeric' } : {}),
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: TIMEZONE,
+  });
+}
+
+function formatDate(date: Date, withWeekday: boolean): string {
+  return date.toLocaleDateString('en-US', {
+    ...(withWeekday ? { weekday: 'long' } : {}),
+    month: 'long',
+    day: 'numeric',
+    timeZone: TIMEZONE,
+  });
+}
+
+function eventUrl(event: Record<string, any>): string {
+  return `${SITE_URL}/events/${event.id}`;
+}
+
+/**
+ * Page wrapper shared by every email
+ */
+function layout(title: string, content: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:0;background:#f4f1ec;font-family:Helvetica,Arial,sans-serif;color:#1a202c;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f1ec;">
+<tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;">
+<tr><td style="padding:24px;background:#A65D57;border-radius:8px 8px 0 0;color:#ffffff;font-size:22px;font-weight:bold;">${escapeHtml(title)}</td></tr>
+${content}
+<tr><td style="padding:16px 24px;border-top:1px solid #e2e8f0;font-size:12px;color:#718096;">${footer}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+// ============================================================================
+// DIGEST
+// ============================================================================
+
+export interface DigestEmailOptions {
+  events: Record<string, any>[];
+  frequency: EmailFrequency;
+  range: { from: Date; to: Date };
+  preferencesUrl: string;
+  unsubscribeUrl: string;
+}
+
+function groupBySection(events: Record<string, any>[]): [string, Record<string, any>[]][] {
+  const groups: Record<string, Record<string, any>[]> = { downtown: [], crown: [], fort_bragg: [] };
+  for (const event of events) {
+    (groups[event.section] || groups.downtown).push(event);
+  }
+  return Object.entries(groups).filter(([, sectionEvents]) => sectionEvents.length > 0);
+}
+
+export function renderDigestEmail(options: DigestEmailOptions): RenderedEmail {
+  const { events, frequency, range, preferencesUrl, unsubscribeUrl } = options;
+
+  const period = frequency === 'weekly'
+    ? `${formatDate(range.from, false)} – ${formatDate(new Date(range.to.getTime() - 1), false)}`
+    : formatDate(range.from, true);
+  const title = frequency === 'weekly' ? 'This Week in Fayetteville' : 'Today in Fayetteville';
+  const count = `${events.length} event${events.length !== 1 ? 's' : ''}`;
+  const subject = `${title}: ${count} · ${period}`;
+
+  const htmlSections: string[] = [];
+  const textSections: string[] = [];
+
+  for (const [section, sectionEvents] of groupBySection(events)) {
+    const name = SECTION_NAMES[section] || section;
+    const color = hexColor(SECTION_COLORS[section] || SECTION_COLORS.default);
+    const listed = sectionEvents.slice(0, MAX_PER_SECTION);
+    const more = sectionEvents.length - listed.length;
+
+    htmlSections.push(`<tr><td style="padding:16px 24px 4px;font-size:18px;font-weight:bold;color:${color};border-bottom:2px solid ${color};">${SECTION_EMOJIS[section] || '📍'} ${escapeHtml(name)} (${sectionEvents.length})</td></tr>`);
+    textSections.push(`${name.toUpperCase()} (${sectionEvents.length})`);
+
+    for (const event of listed) {
+      const note = statusNote(event as { status: string });
+      const where = event.location_name ? ` · ${event.location_name}` : '';
+
+      htmlSections.push(`<tr><td style="padding:10px 24px;">
+<div style="font-size:13px;color:#718096;">${escapeHtml(formatWhen(event.start_datetime, frequency) + where)}</div>
+<a href="${escapeHtml(eventUrl(event))}" style="font-size:16px;font-weight:bold;color:#1a202c;text-decoration:none;">${escapeHtml(event.title)}</a>${note ? `
+<div style="font-size:13px;font-weight:bold;color:#c53030;">${escapeHtml(note)}</div>` : ''}
+</td></tr>`);
+      textSections.push(`- ${event.title}\n  ${formatWhen(event.start_datetime, frequency)}${where}${note ? `\n  ${note}` : ''}\n  ${eventUrl(event)}`);
+    }
+
+    if (more > 0) {
+      htmlSections.push(`<tr><td style="padding:4px 24px 10px;font-size:13px;"><a href="${SITE_URL}" style="color:${color};">+ ${more} more</a></td></tr>`);
+      textSections.push(`  + ${more} more at ${SITE_URL}`);
+    }
+    textSections.push('');
+  }
+
+  const intro = events.length > 0
+    ? `<strong>${count}</strong> ${frequency === 'weekly' ? 'coming up this week' : 'happening today'} · ${escapeHtml(period)}`
+    : `No events match your preferences for ${escapeHtml(period)}. <a href="${escapeHtml(preferencesUrl)}" style="color:#A65D57;">Widen your preferences</a> or <a href="${SITE_URL}" style="color:#A65D57;">browse everything</a>.`;
+
+  const footer = `You're getting the ${frequency} digest from the Fayetteville Central Calendar.<br>
+<a href="${escapeHtml(preferencesUrl)}" style="color:#718096;">Change preferences</a> · <a href="${escapeHtml(unsubscribeUrl)}" style="color:#718096;">Unsubscribe</a>`;
+
+  const html = layout(title, `<tr><td style="padding:16px 24px 0;font-size:15px;">${intro}</td></tr>
+${htmlSections.join('\n')}
+<tr><td style="padding:16px 24px;"><a href="${SITE_URL}" style="display:inline-block;padding:10px 16px;background:#A65D57;color:#ffffff;border-radius:6px;text-decoration:none;">View all events</a></td></tr>`, footer);
+
+  const text = [
+    `${title.toUpperCase()}`,
+    events.length > 0 ? `${count} · ${period}` : `No events match your preferences for ${period}.`,
+    '',
+    ...textSections,
+    `View all events: ${SITE_URL}`,
+    '',
+    '--',
+    `You're getting the ${frequency} digest from the Fayetteville Central Calendar.`,
+    `Change preferences: ${preferencesUrl}`,
+    `Unsubscribe: ${unsubscribeUrl}`,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+// ============================================================================
+// CONFIRMATION
+// ============================================================================
+
+export function renderConfirmationEmail(confirmUrl: string, frequency: EmailFrequency): RenderedEmail {
+  const title = 'Confirm your subscription';
+  const html = layout(title, `<tr><td style="padding:24px;font-size:15px;line-height:1.5;">
+<p style="margin:0 0 16px;">Confirm your email address to start getting the ${frequency} Fayetteville events digest.</p>
+<p style="margin:0 0 16px;"><a href="${escapeHtml(confirmUrl)}" style="display:inline-block;padding:10px 16px;background:#A65D57;color:#ffffff;border-radius:6px;text-decoration:none;">Confirm subscription</a></p>
+<p style="margin:0;font-size:13px;color:#718096;">Didn't sign up? Ignore this email and you won't hear from us again.</p>
+</td></tr>`, 'Fayetteville Central Calendar');
+
+  const text = [
+    'Confirm your email address to start getting the',
+    `${frequency} Fayetteville events digest:`,
+    '',
+    confirmUrl,
+    '',
+    "Didn't sign up? Ignore this email and you won't hear from us again.",
+  ].join('\n');
+
+  return { subject: 'Confirm your Fayetteville events digest', html, text };
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+/**
+ * Small standalone page for the links in emails (confirm, unsubscribe)
+ */
+export function renderPage(title: string, bodyHtml: string): string {
+  return layout(title, `<tr><td style="padding:24px;font-size:15px;line-height:1.5;">${bodyHtml}</td></tr>`,
+    `<a href="${SITE_URL}" style="color:#718096;">Fayetteville Central Calendar</a>`);
+}
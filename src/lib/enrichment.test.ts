@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SUMMARY_LENGTH, parseEnrichment, stubProvider } from './enrichment';
+import { buildTaxonomy, CategoryRow } from './categories';
+
+const category = (slug: string, label: string, display_order: number): CategoryRow =>
+  ({ slug, label, emoji: null, color: null, display_order, parent_slug: null });
+
+const taxonomy = buildTaxonomy(
+  [category('live-music', 'Live Music', 1), category('family', 'Family', 2), category('arts', 'Arts', 3)],
+  [{ raw_label: 'concert', category_slug: 'live-music' }]
+);
+
+test('only taxonomy categories are kept, mapped to their labels', () => {
+  const enrichment = parseEnrichment(JSON.stringify({
+    categories: ['concert', 'arts', 'Underwater Basket Weaving', 42, 'family'],
+  }), taxonomy);
+  assert.deepEqual(enrichment.categories, ['Live Music', 'Family', 'Arts']);
+});
+
+test('unknown audience and price values are dropped, known ones normalized', () => {
+  const rejected = parseEnrichment('{"audience": "seniors", "price_hint": "cheap"}', taxonomy);
+  assert.equal(rejected.audience, null);
+  assert.equal(rejected.price_hint, null);
+
+  const accepted = parseEnrichment('{"audience": " Military ", "price_hint": "FREE"}', taxonomy);
+  assert.equal(accepted.audience, 'military');
+  assert.equal(accepted.price_hint, 'free');
+});
+
+test('summaries are cut at a word boundary within SUMMARY_LENGTH', () => {
+  const long = 'An evening of bluegrass and barbecue on the lawn '.repeat(6);
+  const { summary } = parseEnrichment(JSON.stringify({ summary: long }), taxonomy);
+  assert.ok(summary!.length <= SUMMARY_LENGTH);
+  assert.ok(summary!.endsWith('…'));
+  assert.ok(long.startsWith(summary!.slice(0, -1)));
+  assert.equal(parseEnrichment('{"summary": "   "}', taxonomy).summary, null);
+});
+
+test('text around the JSON object is ignored, and a reply without one throws', () => {
+  const fenced = parseEnrichment('Sure!\n```json\n{"audience": "family"}\n```', taxonomy);
+  assert.equal(fenced.audience, 'family');
+  assert.throws(() => parseEnrichment('I could not find any details.', taxonomy), /No JSON object/);
+});
+
+test('the stub provider applies keyword rules through the same parsing', async () => {
+  const enrichment = await stubProvider().enrich({
+    title: 'Kids Jazz Concert',
+    description: 'A free afternoon concert for the whole family. Bring a blanket.',
+    location_name: 'Festival Park',
+    start_datetime: '2026-11-07T18:00:00.000Z',
+    categories: ['Underwater Basket Weaving'],
+  }, taxonomy);
+
+  assert.deepEqual(enrichment, {
+    categories: ['Live Music', 'Family'],
+    audience: 'family',
+    price_hint: 'free',
+    summary: 'A free afternoon concert for the whole family.',
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Event enrichment providers
+ *
+ * A provider reads an event's title, description and place and suggests
+ * taxonomy categories, an audience, a price hint and a short summary.
+ * ENRICHMENT_PROVIDER picks one:
+ * - 'workers-ai': the AI binding (Llama 3.1 8B)
+ * - 'openai': the chat completions API with OPENAI_API_KEY
+ * - 'stub': keyword rules, no network; same input, same output
+ * Unset (the default) turns enrichment off.
+ *
+ * Model output is never trusted as is: parseEnrichment keeps only taxonomy
+ * labels and known audience/price values and trims the summary.
+ */
+
+import { Bindings } from '../types';
+import { CategoryTaxonomy, normalizeCategories, rawLabelKey } from './categories';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const AUDIENCES = ['family', '21+', 'military'] as const;
+export type Audience = typeof AUDIENCES[number];
+
+export const PRICE_HINTS = ['free', '$', '$$', '$$$'] as const;
+export type PriceHint = typeof PRICE_HINTS[number];
+
+export const SUMMARY_LENGTH = 160;
+
+export interface EnrichmentInput {
+  title: string;
+  description: string;        // Plain text
+  location_name: string | null;
+  start_datetime: string;
+  categories: string[];       // What the source gave, if anything
+}
+
+export interface Enrichment {
+  categories: string[];       // Taxonomy labels
+  audience: Audience | null;  // null: everyone
+  price_hint: PriceHint | null;
+  summary: string | null;
+}
+
+export interface EnrichmentProvider {
+  name: string;
+  model: string;
+  enrich(input: EnrichmentInput, taxonomy: CategoryTaxonomy): Promise<Enrichment>;
+}
+
+const WORKERS_AI_MODEL = '@cf/meta/llama-3.1-8b-instruct-fp8';
+const OPENAI_MODEL = 'gpt-4o-mini';
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+
+const MAX_DESCRIPTION = 2000;   // Characters of description sent to the model
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Shorten to at most SUMMARY_LENGTH characters, at a word boundary
+ */
+export function truncateSummary(text: string): string | null {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return null;
+  if (clean.length <= SUMMARY_LENGTH) return clean;
+  const cut = clean.slice(0, SUMMARY_LENGTH - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > SUMMARY_LENGTH / 2 ? cut.slice(0, space) : cut).replace(/[\s,;:.-]+$/, '')}…`;
+}
+
+/**
+ * Turn a model's reply into an Enrichment. The reply should be a JSON object;
+ * text around it (code fences, chatter) is ignored. Throws when there is no
+ * JSON object at all.
+ */
+export function parseEnrichment(reply: string, taxonomy: CategoryTaxonomy): Enrichment {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error(`No JSON object in model reply: ${reply.slice(0, 200)}`);
+  }
+
+  const raw = JSON.parse(reply.slice(start, end + 1)) as Record<string, unknown>;
+
+  const suggested = Array.isArray(raw.categories)
+    ? raw.categories.filter((cat): cat is string => typeof cat === 'string')
+    : [];
+  const categories = normalizeCategories(suggested, taxonomy)
+    .filter(label => taxonomy.byLabel.has(rawLabelKey(label)))
+    .slice(0, 3);
+
+  const audience = typeof raw.audience === 'string' ? raw.audience.toLowerCase().trim() : '';
+  const price = typeof raw.price_hint === 'string' ? raw.price_hint.toLowerCase().trim() : '';
+
+  return {
+    categories,
+    audience: (AUDIENCES as readonly string[]).includes(audience) ? audience as Audience : null,
+    price_hint: (PRICE_HINTS as readonly string[]).includes(price) ? price as PriceHint : null,
+    summary: typeof raw.summary === 'string' ? truncateSummary(raw.summary) : null,
+  };
+}
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+function systemPrompt(taxonomy: CategoryTaxonomy): string {
+  return [
+    'You classify events for a community calendar in Fayetteville, North Carolina.',
+    'Reply with one JSON object and nothing else:',
+    '{"categories": [...], "audience": ..., "price_hint": ..., "summary": "..."}',
+    `- categories: up to 3 from this list, exactly as written: ${taxonomy.categories.map(c => c.label).join(', ')}`,
+    `- audience: ${AUDIENCES.map(a => `"${a}"`).join(', ')} or null when the event is for everyone`,
+    `- price_hint: ${PRICE_HINTS.map(p => `"${p}"`).join(', ')} or null when the text doesn't say`,
+    `- summary: one plain sentence of at most ${SUMMARY_LENGTH} characters, no dates or times`,
+  ].join('\n');
+}
+
+function userPrompt(input: EnrichmentInput): string {
+  return [
+    `Title: ${input.title}`,
+    input.location_name ? `Where: ${input.location_name}` : '',
+    `When: ${input.start_datetime}`,
+    input.categories.length > 0 ? `Source categories: ${input.categories.join(', ')}` : '',
+    `Description: ${input.description.slice(0, MAX_DESCRIPTION) || '(none)'}`,
+  ].filter(Boolean).join('\n');
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+function workersAiProvider(ai: Bindings['AI']): EnrichmentProvider {
+  return {
+    name: 'workers-ai',
+    model: WORKERS_AI_MODEL,
+    async enrich(input, taxonomy) {
+      const result = await ai.run(WORKERS_AI_MODEL, {
+        messages: [
+          { role: 'system', content: systemPrompt(taxonomy) },
+          { role: 'user', content: userPrompt(input) },
+        ],
+        max_tokens: 300,
+        temperature: 0,
+      });
+      const reply = (result as { response?: unknown }).response;
+      return parseEnrichment(typeof reply === 'string' ? reply : JSON.stringify(reply ?? ''), taxonomy);
+    },
+  };
+}
+
+function openAiProvider(apiKey: string): EnrichmentProvider {
+  return {
+    name: 'openai',
+    model: OPENAI_MODEL,
+    async enrich(input, taxonomy) {
+      const response = await fetch(OPENAI_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({
+          model: OPENAI_MODEL,
+          messages: [
+            { role: 'system', content: systemPrompt(taxonomy) },
+            { role: 'user', content: userPrompt(input) },
+          ],
+          response_format: { type: 'json_object' },
+          max_tokens: 300,
+          temperature: 0,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`OpenAI HTTP ${response.status}: ${(await response.text()).slice(0, 300)}`);
+      }
+      const body = await response.json<{ choices?: { message?: { content?: string } }[] }>();
+      return parseEnrichment(body.choices?.[0]?.message?.content || '', taxonomy);
+    },
+  };
+}
+
+// Keyword rules for the stub, checked against title + description
+const STUB_AUDIENCE_RULES: [Audience, RegExp][] = [
+  ['21+', /\b21\+|\b(21 and (over|up)|brewery|taproom|wine tasting|bar crawl|cocktails?)\b/i],
+  ['family', /\b(kids?|family|children|toddlers?|story ?time|all ages)\b/i],
+  ['military', /\b(military|soldiers?|service members?|mwr|fort (bragg|liberty)|veterans?)\b/i],
+];
+
+const STUB_CATEGORY_RULES: [string, RegExp][] = [
+  ['live music', /\b(concert|live music|band|orchestra|symphony|jazz|bluegrass)\b/i],
+  ['movies', /\b(film|movie|screening)\b/i],
+  ['family', /\b(kids?|family|children|story ?time)\b/i],
+  ['sports', /\b(game|match|tournament|race|5k)\b/i],
+  ['arts', /\b(art|gallery|exhibit(ion)?|theat(er|re)|dance)\b/i],
+  ['festivals', /\b(festival|fair|parade)\b/i],
+];
+
+/**
+ * Deterministic provider for tests and local development: keyword rules
+ * stand in for the model, and the reply goes through parseEnrichment like a
+ * real one
+ */
+export function stubProvider(): EnrichmentProvider {
+  return {
+    name: 'stub',
+    model: 'keyword-rules-v1',
+    async enrich(input, taxonomy) {
+      const text = `${input.title} ${input.description}`;
+      const categories = [
+        ...input.categories,
+        ...STUB_CATEGORY_RULES.filter(([, pattern]) => pattern.test(text)).map(([category]) => category),
+      ];
+      const audience = STUB_AUDIENCE_RULES.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+      const priceHint = /\bfree\b/i.test(text) ? 'free' : null;
+      const sentence = input.description.match(/^.*?[.!?](\s|$)/)?.[0] || input.description || input.title;
+
+      return parseEnrichment(JSON.stringify({
+        categories,
+        audience,
+        price_hint: priceHint,
+        summary: sentence,
+      }), taxonomy);
+    },
+  };
+}
+
+/**
+ * The provider ENRICHMENT_PROVIDER names, or null when enrichment is off or
+ * the provider is missing its binding or key
+ */
+export function createEnrichmentProvider(env: Bindings): EnrichmentProvider | null {
+  switch (env.ENRICHMENT_PROVIDER) {
+    case 'workers-ai':
+      return env.AI ? workersAiProvider(env.AI) : null;
+    case 'openai':
+      return env.OPENAI_API_KEY ? openAiProvider(env.OPENAI_API_KEY) : null;
+    case 'stub':
+      return stubProvider();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Event statuses
+ *
+ * Live events happen as listed (rescheduled ones at their new time).
+ * Cancelled and postponed events stay listed, flagged, for
+ * CANCELLED_GRACE_DAYS after the change so anyone planning to go sees the
+ * news instead of the event silently disappearing.
+ */
+
+import { TIMEZONE } from './timezone';
+
+export type EventStatus =
+  | 'confirmed'
+  | 'active'
+  | 'tentative'
+  | 'rescheduled'
+  | 'postponed'
+  | 'cancelled'
+  | 'past';
+
+export const EVENT_STATUSES: EventStatus[] = [
+  'confirmed', 'active', 'tentative', 'rescheduled', 'postponed', 'cancelled', 'past',
+];
+
+export const CANCELLED_GRACE_DAYS = 7;
+
+// Conditions on the `e` alias used by the event queries
+export const LIVE_STATUS_SQL = `e.status IN ('confirmed', 'active', 'rescheduled')`;
+
+export const VISIBLE_STATUS_SQL = `(${LIVE_STATUS_SQL}
+  OR (e.status IN ('cancelled', 'postponed')
+    AND datetime(e.status_changed_at) >= datetime('now', '-${CANCELLED_GRACE_DAYS} days')))`;
+
+// Reasons recorded by the sync; statuses with any other reason were set by a
+// moderator and the sync leaves them alone
+export const SYNC_REASONS = {
+  missing: 'No longer listed by the source',
+  moved: 'Date or time changed by the source',
+  cancelledBySource: 'Marked cancelled by the source',
+  postponedBySource: 'Marked postponed by the source',
+  rescheduledBySource: 'Marked rescheduled by the source',
+} as const;
+
+const SYNC_REASON_VALUES: string[] = Object.values(SYNC_REASONS);
+
+export function isSyncReason(reason: string | null): boolean {
+  return reason !== null && SYNC_REASON_VALUES.includes(reason);
+}
+
+export function isEventStatus(value: unknown): value is EventStatus {
+  return typeof value === 'string' && (EVENT_STATUSES as string[]).includes(value);
+}
+
+// "CANCELLED: Jazz Night", "[Postponed] Jazz Night", "Jazz Night - CANCELED"
+const TITLE_PREFIX = /^\W*(cancell?ed|postponed)\b/i;
+const TITLE_SUFFIX = /[-–—(\[]\s*(cancell?ed|postponed)\W*$/i;
+
+/**
+ * Cancelled/postponed status announced in a source's event title
+ */
+export function statusFromTitle(title: string): 'cancelled' | 'postponed' | null {
+  const match = title.match(TITLE_PREFIX) || title.match(TITLE_SUFFIX);
+  if (!match) return null;
+  return match[1].toLowerCase() === 'postponed' ? 'postponed' : 'cancelled';
+}
+
+/**
+ * Notice for cancelled, postponed and rescheduled events (first line of
+ * iCal descriptions and Discord event embeds)
+ */
+export function statusNote(event: {
+  status: string;
+  status_reason?: string | null;
+  previous_start_datetime?: string | null;
+}): string | null {
+  const reason = event.status_reason ? ` (${event.status_reason})` : '';
+  if (event.status === 'cancelled') return `This event has been cancelled${reason}.`;
+  if (event.status === 'postponed') return `This event has been postponed${reason}. A new date has not been announced.`;
+  if (event.status === 'rescheduled' && event.previous_start_datetime) {
+    const previous = new Date(event.previous_start_datetime).toLocaleString('en-US', {
+      weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: TIMEZONE,
+    });
+    return `Rescheduled from ${previous}.`;
+  }
+  return null;
+}
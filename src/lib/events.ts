@@ -1,8 +1,40 @@
 
 import { D1Database } from '@cloudflare/workers-types';
+import { expandOccurrences } from './recurrence';
+import { buildFtsQuery, EVENTS_FTS_JOIN, EVENT_SEARCH_COLUMNS, withMarkedMatches } from './search';
+import { NearFilter, distanceSquaredSql, haversineDistance } from './geo';
+import { LIVE_STATUS_SQL, VISIBLE_STATUS_SQL } from './event-status';
 
-// Helper: Fetch Events Logic
-export async function fetchEvents(DB: D1Database, params: {
+// JSON array of { source_id, source_name, url } for an event and every
+// duplicate linked to it, so a canonical event still credits each listing
+export const SOURCE_URLS_SQL = `(
+  SELECT json_group_array(json_object('source_id', d.source_id, 'source_name', ds.name, 'url', d.url))
+  FROM events d
+  LEFT JOIN sources ds ON d.source_id = ds.id
+  WHERE d.id = e.id OR d.canonical_event_id = e.id
+) as source_urls`;
+
+// How far ahead open-ended queries expand recurring series
+const RECURRENCE_HORIZON_DAYS = 90;
+
+// Cap on series rows read per query (each expands to many occurrences)
+const MAX_SERIES = 500;
+
+const EVENT_COLUMNS = `
+  e.id, e.title, e.start_datetime, e.end_datetime,
+  e.location_name, e.categories, e.image_url, e.description,
+  e.source_id, e.external_id, e.url, e.ticket_url, e.section, e.status, e.featured,
+  e.status_reason, e.status_changed_at, e.previous_start_datetime,
+  e.venue_id, e.venue_only, e.recurrence_rule,
+  e.summary, e.audience, e.price_hint, e.categories_source,
+  v.name as venue_name, v.address as venue_address,
+  v.image_url as venue_image_url,
+  v.latitude as venue_latitude, v.longitude as venue_longitude,
+  s.name as source_name,
+  ${SOURCE_URLS_SQL}
+`;
+
+interface EventFilterParams {
   section?: string;
   source?: string;
   from?: string;
@@ -11,32 +43,33 @@ export async function fetchEvents(DB: D1Database, params: {
   category?: string;
   categories?: string;
   featured?: string;
-  limit?: number;
-  offset?: number;
   venue_id?: string;  // Filter by specific venue
   include_venue_only?: boolean;  // Include venue-only events (default: false)
-}) {
+  include_cancelled?: boolean;  // Include recently cancelled/postponed events (default: false)
+  near?: NearFilter;  // Venue within radiusMiles of a point (lat/lng/radius_miles)
+}
+
+interface SeriesRow {
+  start_datetime: string;
+  end_datetime: string;
+  recurrence_rule: string | null;
+  recurrence_exdates?: string | null;
+}
+
+/**
+ * Filters shared by single events and recurring series (everything but dates)
+ */
+function buildFilters(params: EventFilterParams) {
   const conditions: string[] = [];
   const queryParams: any[] = [];
+  let join = '';
 
-  // Only show confirmed or active events
-  conditions.push("e.status IN ('confirmed', 'active')");
+  // Live events; listings also keep recently cancelled or postponed ones,
+  // flagged by status, so they don't vanish without notice
+  conditions.push(params.include_cancelled ? VISIBLE_STATUS_SQL : LIVE_STATUS_SQL);
 
-  // Date filters
-  const now = new Date().toISOString();
-  if (!params.from) {
-    // Default: show events active now or in future
-    conditions.push('datetime(e.end_datetime) >= datetime(?)');
-    queryParams.push(now);
-  } else {
-    conditions.push('datetime(e.start_datetime) >= datetime(?)');
-    queryParams.push(params.from);
-  }
-
-  if (params.to) {
-    conditions.push('datetime(e.start_datetime) <= datetime(?)');
-    queryParams.push(params.to);
-  }
+  // Hide cross-source duplicates; the canonical event lists their URLs
+  conditions.push('e.canonical_event_id IS NULL');
 
   if (params.section && params.section !== 'all') {
     conditions.push('e.section = ?');
@@ -48,10 +81,12 @@ export async function fetchEvents(DB: D1Database, params: {
     queryParams.push(params.source);
   }
 
-  // Text search on title and description
-  if (params.search && params.search.trim()) {
-    conditions.push('(e.title LIKE ? OR e.description LIKE ?)');
-    queryParams.push(`%${params.search.trim()}%`, `%${params.search.trim()}%`);
+  // Full-text search on title, description, venue, location and categories
+  const ftsQuery = params.search ? buildFtsQuery(params.search) : null;
+  if (ftsQuery) {
+    join = EVENTS_FTS_JOIN;
+    conditions.push('events_fts MATCH ?');
+    queryParams.push(ftsQuery);
   }
 
   // Single category filter (JSON array contains)
@@ -88,58 +123,26 @@ export async function fetchEvents(DB: D1Database, params: {
     conditions.push('(e.venue_only = 0 OR e.venue_only IS NULL)');
   }
 
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-
-  // Count total (if needed, but for list we just fetch)
-  // We can return total if we do a separate query, but for now we stick to the original signature
-  // which returned result.results. 
-  
-  const limit = params.limit || 50;
-  const offset = params.offset || 0;
-  
-  queryParams.push(limit, offset);
-  
-  const result = await DB.prepare(`
-    SELECT
-      e.id, e.title, e.start_datetime, e.end_datetime,
-      e.location_name, e.categories, e.image_url, e.description,
-      e.source_id, e.external_id, e.url, e.ticket_url, e.section, e.status, e.featured,
-      e.venue_id, e.venue_only,
-      v.name as venue_name, v.address as venue_address,
-      v.image_url as venue_image_url,
-      v.latitude as venue_latitude, v.longitude as venue_longitude,
-      s.name as source_name
-    FROM events e
-    LEFT JOIN venues v ON e.venue_id = v.id
-    LEFT JOIN sources s ON e.source_id = s.id
-    ${whereClause}
-    ORDER BY e.start_datetime ASC
-    LIMIT ? OFFSET ?
-  `).bind(...queryParams).all();
+  // Near a point: only events at venues with coordinates inside the radius
+  if (params.near?.radiusMiles !== undefined) {
+    const distance = distanceSquaredSql('v.latitude', 'v.longitude', params.near);
+    conditions.push('v.latitude IS NOT NULL AND v.longitude IS NOT NULL');
+    conditions.push(`(${distance.sql}) <= ?`);
+    queryParams.push(...distance.params, params.near.radiusMiles ** 2);
+  }
 
-  return result.results || [];
+  return { conditions, queryParams, join, searching: ftsQuery !== null };
 }
 
-// Helper: Count events logic
-export async function countEvents(DB: D1Database, params: {
-  section?: string;
-  source?: string;
-  from?: string;
-  to?: string;
-  search?: string;
-  category?: string;
-  categories?: string;
-  featured?: string;
-  venue_id?: string;
-  include_venue_only?: boolean;
-}) {
-  const conditions: string[] = [];
+/**
+ * Date conditions for single (non-recurring) events
+ */
+function singleEventDates(params: EventFilterParams, now: string) {
+  const conditions = ['e.recurrence_rule IS NULL'];
   const queryParams: any[] = [];
 
-  conditions.push("e.status IN ('confirmed', 'active')");
-
-  const now = new Date().toISOString();
   if (!params.from) {
+    // Default: show events active now or in future
     conditions.push('datetime(e.end_datetime) >= datetime(?)');
     queryParams.push(now);
   } else {
@@ -152,57 +155,215 @@ export async function countEvents(DB: D1Database, params: {
     queryParams.push(params.to);
   }
 
-  if (params.section && params.section !== 'all') {
-    conditions.push('e.section = ?');
-    queryParams.push(params.section);
-  }
+  return { conditions, queryParams };
+}
 
-  if (params.source) {
-    conditions.push('e.source_id = ?');
-    queryParams.push(params.source);
-  }
+/**
+ * Date conditions for recurring series that may have an occurrence in range
+ */
+function seriesDates(params: EventFilterParams, now: string) {
+  const conditions = [
+    'e.recurrence_rule IS NOT NULL',
+    '(e.recurrence_end IS NULL OR datetime(e.recurrence_end) >= datetime(?))',
+  ];
+  const queryParams: any[] = [params.from || now];
 
-  if (params.search && params.search.trim()) {
-    conditions.push('(e.title LIKE ? OR e.description LIKE ?)');
-    queryParams.push(`%${params.search.trim()}%`, `%${params.search.trim()}%`);
+  if (params.to) {
+    conditions.push('datetime(e.start_datetime) <= datetime(?)');
+    queryParams.push(params.to);
   }
 
-  if (params.category && params.category !== 'all') {
-    conditions.push('e.categories LIKE ?');
-    queryParams.push(`%"${params.category}"%`);
-  }
+  return { conditions, queryParams };
+}
 
-  if (params.categories && params.categories.trim()) {
-    const categoryList = params.categories.split(',').map(c => c.trim()).filter(c => c);
-    if (categoryList.length > 0) {
-      const categoryConditions = categoryList.map(() => 'e.categories LIKE ?');
-      conditions.push(`(${categoryConditions.join(' OR ')})`);
-      categoryList.forEach(cat => queryParams.push(`%"${cat}"%`));
+/**
+ * Add distance_miles from the venue coordinates (null when the venue has none)
+ */
+function withDistance<T extends Record<string, any>>(row: T, near: NearFilter): T & { distance_miles: number | null } {
+  const hasCoordinates = row.venue_latitude != null && row.venue_longitude != null;
+  const distance = hasCoordinates
+    ? haversineDistance(near, { latitude: row.venue_latitude, longitude: row.venue_longitude })
+    : null;
+  return { ...row, distance_miles: distance === null ? null : Math.round(distance * 100) / 100 };
+}
+
+/**
+ * Expand recurring series rows into one row per occurrence overlapping
+ * [from, to]. Occurrences keep the series id; only the datetimes change.
+ */
+export function expandRecurringRows<T extends SeriesRow>(rows: T[], from: Date, to: Date): T[] {
+  const expanded: T[] = [];
+  for (const row of rows) {
+    for (const occurrence of expandOccurrences(row, from, to)) {
+      expanded.push({
+        ...row,
+        start_datetime: occurrence.start.toISOString(),
+        end_datetime: occurrence.end.toISOString(),
+      });
     }
   }
+  return expanded;
+}
 
-  if (params.featured === 'true') {
-    conditions.push('e.featured = 1');
-  } else if (params.featured === 'false') {
-    conditions.push('(e.featured = 0 OR e.featured IS NULL)');
-  }
+/**
+ * Occurrences matching the same date semantics as single events: without
+ * `from`, anything not yet ended; otherwise starts within [from, to].
+ * Open-ended ranges expand RECURRENCE_HORIZON_DAYS ahead.
+ */
+function seriesOccurrences<T extends SeriesRow>(rows: T[], params: EventFilterParams, now: Date): T[] {
+  const from = params.from ? new Date(params.from) : now;
+  const to = params.to
+    ? new Date(params.to)
+    : new Date(from.getTime() + RECURRENCE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
 
-  // Filter by venue_id
-  if (params.venue_id) {
-    conditions.push('e.venue_id = ?');
-    queryParams.push(params.venue_id);
+  return expandRecurringRows(rows, from, to).filter(row =>
+    !params.from || new Date(row.start_datetime) >= from
+  );
+}
+
+/**
+ * Active recurring series overlapping [from, to], expanded to occurrences.
+ * For routes with their own SQL for single events (today, weekend, digests).
+ * Listings pass VISIBLE_STATUS_SQL to keep recently cancelled series.
+ */
+export async function fetchOccurrences(DB: D1Database, from: Date, to: Date, statusSql = LIVE_STATUS_SQL) {
+  const result = await DB.prepare(`
+    SELECT e.*, v.name as venue_name, s.name as source_name
+    FROM events e
+    LEFT JOIN venues v ON e.venue_id = v.id
+    LEFT JOIN sources s ON e.source_id = s.id
+    WHERE e.recurrence_rule IS NOT NULL
+      AND ${statusSql}
+      AND e.canonical_event_id IS NULL
+      AND datetime(e.start_datetime) <= datetime(?)
+      AND (e.recurrence_end IS NULL OR datetime(e.recurrence_end) >= datetime(?))
+    LIMIT ${MAX_SERIES}
+  `).bind(to.toISOString(), from.toISOString()).all<Record<string, any> & SeriesRow>();
+
+  return expandRecurringRows(result.results || [], from, to);
+}
+
+/**
+ * Live events starting in the range or still on at `now`, featured first, for
+ * the Discord and email digests. Not limited: each channel or subscriber
+ * filters the list down to its own digest.
+ */
+export async function fetchDigestEvents(DB: D1Database, range: { from: Date; to: Date }, now: Date) {
+  const startUTC = range.from.toISOString();
+  const endUTC = range.to.toISOString();
+  const nowUTC = now.toISOString();
+
+  const result = await DB.prepare(`
+    SELECT e.*, s.name as source_name
+    FROM events e
+    LEFT JOIN sources s ON e.source_id = s.id
+    WHERE ((datetime(e.start_datetime) >= datetime(?) AND datetime(e.start_datetime) < datetime(?))
+       OR (datetime(e.start_datetime) < datetime(?) AND datetime(e.end_datetime) >= datetime(?)))
+      AND ${LIVE_STATUS_SQL}
+      AND e.canonical_event_id IS NULL
+      AND e.recurrence_rule IS NULL
+  `).bind(startUTC, endUTC, startUTC, nowUTC).all<Record<string, any>>();
+
+  const occurrences = (await fetchOccurrences(DB, range.from, range.to))
+    .filter(e => e.start_datetime < endUTC && (e.start_datetime >= startUTC || e.end_datetime >= nowUTC));
+  return [...(result.results || []), ...occurrences]
+    .sort((a, b) => (b.featured || 0) - (a.featured || 0) || a.start_datetime.localeCompare(b.start_datetime));
+}
+
+// Helper: Fetch Events Logic
+export async function fetchEvents(DB: D1Database, params: EventFilterParams & {
+  limit?: number;
+  offset?: number;
+  sort?: 'start' | 'distance';  // 'distance' requires near
+}) {
+  const filters = buildFilters(params);
+  const now = new Date();
+  const single = singleEventDates(params, now.toISOString());
+  const series = seriesDates(params, now.toISOString());
+
+  const limit = params.limit || 50;
+  const offset = params.offset || 0;
+
+  // Order by distance when asked, then relevance for searches (bm25: lower
+  // is better), then start time
+  const byDistance = params.sort === 'distance' && params.near ? params.near : null;
+  const columns = filters.searching ? `${EVENT_COLUMNS}, ${EVENT_SEARCH_COLUMNS}` : EVENT_COLUMNS;
+  const orderBy: string[] = [];
+  const orderParams: number[] = [];
+  if (byDistance) {
+    const distance = distanceSquaredSql('v.latitude', 'v.longitude', byDistance);
+    orderBy.push('v.latitude IS NULL', `(${distance.sql}) ASC`);
+    orderParams.push(...distance.params);
   }
+  if (filters.searching) orderBy.push('search_rank ASC');
+  orderBy.push('e.start_datetime ASC');
 
-  // By default, exclude venue-only events from main feed
-  if (!params.include_venue_only) {
-    conditions.push('(e.venue_only = 0 OR e.venue_only IS NULL)');
+  // Single events are paged in SQL; recurring series expand in code, so
+  // read enough single events to cover the page and merge before slicing
+  const [singleResult, seriesResult] = await Promise.all([
+    DB.prepare(`
+      SELECT ${columns}
+      FROM events e
+      ${filters.join}
+      LEFT JOIN venues v ON e.venue_id = v.id
+      LEFT JOIN sources s ON e.source_id = s.id
+      WHERE ${[...filters.conditions, ...single.conditions].join(' AND ')}
+      ORDER BY ${orderBy.join(', ')}
+      LIMIT ?
+    `).bind(...filters.queryParams, ...single.queryParams, ...orderParams, offset + limit).all<Record<string, any> & SeriesRow>(),
+    DB.prepare(`
+      SELECT ${columns}, e.recurrence_exdates
+      FROM events e
+      ${filters.join}
+      LEFT JOIN venues v ON e.venue_id = v.id
+      LEFT JOIN sources s ON e.source_id = s.id
+      WHERE ${[...filters.conditions, ...series.conditions].join(' AND ')}
+      LIMIT ${MAX_SERIES}
+    `).bind(...filters.queryParams, ...series.queryParams).all<Record<string, any> & SeriesRow>(),
+  ]);
+
+  const near = params.near;
+  const annotate = <T extends Record<string, any>>(row: T) => {
+    const marked = filters.searching ? withMarkedMatches(row) : row;
+    return near ? withDistance(marked, near) : marked;
+  };
+  const occurrences = seriesOccurrences(seriesResult.results || [], params, now)
+    .map(({ recurrence_exdates: _exdates, ...row }) => annotate(row));
+  const singleEvents = (singleResult.results || []).map(row => annotate(row));
+
+  if (occurrences.length === 0) {
+    return singleEvents.slice(offset);
   }
 
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return [...singleEvents, ...occurrences]
+    .sort((a, b) =>
+      (byDistance ? (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity) : 0) ||
+      (filters.searching ? a.search_rank - b.search_rank : 0) ||
+      a.start_datetime.localeCompare(b.start_datetime))
+    .slice(offset, offset + limit);
+}
 
-  const result = await DB.prepare(`
-    SELECT COUNT(*) as total FROM events e ${whereClause}
-  `).bind(...queryParams).first<{ total: number }>();
+// Helper: Count events logic
+export async function countEvents(DB: D1Database, params: EventFilterParams) {
+  const filters = buildFilters(params);
+  const now = new Date();
+  const single = singleEventDates(params, now.toISOString());
+  const series = seriesDates(params, now.toISOString());
+
+  const [singleCount, seriesResult] = await Promise.all([
+    DB.prepare(`
+      SELECT COUNT(*) as total FROM events e ${filters.join}
+      LEFT JOIN venues v ON e.venue_id = v.id
+      WHERE ${[...filters.conditions, ...single.conditions].join(' AND ')}
+    `).bind(...filters.queryParams, ...single.queryParams).first<{ total: number }>(),
+    DB.prepare(`
+      SELECT e.start_datetime, e.end_datetime, e.recurrence_rule, e.recurrence_exdates
+      FROM events e ${filters.join}
+      LEFT JOIN venues v ON e.venue_id = v.id
+      WHERE ${[...filters.conditions, ...series.conditions].join(' AND ')}
+      LIMIT ${MAX_SERIES}
+    `).bind(...filters.queryParams, ...series.queryParams).all<SeriesRow>(),
+  ]);
 
-  return result?.total || 0;
+  return (singleCount?.total || 0) + seriesOccurrences(seriesResult.results || [], params, now).length;
 }
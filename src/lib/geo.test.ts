@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseNearQuery } from './geo';
+
+test('lat and lng are parsed as a near filter', () => {
+  assert.deepEqual(parseNearQuery({ lat: '35.05', lng: '-78.88', radius_miles: '5' }), {
+    near: { latitude: 35.05, longitude: -78.88, radiusMiles: 5 },
+  });
+});
+
+test('empty lat and lng are rejected rather than read as 0,0', () => {
+  assert.ok(parseNearQuery({ lat: '', lng: '' }).error);
+  assert.ok(parseNearQuery({ lat: '  ', lng: '-78.88' }).error);
+  assert.ok(parseNearQuery({ lat: '35.05', lng: ' ' }).error);
+});
+
+test('no lat or lng means no filter', () => {
+  assert.deepEqual(parseNearQuery({}), {});
+});
@@ -60,3 +60,73 @@ export function isNearDowntown(coords: Coordinates, radiusMiles: number = 2): bo
   };
   return haversineDistance(coords, downtownCenter) <= radiusMiles;
 }
+
+// =============================================================================
+// Nearby Filtering
+// =============================================================================
+
+export interface NearFilter extends Coordinates {
+  radiusMiles?: number;  // Omit to sort by distance without excluding anything
+}
+
+const MAX_RADIUS_MILES = 100;
+const MILES_PER_DEGREE = 69.17;
+
+/**
+ * A query param as a number; blank values are NaN rather than 0
+ */
+function queryNumber(value: string | undefined): number {
+  return value === undefined || value.trim() === '' ? NaN : Number(value);
+}
+
+/**
+ * Parse `lat`, `lng` and `radius_miles` query params.
+ * Returns no filter when lat/lng are absent, or an error message when invalid.
+ */
+export function parseNearQuery(query: {
+  lat?: string;
+  lng?: string;
+  radius_miles?: string;
+}): { near?: NearFilter; error?: string } {
+  if (query.lat === undefined && query.lng === undefined) {
+    return query.radius_miles !== undefined ? { error: 'radius_miles requires lat and lng' } : {};
+  }
+
+  const latitude = queryNumber(query.lat);
+  const longitude = queryNumber(query.lng);
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    return { error: 'lat must be a number between -90 and 90' };
+  }
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    return { error: 'lng must be a number between -180 and 180' };
+  }
+
+  if (query.radius_miles === undefined) {
+    return { near: { latitude, longitude } };
+  }
+
+  const radiusMiles = queryNumber(query.radius_miles);
+  if (!Number.isFinite(radiusMiles) || radiusMiles <= 0 || radiusMiles > MAX_RADIUS_MILES) {
+    return { error: `radius_miles must be greater than 0 and at most ${MAX_RADIUS_MILES}` };
+  }
+
+  return { near: { latitude, longitude, radiusMiles } };
+}
+
+/**
+ * SQL expression for the squared distance in miles from `origin`, using an
+ * equirectangular approximation so D1 can filter and sort without math
+ * functions. Matches haversine closely at city scale.
+ */
+export function distanceSquaredSql(
+  latitudeColumn: string,
+  longitudeColumn: string,
+  origin: Coordinates
+): { sql: string; params: number[] } {
+  const lngScale = MILES_PER_DEGREE * Math.cos(toRadians(origin.latitude));
+  return {
+    sql: `((${latitudeColumn} - ?) * ${MILES_PER_DEGREE}) * ((${latitudeColumn} - ?) * ${MILES_PER_DEGREE})
+      + ((${longitudeColumn} - ?) * ?) * ((${longitudeColumn} - ?) * ?)`,
+    params: [origin.latitude, origin.latitude, origin.longitude, lngScale, origin.longitude, lngScale],
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * HTML helpers shared by server-rendered pages, emails and search highlights
+ */
+
+/**
+ * Escape text for HTML element content and quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
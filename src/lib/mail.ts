@@ -0,0 +1,187 @@
+/**
+ * Outgoing email
+ *
+ * MAIL_TRANSPORT picks how mail leaves the Worker:
+ * - 'http': a Resend-compatible JSON API (MAIL_API_URL, MAIL_API_KEY)
+ * - 'smtp': plain SMTP to SMTP_HOST:SMTP_PORT with no auth or TLS, meant
+ *   for a local catcher such as Mailpit (`wrangler dev` + localhost:1025)
+ * - 'log' (default): print the message to the Worker log and send nothing
+ */
+
+import { connect } from 'cloudflare:sockets';
+import { Bindings } from '../types';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailResult {
+  ok: boolean;
+  id: string | null;
+  error: string | null;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+const DEFAULT_FROM = 'Fayetteville Events <events@ncfayetteville.com>';
+const DEFAULT_API_URL = 'https://api.resend.com/emails';
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+function httpTransport(apiUrl: string, apiKey: string, from: string): MailTransport {
+  return {
+    name: 'http',
+    async send(message) {
+      try {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+          body: JSON.stringify({ from, ...message }),
+        });
+        if (!response.ok) {
+          return { ok: false, id: null, error: `HTTP ${response.status}: ${(await response.text()).slice(0, 300)}` };
+        }
+        const body = await response.json<{ id?: string }>().catch(() => null);
+        return { ok: true, id: body?.id ?? null, error: null };
+      } catch (error) {
+        return { ok: false, id: null, error: String(error) };
+      }
+    },
+  };
+}
+
+function logTransport(): MailTransport {
+  return {
+    name: 'log',
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+      return { ok: true, id: null, error: null };
+    },
+  };
+}
+
+// Header values are UTF-8 encoded words; bodies are sent as base64
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`;
+}
+
+function base64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * multipart/alternative MIME message (plain text first, HTML preferred)
+ */
+function toMime(from: string, message: MailMessage, messageId: string): string {
+  const boundary = `=_${messageId.replace(/\W/g, '')}`;
+  const headers = {
+    From: from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${messageId}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+function smtpTransport(host: string, port: number, from: string): MailTransport {
+  const address = from.match(/<([^>]+)>/)?.[1] ?? from;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = `${crypto.randomUUID()}@${address.split('@')[1] || 'localhost'}`;
+      let socket: ReturnType<typeof connect> | undefined;
+      let writer: WritableStreamDefaultWriter<Uint8Array>;
+      let reader: ReadableStreamDefaultReader<string>;
+      let buffer = '';
+
+      // Read one (possibly multi-line) reply and check its status code
+      const expect = async (code: number) => {
+        while (true) {
+          const lines = buffer.split('\r\n');
+          const last = lines.findIndex(line => /^\d{3} /.test(line));
+          if (last !== -1) {
+            const reply = lines.slice(0, last + 1).join('\n');
+            buffer = lines.slice(last + 1).join('\r\n');
+            if (!reply.startsWith(String(code))) throw new Error(`SMTP: expected ${code}, got ${reply}`);
+            return;
+          }
+          const { value, done } = await reader.read();
+          if (done) throw new Error('SMTP: connection closed');
+          buffer += value;
+        }
+      };
+      const command = async (line: string, code: number) => {
+        await writer.write(new TextEncoder().encode(`${line}\r\n`));
+        await expect(code);
+      };
+
+      try {
+        socket = connect({ hostname: host, port });
+        writer = socket.writable.getWriter();
+        reader = socket.readable.pipeThrough(new TextDecoderStream()).getReader();
+        await expect(220);
+        await command('EHLO localhost', 250);
+        await command(`MAIL FROM:<${address}>`, 250);
+        await command(`RCPT TO:<${message.to}>`, 250);
+        await command('DATA', 354);
+        // Dot-stuff lines that start with "."
+        const data = toMime(from, message, messageId).replace(/^\./gm, '..');
+        await command(`${data}\r\n.`, 250);
+        await command('QUIT', 221);
+        return { ok: true, id: messageId, error: null };
+      } catch (error) {
+        return { ok: false, id: null, error: String(error) };
+      } finally {
+        await socket?.close().catch(() => {});
+      }
+    },
+  };
+}
+
+/**
+ * Transport configured by MAIL_TRANSPORT (see the top of this file)
+ */
+export function createTransport(env: Bindings): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+
+  switch (env.MAIL_TRANSPORT) {
+    case 'http':
+      return httpTransport(env.MAIL_API_URL || DEFAULT_API_URL, env.MAIL_API_KEY, from);
+    case 'smtp':
+      return smtpTransport(env.SMTP_HOST || 'localhost', parseInt(env.SMTP_PORT || '1025'), from);
+    default:
+      return logTransport();
+  }
+}
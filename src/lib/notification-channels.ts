@@ -0,0 +1,291 @@
+/**
+ * Discord notification channels (notification_channels)
+ *
+ * Each webhook has its own event filter, digest hour and reminder types, so
+ * e.g. a Fort Bragg families channel only hears about fort_bragg events.
+ * DISCORD_WEBHOOK_URL, when set, stays an unfiltered channel of its own with
+ * the original 8 AM digest and every reminder type.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { Bindings } from '../types';
+
+export type ReminderType = '1_week' | '1_day' | 'new_event';
+
+export const REMINDER_TYPES: ReminderType[] = ['1_week', '1_day', 'new_event'];
+
+const SECTIONS = ['downtown', 'crown', 'fort_bragg'];
+
+export const DEFAULT_DIGEST_HOUR = 8;  // Local time
+
+const MAX_NAME = 100;
+const MAX_LIST = 20;
+
+// Any of the listed values; an empty list matches everything
+export interface ChannelFilters {
+  sections: string[];
+  categories: string[];
+  sources: string[];
+}
+
+export interface NotificationChannel {
+  id: number | null;            // null for DISCORD_WEBHOOK_URL
+  key: string;                  // reminder_log.channel
+  name: string;
+  webhook_url: string;
+  filters: ChannelFilters;
+  digest_hour: number | null;   // null = no digest
+  reminder_types: ReminderType[];
+  paused: boolean;
+  last_digest_date: string | null;
+}
+
+interface ChannelRow {
+  id: number;
+  name: string;
+  webhook_url: string;
+  filters: string;
+  digest_hour: number | null;
+  reminder_types: string;
+  paused: number;
+  last_digest_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function channelKey(id: number | null): string {
+  return id === null ? 'discord' : `discord:${id}`;
+}
+
+function parseJson<T>(json: string | null, fallback: T): T {
+  if (!json) return fallback;
+  try {
+    return JSON.parse(json) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToChannel(row: ChannelRow): NotificationChannel {
+  const filters = parseJson<Partial<ChannelFilters>>(row.filters, {});
+  return {
+    id: row.id,
+    key: channelKey(row.id),
+    name: row.name,
+    webhook_url: row.webhook_url,
+    filters: {
+      sections: filters.sections || [],
+      categories: filters.categories || [],
+      sources: filters.sources || [],
+    },
+    digest_hour: row.digest_hour,
+    reminder_types: parseJson<ReminderType[]>(row.reminder_types, []),
+    paused: row.paused === 1,
+    last_digest_date: row.last_digest_date,
+  };
+}
+
+/**
+ * The DISCORD_WEBHOOK_URL channel (if configured) followed by stored channels
+ */
+export async function loadChannels(env: Bindings, options: { includePaused?: boolean } = {}): Promise<NotificationChannel[]> {
+  const result = await env.DB.prepare(`
+    SELECT * FROM notification_channels
+    ${options.includePaused ? '' : 'WHERE paused = 0'}
+    ORDER BY id ASC
+  `).all<ChannelRow>();
+
+  const channels = (result.results || []).map(rowToChannel);
+
+  if (env.DISCORD_WEBHOOK_URL) {
+    channels.unshift({
+      id: null,
+      key: channelKey(null),
+      name: 'Default (DISCORD_WEBHOOK_URL)',
+      webhook_url: env.DISCORD_WEBHOOK_URL,
+      filters: { sections: [], categories: [], sources: [] },
+      digest_hour: DEFAULT_DIGEST_HOUR,
+      reminder_types: REMINDER_TYPES,
+      paused: false,
+      last_digest_date: null,
+    });
+  }
+
+  return channels;
+}
+
+export async function getChannel(DB: D1Database, id: string | number): Promise<NotificationChannel | null> {
+  const row = await DB.prepare('SELECT * FROM notification_channels WHERE id = ?').bind(id).first<ChannelRow>();
+  return row ? rowToChannel(row) : null;
+}
+
+export async function markDigestSent(DB: D1Database, channel: NotificationChannel, localDate: string): Promise<void> {
+  if (channel.id === null) return;
+  await DB.prepare('UPDATE notification_channels SET last_digest_date = ? WHERE id = ?')
+    .bind(localDate, channel.id).run();
+}
+
+/**
+ * Whether an event row (section, categories JSON, source_id) passes a
+ * channel's filters
+ */
+export function matchesFilters(
+  event: { section?: string | null; categories?: string | null; source_id?: string | null },
+  filters: ChannelFilters
+): boolean {
+  if (filters.sections.length > 0 && !filters.sections.includes(event.section || 'downtown')) return false;
+  if (filters.sources.length > 0 && !filters.sources.includes(event.source_id || '')) return false;
+  if (filters.categories.length > 0) {
+    const categories = parseJson<unknown[]>(event.categories ?? null, []);
+    if (!Array.isArray(categories) || !categories.some(cat => filters.categories.includes(String(cat)))) return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+const WEBHOOK_PATTERN = /^https:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+export function isDiscordWebhookUrl(url: string): boolean {
+  return WEBHOOK_PATTERN.test(url);
+}
+
+// The token half of a webhook URL is a secret; listings show the id only
+export function maskWebhookUrl(url: string): string {
+  return url.replace(/(\/api\/webhooks\/\d+\/).+$/, '$1…');
+}
+
+export function toPublicChannel(channel: NotificationChannel) {
+  return { ...channel, webhook_url: maskWebhookUrl(channel.webhook_url) };
+}
+
+function stringList(value: unknown, field: string, errors: string[], allowed?: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    errors.push(`${field} must be an array of strings`);
+    return [];
+  }
+  const list = [...new Set(value.map(v => v.trim()).filter(Boolean))];
+  if (list.length > MAX_LIST) errors.push(`${field} may have at most ${MAX_LIST} entries`);
+  if (allowed && list.some(v => !allowed.includes(v))) errors.push(`${field} entries must be one of: ${allowed.join(', ')}`);
+  return list;
+}
+
+export interface ChannelInput {
+  name?: string;
+  webhook_url?: string;
+  filters?: ChannelFilters;
+  digest_hour?: number | null;
+  reminder_types?: ReminderType[];
+  paused?: boolean;
+}
+
+/**
+ * Validate a create (all required fields) or update (only fields present)
+ * body: { name, webhook_url, filters: { sections, categories, sources },
+ * digest_hour, reminder_types, paused }
+ */
+export function validateChannel(body: Record<string, unknown>, partial: boolean): { value: ChannelInput; errors: string[] } {
+  const errors: string[] = [];
+  const value: ChannelInput = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > MAX_NAME) {
+      errors.push(`name is required (at most ${MAX_NAME} characters)`);
+    } else {
+      value.name = body.name.trim();
+    }
+  }
+
+  if (body.webhook_url !== undefined || !partial) {
+    if (typeof body.webhook_url !== 'string' || !isDiscordWebhookUrl(body.webhook_url.trim())) {
+      errors.push('webhook_url must be a Discord webhook URL (https://discord.com/api/webhooks/{id}/{token})');
+    } else {
+      value.webhook_url = body.webhook_url.trim();
+    }
+  }
+
+  if (body.filters !== undefined) {
+    if (typeof body.filters !== 'object' || body.filters === null || Array.isArray(body.filters)) {
+      errors.push('filters must be an object');
+    } else {
+      const raw = body.filters as Record<string, unknown>;
+      value.filters = {
+        sections: stringList(raw.sections, 'filters.sections', errors, SECTIONS),
+        categories: stringList(raw.categories, 'filters.categories', errors),
+        sources: stringList(raw.sources, 'filters.sources', errors),
+      };
+    }
+  } else if (!partial) {
+    value.filters = { sections: [], categories: [], sources: [] };
+  }
+
+  if (body.digest_hour !== undefined) {
+    const hour = body.digest_hour;
+    if (hour !== null && (typeof hour !== 'number' || !Number.isInteger(hour) || hour < 0 || hour > 23)) {
+      errors.push('digest_hour must be a whole number from 0 to 23 (local time), or null for no digest');
+    } else {
+      value.digest_hour = hour as number | null;
+    }
+  } else if (!partial) {
+    value.digest_hour = DEFAULT_DIGEST_HOUR;
+  }
+
+  if (body.reminder_types !== undefined) {
+    value.reminder_types = stringList(body.reminder_types, 'reminder_types', errors, REMINDER_TYPES) as ReminderType[];
+  } else if (!partial) {
+    value.reminder_types = REMINDER_TYPES;
+  }
+
+  if (body.paused !== undefined) {
+    if (typeof body.paused !== 'boolean') {
+      errors.push('paused must be true or false');
+    } else {
+      value.paused = body.paused;
+    }
+  }
+
+  return { value, errors };
+}
+
+export async function createChannel(DB: D1Database, input: Required<Omit<ChannelInput, 'paused'>> & { paused?: boolean }): Promise<NotificationChannel> {
+  const now = new Date().toISOString();
+  const result = await DB.prepare(`
+    INSERT INTO notification_channels (name, webhook_url, filters, digest_hour, reminder_types, paused, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    input.name,
+    input.webhook_url,
+    JSON.stringify(input.filters),
+    input.digest_hour,
+    JSON.stringify(input.reminder_types),
+    input.paused ? 1 : 0,
+    now,
+    now,
+  ).run();
+
+  return (await getChannel(DB, result.meta.last_row_id))!;
+}
+
+export async function updateChannel(DB: D1Database, id: string | number, input: ChannelInput): Promise<NotificationChannel | null> {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+
+  if (input.name !== undefined) { sets.push('name = ?'); params.push(input.name); }
+  if (input.webhook_url !== undefined) { sets.push('webhook_url = ?'); params.push(input.webhook_url); }
+  if (input.filters !== undefined) { sets.push('filters = ?'); params.push(JSON.stringify(input.filters)); }
+  if (input.digest_hour !== undefined) { sets.push('digest_hour = ?'); params.push(input.digest_hour); }
+  if (input.reminder_types !== undefined) { sets.push('reminder_types = ?'); params.push(JSON.stringify(input.reminder_types)); }
+  if (input.paused !== undefined) { sets.push('paused = ?'); params.push(input.paused ? 1 : 0); }
+
+  sets.push('updated_at = ?');
+  params.push(new Date().toISOString());
+
+  const result = await DB.prepare(`UPDATE notification_channels SET ${sets.join(', ')} WHERE id = ?`)
+    .bind(...params, id).run();
+  if (!result.meta.changes) return null;
+
+  return getChannel(DB, id);
+}
@@ -0,0 +1,348 @@
+/**
+ * Recurring events (RFC 5545 RRULE + EXDATE)
+ *
+ * A recurring event is stored once: start_datetime/end_datetime describe the
+ * first occurrence, recurrence_rule holds the RRULE value and
+ * recurrence_exdates a JSON array of cancelled occurrence starts. Occurrences
+ * repeat at the same wall-clock time in America/New_York, so a 7 PM weekly
+ * trivia night stays at 7 PM across DST changes.
+ *
+ * Supported: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals for MONTHLY/YEARLY, e.g. 2SU or -1FR), BYMONTHDAY,
+ * BYMONTH.
+ */
+
+import { TIMEZONE, WallTime, toWallTime, fromWallTime } from './timezone';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: { weekday: number; ordinal?: number }[]; // weekday: 0 = Sunday
+  byMonthDay?: number[];
+  byMonth?: number[];
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety limits so a bad rule cannot spin the Worker
+const MAX_PERIODS = 5000;
+const MAX_OCCURRENCES = 1000;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function parseRRuleDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+  const wall: WallTime = { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s };
+  return utc ? new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)) : fromWallTime(wall);
+}
+
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function parseIntList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(v => parseInt(v, 10));
+  if (numbers.some(n => isNaN(n) || n === 0 || n < min || n > max)) return null;
+  return numbers;
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=TU", with or without the
+ * "RRULE:" prefix). Returns null for rules this module cannot expand.
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, raw] = part.split('=');
+    if (!key || raw === undefined) continue;
+    const val = raw.toUpperCase();
+
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(val)) return null;
+        rule.freq = val as Frequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInt(val, 10);
+        if (!(rule.interval >= 1)) return null;
+        break;
+      case 'COUNT':
+        rule.count = parseInt(val, 10);
+        if (!(rule.count >= 1)) return null;
+        break;
+      case 'UNTIL': {
+        const until = parseRRuleDate(val);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = [];
+        for (const item of val.split(',')) {
+          const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          days.push({
+            weekday: WEEKDAYS.indexOf(match[2]),
+            ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+          });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntList(val, -31, 31);
+        if (!days) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntList(val, 1, 12);
+        if (!months) return null;
+        rule.byMonth = months;
+        break;
+      }
+      case 'WKST':
+        break; // Weeks always start on Monday here
+      default:
+        return null; // BYSETPOS, BYHOUR etc. are not supported
+    }
+  }
+
+  if (!rule.freq) return null;
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Canonical RRULE value for storage (no prefix, UNTIL in UTC), or null if unsupported
+ */
+export function normalizeRRule(value: string): string | null {
+  const rule = parseRRule(value);
+  if (!rule) return null;
+
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
+  if (rule.byDay) parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAYS[d.weekday]}`).join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  return parts.join(';');
+}
+
+/**
+ * Parse recurrence_exdates (JSON array of ISO strings) into epoch milliseconds
+ */
+export function parseExdates(value: string | null | undefined): Set<number> {
+  const result = new Set<number>();
+  if (!value) return result;
+  try {
+    const dates = JSON.parse(value);
+    if (Array.isArray(dates)) {
+      for (const date of dates) {
+        const time = new Date(date).getTime();
+        if (!isNaN(time)) result.add(time);
+      }
+    }
+  } catch {
+    // Ignore malformed exdates rather than hiding the whole series
+  }
+  return result;
+}
+
+// =============================================================================
+// Expansion
+// =============================================================================
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Day numbers in a month matching BYMONTHDAY / BYDAY, or the default day
+ */
+function monthDays(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(d => (d > 0 ? d : length + d + 1)).filter(d => d >= 1 && d <= length);
+  } else if (rule.byDay) {
+    days = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matches: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (weekdayOf(year, month, day) === weekday) matches.push(day);
+      }
+      if (ordinal === undefined) {
+        days.push(...matches);
+      } else {
+        const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (day) days.push(day);
+      }
+    }
+  } else {
+    days = defaultDay <= length ? [defaultDay] : [];
+  }
+
+  // BYDAY restricts BYMONTHDAY when both are given
+  if (rule.byMonthDay && rule.byDay) {
+    const weekdays = rule.byDay.map(d => d.weekday);
+    days = days.filter(day => weekdays.includes(weekdayOf(year, month, day)));
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Candidate dates (y, m, d) for the `period`-th period after the first
+ */
+function periodDates(rule: RecurrenceRule, first: WallTime, period: number): [number, number, number][] {
+  const step = period * rule.interval;
+
+  if (rule.freq === 'DAILY') {
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + step));
+    return [[date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Monday of the first occurrence's week, then `step` weeks on
+    const firstWeekday = weekdayOf(first.year, first.month, first.day);
+    const monday = Date.UTC(first.year, first.month - 1, first.day - ((firstWeekday + 6) % 7) + step * 7);
+    const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [firstWeekday];
+    return [...new Set(weekdays)]
+      .map(weekday => new Date(monday + ((weekday + 6) % 7) * DAY_MS))
+      .sort((a, b) => a.getTime() - b.getTime())
+      .map(date => [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]);
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const monthIndex = first.month - 1 + step;
+    const year = first.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    return monthDays(rule, year, month, first.day).map(day => [year, month, day]);
+  }
+
+  // YEARLY
+  const year = first.year + step;
+  const months = rule.byMonth ?? [first.month];
+  return [...months].sort((a, b) => a - b).flatMap(month =>
+    monthDays(rule, year, month, first.day).map(day => [year, month, day] as [number, number, number])
+  );
+}
+
+/**
+ * Whole periods that can be skipped before `from` (only without COUNT,
+ * which has to be counted from the first occurrence)
+ */
+function periodsToSkip(rule: RecurrenceRule, first: Date, from: Date, durationMs: number): number {
+  if (rule.count) return 0;
+  const gapMs = from.getTime() - durationMs - first.getTime();
+  if (gapMs <= 0) return 0;
+
+  const periodMs = {
+    DAILY: DAY_MS,
+    WEEKLY: 7 * DAY_MS,
+    MONTHLY: 31 * DAY_MS,
+    YEARLY: 366 * DAY_MS,
+  }[rule.freq] * rule.interval;
+
+  return Math.max(0, Math.floor(gapMs / periodMs) - 1);
+}
+
+/**
+ * Occurrences of a series overlapping [from, to]. EXDATEs are removed
+ * after COUNT is applied, as RFC 5545 specifies.
+ */
+export function expandOccurrences(
+  series: { start_datetime: string; end_datetime: string; recurrence_rule: string | null; recurrence_exdates?: string | null },
+  from: Date,
+  to: Date
+): Occurrence[] {
+  const firstStart = new Date(series.start_datetime);
+  const durationMs = Math.max(0, new Date(series.end_datetime).getTime() - firstStart.getTime());
+  const rule = series.recurrence_rule ? parseRRule(series.recurrence_rule) : null;
+
+  if (!rule || isNaN(firstStart.getTime())) {
+    // Not (expandable) recurring: the row is its own single occurrence
+    const end = new Date(firstStart.getTime() + durationMs);
+    return end >= from && firstStart <= to ? [{ start: firstStart, end }] : [];
+  }
+
+  const exdates = parseExdates(series.recurrence_exdates);
+  const first = toWallTime(firstStart, TIMEZONE);
+  const occurrences: Occurrence[] = [];
+  let generated = 0;
+
+  const firstPeriod = periodsToSkip(rule, firstStart, from, durationMs);
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const dates = periodDates(rule, first, period);
+
+    for (const [year, month, day] of dates) {
+      if (rule.byMonth && !rule.byMonth.includes(month)) continue;
+      if (rule.freq === 'DAILY' && rule.byDay && !rule.byDay.some(d => d.weekday === weekdayOf(year, month, day))) continue;
+      if (rule.freq === 'DAILY' && rule.byMonthDay && !monthDays(rule, year, month, day).includes(day)) continue;
+
+      const start = fromWallTime({ ...first, year, month, day }, TIMEZONE);
+      if (start < firstStart) continue;
+      if (rule.until && start > rule.until) return occurrences;
+      if (start > to) return occurrences;
+
+      generated++;
+      if (rule.count && generated > rule.count) return occurrences;
+
+      const end = new Date(start.getTime() + durationMs);
+      if (end >= from && !exdates.has(start.getTime())) {
+        occurrences.push({ start, end });
+        if (occurrences.length >= MAX_OCCURRENCES) return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * End of the last occurrence, or null for series without COUNT/UNTIL.
+ * Stored as events.recurrence_end so SQL can skip finished series.
+ */
+export function seriesEnd(startDatetime: string, endDatetime: string, recurrenceRule: string): Date | null {
+  const rule = parseRRule(recurrenceRule);
+  if (!rule) return new Date(endDatetime);
+
+  const durationMs = Math.max(0, new Date(endDatetime).getTime() - new Date(startDatetime).getTime());
+
+  if (rule.until && !rule.count) {
+    return new Date(rule.until.getTime() + durationMs);
+  }
+
+  if (rule.count) {
+    const occurrences = expandOccurrences(
+      { start_datetime: startDatetime, end_datetime: endDatetime, recurrence_rule: recurrenceRule },
+      new Date(startDatetime),
+      rule.until ?? new Date(8640000000000000)
+    );
+    const last = occurrences[occurrences.length - 1];
+    return last ? last.end : new Date(endDatetime);
+  }
+
+  return null;
+}
@@ -0,0 +1,520 @@
+/**
+ * Discord event reminders
+ *
+ * Runs from the hourly cron against D1 events: a heads-up one week out, a
+ * reminder the day before, and an announcement for newly added events. Each
+ * (event, reminder type) is claimed in reminder_log before it is sent, so
+ * UNIQUE(event_id, reminder_type, channel) keeps a reminder from going out
+ * twice. Failed sends are retried with exponential backoff and the error is
+ * kept in error_message.
+ *
+ * Every notification channel gets the reminder types it subscribes to for the
+ * events its filters match, logged under its own channel key. Reminders users
+ * asked for with the /subscribe command go out as DMs from the bot, logged as
+ * 'discord-dm:<user id>'.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { Bindings } from '../types';
+import { DiscordEmbed, DiscordWebhookPayload, WebhookResult, executeWebhook, sendDirectMessage } from './discord';
+import { LIVE_STATUS_SQL } from './event-status';
+import { CategoryTaxonomy, categoryEmoji, loadTaxonomy } from './categories';
+import { NotificationChannel, REMINDER_TYPES, ReminderType, loadChannels, matchesFilters } from './notification-channels';
+import { TIMEZONE, localDayRange, toWallTime } from './timezone';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const SITE_URL = 'https://ncfayetteville.com';
+
+const DM_CHANNEL_PREFIX = 'discord-dm:';
+
+// Reminder types /subscribe offers
+export const SUBSCRIPTION_TYPES: ReminderType[] = ['1_week', '1_day'];
+
+// Local hours reminders may go out in (no overnight pings)
+const SEND_HOURS = { from: 9, to: 21 };
+
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MINUTES = 30;       // 30m, 1h, 2h, 4h between attempts
+const STALE_CLAIM_MINUTES = 30;        // Claims left 'pending' by a run that died mid-send
+const NEW_EVENT_LOOKBACK_HOURS = 24;
+const NEW_EVENT_HORIZON_DAYS = 60;     // Don't announce events many months out
+const MAX_PER_TYPE = 30;               // Per channel and run; the rest go out next hour
+const CANDIDATE_LIMIT = 200;           // Rows read before movie and channel filtering
+const EMBEDS_PER_MESSAGE = 10;         // Discord limit
+const MESSAGE_PAUSE_MS = 1000;         // Webhooks allow 5 requests per 2 seconds
+
+// Movies flood the channel with daily screenings
+const MOVIE_KEYWORDS = [
+  'movie', 'film', 'cinema', 'screening', 'matinee',
+  'imax', 'showing', 'theater showing', 'theatre showing',
+];
+const MOVIE_CATEGORIES = ['movies', 'film', 'cinema', 'movie screenings', 'films'];
+
+const COLORS: Record<ReminderType, number> = {
+  '1_week': 0xF39C12,    // orange
+  '1_day': 0xE74C3C,     // red
+  new_event: 0x58B9FF,   // blue
+};
+
+const SECTION_LABELS: Record<string, string> = {
+  downtown: '🏙️ Downtown',
+  crown: '🏟️ Crown Complex',
+  fort_bragg: '🎖️ Fort Bragg',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ReminderEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  start_datetime: string;
+  url: string | null;
+  image_url: string | null;
+  categories: string | null;
+  section: string;
+  source_id: string;
+  source_name: string | null;
+  venue_name: string | null;
+  venue_address: string | null;
+  venue_city: string | null;
+}
+
+interface Claim {
+  logId: number;
+  channel: string;
+  attempts: number;
+  type: ReminderType;
+  event: ReminderEvent;
+}
+
+export interface ReminderRunResult {
+  sent: number;
+  failed: number;
+  // With dryRun: what would have been sent
+  pending?: { channel: string; event_id: string; title: string; reminder_type: ReminderType }[];
+}
+
+type Send = (payload: DiscordWebhookPayload) => Promise<WebhookResult>;
+
+const EVENT_COLUMNS = `
+  e.id, e.title, e.description, e.start_datetime, e.url, e.image_url, e.categories, e.section, e.source_id,
+  s.name as source_name,
+  COALESCE(v.name, e.location_name) as venue_name, v.address as venue_address, v.city as venue_city
+`;
+
+const EVENT_JOINS = `
+  LEFT JOIN sources s ON e.source_id = s.id
+  LEFT JOIN venues v ON e.venue_id = v.id
+`;
+
+// Recurring series are left out: reminder_log has one row per event id
+const REMINDABLE_SQL = `${LIVE_STATUS_SQL}
+  AND e.canonical_event_id IS NULL
+  AND e.recurrence_rule IS NULL
+  AND (e.venue_only = 0 OR e.venue_only IS NULL)`;
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+function parseCategories(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function isMovieEvent(event: ReminderEvent): boolean {
+  const text = `${event.title} ${event.description || ''}`.toLowerCase();
+  if (MOVIE_KEYWORDS.some(keyword => text.includes(keyword))) return true;
+  return parseCategories(event.categories).some(cat => MOVIE_CATEGORIES.includes(cat.toLowerCase()));
+}
+
+/**
+ * Start-time (and for new_event, creation-time) conditions for a reminder type
+ */
+function dueWindow(type: ReminderType, now: Date): { sql: string; params: string[] } {
+  if (type === 'new_event') {
+    const since = new Date(now.getTime() - NEW_EVENT_LOOKBACK_HOURS * 60 * 60 * 1000);
+    const horizon = new Date(now.getTime() + NEW_EVENT_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    return {
+      sql: `datetime(e.created_at) >= datetime(?) AND datetime(e.start_datetime) > datetime(?)
+        AND datetime(e.start_datetime) < datetime(?)`,
+      params: [since.toISOString(), now.toISOString(), horizon.toISOString()],
+    };
+  }
+
+  // Events starting on the local day 7 days (or 1 day) from today
+  const day = localDayRange(now, TIMEZONE, type === '1_week' ? 7 : 1);
+  return {
+    sql: 'datetime(e.start_datetime) >= datetime(?) AND datetime(e.start_datetime) < datetime(?)',
+    params: [day.from.toISOString(), day.to.toISOString()],
+  };
+}
+
+/**
+ * Events matching the channel's filters that are due a reminder of this type
+ * and have no reminder_log row for the channel yet
+ */
+async function findDue(DB: D1Database, channel: NotificationChannel, type: ReminderType, now: Date): Promise<ReminderEvent[]> {
+  const window = dueWindow(type, now);
+
+  const result = await DB.prepare(`
+    SELECT ${EVENT_COLUMNS}
+    FROM events e
+    ${EVENT_JOINS}
+    WHERE ${window.sql}
+      AND ${REMINDABLE_SQL}
+      AND NOT EXISTS (
+        SELECT 1 FROM reminder_log r
+        WHERE r.event_id = e.id AND r.reminder_type = ? AND r.channel = ?
+      )
+    ORDER BY e.featured DESC, e.start_datetime ASC
+    LIMIT ${CANDIDATE_LIMIT}
+  `).bind(...window.params, type, channel.key).all<ReminderEvent>();
+
+  return (result.results || [])
+    .filter(event => !isMovieEvent(event) && matchesFilters(event, channel.filters))
+    .slice(0, MAX_PER_TYPE);
+}
+
+/**
+ * /subscribe reminders of this type that are due and not yet logged. Users
+ * picked these events, so the movie filter doesn't apply.
+ */
+async function findDueSubscriptions(DB: D1Database, type: ReminderType, now: Date): Promise<(ReminderEvent & { user_id: string })[]> {
+  const window = dueWindow(type, now);
+
+  const result = await DB.prepare(`
+    SELECT ${EVENT_COLUMNS}, ds.user_id
+    FROM discord_subscriptions ds
+    JOIN events e ON e.id = ds.event_id
+    ${EVENT_JOINS}
+    WHERE ds.reminder_type = ?
+      AND ${window.sql}
+      AND ${REMINDABLE_SQL}
+      AND NOT EXISTS (
+        SELECT 1 FROM reminder_log r
+        WHERE r.event_id = e.id AND r.reminder_type = ds.reminder_type AND r.channel = '${DM_CHANNEL_PREFIX}' || ds.user_id
+      )
+    ORDER BY ds.id ASC
+    LIMIT ${CANDIDATE_LIMIT}
+  `).bind(type, ...window.params).all<ReminderEvent & { user_id: string }>();
+
+  return result.results || [];
+}
+
+/**
+ * Claim new reminders by inserting 'pending' rows. A row that already exists
+ * (another run got there first) is skipped.
+ */
+async function claimNew(
+  DB: D1Database,
+  channel: string,
+  type: ReminderType,
+  events: ReminderEvent[],
+  now: Date
+): Promise<Claim[]> {
+  if (events.length === 0) return [];
+
+  const stmt = DB.prepare(`
+    INSERT INTO reminder_log (event_id, reminder_type, channel, status, attempts, last_attempt_at, sent_at)
+    VALUES (?, ?, ?, 'pending', 1, ?, NULL)
+    ON CONFLICT(event_id, reminder_type, channel) DO NOTHING
+    RETURNING id
+  `);
+  const results = await DB.batch<{ id: number }>(
+    events.map(event => stmt.bind(event.id, type, channel, now.toISOString()))
+  );
+
+  const claims: Claim[] = [];
+  results.forEach((result, i) => {
+    const row = result.results?.[0];
+    if (row) claims.push({ logId: row.id, channel, attempts: 1, type, event: events[i] });
+  });
+  return claims;
+}
+
+/**
+ * Re-claim failed reminders whose backoff has elapsed (and claims abandoned
+ * mid-send) while the event is still upcoming and live. `channels` is a
+ * condition on r.channel, e.g. one channel key or every DM.
+ */
+async function claimRetries(
+  DB: D1Database,
+  channels: { sql: string; params: string[] },
+  types: ReminderType[],
+  now: Date
+): Promise<Claim[]> {
+  if (types.length === 0) return [];
+  const staleCutoff = new Date(now.getTime() - STALE_CLAIM_MINUTES * 60 * 1000).toISOString();
+  const typePlaceholders = types.map(() => '?').join(', ');
+
+  const result = await DB.prepare(`
+    SELECT r.id as log_id, r.channel as log_channel, r.reminder_type, r.attempts, ${EVENT_COLUMNS}
+    FROM reminder_log r
+    JOIN events e ON e.id = r.event_id
+    ${EVENT_JOINS}
+    WHERE ${channels.sql}
+      AND r.reminder_type IN (${typePlaceholders})
+      AND ((r.status = 'failed' AND r.next_attempt_at IS NOT NULL AND r.next_attempt_at <= ?)
+        OR (r.status = 'pending' AND r.last_attempt_at <= ?))
+      AND r.attempts < ?
+      AND datetime(e.start_datetime) > datetime(?)
+      AND ${REMINDABLE_SQL}
+    ORDER BY r.id ASC
+    LIMIT ${MAX_PER_TYPE}
+  `).bind(...channels.params, ...types, now.toISOString(), staleCutoff, MAX_ATTEMPTS, now.toISOString())
+    .all<ReminderEvent & { log_id: number; log_channel: string; reminder_type: ReminderType; attempts: number }>();
+
+  const rows = result.results || [];
+  if (rows.length === 0) return [];
+
+  // Only the run whose update matches the attempt count it read gets the row
+  const stmt = DB.prepare(`
+    UPDATE reminder_log
+    SET status = 'pending', attempts = attempts + 1, last_attempt_at = ?, next_attempt_at = NULL
+    WHERE id = ? AND attempts = ?
+    RETURNING id
+  `);
+  const updates = await DB.batch(rows.map(row => stmt.bind(now.toISOString(), row.log_id, row.attempts)));
+
+  const claims: Claim[] = [];
+  rows.forEach((row, i) => {
+    if (!updates[i].results?.length) return;
+    const { log_id, log_channel, reminder_type, attempts, ...event } = row;
+    claims.push({ logId: log_id, channel: log_channel, attempts: attempts + 1, type: reminder_type, event });
+  });
+  return claims;
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+function buildReminderEmbed(event: ReminderEvent, type: ReminderType, taxonomy: CategoryTaxonomy): DiscordEmbed {
+  const section = SECTION_LABELS[event.section] || SECTION_LABELS.downtown;
+  const categories = parseCategories(event.categories);
+  const emoji = categories.map(cat => categoryEmoji(taxonomy, cat)).find(Boolean) || '📅';
+  const start = new Date(event.start_datetime);
+
+  const heading: Record<ReminderType, { title: string; description: string }> = {
+    '1_week': { title: `🗓️ Coming Up Next Week - ${section}`, description: 'Mark your calendar for this upcoming event!' },
+    '1_day': { title: `⏰ Tomorrow! ${section}`, description: "Don't forget - this event is happening tomorrow!" },
+    new_event: { title: `✨ Just Added - ${section}`, description: 'A new event was added to the calendar.' },
+  };
+
+  const fields: { name: string; value: string; inline?: boolean }[] = [
+    { name: `${emoji} Event`, value: event.title.slice(0, 1024), inline: false },
+    {
+      name: '📅 Date',
+      value: start.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: TIMEZONE }),
+      inline: true,
+    },
+  ];
+
+  // Midnight local time means the source gave no time
+  const wall = toWallTime(start);
+  if (wall.hour !== 0 || wall.minute !== 0) {
+    fields.push({
+      name: '⏰ Time',
+      value: start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: TIMEZONE }),
+      inline: true,
+    });
+  }
+
+  if (event.venue_name) {
+    fields.push({
+      name: '📍 Location',
+      value: event.venue_address
+        ? `${event.venue_name}\n${event.venue_address}${event.venue_city ? `, ${event.venue_city}` : ''}`
+        : event.venue_name,
+      inline: false,
+    });
+  }
+
+  if (categories.length > 0) {
+    fields.push({ name: '🏷️ Categories', value: categories.slice(0, 3).join(' • '), inline: false });
+  }
+
+  return {
+    title: heading[type].title,
+    description: heading[type].description,
+    url: `${SITE_URL}/events/${event.id}`,
+    color: COLORS[type],
+    fields,
+    footer: { text: `${event.source_name || 'Fayetteville Events'} • ncfayetteville.com` },
+    timestamp: start.toISOString(),
+    ...(event.image_url ? { thumbnail: { url: event.image_url } } : {}),
+  };
+}
+
+function backoffUntil(attempts: number, now: Date): string | null {
+  if (attempts >= MAX_ATTEMPTS) return null;
+  const minutes = BACKOFF_BASE_MINUTES * 2 ** (attempts - 1);
+  return new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Send claimed reminders, up to 10 per message, and record each outcome
+ */
+async function sendClaims(
+  DB: D1Database,
+  send: Send,
+  claims: Claim[],
+  taxonomy: CategoryTaxonomy
+): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+
+  const sentStmt = DB.prepare(`
+    UPDATE reminder_log
+    SET status = 'sent', sent_at = ?, message_id = ?, error_message = NULL, next_attempt_at = NULL
+    WHERE id = ?
+  `);
+  const failedStmt = DB.prepare(`
+    UPDATE reminder_log
+    SET status = 'failed', error_message = ?, next_attempt_at = ?
+    WHERE id = ?
+  `);
+
+  for (const type of REMINDER_TYPES) {
+    const ofType = claims.filter(claim => claim.type === type);
+
+    for (let i = 0; i < ofType.length; i += EMBEDS_PER_MESSAGE) {
+      if (sent + failed > 0) await new Promise(resolve => setTimeout(resolve, MESSAGE_PAUSE_MS));
+
+      const batch = ofType.slice(i, i + EMBEDS_PER_MESSAGE);
+      const result = await send({
+        username: '📅 Fayetteville Events',
+        embeds: batch.map(claim => buildReminderEmbed(claim.event, type, taxonomy)),
+      });
+
+      const now = new Date();
+      if (result.ok) {
+        sent += batch.length;
+        await DB.batch(batch.map(claim => sentStmt.bind(now.toISOString(), result.messageId, claim.logId)));
+      } else {
+        failed += batch.length;
+        await DB.batch(batch.map(claim =>
+          failedStmt.bind((result.error || 'Unknown error').slice(0, 1000), backoffUntil(claim.attempts, now), claim.logId)
+        ));
+      }
+    }
+  }
+
+  return { sent, failed };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Send due reminders and retries to every active channel. Outside SEND_HOURS
+ * (local time) nothing is sent unless `force` is set; `dryRun` lists what is
+ * due without claiming it.
+ */
+export async function sendReminders(
+  env: Bindings,
+  options: { now?: Date; dryRun?: boolean; force?: boolean } = {}
+): Promise<ReminderRunResult> {
+  const now = options.now || new Date();
+
+  const channels = (await loadChannels(env)).filter(channel => channel.reminder_types.length > 0);
+  if (channels.length === 0 && !env.DISCORD_BOT_TOKEN) {
+    console.log('No Discord channels configured for reminders');
+    return { sent: 0, failed: 0, ...(options.dryRun ? { pending: [] } : {}) };
+  }
+
+  const { hour } = toWallTime(now);
+  if (!options.force && (hour < SEND_HOURS.from || hour >= SEND_HOURS.to)) {
+    return { sent: 0, failed: 0 };
+  }
+
+  const totals: ReminderRunResult = { sent: 0, failed: 0, ...(options.dryRun ? { pending: [] } : {}) };
+  const taxonomy = await loadTaxonomy(env.DB);
+
+  for (const channel of channels) {
+    const types = REMINDER_TYPES.filter(type => channel.reminder_types.includes(type));
+    const due = await Promise.all(types.map(type => findDue(env.DB, channel, type, now)));
+
+    if (options.dryRun) {
+      totals.pending!.push(...types.flatMap((type, i) =>
+        due[i].map(event => ({ channel: channel.key, event_id: event.id, title: event.title, reminder_type: type }))
+      ));
+      continue;
+    }
+
+    const claims = await claimRetries(env.DB, { sql: 'r.channel = ?', params: [channel.key] }, types, now);
+    for (const [i, type] of types.entries()) {
+      claims.push(...await claimNew(env.DB, channel.key, type, due[i], now));
+    }
+    if (claims.length === 0) continue;
+
+    const result = await sendClaims(env.DB, payload => executeWebhook(channel.webhook_url, payload), claims, taxonomy);
+    totals.sent += result.sent;
+    totals.failed += result.failed;
+  }
+
+  if (env.DISCORD_BOT_TOKEN) {
+    const result = await sendSubscriptionReminders(env, now, taxonomy, totals.pending);
+    totals.sent += result.sent;
+    totals.failed += result.failed;
+  }
+
+  return totals;
+}
+
+/**
+ * DM the reminders users asked for with /subscribe, one user at a time
+ */
+async function sendSubscriptionReminders(
+  env: Bindings,
+  now: Date,
+  taxonomy: CategoryTaxonomy,
+  pending?: ReminderRunResult['pending']
+): Promise<{ sent: number; failed: number }> {
+  const due = await Promise.all(SUBSCRIPTION_TYPES.map(type => findDueSubscriptions(env.DB, type, now)));
+
+  if (pending) {
+    pending.push(...SUBSCRIPTION_TYPES.flatMap((type, i) => due[i].map(event => ({
+      channel: DM_CHANNEL_PREFIX + event.user_id, event_id: event.id, title: event.title, reminder_type: type,
+    }))));
+    return { sent: 0, failed: 0 };
+  }
+
+  const claims = await claimRetries(env.DB, { sql: 'r.channel LIKE ?', params: [`${DM_CHANNEL_PREFIX}%`] }, SUBSCRIPTION_TYPES, now);
+  for (const [i, type] of SUBSCRIPTION_TYPES.entries()) {
+    const byUser = new Map<string, ReminderEvent[]>();
+    for (const { user_id, ...event } of due[i]) {
+      byUser.set(user_id, [...(byUser.get(user_id) || []), event]);
+    }
+    for (const [userId, events] of byUser) {
+      claims.push(...await claimNew(env.DB, DM_CHANNEL_PREFIX + userId, type, events, now));
+    }
+  }
+
+  const totals = { sent: 0, failed: 0 };
+  for (const channel of new Set(claims.map(claim => claim.channel))) {
+    const userId = channel.slice(DM_CHANNEL_PREFIX.length);
+    const result = await sendClaims(
+      env.DB,
+      payload => sendDirectMessage(env.DISCORD_BOT_TOKEN, userId, payload),
+      claims.filter(claim => claim.channel === channel),
+      taxonomy
+    );
+    totals.sent += result.sent;
+    totals.failed += result.failed;
+  }
+  return totals;
+}
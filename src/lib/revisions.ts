@@ -0,0 +1,137 @@
+/**
+ * Event change history (event_revisions)
+ *
+ * Rows are written by triggers on `events` (migration 0014), so every writer
+ * is covered. This module only reads them.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+
+export type ChangeType = 'inserted' | 'updated' | 'rescheduled' | 'cancelled';
+
+export const CHANGE_TYPES: ChangeType[] = ['inserted', 'updated', 'rescheduled', 'cancelled'];
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface EventRevision {
+  id: number;
+  event_id: string;
+  change_type: ChangeType;
+  changes: FieldChanges | null;
+  created_at: string;
+}
+
+interface RevisionRow {
+  id: number;
+  event_id: string;
+  change_type: ChangeType;
+  changes: string | null;
+  created_at: string;
+}
+
+function toRevision(row: RevisionRow): EventRevision {
+  let changes: FieldChanges | null = null;
+  if (row.changes) {
+    try {
+      changes = JSON.parse(row.changes);
+    } catch {
+      changes = null;
+    }
+  }
+  return {
+    id: row.id,
+    event_id: row.event_id,
+    change_type: row.change_type,
+    changes,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * All revisions for one event, oldest first
+ */
+export async function fetchEventHistory(DB: D1Database, eventId: string): Promise<EventRevision[]> {
+  const result = await DB.prepare(`
+    SELECT id, event_id, change_type, changes, created_at
+    FROM event_revisions
+    WHERE event_id = ?
+    ORDER BY id ASC
+  `).bind(eventId).all<RevisionRow>();
+
+  return (result.results || []).map(toRevision);
+}
+
+export interface ChangeFeedEntry extends EventRevision {
+  event: {
+    title: string;
+    start_datetime: string;
+    end_datetime: string;
+    status: string;
+    section: string;
+    url: string | null;
+    venue_name: string | null;
+  } | null;  // null if the event has since been deleted
+}
+
+interface ChangeFeedRow extends RevisionRow {
+  title: string | null;
+  start_datetime: string;
+  end_datetime: string;
+  status: string;
+  section: string;
+  url: string | null;
+  venue_name: string | null;
+}
+
+/**
+ * Revisions after `since` (ISO timestamp) or after revision id `cursor`,
+ * oldest first, with the event's current title, times and venue
+ */
+export async function fetchChanges(DB: D1Database, options: {
+  since?: string;
+  cursor?: number;
+  types?: ChangeType[];
+  limit: number;
+}): Promise<ChangeFeedEntry[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (options.cursor !== undefined) {
+    conditions.push('r.id > ?');
+    params.push(options.cursor);
+  } else if (options.since) {
+    conditions.push('r.created_at > ?');
+    params.push(options.since);
+  }
+
+  if (options.types && options.types.length > 0) {
+    conditions.push(`r.change_type IN (${options.types.map(() => '?').join(', ')})`);
+    params.push(...options.types);
+  }
+
+  const result = await DB.prepare(`
+    SELECT
+      r.id, r.event_id, r.change_type, r.changes, r.created_at,
+      e.title, e.start_datetime, e.end_datetime, e.status, e.section, e.url,
+      COALESCE(v.name, e.location_name) as venue_name
+    FROM event_revisions r
+    LEFT JOIN events e ON e.id = r.event_id
+    LEFT JOIN venues v ON v.id = e.venue_id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY r.id ASC
+    LIMIT ?
+  `).bind(...params, options.limit).all<ChangeFeedRow>();
+
+  return (result.results || []).map(row => ({
+    ...toRevision(row),
+    event: row.title === null ? null : {
+      title: row.title,
+      start_datetime: row.start_datetime,
+      end_datetime: row.end_datetime,
+      status: row.status,
+      section: row.section,
+      url: row.url,
+      venue_name: row.venue_name,
+    },
+  }));
+}
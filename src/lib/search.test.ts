@@ -0,0 +1,14 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { markMatches } from './search';
+
+test('matches are wrapped in <mark> and the rest is escaped', () => {
+  assert.equal(
+    markMatches('\u0001Jazz\u0002 <img src=x onerror=alert(1)> & \u0001Blues\u0002'),
+    '<mark>Jazz</mark> &lt;img src=x onerror=alert(1)&gt; &amp; <mark>Blues</mark>'
+  );
+});
+
+test('a missing highlight is empty', () => {
+  assert.equal(markMatches(null), '');
+});
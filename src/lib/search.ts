@@ -0,0 +1,241 @@
+/**
+ * Full-text search (SQLite FTS5)
+ *
+ * events_fts and venues_fts are kept in sync by triggers (migration 0012) and
+ * share rowids with events and venues. User input is turned into a safe FTS5
+ * query: words are ANDed, "quoted text" is a phrase, and a trailing * makes a
+ * prefix match (e.g. `jazz fest*`).
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { expandOccurrences } from './recurrence';
+import { LIVE_STATUS_SQL } from './event-status';
+import { escapeHtml } from './html';
+
+// Highlights and snippets are HTML: the stored text escaped, with matches in <mark>
+export const HIGHLIGHT_OPEN = '<mark>';
+export const HIGHLIGHT_CLOSE = '</mark>';
+
+// FTS5 marks matches with control characters, swapped for tags once escaped
+const MATCH_OPEN = '\u0001';
+const MATCH_CLOSE = '\u0002';
+const MATCH_MARKERS_SQL = 'char(1), char(2)';
+
+// Column weights: title, description, venue_name, location_name, categories
+export const EVENT_RANK_SQL = 'bm25(events_fts, 10.0, 1.0, 4.0, 3.0, 2.0)';
+
+// Column weights: name, description, address, tags
+const VENUE_RANK_SQL = 'bm25(venues_fts, 10.0, 1.0, 2.0, 4.0)';
+
+export const EVENTS_FTS_JOIN = 'JOIN events_fts ON events_fts.rowid = e.rowid';
+
+// Extra columns for event rows selected with EVENTS_FTS_JOIN
+export const EVENT_SEARCH_COLUMNS = `
+  ${EVENT_RANK_SQL} as search_rank,
+  highlight(events_fts, 0, ${MATCH_MARKERS_SQL}) as title_highlight,
+  snippet(events_fts, -1, ${MATCH_MARKERS_SQL}, '…', 16) as search_snippet
+`;
+
+const MAX_TERMS = 10;
+
+export type SearchHitType = 'event' | 'venue';
+
+export interface SearchHit {
+  type: SearchHitType;
+  id: string;
+  title: string;
+  title_highlight: string;
+  snippet: string;
+  score: number;                 // Higher is more relevant
+  url: string | null;
+  image_url: string | null;
+  // Events
+  start_datetime?: string;
+  end_datetime?: string;
+  venue_name?: string | null;
+  section?: string;
+  // Venues
+  address?: string | null;
+  category?: string | null;
+}
+
+/**
+ * HTML for highlight() or snippet() output: the text escaped, matches in <mark>
+ */
+export function markMatches(text: string | null): string {
+  return escapeHtml(text ?? '')
+    .split(MATCH_OPEN).join(HIGHLIGHT_OPEN)
+    .split(MATCH_CLOSE).join(HIGHLIGHT_CLOSE);
+}
+
+/**
+ * An event row selected with EVENT_SEARCH_COLUMNS, with its highlights as HTML
+ */
+export function withMarkedMatches<T extends Record<string, any>>(row: T): T {
+  return { ...row, title_highlight: markMatches(row.title_highlight), search_snippet: markMatches(row.search_snippet) };
+}
+
+function words(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Convert user input into an FTS5 MATCH expression, or null if it has no
+ * searchable words. Every term is quoted, so FTS5 operators and column
+ * filters in the input are treated as plain text.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (terms.length >= MAX_TERMS) break;
+
+    if (match[1] !== undefined) {
+      const phrase = words(match[1]);
+      if (phrase.length > 0) terms.push(`"${phrase.join(' ')}"`);
+      continue;
+    }
+
+    const token = match[2];
+    const parts = words(token);
+    if (parts.length === 0) continue;
+    // "rock-n-roll" becomes the phrase "rock n roll"
+    terms.push(`"${parts.join(' ')}"${token.endsWith('*') ? '*' : ''}`);
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+interface EventHitRow {
+  id: string;
+  title: string;
+  start_datetime: string;
+  end_datetime: string;
+  recurrence_rule: string | null;
+  recurrence_exdates: string | null;
+  url: string | null;
+  image_url: string | null;
+  section: string;
+  venue_name: string | null;
+  search_rank: number;
+  title_highlight: string;
+  search_snippet: string;
+}
+
+interface VenueHitRow {
+  id: string;
+  name: string;
+  address: string | null;
+  category: string | null;
+  website: string | null;
+  image_url: string | null;
+  search_rank: number;
+  name_highlight: string;
+  search_snippet: string;
+}
+
+async function searchEvents(DB: D1Database, ftsQuery: string, limit: number): Promise<SearchHit[]> {
+  const now = new Date();
+  const result = await DB.prepare(`
+    SELECT
+      e.id, e.title, e.start_datetime, e.end_datetime, e.recurrence_rule, e.recurrence_exdates,
+      e.url, e.image_url, e.section,
+      COALESCE(v.name, e.location_name) as venue_name,
+      ${EVENT_SEARCH_COLUMNS}
+    FROM events e
+    ${EVENTS_FTS_JOIN}
+    LEFT JOIN venues v ON e.venue_id = v.id
+    WHERE events_fts MATCH ?
+      AND ${LIVE_STATUS_SQL}
+      AND e.canonical_event_id IS NULL
+      AND (e.venue_only = 0 OR e.venue_only IS NULL)
+      AND CASE WHEN e.recurrence_rule IS NULL THEN datetime(e.end_datetime) >= datetime(?)
+          ELSE e.recurrence_end IS NULL OR datetime(e.recurrence_end) >= datetime(?) END
+    ORDER BY search_rank
+    LIMIT ?
+  `).bind(ftsQuery, now.toISOString(), now.toISOString(), limit).all<EventHitRow>();
+
+  const yearAhead = new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000);
+  const hits: SearchHit[] = [];
+
+  for (const row of result.results || []) {
+    let { start_datetime, end_datetime } = row;
+
+    // Recurring series: point at the next occurrence rather than the first
+    if (row.recurrence_rule) {
+      const next = expandOccurrences(row, now, yearAhead)[0];
+      if (!next) continue;
+      start_datetime = next.start.toISOString();
+      end_datetime = next.end.toISOString();
+    }
+
+    hits.push({
+      type: 'event',
+      id: row.id,
+      title: row.title,
+      title_highlight: markMatches(row.title_highlight),
+      snippet: markMatches(row.search_snippet),
+      score: -row.search_rank,
+      url: row.url,
+      image_url: row.image_url,
+      start_datetime,
+      end_datetime,
+      venue_name: row.venue_name,
+      section: row.section,
+    });
+  }
+
+  return hits;
+}
+
+async function searchVenues(DB: D1Database, ftsQuery: string, limit: number): Promise<SearchHit[]> {
+  const result = await DB.prepare(`
+    SELECT
+      v.id, v.name, v.address, v.category, v.website, v.image_url,
+      ${VENUE_RANK_SQL} as search_rank,
+      highlight(venues_fts, 0, ${MATCH_MARKERS_SQL}) as name_highlight,
+      snippet(venues_fts, -1, ${MATCH_MARKERS_SQL}, '…', 16) as search_snippet
+    FROM venues v
+    JOIN venues_fts ON venues_fts.rowid = v.rowid
+    WHERE venues_fts MATCH ?
+    ORDER BY search_rank
+    LIMIT ?
+  `).bind(ftsQuery, limit).all<VenueHitRow>();
+
+  return (result.results || []).map(row => ({
+    type: 'venue' as const,
+    id: row.id,
+    title: row.name,
+    title_highlight: markMatches(row.name_highlight),
+    snippet: markMatches(row.search_snippet),
+    score: -row.search_rank,
+    url: row.website,
+    image_url: row.image_url,
+    address: row.address,
+    category: row.category,
+  }));
+}
+
+/**
+ * Ranked event and venue hits for a user query, best first
+ */
+export async function searchAll(
+  DB: D1Database,
+  query: string,
+  options: { types?: SearchHitType[]; limit?: number } = {}
+): Promise<SearchHit[]> {
+  const ftsQuery = buildFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  const types = options.types ?? ['event', 'venue'];
+  const limit = options.limit ?? 20;
+
+  const [events, venues] = await Promise.all([
+    types.includes('event') ? searchEvents(DB, ftsQuery, limit) : Promise.resolve([]),
+    types.includes('venue') ? searchVenues(DB, ftsQuery, limit) : Promise.resolve([]),
+  ]);
+
+  return [...events, ...venues]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
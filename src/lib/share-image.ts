@@ -0,0 +1,217 @@
+/**
+ * Share Images
+ *
+ * Renders EventListTemplate / EventCardTemplate to SVG with satori and
+ * rasterizes it to PNG with resvg. Both libraries run from WebAssembly,
+ * initialized once per isolate. Inter font files and emoji SVGs are fetched on
+ * first use and cached in R2.
+ */
+
+import satori, { init as initSatori } from 'satori/standalone';
+import { Resvg, initWasm as initResvg } from '@resvg/resvg-wasm';
+import yogaWasm from 'satori/yoga.wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import { Bindings } from '../types';
+import { EventListTemplate, Event as TemplateEvent } from '../templates/EventListTemplate';
+import { EventCardTemplate, EventCardEvent } from '../templates/EventCardTemplate';
+
+// ============================================================================
+// SIZES
+// ============================================================================
+
+export type ShareImageSize = 'og' | 'square' | 'story';
+
+export const SHARE_IMAGE_SIZES: Record<ShareImageSize, { width: number; height: number; maxEvents: number }> = {
+  og: { width: 1200, height: 630, maxEvents: 3 },         // Open Graph / Discord / link previews
+  square: { width: 1080, height: 1080, maxEvents: 5 },    // Instagram feed
+  story: { width: 1080, height: 1920, maxEvents: 10 },    // Instagram / Facebook story
+};
+
+export function isShareImageSize(value: string): value is ShareImageSize {
+  return value in SHARE_IMAGE_SIZES;
+}
+
+// ============================================================================
+// WASM + FONTS
+// ============================================================================
+
+let wasmReady: Promise<void> | null = null;
+
+function initWasm(): Promise<void> {
+  if (!wasmReady) {
+    // satori's init is typed for raw bytes but accepts a compiled module
+    wasmReady = Promise.all([
+      initSatori(yogaWasm as unknown as ArrayBuffer),
+      initResvg(resvgWasm),
+    ]).then(() => undefined);
+    wasmReady.catch(() => { wasmReady = null; });
+  }
+  return wasmReady;
+}
+
+const FONT_WEIGHTS = [400, 700, 800] as const;
+const FONT_URL = (weight: number) =>
+  `https://cdn.jsdelivr.net/fontsource/fonts/inter@latest/latin-${weight}-normal.ttf`;
+const FONT_KEY = (weight: number) => `assets/fonts/inter-${weight}.ttf`;
+
+type FontWeight = (typeof FONT_WEIGHTS)[number];
+type SatoriFont = { name: string; data: ArrayBuffer; weight: FontWeight; style: 'normal' };
+
+let fontCache: SatoriFont[] | null = null;
+
+async function loadFont(env: Bindings, weight: FontWeight): Promise<ArrayBuffer> {
+  const cached = await env.RAW_DATA.get(FONT_KEY(weight));
+  if (cached) return cached.arrayBuffer();
+
+  const response = await fetch(FONT_URL(weight));
+  if (!response.ok) {
+    throw new Error(`Font download failed (${response.status}): ${FONT_URL(weight)}`);
+  }
+  const data = await response.arrayBuffer();
+  await env.RAW_DATA.put(FONT_KEY(weight), data, {
+    httpMetadata: { contentType: 'font/ttf' },
+  });
+  return data;
+}
+
+async function loadFonts(env: Bindings): Promise<SatoriFont[]> {
+  if (!fontCache) {
+    const data = await Promise.all(FONT_WEIGHTS.map(weight => loadFont(env, weight)));
+    fontCache = FONT_WEIGHTS.map((weight, i) => ({ name: 'Inter', data: data[i], weight, style: 'normal' }));
+  }
+  return fontCache;
+}
+
+// Twemoji SVGs for emoji in titles, section badges and category icons
+const EMOJI_URL = (code: string) => `https://cdn.jsdelivr.net/gh/jdecked/twemoji@latest/assets/svg/${code}.svg`;
+const EMOJI_KEY = (code: string) => `assets/emoji/${code}.svg`;
+
+const emojiCache = new Map<string, string>();
+
+function emojiCode(segment: string): string {
+  const codePoints = [...segment].map(char => char.codePointAt(0)!);
+  // Twemoji file names drop the variation selector unless a zero-width joiner is present
+  const filtered = codePoints.includes(0x200d) ? codePoints : codePoints.filter(cp => cp !== 0xfe0f);
+  return filtered.map(cp => cp.toString(16)).join('-');
+}
+
+async function loadEmoji(env: Bindings, segment: string): Promise<string> {
+  const code = emojiCode(segment);
+  const memo = emojiCache.get(code);
+  if (memo !== undefined) return memo;
+
+  let svg: string | null = null;
+  const cached = await env.RAW_DATA.get(EMOJI_KEY(code));
+  if (cached) {
+    svg = await cached.text();
+  } else {
+    const response = await fetch(EMOJI_URL(code));
+    if (response.ok) {
+      svg = await response.text();
+      await env.RAW_DATA.put(EMOJI_KEY(code), svg, {
+        httpMetadata: { contentType: 'image/svg+xml' },
+      });
+    }
+  }
+
+  // Unknown emoji render as nothing rather than failing the whole image
+  const dataUri = svg ? `data:image/svg+xml;base64,${btoa(svg)}` : '';
+  emojiCache.set(code, dataUri);
+  return dataUri;
+}
+
+async function renderSvg(env: Bindings, element: Parameters<typeof satori>[0], width: number, height: number): Promise<string> {
+  const [fonts] = await Promise.all([loadFonts(env), initWasm()]);
+
+  return satori(element, {
+    width,
+    height,
+    fonts,
+    loadAdditionalAsset: async (languageCode, segment) =>
+      languageCode === 'emoji' ? loadEmoji(env, segment) : [],
+  });
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+export interface EventListImageOptions {
+  events: TemplateEvent[];
+  title: string;
+  subtitle: string;
+  size: ShareImageSize;
+}
+
+/**
+ * Render an event list card to SVG at one of the share sizes
+ */
+export async function renderEventListSvg(env: Bindings, options: EventListImageOptions): Promise<string> {
+  const { width, height, maxEvents } = SHARE_IMAGE_SIZES[options.size];
+
+  const element = EventListTemplate({
+    events: options.events.slice(0, maxEvents),
+    title: options.title,
+    subtitle: options.subtitle,
+    width,
+    height,
+  });
+
+  return renderSvg(env, element, width, height);
+}
+
+/**
+ * Rasterize an SVG produced by renderEventListSvg
+ */
+export async function svgToPng(svg: string): Promise<Uint8Array<ArrayBuffer>> {
+  await initWasm();
+  const resvg = new Resvg(svg, { font: { loadSystemFonts: false } });
+  try {
+    const image = resvg.render();
+    const png = image.asPng() as Uint8Array<ArrayBuffer>;
+    image.free();
+    return png;
+  } finally {
+    resvg.free();
+  }
+}
+
+// ============================================================================
+// EVENT CARDS
+// ============================================================================
+
+// Bump when EventCardTemplate changes so cached cards are redrawn
+const EVENT_CARD_VERSION = 1;
+
+const EVENT_CARD_KEY = (eventId: string) => `og/events/${eventId}.png`;
+
+export interface EventCardSource extends EventCardEvent {
+  id: string;
+  content_hash: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Open Graph card (1200x630 PNG) for a single event, cached in R2. The cached
+ * card is reused until the event's content_hash or category emoji changes.
+ */
+export async function getEventCardPng(env: Bindings, event: EventCardSource): Promise<Uint8Array<ArrayBuffer>> {
+  const version = `v${EVENT_CARD_VERSION}:${event.content_hash || event.updated_at || ''}:${encodeURIComponent(event.category_emoji || '')}`;
+  const key = EVENT_CARD_KEY(event.id);
+
+  const cached = await env.RAW_DATA.get(key);
+  if (cached && cached.customMetadata?.version === version) {
+    return new Uint8Array(await cached.arrayBuffer());
+  }
+
+  const { width, height } = SHARE_IMAGE_SIZES.og;
+  const svg = await renderSvg(env, EventCardTemplate({ event, width, height }), width, height);
+  const png = await svgToPng(svg);
+
+  await env.RAW_DATA.put(key, png, {
+    httpMetadata: { contentType: 'image/png' },
+    customMetadata: { version },
+  });
+
+  return png;
+}
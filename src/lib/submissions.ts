@@ -0,0 +1,254 @@
+/**
+ * Community event submissions (pending_events)
+ *
+ * Validation shared by the public submission endpoint and the admin edit
+ * route, plus promotion of an approved submission into `events`.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { loadTaxonomy, normalizeCategories } from './categories';
+import { loadVenueIndex, resolveVenueId } from './venue-resolver';
+
+export const COMMUNITY_SOURCE_ID = 'community';
+
+const SECTIONS = ['downtown', 'fort_bragg', 'crown'];
+const MAX_DURATION_MS = 14 * 24 * 60 * 60 * 1000;   // Two weeks
+const MAX_LEAD_TIME_MS = 365 * 24 * 60 * 60 * 1000; // One year out
+
+export interface SubmissionInput {
+  title: string;
+  description: string | null;
+  start_datetime: string;
+  end_datetime: string;
+  venue_name: string | null;
+  venue_address: string | null;
+  url: string | null;
+  ticket_url: string | null;
+  image_url: string | null;
+  categories: string[];
+  section: string;
+  submitter_name: string | null;
+  submitter_email: string | null;
+}
+
+export interface PendingEventRow extends Omit<SubmissionInput, 'categories'> {
+  id: number;
+  categories: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  submitted_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_reason: string | null;
+  event_id: string | null;
+}
+
+function optionalString(value: unknown, field: string, maxLength: number, errors: string[]): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return null;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed || null;
+}
+
+function optionalUrl(value: unknown, field: string, errors: string[]): string | null {
+  const url = optionalString(value, field, 2000, errors);
+  if (url && !/^https?:\/\/[^\s]+$/i.test(url)) {
+    errors.push(`${field} must be an http(s) URL`);
+  }
+  return url;
+}
+
+/**
+ * Validate a submission body. When `base` is given (admin edits), only the
+ * fields present in the body are checked and merged over it.
+ */
+export function validateSubmission(
+  body: Record<string, unknown>,
+  base?: SubmissionInput
+): { value: SubmissionInput; errors: string[] } {
+  const errors: string[] = [];
+  const has = (field: string) => !base || field in body;
+
+  const value: SubmissionInput = base ? { ...base } : {
+    title: '',
+    description: null,
+    start_datetime: '',
+    end_datetime: '',
+    venue_name: null,
+    venue_address: null,
+    url: null,
+    ticket_url: null,
+    image_url: null,
+    categories: [],
+    section: 'downtown',
+    submitter_name: null,
+    submitter_email: null,
+  };
+
+  if (has('title')) {
+    const title = optionalString(body.title, 'title', 200, errors);
+    if (!title || title.length < 3) {
+      errors.push('title is required (3-200 characters)');
+    }
+    value.title = title || '';
+  }
+
+  if (has('description')) value.description = optionalString(body.description, 'description', 5000, errors);
+  if (has('venue_name')) value.venue_name = optionalString(body.venue_name, 'venue_name', 200, errors);
+  if (has('venue_address')) value.venue_address = optionalString(body.venue_address, 'venue_address', 300, errors);
+  if (has('submitter_name')) value.submitter_name = optionalString(body.submitter_name, 'submitter_name', 100, errors);
+  if (has('url')) value.url = optionalUrl(body.url, 'url', errors);
+  if (has('ticket_url')) value.ticket_url = optionalUrl(body.ticket_url, 'ticket_url', errors);
+  if (has('image_url')) value.image_url = optionalUrl(body.image_url, 'image_url', errors);
+
+  if (has('submitter_email')) {
+    const email = optionalString(body.submitter_email, 'submitter_email', 254, errors);
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push('submitter_email must be a valid email address');
+    }
+    value.submitter_email = email;
+  }
+
+  if (has('section')) {
+    const section = body.section ?? 'downtown';
+    if (typeof section !== 'string' || !SECTIONS.includes(section)) {
+      errors.push(`section must be one of: ${SECTIONS.join(', ')}`);
+    } else {
+      value.section = section;
+    }
+  }
+
+  if (has('categories')) {
+    const categories = body.categories ?? [];
+    if (!Array.isArray(categories) || categories.some(cat => typeof cat !== 'string')) {
+      errors.push('categories must be an array of strings');
+    } else {
+      value.categories = [...new Set(categories.map(cat => cat.trim()).filter(Boolean))].slice(0, 10);
+    }
+  }
+
+  if (has('start_datetime')) value.start_datetime = String(body.start_datetime ?? '');
+  if (has('end_datetime')) value.end_datetime = String(body.end_datetime ?? '');
+
+  const start = new Date(value.start_datetime);
+  const end = new Date(value.end_datetime);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    errors.push('start_datetime and end_datetime must be ISO 8601 dates');
+  } else {
+    const now = Date.now();
+    if (end < start) errors.push('end_datetime must be after start_datetime');
+    if (end.getTime() - start.getTime() > MAX_DURATION_MS) errors.push('events may last at most 14 days');
+    if (end.getTime() < now) errors.push('event has already ended');
+    if (start.getTime() - now > MAX_LEAD_TIME_MS) errors.push('events may be at most one year out');
+    value.start_datetime = start.toISOString();
+    value.end_datetime = end.toISOString();
+  }
+
+  return { value, errors };
+}
+
+/**
+ * Convert a stored pending_events row back into SubmissionInput
+ */
+export function rowToSubmission(row: PendingEventRow): SubmissionInput {
+  let categories: string[] = [];
+  try {
+    categories = JSON.parse(row.categories || '[]');
+  } catch {
+    categories = [];
+  }
+
+  return {
+    title: row.title,
+    description: row.description,
+    start_datetime: row.start_datetime,
+    end_datetime: row.end_datetime,
+    venue_name: row.venue_name,
+    venue_address: row.venue_address,
+    url: row.url,
+    ticket_url: row.ticket_url,
+    image_url: row.image_url,
+    categories,
+    section: row.section || 'downtown',
+    submitter_name: row.submitter_name,
+    submitter_email: row.submitter_email,
+  };
+}
+
+/**
+ * Publish an approved submission to `events` under the community source
+ * (categories normalized against the taxonomy) and mark it reviewed.
+ * Returns the new event id.
+ */
+export async function approveSubmission(
+  DB: D1Database,
+  row: PendingEventRow,
+  reviewer: string,
+  reason: string | null
+): Promise<string> {
+  const submission = rowToSubmission(row);
+  const eventId = `${COMMUNITY_SOURCE_ID}_${row.id}`;
+  const now = new Date().toISOString();
+  const venueId = resolveVenueId(await loadVenueIndex(DB), {
+    name: submission.venue_name,
+    address: submission.venue_address,
+  });
+  const categories = normalizeCategories(submission.categories, await loadTaxonomy(DB));
+
+  await DB.batch([
+    DB.prepare(`
+      INSERT INTO events (
+        id, source_id, external_id, title, description,
+        start_datetime, end_datetime, venue_id, location_name,
+        url, ticket_url, image_url, categories, tags,
+        status, section, last_modified, updated_at, last_seen_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '[]', 'confirmed', ?, ?, ?, ?)
+      ON CONFLICT(source_id, external_id) DO UPDATE SET
+        title = excluded.title,
+        description = excluded.description,
+        start_datetime = excluded.start_datetime,
+        end_datetime = excluded.end_datetime,
+        venue_id = excluded.venue_id,
+        location_name = excluded.location_name,
+        url = excluded.url,
+        ticket_url = excluded.ticket_url,
+        image_url = excluded.image_url,
+        categories = excluded.categories,
+        status = 'confirmed',
+        section = excluded.section,
+        last_modified = excluded.last_modified,
+        updated_at = excluded.updated_at
+    `).bind(
+      eventId,
+      COMMUNITY_SOURCE_ID,
+      String(row.id),
+      submission.title,
+      submission.description || '',
+      submission.start_datetime,
+      submission.end_datetime,
+      venueId,
+      [submission.venue_name, submission.venue_address].filter(Boolean).join(', '),
+      submission.url,
+      submission.ticket_url,
+      submission.image_url,
+      JSON.stringify(categories),
+      submission.section,
+      now,
+      now,
+      now,
+    ),
+    DB.prepare(`
+      UPDATE pending_events SET
+        status = 'approved', reviewed_by = ?, reviewed_at = ?, review_reason = ?,
+        event_id = ?, updated_at = ?
+      WHERE id = ?
+    `).bind(reviewer, now, reason, eventId, now, row.id),
+  ]);
+
+  return eventId;
+}
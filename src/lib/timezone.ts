@@ -0,0 +1,211 @@
+/**
+ * Time zone helpers
+ *
+ * Events happen in Fayetteville, so wall-clock times are America/New_York.
+ * Workers run in UTC, so conversions go through Intl instead of the local
+ * Date methods.
+ */
+
+export const TIMEZONE = 'America/New_York';
+
+export interface WallTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in the given zone
+ */
+export function toWallTime(date: Date, timeZone: string = TIMEZONE): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of the zone from UTC at an instant, in minutes (e.g. -240 for EDT)
+ */
+export function getTimezoneOffset(date: Date, timeZone: string = TIMEZONE): number {
+  const wall = toWallTime(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instant for a wall-clock time in the given zone. Times skipped by the
+ * spring-forward gap resolve to the hour after; repeated fall-back times
+ * resolve to the first (daylight) occurrence.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string = TIMEZONE): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+  // Offsets just before and after the candidate cover both sides of a DST change
+  const before = getTimezoneOffset(new Date(asUtc - 24 * 60 * 60 * 1000), timeZone);
+  const after = getTimezoneOffset(new Date(asUtc + 24 * 60 * 60 * 1000), timeZone);
+
+  for (const offset of [Math.max(before, after), Math.min(before, after)]) {
+    const candidate = new Date(asUtc - offset * 60000);
+    if (getTimezoneOffset(candidate, timeZone) === offset) return candidate;
+  }
+
+  // Inside the spring-forward gap: neither offset round-trips
+  return new Date(asUtc - Math.min(before, after) * 60000);
+}
+
+// =============================================================================
+// Local Date Ranges
+// =============================================================================
+
+/**
+ * Half-open instant range [from, to)
+ */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * True if `timeZone` is an IANA zone this runtime knows (e.g. 'America/Chicago')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date of an instant in the zone, e.g. '2025-03-09'
+ */
+export function localDateString(date: Date, timeZone: string = TIMEZONE): string {
+  const { year, month, day } = toWallTime(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Day of week of an instant in the zone (0 = Sunday)
+ */
+export function localWeekday(date: Date, timeZone: string = TIMEZONE): number {
+  const { year, month, day } = toWallTime(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Instant of local midnight, `offsetDays` after the local day containing
+ * `date`. Days are 23 or 25 hours long across DST changes, so this goes
+ * through wall time rather than adding 24h.
+ */
+export function startOfLocalDay(date: Date, timeZone: string = TIMEZONE, offsetDays: number = 0): Date {
+  const { year, month, day } = toWallTime(date, timeZone);
+  const target = new Date(Date.UTC(year, month - 1, day) + offsetDays * DAY_MS);
+  return fromWallTime({
+    year: target.getUTCFullYear(),
+    month: target.getUTCMonth() + 1,
+    day: target.getUTCDate(),
+    hour: 0,
+    minute: 0,
+    second: 0,
+  }, timeZone);
+}
+
+/**
+ * `days` whole local days starting `offsetDays` from the day containing `date`
+ */
+export function localDayRange(date: Date, timeZone: string = TIMEZONE, offsetDays: number = 0, days: number = 1): DateRange {
+  return {
+    from: startOfLocalDay(date, timeZone, offsetDays),
+    to: startOfLocalDay(date, timeZone, offsetDays + days),
+  };
+}
+
+/**
+ * The local calendar month containing `date`
+ */
+export function localMonthRange(date: Date, timeZone: string = TIMEZONE): DateRange {
+  const { year, month } = toWallTime(date, timeZone);
+  const midnight = { day: 1, hour: 0, minute: 0, second: 0 };
+  return {
+    from: fromWallTime({ ...midnight, year, month }, timeZone),
+    to: fromWallTime({ ...midnight, year: month === 12 ? year + 1 : year, month: month === 12 ? 1 : month + 1 }, timeZone),
+  };
+}
+
+/**
+ * This weekend (Fri-Sun) in local days. From Friday on, starts today;
+ * Mon-Thu, the coming Friday.
+ */
+export function weekendRange(date: Date, timeZone: string = TIMEZONE): DateRange {
+  const weekday = localWeekday(date, timeZone);
+  if (weekday === 0) return localDayRange(date, timeZone, 0, 1);  // Sunday: rest of today
+  if (weekday >= 5) return localDayRange(date, timeZone, 0, 8 - weekday);  // Fri: 3 days, Sat: 2
+  return localDayRange(date, timeZone, 5 - weekday, 3);
+}
+
+/**
+ * Hours [startHour, endHour) of a 'YYYY-MM-DD' local date; endHour may be 24.
+ * Returns null if the date is not valid.
+ */
+export function localTimeRange(
+  dateString: string,
+  startHour: number,
+  endHour: number,
+  timeZone: string = TIMEZONE
+): DateRange | null {
+  const match = dateString.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const base = new Date(Date.UTC(year, month - 1, day));
+  if (base.getUTCMonth() !== month - 1) return null;
+
+  const at = (hour: number) => {
+    const target = new Date(base.getTime() + hour * 60 * 60 * 1000);
+    return fromWallTime({
+      year: target.getUTCFullYear(),
+      month: target.getUTCMonth() + 1,
+      day: target.getUTCDate(),
+      hour: target.getUTCHours(),
+      minute: 0,
+      second: 0,
+    }, timeZone);
+  };
+
+  return { from: at(startHour), to: at(endHour) };
+}
@@ -0,0 +1,334 @@
+/**
+ * Venue resolution
+ *
+ * Matches an event's free-text location (plus address and coordinates when
+ * the source has them) to a row in venues. Names and addresses are
+ * normalized first, then tried in order of how much they can be trusted:
+ * exact name or alias, name without "The"/"Theater"-style words, street
+ * address, fuzzy name similarity, and finally the event's own coordinates.
+ *
+ * Only matches at AUTO_MATCH_CONFIDENCE or above set events.venue_id. Every
+ * other location goes to venue_match_queue, with the best guess if there is
+ * one, where a moderator confirms it and the location becomes an alias.
+ */
+
+import { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { haversineDistance } from './geo';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export const AUTO_MATCH_CONFIDENCE = 0.85;
+const SUGGEST_CONFIDENCE = 0.5;     // Weaker guesses are not shown in the queue
+
+const NEAR_MILES = 0.1;             // Coordinates this close back up a name match
+const SAME_SPOT_MILES = 0.03;       // ... or suggest the venue on their own
+
+// Trailing words dropped for the "core" name ("Segra Stadium" -> "segra")
+const VENUE_WORDS = /\s+(?:theater|theatre|arena|stadium|center|centre|complex|hall|park|auditorium|amphitheater)$/;
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd', lane: 'ln',
+  court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', circle: 'cir', square: 'sq',
+  north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+export type MatchMethod = 'name' | 'core_name' | 'address' | 'fuzzy' | 'coordinates';
+
+export interface VenueMatch {
+  venueId: string;
+  confidence: number;   // 0-1
+  method: MatchMethod;
+}
+
+export interface LocationInput {
+  name?: string | null;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function simplify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lowercase, no accents or punctuation, "&" spelled out, no leading "the"
+ */
+export function normalizeVenueName(name: string): string {
+  return simplify(name).replace(/^the\s+/, '');
+}
+
+function coreName(normalized: string): string {
+  return normalized.replace(VENUE_WORDS, '').trim();
+}
+
+/**
+ * Street line of an address ("460 Hay Street, Suite 2" -> "460 hay st"), or
+ * null when there is no house number to go on
+ */
+export function normalizeStreet(address: string): string | null {
+  const line = address.split(',').map(part => part.trim()).find(part => /^\d/.test(part));
+  if (!line) return null;
+
+  const words = simplify(line.replace(/\s(?:suite|ste|unit|apt)\b.*$|\s#.*$/i, ''))
+    .split(' ')
+    .map(word => STREET_ABBREVIATIONS[word] || word);
+  return words.length > 1 ? words.join(' ') : null;
+}
+
+/**
+ * Split "Segra Stadium, 460 Hay St, Fayetteville, NC" into the name and the
+ * address; sources often put both in the location field
+ */
+export function splitLocation(location: string): { name: string; address: string | null } {
+  const parts = location.split(/,|\s+[-–|@]\s+/).map(part => part.trim()).filter(Boolean);
+  const addressAt = parts.findIndex(part => /^\d+\s+\S/.test(part));
+  if (addressAt === -1) return { name: location.trim(), address: null };
+  return {
+    name: parts.slice(0, addressAt).join(', '),
+    address: parts.slice(addressAt).join(', '),
+  };
+}
+
+// Dice coefficient over character bigrams, spaces ignored
+function similarity(a: string, b: string): number {
+  const x = a.replace(/ /g, '');
+  const y = b.replace(/ /g, '');
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) {
+    const bigram = x.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const bigram = y.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      shared++;
+      bigrams.set(bigram, count - 1);
+    }
+  }
+  return (2 * shared) / (x.length + y.length - 2);
+}
+
+// Whole-word containment; a one-word name inside a longer one ("Downtown"
+// in "Downtown Arts Center") is only a hint
+function containment(location: string, known: string): number {
+  const [shorter, longer] = location.length <= known.length ? [location, known] : [known, location];
+  if (shorter === longer || !` ${longer} `.includes(` ${shorter} `)) return 0;
+  return shorter.includes(' ') ? 0.9 : 0.7;
+}
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+export interface VenueRow {
+  id: string;
+  name: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface AliasRow {
+  venue_id: string;
+  alias: string;
+}
+
+export interface VenueIndex {
+  venues: Map<string, VenueRow>;
+  names: Map<string, string>;           // Normalized name or alias -> venue id
+  cores: Map<string, string | null>;    // Core name -> venue id (null when two venues share it)
+  streets: Map<string, string[]>;       // Street line -> venue ids
+  entries: { key: string; venueId: string }[];
+}
+
+export function buildVenueIndex(venues: VenueRow[], aliases: AliasRow[]): VenueIndex {
+  const index: VenueIndex = { venues: new Map(), names: new Map(), cores: new Map(), streets: new Map(), entries: [] };
+
+  const addName = (name: string, venueId: string) => {
+    const key = normalizeVenueName(name);
+    if (!key) return;
+    index.names.set(key, venueId);
+    index.entries.push({ key, venueId });
+
+    const core = coreName(key);
+    if (core && core !== key) {
+      const existing = index.cores.get(core);
+      index.cores.set(core, existing === undefined || existing === venueId ? venueId : null);
+    }
+  };
+
+  for (const venue of venues) {
+    index.venues.set(venue.id, venue);
+    addName(venue.name, venue.id);
+
+    const street = venue.address ? normalizeStreet(venue.address) : null;
+    if (street) index.streets.set(street, [...(index.streets.get(street) || []), venue.id]);
+  }
+  for (const alias of aliases) {
+    if (index.venues.has(alias.venue_id)) addName(alias.alias, alias.venue_id);
+  }
+
+  return index;
+}
+
+export async function loadVenueIndex(DB: D1Database): Promise<VenueIndex> {
+  const [venues, aliases] = await Promise.all([
+    DB.prepare('SELECT id, name, address, latitude, longitude FROM venues').all<VenueRow>(),
+    DB.prepare('SELECT venue_id, alias FROM venue_aliases').all<AliasRow>(),
+  ]);
+  return buildVenueIndex(venues.results || [], aliases.results || []);
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+function distanceTo(venue: VenueRow | undefined, input: LocationInput): number | null {
+  if (!venue || venue.latitude == null || venue.longitude == null || input.latitude == null || input.longitude == null) {
+    return null;
+  }
+  return haversineDistance(
+    { latitude: input.latitude, longitude: input.longitude },
+    { latitude: venue.latitude, longitude: venue.longitude }
+  );
+}
+
+/**
+ * Best venue for a location, or null when nothing is even a plausible guess.
+ * Callers set venue_id only when confidence >= AUTO_MATCH_CONFIDENCE.
+ */
+export function resolveVenue(index: VenueIndex, input: LocationInput): VenueMatch | null {
+  const location = splitLocation(input.name || '');
+  const key = normalizeVenueName(location.name);
+  const fullKey = normalizeVenueName(input.name || '');
+
+  // 1. Exact name or alias
+  const exact = index.names.get(key) ?? index.names.get(fullKey);
+  if (key && exact) return { venueId: exact, confidence: 1, method: 'name' };
+
+  // 2. Same name without "The", "Stadium", "Theatre"...
+  const core = coreName(key);
+  const byCore = index.names.get(core) ?? index.cores.get(core);
+  if (core && byCore) return { venueId: byCore, confidence: 0.9, method: 'core_name' };
+
+  // 3. Street address
+  const address = input.address || location.address;
+  const street = address ? normalizeStreet(address) : null;
+  const atAddress = street ? index.streets.get(street) || [] : [];
+  if (atAddress.length === 1) return { venueId: atAddress[0], confidence: 0.95, method: 'address' };
+
+  // 4. Fuzzy name, limited to the venues at the address when several share it
+  let best: VenueMatch | null = null;
+  if (key) {
+    for (const entry of index.entries) {
+      if (atAddress.length > 0 && !atAddress.includes(entry.venueId)) continue;
+      const score = Math.max(similarity(key, entry.key), containment(key, entry.key));
+      if (!best || score > best.confidence) best = { venueId: entry.venueId, confidence: score, method: 'fuzzy' };
+    }
+  }
+  if (best && atAddress.length > 0) {
+    best = { ...best, confidence: Math.max(best.confidence, 0.8), method: 'address' };
+  }
+
+  // 5. The event's coordinates: confirm a near-miss name, or point at the
+  // only venue on that spot
+  if (input.latitude != null && input.longitude != null) {
+    if (best && best.confidence >= SUGGEST_CONFIDENCE) {
+      const distance = distanceTo(index.venues.get(best.venueId), input);
+      if (distance !== null && distance <= NEAR_MILES) {
+        best = { ...best, confidence: Math.min(0.95, best.confidence + 0.2), method: 'coordinates' };
+      }
+    } else {
+      const nearby = [...index.venues.values()].filter(venue => {
+        const distance = distanceTo(venue, input);
+        return distance !== null && distance <= NEAR_MILES;
+      });
+      const sameSpot = nearby.filter(venue => distanceTo(venue, input)! <= SAME_SPOT_MILES);
+      if (nearby.length === 1 && sameSpot.length === 1) {
+        best = { venueId: sameSpot[0].id, confidence: 0.75, method: 'coordinates' };
+      }
+    }
+  }
+
+  if (!best || best.confidence < SUGGEST_CONFIDENCE) return null;
+  return { ...best, confidence: Math.round(best.confidence * 100) / 100 };
+}
+
+/**
+ * venue_id to store for a location: confident matches only
+ */
+export function resolveVenueId(index: VenueIndex, input: LocationInput): string | null {
+  const match = resolveVenue(index, input);
+  return match && match.confidence >= AUTO_MATCH_CONFIDENCE ? match.venueId : null;
+}
+
+// ============================================================================
+// REVIEW QUEUE
+// ============================================================================
+
+/**
+ * Queue statements for locations that did not resolve confidently, one per
+ * normalized name. Re-queuing refreshes the suggestion and last_seen_at but
+ * keeps the status, so ignored locations stay ignored.
+ */
+export function queueUnmatched(DB: D1Database, index: VenueIndex, locations: LocationInput[], now: string): D1PreparedStatement[] {
+  const stmt = DB.prepare(`
+    INSERT INTO venue_match_queue (
+      normalized_name, location_name, name, address, latitude, longitude,
+      suggested_venue_id, confidence, method, status, first_seen_at, last_seen_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+    ON CONFLICT(normalized_name) DO UPDATE SET
+      address = COALESCE(excluded.address, venue_match_queue.address),
+      latitude = COALESCE(excluded.latitude, venue_match_queue.latitude),
+      longitude = COALESCE(excluded.longitude, venue_match_queue.longitude),
+      suggested_venue_id = excluded.suggested_venue_id,
+      confidence = excluded.confidence,
+      method = excluded.method,
+      last_seen_at = excluded.last_seen_at
+  `);
+
+  const queued = new Map<string, D1PreparedStatement>();
+  for (const input of locations) {
+    const locationName = (input.name || '').trim();
+    const { name, address } = splitLocation(locationName);
+    const key = normalizeVenueName(name);
+    if (key.length < 3 || queued.has(key)) continue;
+
+    const match = resolveVenue(index, input);
+    if (match && match.confidence >= AUTO_MATCH_CONFIDENCE) continue;
+
+    queued.set(key, stmt.bind(
+      key,
+      locationName,
+      name,
+      input.address || address,
+      input.latitude ?? null,
+      input.longitude ?? null,
+      match?.venueId ?? null,
+      match?.confidence ?? null,
+      match?.method ?? null,
+      now,
+      now
+    ));
+  }
+  return [...queued.values()];
+}
@@ -0,0 +1,958 @@
+import { Hono, Context } from 'hono';
+import { D1Database } from '@cloudflare/workers-types';
+import { Bindings, Variables } from '../types';
+import { requireScope, requireAdmin, generateToken, sha256Hex, hasScope, SCOPES, Scope } from '../lib/auth';
+import { validateSubmission, rowToSubmission, approveSubmission, PendingEventRow } from '../lib/submissions';
+import { EVENT_STATUSES, isEventStatus } from '../lib/event-status';
+import {
+  createChannel, getChannel, loadChannels, toPublicChannel, updateChannel, validateChannel, ChannelInput,
+} from '../lib/notification-channels';
+import { executeWebhook } from '../lib/discord';
+import { sendEmailDigests } from '../lib/email-digest';
+import { SubscriberRow, toSubscriber } from '../lib/email-subscribers';
+import { enrichEvents } from '../sync/enrich';
+import { CategoryRow, loadTaxonomy, rawLabelKey, validateCategory, validateMapping } from '../lib/categories';
+
+type AdminEnv = { Bindings: Bindings; Variables: Variables };
+
+const admin = new Hono<AdminEnv>();
+
+// Moderators review submissions, feature events and match venues; venue
+// owners edit their own venues; only admins manage tokens, channels, email
+// the category taxonomy and enrichment
+admin.use('/submissions/*', requireScope('moderator'));
+admin.use('/events/*', requireScope('moderator'));
+admin.use('/venues/*', requireScope('venue_owner'));
+admin.use('/venue-matches/*', requireScope('moderator'));
+admin.use('/tokens/*', requireAdmin);
+admin.use('/channels/*', requireAdmin);
+admin.use('/email/*', requireAdmin);
+admin.use('/categories/*', requireAdmin);
+admin.use('/category-mappings/*', requireAdmin);
+admin.use('/enrichment/*', requireAdmin);
+
+// =============================================================================
+// Community Submissions
+// =============================================================================
+
+const SUBMISSION_COLUMNS = `
+  id, title, description, start_datetime, end_datetime, venue_name, venue_address,
+  url, ticket_url, image_url, categories, section, submitter_name, submitter_email,
+  status, submitted_at, updated_at, reviewed_by, reviewed_at, review_reason, event_id
+`;
+
+async function getSubmission(DB: D1Database, id: string | number): Promise<PendingEventRow | null> {
+  return DB.prepare(`SELECT ${SUBMISSION_COLUMNS} FROM pending_events WHERE id = ?`)
+    .bind(id).first<PendingEventRow>();
+}
+
+/**
+ * Optional `reason` from a JSON body (the body itself is optional)
+ */
+async function readReason(c: Context<AdminEnv>): Promise<string | null> {
+  try {
+    const body = await c.req.json<{ reason?: unknown }>();
+    return typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 1000) : null;
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/admin/submissions - List submissions (default: pending, oldest first)
+admin.get('/submissions', async (c) => {
+  const { DB } = c.env;
+  const status = c.req.query('status') || 'pending';
+  const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  if (!['pending', 'approved', 'rejected', 'all'].includes(status)) {
+    return c.json({ error: 'status must be pending, approved, rejected or all' }, 400);
+  }
+
+  const where = status === 'all' ? '' : 'WHERE status = ?';
+  const params = status === 'all' ? [] : [status];
+
+  const [result, total] = await Promise.all([
+    DB.prepare(`
+      SELECT ${SUBMISSION_COLUMNS} FROM pending_events ${where}
+      ORDER BY submitted_at ASC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<PendingEventRow>(),
+    DB.prepare(`SELECT COUNT(*) as total FROM pending_events ${where}`)
+      .bind(...params).first<{ total: number }>(),
+  ]);
+
+  return c.json({
+    data: result.results,
+    count: result.results?.length || 0,
+    total: total?.total || 0,
+    limit,
+    offset,
+  });
+});
+
+// GET /api/admin/submissions/:id - Single submission
+admin.get('/submissions/:id', async (c) => {
+  const submission = await getSubmission(c.env.DB, c.req.param('id'));
+  if (!submission) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  return c.json({ data: submission });
+});
+
+// PATCH /api/admin/submissions/:id - Edit a pending submission before approving it
+admin.patch('/submissions/:id', async (c) => {
+  const { DB } = c.env;
+  const submission = await getSubmission(DB, c.req.param('id'));
+
+  if (!submission) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  if (submission.status !== 'pending') {
+    return c.json({ error: `Submission is already ${submission.status}` }, 409);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validateSubmission(body, rowToSubmission(submission));
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid submission', details: errors }, 400);
+  }
+
+  await DB.prepare(`
+    UPDATE pending_events SET
+      title = ?, description = ?, start_datetime = ?, end_datetime = ?,
+      venue_name = ?, venue_address = ?, url = ?, ticket_url = ?, image_url = ?,
+      categories = ?, section = ?, submitter_name = ?, submitter_email = ?,
+      updated_at = ?
+    WHERE id = ?
+  `).bind(
+    value.title,
+    value.description,
+    value.start_datetime,
+    value.end_datetime,
+    value.venue_name,
+    value.venue_address,
+    value.url,
+    value.ticket_url,
+    value.image_url,
+    JSON.stringify(value.categories),
+    value.section,
+    value.submitter_name,
+    value.submitter_email,
+    new Date().toISOString(),
+    submission.id,
+  ).run();
+
+  return c.json({ data: await getSubmission(DB, submission.id) });
+});
+
+// POST /api/admin/submissions/:id/approve - Publish as a 'community' event
+admin.post('/submissions/:id/approve', async (c) => {
+  const submission = await getSubmission(c.env.DB, c.req.param('id'));
+
+  if (!submission) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  if (submission.status !== 'pending') {
+    return c.json({ error: `Submission is already ${submission.status}` }, 409);
+  }
+
+  const reason = await readReason(c);
+  const eventId = await approveSubmission(c.env.DB, submission, c.get('actor'), reason);
+
+  return c.json({ status: 'approved', eventId, reviewedBy: c.get('actor') });
+});
+
+// POST /api/admin/submissions/:id/reject - Reject with a reason
+admin.post('/submissions/:id/reject', async (c) => {
+  const submission = await getSubmission(c.env.DB, c.req.param('id'));
+
+  if (!submission) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  if (submission.status !== 'pending') {
+    return c.json({ error: `Submission is already ${submission.status}` }, 409);
+  }
+
+  const reason = await readReason(c);
+  if (!reason) {
+    return c.json({ error: 'A reason is required to reject a submission' }, 400);
+  }
+
+  const now = new Date().toISOString();
+  await c.env.DB.prepare(`
+    UPDATE pending_events SET
+      status = 'rejected', reviewed_by = ?, reviewed_at = ?, review_reason = ?, updated_at = ?
+    WHERE id = ?
+  `).bind(c.get('actor'), now, reason, now, submission.id).run();
+
+  return c.json({ status: 'rejected', reviewedBy: c.get('actor') });
+});
+
+// =============================================================================
+// Featured Events
+// =============================================================================
+
+// POST /api/admin/events/:id/feature - { "featured": true | false }
+admin.post('/events/:id/feature', async (c) => {
+  const { DB } = c.env;
+  const id = c.req.param('id');
+
+  let body: { featured?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  if (typeof body.featured !== 'boolean') {
+    return c.json({ error: 'featured must be true or false' }, 400);
+  }
+
+  const result = await DB.prepare(`
+    UPDATE events SET featured = ?, updated_at = ? WHERE id = ?
+  `).bind(body.featured ? 1 : 0, new Date().toISOString(), id).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Event not found' }, 404);
+  }
+
+  return c.json({ id, featured: body.featured, updatedBy: c.get('actor') });
+});
+
+// =============================================================================
+// Event Status
+// =============================================================================
+
+// POST /api/admin/events/:id/status - { "status", "reason"?, "start_datetime"?, "end_datetime"? }
+// Rescheduling needs the new start; the end keeps the old duration unless given
+admin.post('/events/:id/status', async (c) => {
+  const { DB } = c.env;
+  const id = c.req.param('id');
+
+  let body: { status?: unknown; reason?: unknown; start_datetime?: unknown; end_datetime?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  if (!isEventStatus(body.status) || body.status === 'past') {
+    return c.json({ error: `status must be one of: ${EVENT_STATUSES.filter(s => s !== 'past').join(', ')}` }, 400);
+  }
+  if (body.reason !== undefined && body.reason !== null && typeof body.reason !== 'string') {
+    return c.json({ error: 'reason must be a string' }, 400);
+  }
+  const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 500) : null;
+
+  const event = await DB.prepare('SELECT start_datetime, end_datetime FROM events WHERE id = ?')
+    .bind(id).first<{ start_datetime: string; end_datetime: string }>();
+  if (!event) {
+    return c.json({ error: 'Event not found' }, 404);
+  }
+
+  let start = event.start_datetime;
+  let end = event.end_datetime;
+  let previousStart: string | null = null;
+  if (body.status === 'rescheduled') {
+    const newStart = typeof body.start_datetime === 'string' ? new Date(body.start_datetime) : null;
+    if (!newStart || isNaN(newStart.getTime())) {
+      return c.json({ error: 'start_datetime (ISO 8601) is required to reschedule' }, 400);
+    }
+    const newEnd = typeof body.end_datetime === 'string'
+      ? new Date(body.end_datetime)
+      : new Date(newStart.getTime() + (new Date(event.end_datetime).getTime() - new Date(event.start_datetime).getTime()));
+    if (isNaN(newEnd.getTime()) || newEnd < newStart) {
+      return c.json({ error: 'end_datetime must be a valid ISO 8601 date after start_datetime' }, 400);
+    }
+    previousStart = event.start_datetime;
+    start = newStart.toISOString();
+    end = newEnd.toISOString();
+  }
+
+  const now = new Date().toISOString();
+  await DB.prepare(`
+    UPDATE events SET
+      status = ?, status_reason = ?, status_changed_at = ?,
+      previous_start_datetime = COALESCE(?, previous_start_datetime),
+      start_datetime = ?, end_datetime = ?, updated_at = ?
+    WHERE id = ?
+  `).bind(body.status, reason, now, previousStart, start, end, now, id).run();
+
+  return c.json({
+    id,
+    status: body.status,
+    status_reason: reason,
+    status_changed_at: now,
+    start_datetime: start,
+    end_datetime: end,
+    updatedBy: c.get('actor'),
+  });
+});
+
+// =============================================================================
+// Venue Editing
+// =============================================================================
+
+// Fields a venue owner may change; everything else stays curated
+const EDITABLE_VENUE_FIELDS = [
+  'description', 'phone', 'website', 'hours_of_operation', 'image_url',
+  'parking_info', 'accessibility_info', 'menu_url', 'reservation_url',
+];
+
+// PATCH /api/admin/venues/:id - Update venue details (venue owners: own venues only)
+admin.patch('/venues/:id', async (c) => {
+  const { DB } = c.env;
+  const id = c.req.param('id');
+  const auth = c.get('auth');
+
+  if (!hasScope(auth, 'admin') && !auth.venueIds.includes(id)) {
+    return c.json({ error: 'Forbidden: token is not allowed to edit this venue' }, 403);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const fields = Object.keys(body).filter(field => EDITABLE_VENUE_FIELDS.includes(field));
+  if (fields.length === 0) {
+    return c.json({ error: `No editable fields. Allowed: ${EDITABLE_VENUE_FIELDS.join(', ')}` }, 400);
+  }
+
+  const invalid = fields.filter(field => body[field] !== null && typeof body[field] !== 'string');
+  if (invalid.length > 0) {
+    return c.json({ error: `Fields must be strings or null: ${invalid.join(', ')}` }, 400);
+  }
+
+  const result = await DB.prepare(`
+    UPDATE venues SET ${fields.map(field => `${field} = ?`).join(', ')}, updated_at = ?
+    WHERE id = ?
+  `).bind(...fields.map(field => body[field]), new Date().toISOString(), id).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Venue not found' }, 404);
+  }
+
+  return c.json({ id, updated: fields, updatedBy: c.get('actor') });
+});
+
+// =============================================================================
+// Venue Matching
+// =============================================================================
+
+interface VenueMatchRow {
+  id: number;
+  location_name: string;
+  name: string;
+  suggested_venue_id: string | null;
+  status: string;
+}
+
+// GET /api/admin/venue-matches - Locations the sync couldn't match to a venue
+// (default: pending, those on the most events first)
+admin.get('/venue-matches', async (c) => {
+  const { DB } = c.env;
+  const status = c.req.query('status') || 'pending';
+  const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  if (!['pending', 'matched', 'ignored', 'all'].includes(status)) {
+    return c.json({ error: 'status must be pending, matched, ignored or all' }, 400);
+  }
+
+  const where = status === 'all' ? '' : 'WHERE q.status = ?';
+  const params = status === 'all' ? [] : [status];
+
+  const [result, total] = await Promise.all([
+    DB.prepare(`
+      SELECT q.*, v.name as suggested_venue_name,
+        (SELECT COUNT(*) FROM events e WHERE e.location_name = q.location_name AND e.venue_id IS NULL) as event_count
+      FROM venue_match_queue q
+      LEFT JOIN venues v ON v.id = q.suggested_venue_id
+      ${where}
+      ORDER BY event_count DESC, q.last_seen_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all(),
+    DB.prepare(`SELECT COUNT(*) as total FROM venue_match_queue q ${where}`)
+      .bind(...params).first<{ total: number }>(),
+  ]);
+
+  return c.json({
+    data: result.results,
+    count: result.results?.length || 0,
+    total: total?.total || 0,
+    limit,
+    offset,
+  });
+});
+
+// POST /api/admin/venue-matches/:id/confirm - { "venue_id"? } (default: the
+// suggestion). Adds the location as an alias of the venue and links the
+// events that use it.
+admin.post('/venue-matches/:id/confirm', async (c) => {
+  const { DB } = c.env;
+  const match = await DB.prepare('SELECT id, location_name, name, suggested_venue_id, status FROM venue_match_queue WHERE id = ?')
+    .bind(c.req.param('id')).first<VenueMatchRow>();
+
+  if (!match) {
+    return c.json({ error: 'Venue match not found' }, 404);
+  }
+
+  let body: { venue_id?: unknown } = {};
+  try {
+    body = await c.req.json();
+  } catch {
+    // No body: confirm the suggestion
+  }
+
+  const venueId = body.venue_id ?? match.suggested_venue_id;
+  if (typeof venueId !== 'string' || !venueId) {
+    return c.json({ error: 'venue_id is required when there is no suggested venue' }, 400);
+  }
+
+  const venue = await DB.prepare('SELECT id, name FROM venues WHERE id = ?').bind(venueId).first<{ id: string; name: string }>();
+  if (!venue) {
+    return c.json({ error: 'Venue not found' }, 404);
+  }
+
+  const now = new Date().toISOString();
+  const [, , linked] = await DB.batch([
+    DB.prepare('INSERT OR IGNORE INTO venue_aliases (venue_id, alias) VALUES (?, ?)').bind(venue.id, match.name),
+    DB.prepare(`
+      UPDATE venue_match_queue SET status = 'matched', venue_id = ?, reviewed_by = ?, reviewed_at = ?
+      WHERE id = ?
+    `).bind(venue.id, c.get('actor'), now, match.id),
+    DB.prepare(`
+      UPDATE events SET venue_id = ?, updated_at = ?
+      WHERE location_name = ? AND venue_id IS NULL
+      RETURNING id
+    `).bind(venue.id, now, match.location_name),
+  ]);
+
+  return c.json({
+    status: 'matched',
+    venue_id: venue.id,
+    venue_name: venue.name,
+    alias: match.name,
+    // meta.changes would also count the event_revisions rows written by trigger
+    events_updated: linked.results?.length || 0,
+    reviewedBy: c.get('actor'),
+  });
+});
+
+// POST /api/admin/venue-matches/:id/ignore - Not a venue (e.g. "Online", "TBA");
+// the sync leaves ignored locations alone
+admin.post('/venue-matches/:id/ignore', async (c) => {
+  const result = await c.env.DB.prepare(`
+    UPDATE venue_match_queue SET status = 'ignored', reviewed_by = ?, reviewed_at = ?
+    WHERE id = ?
+  `).bind(c.get('actor'), new Date().toISOString(), c.req.param('id')).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Venue match not found' }, 404);
+  }
+
+  return c.json({ status: 'ignored', reviewedBy: c.get('actor') });
+});
+
+// =============================================================================
+// API Tokens
+// =============================================================================
+
+// GET /api/admin/tokens - List tokens (hashes are never returned)
+admin.get('/tokens', async (c) => {
+  const result = await c.env.DB.prepare(`
+    SELECT id, name, token_prefix, scopes, venue_ids, created_by, created_at,
+           last_used_at, expires_at, revoked_at
+    FROM api_tokens
+    ORDER BY created_at DESC
+  `).all();
+
+  return c.json({
+    data: result.results,
+    count: result.results?.length || 0,
+  });
+});
+
+// POST /api/admin/tokens - Create a token; the plaintext is only returned here
+admin.post('/tokens', async (c) => {
+  const { DB } = c.env;
+
+  let body: { name?: unknown; scopes?: unknown; venue_ids?: unknown; expires_in_days?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return c.json({ error: 'name is required' }, 400);
+  }
+
+  const scopes = Array.isArray(body.scopes) ? body.scopes : [];
+  if (scopes.length === 0 || scopes.some(s => !SCOPES.includes(s as Scope))) {
+    return c.json({ error: `scopes must be a non-empty array of: ${SCOPES.join(', ')}` }, 400);
+  }
+
+  const venueIds = Array.isArray(body.venue_ids) ? body.venue_ids.filter(v => typeof v === 'string') : [];
+  if (scopes.includes('venue_owner') && venueIds.length === 0) {
+    return c.json({ error: 'venue_owner tokens need at least one venue_ids entry' }, 400);
+  }
+
+  let expiresAt: string | null = null;
+  if (body.expires_in_days !== undefined) {
+    const days = Number(body.expires_in_days);
+    if (!Number.isFinite(days) || days <= 0) {
+      return c.json({ error: 'expires_in_days must be a positive number' }, 400);
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const token = generateToken();
+  const result = await DB.prepare(`
+    INSERT INTO api_tokens (name, token_hash, token_prefix, scopes, venue_ids, created_by, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    name,
+    await sha256Hex(token),
+    token.slice(0, 12),
+    JSON.stringify(scopes),
+    venueIds.length > 0 ? JSON.stringify(venueIds) : null,
+    c.get('actor'),
+    new Date().toISOString(),
+    expiresAt,
+  ).run();
+
+  return c.json({
+    id: result.meta.last_row_id,
+    name,
+    scopes,
+    venue_ids: venueIds,
+    expires_at: expiresAt,
+    token, // Shown once; store it somewhere safe
+  }, 201);
+});
+
+// DELETE /api/admin/tokens/:id - Revoke a token
+admin.delete('/tokens/:id', async (c) => {
+  const result = await c.env.DB.prepare(`
+    UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+  `).bind(new Date().toISOString(), c.req.param('id')).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Token not found or already revoked' }, 404);
+  }
+
+  return c.json({ status: 'revoked' });
+});
+
+// =============================================================================
+// Discord Notification Channels
+// =============================================================================
+
+// GET /api/admin/channels - All channels, paused included (webhook tokens masked).
+// The DISCORD_WEBHOOK_URL channel is listed with id null; it is configured
+// through the environment, not these routes.
+admin.get('/channels', async (c) => {
+  const channels = await loadChannels(c.env, { includePaused: true });
+  return c.json({
+    data: channels.map(toPublicChannel),
+    count: channels.length,
+  });
+});
+
+// POST /api/admin/channels - Add a channel
+admin.post('/channels', async (c) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validateChannel(body ?? {}, false);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+
+  const channel = await createChannel(c.env.DB, value as Required<ChannelInput>);
+  return c.json(toPublicChannel(channel), 201);
+});
+
+// PATCH /api/admin/channels/:id - Change name, webhook, filters, digest hour or reminder types
+admin.patch('/channels/:id', async (c) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validateChannel(body ?? {}, true);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+  if (Object.keys(value).length === 0) {
+    return c.json({ error: 'No updatable fields provided' }, 400);
+  }
+
+  const channel = await updateChannel(c.env.DB, c.req.param('id'), value);
+  if (!channel) {
+    return c.json({ error: 'Channel not found' }, 404);
+  }
+
+  return c.json(toPublicChannel(channel));
+});
+
+async function setChannelPaused(c: Context<AdminEnv>, paused: boolean) {
+  const channel = await updateChannel(c.env.DB, c.req.param('id'), { paused });
+  if (!channel) {
+    return c.json({ error: 'Channel not found' }, 404);
+  }
+  return c.json(toPublicChannel(channel));
+}
+
+// POST /api/admin/channels/:id/pause - Stop digests and reminders
+admin.post('/channels/:id/pause', (c) => setChannelPaused(c, true));
+
+// POST /api/admin/channels/:id/resume - Restart them (missed digests are not sent)
+admin.post('/channels/:id/resume', (c) => setChannelPaused(c, false));
+
+// POST /api/admin/channels/:id/test - Post a test message (paused channels too)
+admin.post('/channels/:id/test', async (c) => {
+  const channel = await getChannel(c.env.DB, c.req.param('id'));
+  if (!channel) {
+    return c.json({ error: 'Channel not found' }, 404);
+  }
+
+  const result = await executeWebhook(channel.webhook_url, {
+    username: 'Fayetteville Events',
+    content: `✅ Test message for the "${channel.name}" channel`,
+  });
+
+  if (!result.ok) {
+    return c.json({ success: false, error: result.error }, 502);
+  }
+  return c.json({ success: true, message_id: result.messageId });
+});
+
+// DELETE /api/admin/channels/:id - Remove a channel (its reminder_log rows are kept)
+admin.delete('/channels/:id', async (c) => {
+  const result = await c.env.DB.prepare('DELETE FROM notification_channels WHERE id = ?')
+    .bind(c.req.param('id')).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Channel not found' }, 404);
+  }
+
+  return c.json({ status: 'deleted' });
+});
+
+// =============================================================================
+// Email Digest
+// =============================================================================
+
+// GET /api/admin/email/subscribers - List subscribers (default: confirmed)
+admin.get('/email/subscribers', async (c) => {
+  const { DB } = c.env;
+  const status = c.req.query('status') || 'confirmed';
+  const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+  const offset = parseInt(c.req.query('offset') || '0');
+
+  if (!['pending', 'confirmed', 'unsubscribed', 'all'].includes(status)) {
+    return c.json({ error: 'status must be pending, confirmed, unsubscribed or all' }, 400);
+  }
+
+  const where = status === 'all' ? '' : 'WHERE status = ?';
+  const params = status === 'all' ? [] : [status];
+
+  const [result, total] = await Promise.all([
+    DB.prepare(`
+      SELECT * FROM email_subscribers ${where}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<SubscriberRow>(),
+    DB.prepare(`SELECT COUNT(*) as total FROM email_subscribers ${where}`)
+      .bind(...params).first<{ total: number }>(),
+  ]);
+
+  return c.json({
+    data: (result.results || []).map(toSubscriber),
+    count: result.results?.length || 0,
+    total: total?.total || 0,
+    limit,
+    offset,
+  });
+});
+
+// POST /api/admin/email/digest - Send due email digests now, whatever the
+// hour or weekday (?dry_run=true lists them instead)
+admin.post('/email/digest', async (c) => {
+  const result = await sendEmailDigests(c.env, {
+    dryRun: c.req.query('dry_run') === 'true',
+    force: true,
+  });
+  return c.json(result);
+});
+
+// =============================================================================
+// Categories
+// =============================================================================
+
+const CATEGORY_COLUMNS = 'slug, label, emoji, color, display_order, parent_slug';
+
+// GET /api/admin/categories - The taxonomy in display order, with each
+// category's own emoji/color (not inherited) and the raw labels mapped to it
+admin.get('/categories', async (c) => {
+  const taxonomy = await loadTaxonomy(c.env.DB);
+  const mapped = new Map<string, string[]>();
+  for (const [rawLabel, category] of taxonomy.mappings) {
+    mapped.set(category.slug, [...(mapped.get(category.slug) || []), rawLabel]);
+  }
+
+  return c.json({
+    data: taxonomy.categories.map(category => ({ ...category, mappings: (mapped.get(category.slug) || []).sort() })),
+    count: taxonomy.categories.length,
+  });
+});
+
+// GET /api/admin/categories/unmapped - Labels on upcoming events that aren't
+// in the taxonomy, most used first; map them or add them as categories
+admin.get('/categories/unmapped', async (c) => {
+  const { DB } = c.env;
+  const [taxonomy, result] = await Promise.all([
+    loadTaxonomy(DB),
+    DB.prepare(`
+      SELECT j.value as label, COUNT(*) as event_count
+      FROM events e, json_each(e.categories) j
+      WHERE e.end_datetime >= ? AND json_valid(e.categories)
+      GROUP BY j.value
+      ORDER BY event_count DESC, label
+    `).bind(new Date().toISOString()).all<{ label: string; event_count: number }>(),
+  ]);
+
+  const unmapped = (result.results || []).filter(row => !taxonomy.byLabel.has(rawLabelKey(row.label)));
+  return c.json({
+    data: unmapped,
+    count: unmapped.length,
+  });
+});
+
+// POST /api/admin/categories - Add a category
+// Body: { slug, label, emoji?, color?, display_order?, parent? }
+admin.post('/categories', async (c) => {
+  const { DB } = c.env;
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validateCategory(body ?? {}, await loadTaxonomy(DB));
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+
+  const category = await DB.prepare(`
+    INSERT INTO categories (slug, label, emoji, color, display_order, parent_slug)
+    VALUES (?, ?, ?, ?, ?, ?)
+    RETURNING ${CATEGORY_COLUMNS}
+  `).bind(
+    value.slug,
+    value.label,
+    value.emoji ?? null,
+    value.color ?? null,
+    value.display_order ?? 0,
+    value.parent_slug ?? null,
+  ).first<CategoryRow>();
+
+  return c.json(category, 201);
+});
+
+// PATCH /api/admin/categories/:slug - Change label, emoji, color, order or
+// parent. A new label is written to the events that carry the old one.
+admin.patch('/categories/:slug', async (c) => {
+  const { DB } = c.env;
+  const taxonomy = await loadTaxonomy(DB);
+  const existing = taxonomy.bySlug.get(c.req.param('slug'));
+  if (!existing) {
+    return c.json({ error: 'Category not found' }, 404);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validateCategory(body ?? {}, taxonomy, existing);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+
+  const fields = Object.keys(value) as (keyof typeof value)[];
+  if (fields.length === 0) {
+    return c.json({ error: 'No updatable fields provided' }, 400);
+  }
+
+  const now = new Date().toISOString();
+  const statements = [
+    DB.prepare(`
+      UPDATE categories SET ${fields.map(field => `${field} = ?`).join(', ')}, updated_at = ?
+      WHERE slug = ?
+      RETURNING ${CATEGORY_COLUMNS}
+    `).bind(...fields.map(field => value[field] ?? null), now, existing.slug),
+  ];
+
+  const relabel = value.label !== undefined && value.label !== existing.label;
+  if (relabel) {
+    statements.push(DB.prepare(`
+      UPDATE events SET
+        categories = (
+          SELECT json_group_array(CASE WHEN j.value = ? THEN ? ELSE j.value END)
+          FROM json_each(events.categories) j
+        ),
+        updated_at = ?
+      WHERE json_valid(categories)
+        AND EXISTS (SELECT 1 FROM json_each(events.categories) j WHERE j.value = ?)
+      RETURNING id
+    `).bind(existing.label, value.label, now, existing.label));
+  }
+
+  const [updated, relabeled] = await DB.batch(statements);
+  return c.json({
+    ...(updated.results?.[0] as CategoryRow),
+    // meta.changes would also count the event_revisions rows written by trigger
+    events_updated: relabel ? relabeled.results?.length || 0 : 0,
+  });
+});
+
+// DELETE /api/admin/categories/:slug - Remove a category and its mappings.
+// Events keep the label; it shows up under /categories/unmapped.
+admin.delete('/categories/:slug', async (c) => {
+  const { DB } = c.env;
+  const slug = c.req.param('slug');
+
+  const children = await DB.prepare('SELECT COUNT(*) as count FROM categories WHERE parent_slug = ?')
+    .bind(slug).first<{ count: number }>();
+  if (children?.count) {
+    return c.json({ error: 'Category has subcategories; move or delete them first' }, 409);
+  }
+
+  const [, deleted] = await DB.batch([
+    DB.prepare('DELETE FROM category_mappings WHERE category_slug = ?').bind(slug),
+    DB.prepare('DELETE FROM categories WHERE slug = ?').bind(slug),
+  ]);
+
+  if (!deleted.meta.changes) {
+    return c.json({ error: 'Category not found' }, 404);
+  }
+
+  return c.json({ status: 'deleted' });
+});
+
+// =============================================================================
+// Category Mappings
+// =============================================================================
+
+// GET /api/admin/category-mappings - Raw source labels and the category each
+// maps to (?category=slug for one category)
+admin.get('/category-mappings', async (c) => {
+  const category = c.req.query('category');
+  const where = category ? 'WHERE m.category_slug = ?' : '';
+  const params = category ? [category] : [];
+
+  const result = await c.env.DB.prepare(`
+    SELECT m.id, m.raw_label, m.category_slug, c.label as category_label, m.created_at
+    FROM category_mappings m
+    JOIN categories c ON c.slug = m.category_slug
+    ${where}
+    ORDER BY m.raw_label
+  `).bind(...params).all();
+
+  return c.json({
+    data: result.results,
+    count: result.results?.length || 0,
+  });
+});
+
+// POST /api/admin/category-mappings - { raw_label, category } (replaces an
+// existing mapping for the label). Synced events pick it up on their next sync.
+admin.post('/category-mappings', async (c) => {
+  const { DB } = c.env;
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validateMapping(body ?? {}, await loadTaxonomy(DB));
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+
+  const mapping = await DB.prepare(`
+    INSERT INTO category_mappings (raw_label, category_slug) VALUES (?, ?)
+    ON CONFLICT(raw_label) DO UPDATE SET category_slug = excluded.category_slug
+    RETURNING id, raw_label, category_slug, created_at
+  `).bind(value.raw_label, value.category_slug).first();
+
+  return c.json(mapping, 201);
+});
+
+// DELETE /api/admin/category-mappings/:id - Remove a mapping
+admin.delete('/category-mappings/:id', async (c) => {
+  const result = await c.env.DB.prepare('DELETE FROM category_mappings WHERE id = ?')
+    .bind(c.req.param('id')).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Category mapping not found' }, 404);
+  }
+
+  return c.json({ status: 'deleted' });
+});
+
+// =============================================================================
+// Enrichment
+// =============================================================================
+
+// GET /api/admin/enrichment/:id - An event's stored enrichment and its provenance
+admin.get('/enrichment/:id', async (c) => {
+  const enrichment = await c.env.DB.prepare('SELECT * FROM event_enrichments WHERE event_id = ?')
+    .bind(c.req.param('id')).first<Record<string, unknown>>();
+  if (!enrichment) {
+    return c.json({ error: 'Enrichment not found' }, 404);
+  }
+  return c.json({ data: { ...enrichment, categories: JSON.parse(String(enrichment.categories || '[]')) } });
+});
+
+// POST /api/admin/enrichment - Enrich the events waiting for it now
+// (?limit=, default 20) or the given ones (?event_id=a,b), whatever their state
+admin.post('/enrichment', async (c) => {
+  const eventIds = (c.req.query('event_id') || '').split(',').map(id => id.trim()).filter(Boolean);
+  const limit = parseInt(c.req.query('limit') || '20');
+  if (isNaN(limit) || limit < 1) {
+    return c.json({ error: 'limit must be a positive number' }, 400);
+  }
+
+  const result = await enrichEvents(c.env, { limit, eventIds: eventIds.slice(0, 100) });
+  if (!result.provider) {
+    return c.json({ error: 'Enrichment not configured (set ENRICHMENT_PROVIDER)' }, 500);
+  }
+  return c.json(result);
+});
+
+export default admin;
@@ -0,0 +1,125 @@
+import { Hono, Context } from 'hono';
+import { Bindings } from '../types';
+import {
+  CalendarSubscriptionRow, canEdit, createSubscription, findSubscription, parseFilterSet,
+  validateFilterSet, validateName,
+} from '../lib/calendar-subscriptions';
+
+const subscriptions = new Hono<{ Bindings: Bindings }>();
+
+// Feed URLs point at the Worker that served the request
+function feedUrls(c: Context, token: string) {
+  const url = `${new URL(c.req.url).origin}/cal/u/${token}.ics`;
+  return { url, webcal_url: url.replace(/^https?:\/\//, 'webcal://') };
+}
+
+function formatSubscription(c: Context, token: string, row: CalendarSubscriptionRow) {
+  return {
+    name: row.name,
+    filters: parseFilterSet(row.filters),
+    ...feedUrls(c, token),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    last_fetched_at: row.last_fetched_at,
+  };
+}
+
+async function readBody(c: Context): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await c.req.json();
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// POST /api/calendar/subscriptions - Save a filter set and get a feed URL
+subscriptions.post('/', async (c) => {
+  const body = await readBody(c);
+  if (!body) {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value: filters, errors } = validateFilterSet(body);
+  const name = validateName(body.name, errors);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid filter set', details: errors }, 400);
+  }
+
+  const { token, editToken } = await createSubscription(c.env.DB, name, filters);
+
+  return c.json({
+    name,
+    filters,
+    ...feedUrls(c, token),
+    token,
+    // Shown once: required (as X-Edit-Token) to change or delete this subscription
+    edit_token: editToken,
+  }, 201);
+});
+
+// GET /api/calendar/subscriptions/:token - Current filters for a feed
+subscriptions.get('/:token', async (c) => {
+  const token = c.req.param('token');
+  const row = await findSubscription(c.env.DB, token);
+  if (!row) {
+    return c.json({ error: 'Subscription not found' }, 404);
+  }
+
+  return c.json({ data: formatSubscription(c, token, row) });
+});
+
+// PATCH /api/calendar/subscriptions/:token - Change name and filters (feed URL is unchanged)
+subscriptions.patch('/:token', async (c) => {
+  const { DB } = c.env;
+  const token = c.req.param('token');
+
+  const row = await findSubscription(DB, token);
+  if (!row) {
+    return c.json({ error: 'Subscription not found' }, 404);
+  }
+  if (!await canEdit(row, c.req.header('X-Edit-Token'))) {
+    return c.json({ error: 'Forbidden: invalid edit token' }, 403);
+  }
+
+  const body = await readBody(c);
+  if (!body) {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  // Fields left out of the body keep their saved values
+  const { value: filters, errors } = validateFilterSet({ ...parseFilterSet(row.filters), ...body });
+  const name = body.name === undefined ? row.name : validateName(body.name, errors);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid filter set', details: errors }, 400);
+  }
+
+  const now = new Date().toISOString();
+  await DB.prepare(`
+    UPDATE calendar_subscriptions SET name = ?, filters = ?, updated_at = ? WHERE id = ?
+  `).bind(name, JSON.stringify(filters), now, row.id).run();
+
+  return c.json({
+    data: formatSubscription(c, token, { ...row, name, filters: JSON.stringify(filters), updated_at: now }),
+  });
+});
+
+// DELETE /api/calendar/subscriptions/:token - Remove a feed (the URL stops working)
+subscriptions.delete('/:token', async (c) => {
+  const { DB } = c.env;
+  const token = c.req.param('token');
+
+  const row = await findSubscription(DB, token);
+  if (!row) {
+    return c.json({ error: 'Subscription not found' }, 404);
+  }
+  if (!await canEdit(row, c.req.header('X-Edit-Token'))) {
+    return c.json({ error: 'Forbidden: invalid edit token' }, 403);
+  }
+
+  await DB.prepare('DELETE FROM calendar_subscriptions WHERE id = ?').bind(row.id).run();
+
+  return c.json({ success: true });
+});
+
+export default subscriptions;
@@ -1,6 +1,14 @@
 
 import { Hono } from 'hono';
 import { Bindings } from '../types';
+import { TIMEZONE, toWallTime } from '../lib/timezone';
+import { parseExdates } from '../lib/recurrence';
+import { parseNearQuery } from '../lib/geo';
+import { fetchFeedEvents } from '../lib/calendar-feed';
+import { statusNote } from '../lib/event-status';
+import {
+  MAX_ALARM_MINUTES, findSubscription, parseFilterSet, recordFetch, toFeedFilters,
+} from '../lib/calendar-subscriptions';
 
 const calendar = new Hono<{ Bindings: Bindings }>();
 
@@ -21,43 +29,36 @@ calendar.get('/events.ics', async (c) => {
   const source = c.req.query('source'); 
   const category = c.req.query('category');
   const categories = c.req.query('categories');
-  const now = new Date().toISOString();
-
-  let query = `
-    SELECT * FROM events
-    WHERE datetime(end_datetime) >= datetime(?)
-      AND status IN ('confirmed', 'active')
-  `;
-  const params: any[] = [now];
-
-  if (section && section !== 'all') {
-    query += ' AND section = ?';
-    params.push(section);
-  }
-
-  if (source) {
-    query += ' AND source_id = ?';
-    params.push(source);
-  }
+  const alarm = c.req.query('alarm');
 
-  if (category && category !== 'all') {
-    query += ' AND categories LIKE ?';
-    params.push(`%"${category}"%`);
+  // ?alarm=60 adds a reminder that many minutes before each event
+  let alarmMinutes: number | undefined;
+  if (alarm !== undefined) {
+    alarmMinutes = Number(alarm);
+    if (!Number.isInteger(alarmMinutes) || alarmMinutes < 0 || alarmMinutes > MAX_ALARM_MINUTES) {
+      return c.json({ error: `alarm must be a whole number of minutes between 0 and ${MAX_ALARM_MINUTES}` }, 400);
+    }
   }
 
-  if (categories && categories.trim()) {
-    const categoryList = categories.split(',').map(c => c.trim()).filter(c => c);
-    if (categoryList.length > 0) {
-      const categoryConditions = categoryList.map(() => 'categories LIKE ?');
-      query += ` AND (${categoryConditions.join(' OR ')})`;
-      categoryList.forEach(cat => params.push(`%"${cat}"%`));
-    }
+  const { near, error } = parseNearQuery({
+    lat: c.req.query('lat'),
+    lng: c.req.query('lng'),
+    radius_miles: c.req.query('radius_miles'),
+  });
+  if (error) {
+    return c.json({ error }, 400);
   }
 
-  query += ' ORDER BY featured DESC, start_datetime ASC LIMIT 500';
+  const categoryList = categories && categories.trim()
+    ? categories.split(',').map(c => c.trim()).filter(c => c)
+    : category && category !== 'all' ? [category] : [];
 
-  const result = await DB.prepare(query).bind(...params).all();
-  const events = result.results || [];
+  const events = await fetchFeedEvents(DB, [{
+    section,
+    source,
+    categories: categoryList,
+    near,
+  }]);
 
   // Determine calendar name
   let calendarName = CALENDAR_NAMES.all;
@@ -84,7 +85,7 @@ calendar.get('/events.ics', async (c) => {
     filename = `fayetteville-${section.replace('_', '-')}-events.ics`;
   }
 
-  const ical = generateICalFeed(events, calendarName);
+  const ical = generateICalFeed(events, calendarName, { alarmMinutes });
 
   return new Response(ical, {
     headers: {
@@ -95,7 +96,43 @@ calendar.get('/events.ics', async (c) => {
   });
 });
 
-function generateICalFeed(events: any[], calendarName: string = 'Fayetteville Events'): string {
+// GET /cal/u/:token.ics - Personal feed from a saved filter set (see /api/calendar/subscriptions)
+calendar.get('/u/:file', async (c) => {
+  const { DB } = c.env;
+  const file = c.req.param('file');
+
+  if (!file.endsWith('.ics')) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const subscription = await findSubscription(DB, file.slice(0, -'.ics'.length));
+  if (!subscription) {
+    return c.json({ error: 'Subscription not found' }, 404);
+  }
+
+  const filters = parseFilterSet(subscription.filters);
+  const events = await fetchFeedEvents(DB, toFeedFilters(filters), filters.exclude);
+  await recordFetch(DB, subscription.id);
+
+  const ical = generateICalFeed(events, subscription.name, {
+    alarmMinutes: filters.alarm_minutes ?? undefined,
+  });
+
+  return new Response(ical, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="fayetteville-my-events.ics"',
+      // Short cache so filter edits reach calendar apps on their next refresh
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
+
+function generateICalFeed(
+  events: any[],
+  calendarName: string = 'Fayetteville Events',
+  options: { alarmMinutes?: number } = {}
+): string {
   const now = new Date();
   const lines: string[] = [
     'BEGIN:VCALENDAR',
@@ -103,7 +140,7 @@ function generateICalFeed(events: any[], calendarName: string = 'Fayetteville Ev
     'PRODID:-//Fayetteville Central Calendar//EN',
     'CALSCALE:GREGORIAN',
     'METHOD:PUBLISH',
-    `X-WR-CALNAME:${calendarName}`,
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
     'X-WR-TIMEZONE:America/New_York',
     'BEGIN:VTIMEZONE',
     'TZID:America/New_York',
@@ -128,30 +165,141 @@ function generateICalFeed(events: any[], calendarName: string = 'Fayetteville Ev
     const uid = `${event.id}@fayetteville-calendar`;
     const dtstart = formatICalDate(event.start_datetime);
     const dtend = formatICalDate(event.end_datetime);
-    const dtstamp = formatICalDate(now.toISOString());
-    const summary = escapeICalText(event.title);
-    const description = escapeICalText(event.description || '');
-    const location = escapeICalText(event.location_name || '');
+    const summary = escapeICalText(event.status === 'postponed' ? `Postponed: ${event.title}` : event.title);
+    const note = statusNote(event);
+    const description = escapeICalText([note, event.description].filter(Boolean).join('\n\n'));
+    const location = escapeICalText(formatLocation(event));
     const url = event.url || '';
 
+    // DTSTAMP/LAST-MODIFIED come from the row, not the request time, so an
+    // unchanged event looks identical on every refresh
+    const created = parseTimestamp(event.created_at);
+    const modified = parseTimestamp(event.updated_at) ?? created ?? now;
+    const sequence = created ? Math.max(0, Math.floor((modified.getTime() - created.getTime()) / 60000)) : 0;
+
     lines.push(
       'BEGIN:VEVENT',
       `UID:${uid}`,
-      `DTSTART:${dtstart}`,
-      `DTEND:${dtend}`,
-      `DTSTAMP:${dtstamp}`,
+    );
+
+    if (event.recurrence_rule) {
+      // Recurring series repeat in local time so DST shifts don't move them
+      const exdates = [...parseExdates(event.recurrence_exdates)].map(ms => formatICalLocalDate(new Date(ms)));
+      lines.push(
+        `DTSTART;TZID=${TIMEZONE}:${formatICalLocalDate(new Date(event.start_datetime))}`,
+        `DTEND;TZID=${TIMEZONE}:${formatICalLocalDate(new Date(event.end_datetime))}`,
+        `RRULE:${event.recurrence_rule}`,
+      );
+      if (exdates.length > 0) lines.push(`EXDATE;TZID=${TIMEZONE}:${exdates.join(',')}`);
+    } else {
+      lines.push(`DTSTART:${dtstart}`, `DTEND:${dtend}`);
+    }
+
+    lines.push(
+      `DTSTAMP:${formatICalDate(modified.toISOString())}`,
+      `LAST-MODIFIED:${formatICalDate(modified.toISOString())}`,
+      `SEQUENCE:${sequence}`,
       `SUMMARY:${summary}`,
+      `STATUS:${ICAL_STATUS[event.status] || 'CONFIRMED'}`,
     );
 
     if (description) lines.push(`DESCRIPTION:${description}`);
     if (location) lines.push(`LOCATION:${location}`);
+    if (event.venue_latitude != null && event.venue_longitude != null) {
+      lines.push(`GEO:${Number(event.venue_latitude).toFixed(6)};${Number(event.venue_longitude).toFixed(6)}`);
+    }
+
+    const categories = parseCategories(event.categories);
+    if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeICalText).join(',')}`);
+
+    if (event.source_name) {
+      const organizer = event.source_url || 'https://ncfayetteville.com';
+      lines.push(`ORGANIZER;CN=${quoteParam(event.source_name)}:${organizer}`);
+    }
     if (url) lines.push(`URL:${url}`);
+    if (event.image_url) lines.push(`ATTACH:${event.image_url}`);
+
+    if (options.alarmMinutes !== undefined && event.status !== 'cancelled' && event.status !== 'postponed') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${summary}`,
+        `TRIGGER:-PT${options.alarmMinutes}M`,
+        'END:VALARM',
+      );
+    }
 
     lines.push('END:VEVENT');
   }
 
   lines.push('END:VCALENDAR');
-  return lines.join('\r\n');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+const ICAL_STATUS: Record<string, string> = {
+  cancelled: 'CANCELLED',
+  postponed: 'TENTATIVE',
+  tentative: 'TENTATIVE',
+};
+
+// "Venue, 123 Main St, Fayetteville, NC 28301", falling back to location_name
+function formatLocation(event: any): string {
+  if (!event.venue_name) return event.location_name || '';
+
+  const region = [event.venue_state, event.venue_zip].filter(Boolean).join(' ');
+  return [event.venue_name, event.venue_address, event.venue_city, region]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function parseCategories(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string' && c.length > 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP ("2025-01-03 17:00:00") is UTC without a zone marker
+function parseTimestamp(value: string | null): Date | null {
+  if (!value) return null;
+  const iso = value.includes('T') ? value : value.replace(' ', 'T');
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(iso) ? iso : `${iso}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Parameter values with separators must be quoted; quotes themselves aren't allowed
+function quoteParam(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+// RFC 5545 3.1: lines longer than 75 octets continue on the next line after a
+// space. Breaks fall between characters, never inside a UTF-8 sequence.
+const encoder = new TextEncoder();
+
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
 }
 
 function formatICalDate(isoDate: string): string {
@@ -162,12 +310,19 @@ function formatICalDate(isoDate: string): string {
   return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
 }
 
+// Local wall-clock time for TZID properties, e.g. 20250301T190000
+function formatICalLocalDate(date: Date): string {
+  const wall = toWallTime(date, TIMEZONE);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${wall.year}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
 function escapeICalText(text: string): string {
   return text
     .replace(/\\/g, '\\\\') // Corrected: escaped backslash for regex
-    .replace(/;/g, '\;')
-    .replace(/,/g, '\,')
-    .replace(/\n/g, '\\n'); // Corrected: escaped backslash for regex
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n'); // Corrected: escaped backslash for regex
 }
 
 export default calendar;
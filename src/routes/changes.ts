@@ -0,0 +1,57 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { fetchChanges, CHANGE_TYPES, ChangeType } from '../lib/revisions';
+
+const changes = new Hono<{ Bindings: Bindings }>();
+
+// GET /api/changes?since=2025-01-01T00:00:00Z - Inserted, updated, rescheduled and cancelled events
+changes.get('/', async (c) => {
+  const since = c.req.query('since');
+  const cursorParam = c.req.query('cursor');
+  const typesParam = c.req.query('types');
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '100') || 100, 1), 500);
+
+  if (!since && !cursorParam) {
+    return c.json({ error: 'since (ISO timestamp) or cursor is required' }, 400);
+  }
+
+  let sinceIso: string | undefined;
+  if (since) {
+    const date = new Date(since);
+    if (isNaN(date.getTime())) {
+      return c.json({ error: 'since must be an ISO 8601 timestamp' }, 400);
+    }
+    sinceIso = date.toISOString();
+  }
+
+  let cursor: number | undefined;
+  if (cursorParam) {
+    cursor = Number(cursorParam);
+    if (!Number.isInteger(cursor) || cursor < 0) {
+      return c.json({ error: 'cursor must be a revision id from a previous response' }, 400);
+    }
+  }
+
+  const types = typesParam ? typesParam.split(',').map(t => t.trim()).filter(Boolean) : [];
+  const unknown = types.filter(t => !CHANGE_TYPES.includes(t as ChangeType));
+  if (unknown.length > 0) {
+    return c.json({ error: `types must be one or more of: ${CHANGE_TYPES.join(', ')}` }, 400);
+  }
+
+  const data = await fetchChanges(c.env.DB, {
+    since: sinceIso,
+    cursor,
+    types: types as ChangeType[],
+    limit,
+  });
+
+  return c.json({
+    data,
+    count: data.length,
+    // Pass as ?cursor= to continue; null when there is nothing newer yet
+    next_cursor: data.length > 0 ? data[data.length - 1].id : cursor ?? null,
+    has_more: data.length === limit,
+  });
+});
+
+export default changes;
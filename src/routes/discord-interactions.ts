@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { Interaction, InteractionType, InteractionResponseType, verifyDiscordSignature } from '../lib/discord-interactions';
+import { handleCommand } from '../lib/discord-commands';
+
+const interactions = new Hono<{ Bindings: Bindings }>();
+
+// POST /api/discord/interactions - Slash commands, signed by Discord (no API token)
+interactions.post('/', async (c) => {
+  if (!c.env.DISCORD_PUBLIC_KEY) {
+    return c.json({ error: 'Discord interactions not configured' }, 500);
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const body = await c.req.text();
+  const valid = await verifyDiscordSignature(
+    c.env.DISCORD_PUBLIC_KEY,
+    c.req.header('X-Signature-Ed25519'),
+    c.req.header('X-Signature-Timestamp'),
+    body
+  );
+  if (!valid) {
+    return c.json({ error: 'Invalid request signature' }, 401);
+  }
+
+  let interaction: Interaction;
+  try {
+    interaction = JSON.parse(body);
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  if (interaction.type === InteractionType.PING) {
+    return c.json({ type: InteractionResponseType.PONG });
+  }
+  if (interaction.type !== InteractionType.APPLICATION_COMMAND) {
+    return c.json({ error: 'Unsupported interaction type' }, 400);
+  }
+
+  const response = await handleCommand(c.env, interaction, promise => c.executionCtx.waitUntil(promise));
+  return c.json(response);
+});
+
+export default interactions;
@@ -0,0 +1,230 @@
+import { Hono, Context } from 'hono';
+import { Bindings } from '../types';
+import {
+  EmailSubscriber, FREQUENCIES, confirmSubscriber, confirmUrl, countConfirmationsSent, getSubscriber,
+  markConfirmationSent, normalizeEmail, toPublicSubscriber, unsubscribe, updatePreferences,
+  upsertPendingSubscriber, validatePreferences, verifyToken, TokenPurpose,
+} from '../lib/email-subscribers';
+import { renderConfirmationEmail, renderPage } from '../lib/email-templates';
+import { escapeHtml } from '../lib/html';
+import { SECTION_NAMES } from '../lib/discord';
+import { createTransport } from '../lib/mail';
+import { sha256Hex } from '../lib/auth';
+
+const email = new Hono<{ Bindings: Bindings }>();
+
+// Repeat sign-ups for a pending address within this window don't send
+// another confirmation email
+const CONFIRMATION_RESEND_MINUTES = 10;
+
+// Confirmation emails per IP, and for everyone, so sign-ups can't be used
+// to send mail to arbitrary addresses
+const HOURLY_LIMIT = 3;
+const DAILY_LIMIT = 10;
+const GLOBAL_DAILY_LIMIT = 500;
+
+const SUBSCRIBE_RESPONSE = { message: 'Check your inbox for a link to confirm your subscription.' };
+
+email.use('*', async (c, next) => {
+  if (!c.env.EMAIL_TOKEN_SECRET) {
+    return c.json({ error: 'Email digest not configured' }, 500);
+  }
+  await next();
+});
+
+async function subscriberFromToken(c: Context<{ Bindings: Bindings }>, purpose: TokenPurpose): Promise<EmailSubscriber | null> {
+  const id = await verifyToken(c.env.EMAIL_TOKEN_SECRET, purpose, c.req.query('token'));
+  return id === null ? null : getSubscriber(c.env.DB, id);
+}
+
+function invalidLinkPage(c: Context) {
+  return c.html(renderPage('Link not valid', '<p>This link is not valid. Copy the whole link from the email and try again.</p>'), 404);
+}
+
+// POST /api/email/subscribe - Start a double opt-in sign-up
+// Body: { email, frequency?: 'daily' | 'weekly', sections?, categories? }
+// The response is the same whether or not the address is already subscribed
+email.post('/subscribe', async (c) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const address = normalizeEmail(body.email);
+  const { value, errors } = validatePreferences(body);
+  if (!address) errors.unshift('email must be a valid email address');
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+
+  const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for') || 'unknown';
+  const fingerprint = await sha256Hex(ip);
+  const sent = await countConfirmationsSent(c.env.DB, fingerprint);
+  if (sent.lastHour >= HOURLY_LIMIT || sent.lastDay >= DAILY_LIMIT || sent.allLastDay >= GLOBAL_DAILY_LIMIT) {
+    return c.json({ error: 'Too many sign-ups. Please try again later.' }, 429);
+  }
+
+  const subscriber = await upsertPendingSubscriber(c.env.DB, address!, value);
+  if (subscriber.status !== 'pending') {
+    return c.json(SUBSCRIBE_RESPONSE, 202);
+  }
+
+  const lastSent = subscriber.confirmation_sent_at ? new Date(subscriber.confirmation_sent_at).getTime() : 0;
+  if (Date.now() - lastSent < CONFIRMATION_RESEND_MINUTES * 60 * 1000) {
+    return c.json(SUBSCRIBE_RESPONSE, 202);
+  }
+
+  const message = renderConfirmationEmail(await confirmUrl(c.env, subscriber.id), subscriber.frequency);
+  const result = await createTransport(c.env).send({ to: subscriber.email, ...message });
+  if (!result.ok) {
+    console.error(`Confirmation email to subscriber ${subscriber.id} failed:`, result.error);
+    return c.json({ error: 'Could not send the confirmation email. Try again later.' }, 502);
+  }
+  await markConfirmationSent(c.env.DB, subscriber.id, fingerprint);
+
+  return c.json(SUBSCRIBE_RESPONSE, 202);
+});
+
+function unsubscribedPage(c: Context) {
+  return c.html(renderPage('Unsubscribed', '<p>This address has been unsubscribed. Sign up again to get the digest.</p>'));
+}
+
+// GET /api/email/confirm?token= - Link in the confirmation email. A page with
+// a button, so link scanners that follow every URL don't confirm anyone
+email.get('/confirm', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'confirm');
+  if (!subscriber) return invalidLinkPage(c);
+  if (subscriber.status === 'unsubscribed') return unsubscribedPage(c);
+
+  if (subscriber.status === 'confirmed') {
+    return c.html(renderPage('You\'re subscribed', `<p><strong>${escapeHtml(subscriber.email)}</strong> is already subscribed to the ${subscriber.frequency} Fayetteville events digest.</p>`));
+  }
+
+  return c.html(renderPage('Confirm your subscription', `<p>Send the ${subscriber.frequency} Fayetteville events digest to <strong>${escapeHtml(subscriber.email)}</strong>?</p>
+<form method="post" action="?token=${encodeURIComponent(c.req.query('token')!)}">
+<button type="submit" style="padding:10px 16px;background:#A65D57;color:#ffffff;border:0;border-radius:6px;">Confirm subscription</button>
+</form>`));
+});
+
+// POST /api/email/confirm?token= - The confirmation page's button
+email.post('/confirm', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'confirm');
+  if (!subscriber) return invalidLinkPage(c);
+  if (subscriber.status === 'unsubscribed') return unsubscribedPage(c);
+
+  const confirmed = await confirmSubscriber(c.env.DB, subscriber.id);
+  return c.html(renderPage('You\'re subscribed', `<p>Thanks! <strong>${escapeHtml(confirmed!.email)}</strong> will get the ${confirmed!.frequency} Fayetteville events digest.</p>
+<p>Every digest has links to change your preferences or unsubscribe.</p>`));
+});
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+function preferencesForm(token: string, subscriber: EmailSubscriber, notice?: string): string {
+  const frequencies = FREQUENCIES.map(frequency => `<label style="margin-right:16px;"><input type="radio" name="frequency" value="${frequency}"${subscriber.frequency === frequency ? ' checked' : ''}> ${frequency === 'daily' ? 'Every morning' : 'Thursdays (the week ahead)'}</label>`).join('');
+  const sections = Object.entries(SECTION_NAMES).map(([section, name]) => `<label style="margin-right:16px;"><input type="checkbox" name="sections" value="${section}"${subscriber.sections.includes(section) ? ' checked' : ''}> ${escapeHtml(name)}</label>`).join('');
+
+  return renderPage('Email preferences', `${notice ? `<p style="padding:8px 12px;background:#f0fff4;border-radius:6px;">${escapeHtml(notice)}</p>` : ''}
+<p>Digest for <strong>${escapeHtml(subscriber.email)}</strong></p>
+<form method="post" action="?token=${encodeURIComponent(token)}">
+<p><strong>How often</strong><br>${frequencies}</p>
+<p><strong>Areas</strong> (none checked = all)<br>${sections}</p>
+<p><strong>Categories</strong> (comma separated, blank = all)<br><input type="text" name="categories" value="${escapeHtml(subscriber.categories.join(', '))}" style="width:100%;padding:6px;"></p>
+<p><button type="submit" style="padding:10px 16px;background:#A65D57;color:#ffffff;border:0;border-radius:6px;">Save</button></p>
+</form>
+<p><a href="unsubscribe?token=${encodeURIComponent(token)}" style="color:#718096;">Unsubscribe</a></p>`);
+}
+
+// GET /api/email/preferences?token= - Preferences page (JSON unless the client wants HTML)
+email.get('/preferences', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'manage');
+  if (!subscriber) {
+    return c.req.header('Accept')?.includes('text/html') ? invalidLinkPage(c) : c.json({ error: 'Subscriber not found' }, 404);
+  }
+
+  if (c.req.header('Accept')?.includes('text/html')) {
+    return c.html(preferencesForm(c.req.query('token')!, subscriber));
+  }
+  return c.json({ data: toPublicSubscriber(subscriber) });
+});
+
+// PATCH /api/email/preferences?token= - Change { frequency, sections, categories }
+email.patch('/preferences', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'manage');
+  if (!subscriber) {
+    return c.json({ error: 'Subscriber not found' }, 404);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  const { value, errors } = validatePreferences(body ?? {});
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 400);
+  }
+
+  const updated = await updatePreferences(c.env.DB, subscriber.id, value);
+  return c.json({ data: toPublicSubscriber(updated!) });
+});
+
+// POST /api/email/preferences?token= - Form on the preferences page
+email.post('/preferences', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'manage');
+  if (!subscriber) return invalidLinkPage(c);
+
+  const form = await c.req.parseBody({ all: true });
+  const list = (value: unknown) => (value === undefined ? [] : Array.isArray(value) ? value : [value]).map(String);
+  const { value, errors } = validatePreferences({
+    frequency: form.frequency,
+    sections: list(form.sections),
+    categories: String(form.categories || '').split(',').map(category => category.trim()).filter(Boolean),
+  });
+  if (errors.length > 0) {
+    return c.html(preferencesForm(c.req.query('token')!, subscriber, errors.join('. ')), 400);
+  }
+
+  const updated = await updatePreferences(c.env.DB, subscriber.id, value);
+  return c.html(preferencesForm(c.req.query('token')!, updated!, 'Preferences saved.'));
+});
+
+// ============================================================================
+// UNSUBSCRIBE
+// ============================================================================
+
+// GET /api/email/unsubscribe?token= - Confirmation page, so link scanners
+// that follow every URL don't unsubscribe anyone
+email.get('/unsubscribe', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'manage');
+  if (!subscriber) return invalidLinkPage(c);
+
+  if (subscriber.status === 'unsubscribed') {
+    return c.html(renderPage('Unsubscribed', `<p><strong>${escapeHtml(subscriber.email)}</strong> is already unsubscribed.</p>`));
+  }
+
+  return c.html(renderPage('Unsubscribe', `<p>Stop sending the Fayetteville events digest to <strong>${escapeHtml(subscriber.email)}</strong>?</p>
+<form method="post" action="?token=${encodeURIComponent(c.req.query('token')!)}">
+<button type="submit" style="padding:10px 16px;background:#A65D57;color:#ffffff;border:0;border-radius:6px;">Unsubscribe</button>
+</form>`));
+});
+
+// POST /api/email/unsubscribe?token= - The page's button and mail clients'
+// one-click unsubscribe (List-Unsubscribe-Post, RFC 8058)
+email.post('/unsubscribe', async (c) => {
+  const subscriber = await subscriberFromToken(c, 'manage');
+  if (!subscriber) return invalidLinkPage(c);
+
+  await unsubscribe(c.env.DB, subscriber.id);
+  return c.html(renderPage('Unsubscribed', `<p><strong>${escapeHtml(subscriber.email)}</strong> won't get any more digests.</p>`));
+});
+
+export default email;
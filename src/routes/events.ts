@@ -1,18 +1,45 @@
 
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { Bindings } from '../types';
-import { fetchEvents, countEvents } from '../lib/events';
+import { fetchEvents, countEvents, fetchOccurrences, SOURCE_URLS_SQL } from '../lib/events';
+import { parseNearQuery } from '../lib/geo';
+import {
+  TIMEZONE, isValidTimeZone, localDateString, localDayRange, localMonthRange, weekendRange,
+} from '../lib/timezone';
+import { isShareImageSize, renderEventListSvg, svgToPng } from '../lib/share-image';
+import { fetchEventHistory } from '../lib/revisions';
+import { VISIBLE_STATUS_SQL } from '../lib/event-status';
 
 const events = new Hono<{ Bindings: Bindings }>();
 
+// Day boundaries follow Fayetteville time unless the caller passes ?tz=
+function getTimeZone(c: Context): string | null {
+  const tz = c.req.query('tz');
+  if (!tz) return TIMEZONE;
+  return isValidTimeZone(tz) ? tz : null;
+}
+
+const INVALID_TZ = 'tz must be an IANA time zone, e.g. America/Chicago';
+
+// Merge single events with recurring occurrences, earliest first
+function mergeByStart(rows: Record<string, any>[], occurrences: Record<string, any>[]) {
+  return [...rows, ...occurrences].sort((a, b) => String(a.start_datetime).localeCompare(b.start_datetime));
+}
+
 // GET /api/events/today - Today's events
 events.get('/today', async (c) => {
   const { DB } = c.env;
 
+  const timeZone = getTimeZone(c);
+  if (!timeZone) {
+    return c.json({ error: INVALID_TZ }, 400);
+  }
+
   const today = new Date();
   const now = today.toISOString();
-  const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate()).toISOString();
-  const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1).toISOString();
+  const day = localDayRange(today, timeZone);
+  const startOfDay = day.from.toISOString();
+  const endOfDay = day.to.toISOString();
 
   // Show events that:
   // 1. Start today (start_datetime >= startOfDay AND start_datetime < endOfDay), OR
@@ -23,15 +50,23 @@ events.get('/today', async (c) => {
       s.name as source_name
     FROM events e
     LEFT JOIN sources s ON e.source_id = s.id
-    WHERE (e.start_datetime >= ? AND e.start_datetime < ?)
-       OR (e.start_datetime < ? AND e.end_datetime >= ?)
+    WHERE ((e.start_datetime >= ? AND e.start_datetime < ?)
+       OR (e.start_datetime < ? AND e.end_datetime >= ?))
+      AND ${VISIBLE_STATUS_SQL}
+      AND e.canonical_event_id IS NULL
+      AND e.recurrence_rule IS NULL
     ORDER BY e.start_datetime ASC
-  `).bind(startOfDay, endOfDay, startOfDay, now).all();
+  `).bind(startOfDay, endOfDay, startOfDay, now).all<Record<string, any>>();
+
+  const occurrences = (await fetchOccurrences(DB, new Date(startOfDay), new Date(endOfDay), VISIBLE_STATUS_SQL))
+    .filter(e => e.start_datetime < endOfDay && (e.start_datetime >= startOfDay || e.end_datetime >= now));
+  const data = mergeByStart(result.results || [], occurrences);
 
   return c.json({
-    data: result.results,
-    count: result.results?.length || 0,
-    date: startOfDay.split('T')[0],
+    data,
+    count: data.length,
+    date: localDateString(today, timeZone),
+    timezone: timeZone,
   });
 });
 
@@ -50,12 +85,19 @@ events.get('/upcoming', async (c) => {
     FROM events e
     LEFT JOIN sources s ON e.source_id = s.id
     WHERE e.end_datetime >= ? AND e.start_datetime < ?
+      AND ${VISIBLE_STATUS_SQL}
+      AND e.canonical_event_id IS NULL
+      AND e.recurrence_rule IS NULL
     ORDER BY e.start_datetime ASC
-  `).bind(now, weekFromNow).all();
+  `).bind(now, weekFromNow).all<Record<string, any>>();
+
+  const occurrences = (await fetchOccurrences(DB, new Date(now), new Date(weekFromNow), VISIBLE_STATUS_SQL))
+    .filter(e => e.start_datetime < weekFromNow);
+  const data = mergeByStart(result.results || [], occurrences);
 
   return c.json({
-    data: result.results,
-    count: result.results?.length || 0,
+    data,
+    count: data.length,
     range: { from: now, to: weekFromNow },
   });
 });
@@ -64,32 +106,14 @@ events.get('/upcoming', async (c) => {
 events.get('/weekend', async (c) => {
   const { DB } = c.env;
 
-  const now = new Date();
-  const dayOfWeek = now.getDay(); // 0 = Sunday, 5 = Friday, 6 = Saturday
-
-  // Calculate Friday start and Sunday end
-  let fridayStart: Date;
-  let sundayEnd: Date;
-
-  if (dayOfWeek === 0) {
-    // Sunday - show today only (end of current weekend)
-    fridayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    sundayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-  } else if (dayOfWeek === 6) {
-    // Saturday - show Sat-Sun
-    fridayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    sundayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 2);
-  } else if (dayOfWeek === 5) {
-    // Friday - show Fri-Sun
-    fridayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    sundayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 3);
-  } else {
-    // Mon-Thu - show upcoming Fri-Sun
-    const daysUntilFriday = 5 - dayOfWeek;
-    fridayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() + daysUntilFriday);
-    sundayEnd = new Date(fridayStart.getTime() + 3 * 24 * 60 * 60 * 1000);
+  const timeZone = getTimeZone(c);
+  if (!timeZone) {
+    return c.json({ error: INVALID_TZ }, 400);
   }
 
+  // Fri-Sun in local days (from Friday on, the rest of the current weekend)
+  const { from: fridayStart, to: sundayEnd } = weekendRange(new Date(), timeZone);
+
   const result = await DB.prepare(`
     SELECT
       e.*,
@@ -97,25 +121,45 @@ events.get('/weekend', async (c) => {
     FROM events e
     LEFT JOIN sources s ON e.source_id = s.id
     WHERE e.end_datetime >= ? AND e.start_datetime < ?
-      AND e.status IN ('confirmed', 'active')
+      AND ${VISIBLE_STATUS_SQL}
+      AND e.canonical_event_id IS NULL
+      AND e.recurrence_rule IS NULL
     ORDER BY e.start_datetime ASC
-  `).bind(fridayStart.toISOString(), sundayEnd.toISOString()).all();
+  `).bind(fridayStart.toISOString(), sundayEnd.toISOString()).all<Record<string, any>>();
+
+  const occurrences = (await fetchOccurrences(DB, fridayStart, sundayEnd, VISIBLE_STATUS_SQL))
+    .filter(e => e.start_datetime < sundayEnd.toISOString());
+  const data = mergeByStart(result.results || [], occurrences);
 
   return c.json({
-    data: result.results,
-    count: result.results?.length || 0,
+    data,
+    count: data.length,
     range: {
       from: fridayStart.toISOString(),
       to: sundayEnd.toISOString(),
     },
+    timezone: timeZone,
   });
 });
 
-// GET /api/events/image - Generate Social Image Data
+// GET /api/events/image - Social image data (JSON) or rendered image (?format=svg|png&size=og|square|story)
 events.get('/image', async (c) => {
   const { DB } = c.env;
   const section = c.req.query('section') || 'all';
   const dateFilter = c.req.query('date') || 'upcoming';
+  const format = c.req.query('format') || 'json';
+  const size = c.req.query('size') || 'og';
+
+  const timeZone = getTimeZone(c);
+  if (!timeZone) {
+    return c.json({ error: INVALID_TZ }, 400);
+  }
+  if (!['json', 'svg', 'png'].includes(format)) {
+    return c.json({ error: 'format must be json, svg or png' }, 400);
+  }
+  if (!isShareImageSize(size)) {
+    return c.json({ error: 'size must be og, square or story' }, 400);
+  }
 
   // Calculate Date Ranges
   const now = new Date();
@@ -124,30 +168,22 @@ events.get('/image', async (c) => {
   let title = 'Upcoming Events';
   let subtitle = 'Fayetteville, NC';
 
-  if (dateFilter === 'today') {
-    title = "Today's Events";
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-    from = startOfDay.toISOString();
-    to = endOfDay.toISOString();
-  } else if (dateFilter === 'tomorrow') {
-    title = "Tomorrow's Events";
-    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 2);
-    from = start.toISOString();
-    to = end.toISOString();
-  } else if (dateFilter === 'week') {
-    title = "This Week's Events";
-    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7);
-    from = start.toISOString();
-    to = end.toISOString();
-  } else if (dateFilter === 'month') {
-    title = "This Month's Events";
-    const start = new Date(now.getFullYear(), now.getMonth(), 1);
-    const end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-    from = start.toISOString();
-    to = end.toISOString();
+  const range =
+    dateFilter === 'today' ? localDayRange(now, timeZone) :
+    dateFilter === 'tomorrow' ? localDayRange(now, timeZone, 1) :
+    dateFilter === 'week' ? localDayRange(now, timeZone, 0, 7) :
+    dateFilter === 'month' ? localMonthRange(now, timeZone) :
+    null;
+
+  if (dateFilter === 'today') title = "Today's Events";
+  if (dateFilter === 'tomorrow') title = "Tomorrow's Events";
+  if (dateFilter === 'week') title = "This Week's Events";
+  if (dateFilter === 'month') title = "This Month's Events";
+
+  if (range) {
+    from = range.from.toISOString();
+    // Ranges are half-open; fetchEvents' `to` is inclusive
+    to = new Date(range.to.getTime() - 1).toISOString();
   }
 
   if (section === 'downtown') subtitle = 'Downtown Fayetteville';
@@ -162,6 +198,27 @@ events.get('/image', async (c) => {
     limit: 8
   });
 
+  if (format !== 'json') {
+    const events = eventsData.map(event => ({
+      id: event.id as string,
+      title: event.title as string,
+      start_datetime: event.start_datetime as string,
+      location_name: event.location_name as string | null,
+      venue_name: event.venue_name ?? undefined,
+      venue_address: event.venue_address ?? undefined,
+      categories: event.categories as string | null,
+      image_url: event.image_url as string | null,
+      venue_image_url: event.venue_image_url as string | null,
+    }));
+    const svg = await renderEventListSvg(c.env, { events, title, subtitle, size });
+    const headers = { 'Cache-Control': 'public, max-age=900' };
+
+    if (format === 'svg') {
+      return c.body(svg, 200, { ...headers, 'Content-Type': 'image/svg+xml' });
+    }
+    return c.body(await svgToPng(svg), 200, { ...headers, 'Content-Type': 'image/png' });
+  }
+
   return c.json({
     title,
     subtitle,
@@ -185,6 +242,7 @@ events.get('/venue/:venueId', async (c) => {
     to,
     limit,
     include_venue_only: true,  // Include events that only appear for this venue
+    include_cancelled: true,
   });
 
   // Also fetch venue details
@@ -224,7 +282,8 @@ events.get('/:id', async (c) => {
       v.parking_info as venue_parking_info,
       v.accessibility_info as venue_accessibility_info,
       v.latitude as venue_latitude,
-      v.longitude as venue_longitude
+      v.longitude as venue_longitude,
+      ${SOURCE_URLS_SQL}
     FROM events e
     LEFT JOIN sources s ON e.source_id = s.id
     LEFT JOIN venues v ON e.venue_id = v.id
@@ -238,10 +297,47 @@ events.get('/:id', async (c) => {
   return c.json({ data: result });
 });
 
+// GET /api/events/:id/history - Field-level changes, oldest first
+events.get('/:id/history', async (c) => {
+  const { DB } = c.env;
+  const id = c.req.param('id');
+
+  const history = await fetchEventHistory(DB, id);
+  if (history.length === 0) {
+    const exists = await DB.prepare('SELECT 1 FROM events WHERE id = ?').bind(id).first();
+    if (!exists) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+  }
+
+  return c.json({
+    event_id: id,
+    data: history,
+    count: history.length,
+  });
+});
+
 // GET /api/events - List events with filters
 events.get('/', async (c) => {
   const { DB } = c.env;
 
+  const { near, error } = parseNearQuery({
+    lat: c.req.query('lat'),
+    lng: c.req.query('lng'),
+    radius_miles: c.req.query('radius_miles'),
+  });
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  const sort = c.req.query('sort') || 'start';
+  if (sort !== 'start' && sort !== 'distance') {
+    return c.json({ error: 'sort must be start or distance' }, 400);
+  }
+  if (sort === 'distance' && !near) {
+    return c.json({ error: 'sort=distance requires lat and lng' }, 400);
+  }
+
   const params = {
     section: c.req.query('section'),
     source: c.req.query('source'),
@@ -251,8 +347,11 @@ events.get('/', async (c) => {
     category: c.req.query('category'),
     categories: c.req.query('categories'),
     featured: c.req.query('featured'),
+    include_cancelled: c.req.query('include_cancelled') !== 'false',
     limit: Math.min(parseInt(c.req.query('limit') || '100'), 500),
     offset: parseInt(c.req.query('offset') || '0'),
+    near,
+    sort: sort as 'start' | 'distance',
   };
 
   const [data, total] = await Promise.all([
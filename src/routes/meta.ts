@@ -1,6 +1,7 @@
 
 import { Hono } from 'hono';
 import { Bindings } from '../types';
+import { loadTaxonomy, toPublicCategory } from '../lib/categories';
 
 const meta = new Hono<{ Bindings: Bindings }>();
 
@@ -30,29 +31,10 @@ meta.get('/sources', async (c) => {
   });
 });
 
-// GET /api/categories - List distinct event categories
+// GET /api/categories - Category taxonomy in display order
 meta.get('/categories', async (c) => {
-  const { DB } = c.env;
-
-  // Get all categories from current and future events
-  const result = await DB.prepare(`
-    SELECT categories FROM events
-    WHERE end_datetime >= ? AND categories IS NOT NULL AND categories != '[]'
-  `).bind(new Date().toISOString()).all();
-
-  const categorySet = new Set<string>();
-  for (const row of result.results || []) {
-    try {
-      const cats = JSON.parse((row as { categories: string }).categories);
-      if (Array.isArray(cats)) {
-        cats.forEach((cat: string) => categorySet.add(cat));
-      }
-    } catch {
-      // Skip invalid JSON
-    }
-  }
-
-  const categories = Array.from(categorySet).sort();
+  const taxonomy = await loadTaxonomy(c.env.DB);
+  const categories = taxonomy.categories.map(category => toPublicCategory(taxonomy, category));
 
   return c.json({
     data: categories,
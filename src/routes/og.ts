@@ -0,0 +1,51 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { getEventCardPng, EventCardSource } from '../lib/share-image';
+import { categoryEmoji, loadTaxonomy } from '../lib/categories';
+
+const og = new Hono<{ Bindings: Bindings }>();
+
+// GET /og/events/:id.png - Branded Open Graph card for one event (cached in R2)
+og.get('/events/:file', async (c) => {
+  const { DB } = c.env;
+  const file = c.req.param('file');
+
+  if (!file.endsWith('.png')) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+  const id = file.slice(0, -'.png'.length);
+
+  const event = await DB.prepare(`
+    SELECT
+      e.id, e.title, e.start_datetime, e.section, e.location_name, e.categories,
+      e.content_hash, e.updated_at,
+      v.name as venue_name
+    FROM events e
+    LEFT JOIN venues v ON e.venue_id = v.id
+    WHERE e.id = ?
+  `).bind(id).first<EventCardSource>();
+
+  if (!event) {
+    return c.json({ error: 'Event not found' }, 404);
+  }
+
+  let category: string | undefined;
+  try {
+    category = JSON.parse(event.categories || '[]')[0];
+  } catch {
+    // No category icon
+  }
+  if (typeof category === 'string') {
+    event.category_emoji = categoryEmoji(await loadTaxonomy(DB), category);
+  }
+
+  const png = await getEventCardPng(c.env, event);
+
+  return c.body(png, 200, {
+    'Content-Type': 'image/png',
+    // Crawlers re-fetch rarely; the R2 copy is what keeps this cheap
+    'Cache-Control': 'public, max-age=3600',
+  });
+});
+
+export default og;
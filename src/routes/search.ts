@@ -0,0 +1,38 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { searchAll, SearchHitType } from '../lib/search';
+
+const search = new Hono<{ Bindings: Bindings }>();
+
+const TYPES: Record<string, SearchHitType[]> = {
+  all: ['event', 'venue'],
+  events: ['event'],
+  venues: ['venue'],
+};
+
+// GET /api/search?q=jazz - Ranked event and venue hits with highlighted snippets
+search.get('/', async (c) => {
+  const q = (c.req.query('q') || '').trim();
+  const type = c.req.query('type') || 'all';
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '20') || 20, 1), 50);
+
+  if (!q) {
+    return c.json({ error: 'q is required' }, 400);
+  }
+  if (q.length > 200) {
+    return c.json({ error: 'q must be 200 characters or fewer' }, 400);
+  }
+  if (!TYPES[type]) {
+    return c.json({ error: 'type must be all, events or venues' }, 400);
+  }
+
+  const hits = await searchAll(c.env.DB, q, { types: TYPES[type], limit });
+
+  return c.json({
+    query: q,
+    data: hits,
+    count: hits.length,
+  });
+});
+
+export default search;
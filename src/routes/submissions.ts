@@ -0,0 +1,96 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { sha256Hex } from '../lib/auth';
+import { validateSubmission } from '../lib/submissions';
+
+const submissions = new Hono<{ Bindings: Bindings }>();
+
+// Per-IP submission limits (on top of the global API rate limit)
+const HOURLY_LIMIT = 3;
+const DAILY_LIMIT = 10;
+
+// POST /api/submissions - Submit a community event for review
+submissions.post('/', async (c) => {
+  const { DB } = c.env;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid request body' }, 400);
+  }
+
+  // Honeypot: real users never see or fill this field. Pretend success so bots don't adapt.
+  if (typeof body.website === 'string' && body.website.trim() !== '') {
+    return c.json({ status: 'pending', message: 'Submission received' }, 201);
+  }
+
+  const { value, errors } = validateSubmission(body);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid submission', details: errors }, 400);
+  }
+
+  const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for') || 'unknown';
+  const fingerprint = await sha256Hex(ip);
+  const now = Date.now();
+
+  const counts = await DB.prepare(`
+    SELECT
+      SUM(CASE WHEN submitted_at >= ? THEN 1 ELSE 0 END) as last_hour,
+      COUNT(*) as last_day
+    FROM pending_events
+    WHERE submitter_fingerprint = ? AND submitted_at >= ?
+  `).bind(
+    new Date(now - 60 * 60 * 1000).toISOString(),
+    fingerprint,
+    new Date(now - 24 * 60 * 60 * 1000).toISOString()
+  ).first<{ last_hour: number | null; last_day: number }>();
+
+  if ((counts?.last_hour ?? 0) >= HOURLY_LIMIT || (counts?.last_day ?? 0) >= DAILY_LIMIT) {
+    return c.json({ error: 'Too many submissions. Please try again later.' }, 429);
+  }
+
+  const duplicate = await DB.prepare(`
+    SELECT id FROM pending_events
+    WHERE status = 'pending' AND lower(title) = lower(?) AND start_datetime = ?
+  `).bind(value.title, value.start_datetime).first();
+
+  if (duplicate) {
+    return c.json({ error: 'This event has already been submitted and is awaiting review' }, 409);
+  }
+
+  const submittedAt = new Date(now).toISOString();
+  const result = await DB.prepare(`
+    INSERT INTO pending_events (
+      title, description, start_datetime, end_datetime, venue_name, venue_address,
+      url, ticket_url, image_url, categories, section,
+      submitter_name, submitter_email, submitter_fingerprint,
+      status, submitted_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+  `).bind(
+    value.title,
+    value.description,
+    value.start_datetime,
+    value.end_datetime,
+    value.venue_name,
+    value.venue_address,
+    value.url,
+    value.ticket_url,
+    value.image_url,
+    JSON.stringify(value.categories),
+    value.section,
+    value.submitter_name,
+    value.submitter_email,
+    fingerprint,
+    submittedAt,
+    submittedAt,
+  ).run();
+
+  return c.json({
+    id: result.meta.last_row_id,
+    status: 'pending',
+    message: 'Submission received and will be reviewed before it appears on the calendar',
+  }, 201);
+});
+
+export default submissions;
@@ -1,5 +1,6 @@
 import { D1Database } from '@cloudflare/workers-types';
 import { fetchEvents } from '../lib/events';
+import { localDayRange, localTimeRange } from '../lib/timezone';
 import { ScoringContext, selectBestVenue, Venue } from '../lib/scoring';
 
 // --- INTERFACES ---
@@ -454,15 +455,15 @@ function findBestEvent(events: any[], vibes: string[]): any {
   return preferred || events[0]; // Return first event as fallback
 }
 
+// Hours of the plan's date in Fayetteville time (falls back to today if the date is invalid)
 function getTimeRange(date: string, timeOfDay?: string): { from: string; to: string } {
-    const dateBase = new Date(date);
     let startHour = 0, endHour = 24;
     if (timeOfDay === 'morning') { startHour = 6; endHour = 12; }
     else if (timeOfDay === 'afternoon') { startHour = 12; endHour = 17; }
     else if (timeOfDay === 'evening') { startHour = 17; endHour = 24; }
-    const fromDate = new Date(dateBase); fromDate.setUTCHours(startHour, 0, 0, 0);
-    const toDate = new Date(dateBase); toDate.setUTCHours(endHour, 59, 59, 999);
-    return { from: fromDate.toISOString(), to: toDate.toISOString() };
+    const range = localTimeRange(date, startHour, endHour) ?? localDayRange(new Date());
+    // fetchEvents treats `to` as inclusive
+    return { from: range.from.toISOString(), to: new Date(range.to.getTime() - 1).toISOString() };
 }
 
 function matchEventVibe(event: any, userVibes: string[]): boolean {
@@ -676,9 +677,8 @@ export async function getSwapSuggestion(
 
         // 2. If no alternatives, try fetching events for the full day
         if (!suggestion) {
-            const dayStart = prefs.date + 'T00:00:00.000Z';
-            const dayEnd = prefs.date + 'T23:59:59.999Z';
-            events = await fetchEvents(DB, { from: dayStart, to: dayEnd, limit: 50 });
+            const day = getTimeRange(prefs.date, 'full_day');
+            events = await fetchEvents(DB, { from: day.from, to: day.to, limit: 50 });
             alternateEvents = events.filter(e => !usedEventIds.includes(e.id));
             suggestion = findBestEvent(alternateEvents, prefs.vibes);
         }
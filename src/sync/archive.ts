@@ -0,0 +1,135 @@
+/**
+ * Raw payload archive
+ *
+ * Every sync records the HTML/JSON/RSS responses a source fetched and stores
+ * them in the RAW_DATA R2 bucket, with a raw_scrapes row pointing at the
+ * object. An archive can later be replayed through the same parser without
+ * touching the venue's website (see scripts/replay-raw-scrape.ts).
+ */
+
+import { D1Database, R2Bucket } from '@cloudflare/workers-types';
+import { HttpFetch } from './types';
+import { SourceRow } from './sources';
+
+export interface ArchivedResponse {
+  url: string;
+  method: string;
+  requestBody?: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+export interface RawArchive {
+  sourceId: string;
+  source?: SourceRow;  // The sources row the sync ran with, so replays pick the same adapter and config
+  fetchedAt: string;
+  responses: ArchivedResponse[];
+}
+
+function requestKey(method: string, url: string, body?: string): string {
+  return `${method.toUpperCase()} ${url}${body ? ` ${body}` : ''}`;
+}
+
+/**
+ * Wrap fetch so every response body is kept for archiving.
+ * The parser still receives a normal Response.
+ */
+export function createRecordingFetch(base: HttpFetch = fetch): { http: HttpFetch; responses: ArchivedResponse[] } {
+  const responses: ArchivedResponse[] = [];
+
+  const http: HttpFetch = async (url, init) => {
+    const response = await base(url, init);
+    const body = await response.text();
+
+    responses.push({
+      url,
+      method: init?.method || 'GET',
+      requestBody: typeof init?.body === 'string' ? init.body : undefined,
+      status: response.status,
+      contentType: response.headers.get('content-type'),
+      body,
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  return { http, responses };
+}
+
+/**
+ * Serve responses from an archive instead of the network.
+ * Requests that were not captured get a 404 so parsers take their error path.
+ */
+export function createReplayFetch(archive: RawArchive): HttpFetch {
+  const byRequest = new Map<string, ArchivedResponse>();
+  for (const response of archive.responses) {
+    byRequest.set(requestKey(response.method, response.url, response.requestBody), response);
+  }
+
+  return async (url, init) => {
+    const body = typeof init?.body === 'string' ? init.body : undefined;
+    const archived = byRequest.get(requestKey(init?.method || 'GET', url, body));
+
+    if (!archived) {
+      console.error(`  Replay: no archived response for ${url}`);
+      return new Response('Not archived', { status: 404 });
+    }
+
+    return new Response(archived.body, {
+      status: archived.status,
+      headers: archived.contentType ? { 'Content-Type': archived.contentType } : undefined,
+    });
+  };
+}
+
+/**
+ * R2 object key for an archive, e.g. raw/segra_stadium/2026-01-05/2026-01-05T13-00-02-118Z.json
+ */
+export function archiveKey(sourceId: string, fetchedAt: string): string {
+  return `raw/${sourceId}/${fetchedAt.split('T')[0]}/${fetchedAt.replace(/[:.]/g, '-')}.json`;
+}
+
+export async function saveRawArchive(bucket: R2Bucket, archive: RawArchive): Promise<string> {
+  const key = archiveKey(archive.sourceId, archive.fetchedAt);
+
+  await bucket.put(key, JSON.stringify(archive), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: {
+      sourceId: archive.sourceId,
+      responses: String(archive.responses.length),
+    },
+  });
+
+  return key;
+}
+
+export async function loadRawArchive(bucket: R2Bucket, key: string): Promise<RawArchive | null> {
+  const object = await bucket.get(key);
+  if (!object) return null;
+  return object.json<RawArchive>();
+}
+
+export async function logRawScrape(DB: D1Database, entry: {
+  sourceId: string;
+  status: 'success' | 'error';
+  itemsFound: number;
+  rawContentUrl: string | null;
+  logMessage?: string;
+}): Promise<void> {
+  await DB.prepare(`
+    INSERT INTO raw_scrapes (source_id, scraped_at, status, items_found, raw_content_url, log_message)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).bind(
+    entry.sourceId,
+    new Date().toISOString(),
+    entry.status,
+    entry.itemsFound,
+    entry.rawContentUrl,
+    entry.logMessage ?? null,
+  ).run();
+}
@@ -0,0 +1,225 @@
+/**
+ * Cross-source event deduplication
+ *
+ * The same concert is often listed by the venue, Visit Downtown, FayDTA and
+ * Distinctly Fayetteville. After each sync, upcoming events are clustered by
+ * title similarity, overlapping times and venue; the event from the highest
+ * priority source (sources.priority, lower wins) becomes canonical and the
+ * others point at it through events.canonical_event_id.
+ */
+
+import { D1Database } from '@cloudflare/workers-types';
+import { runBatches } from './writer';
+import { LIVE_STATUS_SQL } from '../lib/event-status';
+
+export interface DedupeCandidate {
+  id: string;
+  source_id: string;
+  title: string;
+  start_datetime: string;
+  end_datetime: string;
+  venue_id: string | null;
+  location_name: string | null;
+  canonical_event_id: string | null;
+  priority: number;
+}
+
+export interface DedupeStats {
+  groups: number;   // Canonical events with at least one duplicate
+  linked: number;   // Rows newly pointed at a canonical event
+  unlinked: number; // Rows that are canonical again
+}
+
+// Title similarity needed when both events resolve to the same venue
+const SAME_VENUE_THRESHOLD = 0.75;
+// Title similarity needed when the venue could not be compared
+const UNKNOWN_VENUE_THRESHOLD = 0.9;
+// Events without a real end time are treated as lasting this long
+const MIN_DURATION_MS = 60 * 60 * 1000;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'of', 'at', 'in', 'on', 'for', 'with', 'presents', 'live']);
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Lowercase, strip punctuation/years and drop filler words
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\b(19|20)\d{2}\b/g, ' ')
+    .replace(/\bvs?\.?\b/g, ' vs ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/\s+/g, ' ');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Similarity of two titles in [0, 1]: the better of bigram Dice coefficient
+ * and word containment (so "Woodpeckers vs Wood Ducks" matches
+ * "Fayetteville Woodpeckers vs Down East Wood Ducks").
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  // Dice coefficient over character bigrams
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of leftGrams) {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+    total += count;
+  }
+  for (const count of rightGrams.values()) total += count;
+  const dice = total > 0 ? (2 * overlap) / total : 0;
+
+  // Share of the shorter title's words found in the longer one
+  const leftWords = left.split(' ');
+  const rightWords = new Set(right.split(' '));
+  const [shorter, longer] = leftWords.length <= rightWords.size
+    ? [leftWords, rightWords]
+    : [right.split(' '), new Set(leftWords)];
+  const containment = shorter.length >= 3
+    ? shorter.filter(word => longer.has(word)).length / shorter.length
+    : 0;
+
+  return Math.max(dice, containment);
+}
+
+function timeRange(event: DedupeCandidate): [number, number] {
+  const start = new Date(event.start_datetime).getTime();
+  const end = new Date(event.end_datetime).getTime();
+  return [start, Math.max(end, start + MIN_DURATION_MS)];
+}
+
+function timesOverlap(a: DedupeCandidate, b: DedupeCandidate): boolean {
+  const [aStart, aEnd] = timeRange(a);
+  const [bStart, bEnd] = timeRange(b);
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * 'same' when both resolve to one venue, 'different' when they clearly differ,
+ * 'unknown' when there is not enough to compare
+ */
+function compareVenues(a: DedupeCandidate, b: DedupeCandidate): 'same' | 'different' | 'unknown' {
+  if (a.venue_id && b.venue_id) {
+    return a.venue_id === b.venue_id ? 'same' : 'different';
+  }
+
+  const left = normalizeTitle(a.location_name || '');
+  const right = normalizeTitle(b.location_name || '');
+  if (left && right && left === right) return 'same';
+  return 'unknown';
+}
+
+/**
+ * Whether two events from different sources describe the same happening
+ */
+export function isDuplicate(a: DedupeCandidate, b: DedupeCandidate): boolean {
+  if (a.source_id === b.source_id) return false;
+  if (!timesOverlap(a, b)) return false;
+
+  const venue = compareVenues(a, b);
+  if (venue === 'different') return false;
+
+  const threshold = venue === 'same' ? SAME_VENUE_THRESHOLD : UNKNOWN_VENUE_THRESHOLD;
+  return titleSimilarity(a.title, b.title) >= threshold;
+}
+
+/**
+ * Cluster candidates and return event id -> canonical event id (null when the
+ * event is canonical itself). Each cluster holds at most one event per source.
+ */
+export function assignCanonicalEvents(candidates: DedupeCandidate[]): Map<string, string | null> {
+  // Highest priority first; keep the current canonical on ties to avoid flapping
+  const ordered = [...candidates].sort((a, b) =>
+    a.priority - b.priority ||
+    Number(a.canonical_event_id !== null) - Number(b.canonical_event_id !== null) ||
+    a.id.localeCompare(b.id)
+  );
+
+  const clusters: { canonical: DedupeCandidate; sources: Set<string> }[] = [];
+  const assignments = new Map<string, string | null>();
+
+  for (const event of ordered) {
+    const cluster = clusters.find(c =>
+      !c.sources.has(event.source_id) && isDuplicate(c.canonical, event)
+    );
+
+    if (cluster) {
+      cluster.sources.add(event.source_id);
+      assignments.set(event.id, cluster.canonical.id);
+    } else {
+      clusters.push({ canonical: event, sources: new Set([event.source_id]) });
+      assignments.set(event.id, null);
+    }
+  }
+
+  return assignments;
+}
+
+// =============================================================================
+// D1
+// =============================================================================
+
+/**
+ * Recompute canonical links for all upcoming events and write the changes
+ */
+export async function dedupeEvents(DB: D1Database): Promise<DedupeStats> {
+  const result = await DB.prepare(`
+    SELECT
+      e.id, e.source_id, e.title, e.start_datetime, e.end_datetime,
+      e.venue_id, e.location_name, e.canonical_event_id,
+      COALESCE(s.priority, 100) as priority
+    FROM events e
+    LEFT JOIN sources s ON e.source_id = s.id
+    WHERE ${LIVE_STATUS_SQL}
+      AND datetime(e.end_datetime) >= datetime('now')
+  `).all<DedupeCandidate>();
+
+  const candidates = result.results || [];
+  const assignments = assignCanonicalEvents(candidates);
+
+  const stats: DedupeStats = {
+    groups: new Set([...assignments.values()].filter(Boolean)).size,
+    linked: 0,
+    unlinked: 0,
+  };
+
+  const updateStmt = DB.prepare('UPDATE events SET canonical_event_id = ? WHERE id = ?');
+  const statements = [];
+
+  for (const event of candidates) {
+    const canonicalId = assignments.get(event.id) ?? null;
+    if (canonicalId === event.canonical_event_id) continue;
+
+    if (canonicalId) {
+      stats.linked++;
+    } else {
+      stats.unlinked++;
+    }
+    statements.push(updateStmt.bind(canonicalId, event.id));
+  }
+
+  await runBatches(DB, statements);
+  return stats;
+}
@@ -0,0 +1,173 @@
+/**
+ * Event enrichment step
+ *
+ * Runs after each sync. Upcoming live events that were never enriched, or
+ * whose content changed since (content_hash), go to the enrichment provider a
+ * few at a time. Results are kept in event_enrichments with the provider and
+ * model that made them, and copied onto events: summary, audience and
+ * price_hint always; categories only when the source gave none, flagged
+ * categories_source = 'ai'.
+ */
+
+import { D1PreparedStatement } from '@cloudflare/workers-types';
+import { Bindings } from '../types';
+import { runBatches } from './writer';
+import { cleanDescription } from './utils';
+import { LIVE_STATUS_SQL } from '../lib/event-status';
+import { loadTaxonomy } from '../lib/categories';
+import { EnrichmentProvider, createEnrichmentProvider } from '../lib/enrichment';
+
+export interface EnrichmentStats {
+  provider: string | null;  // null: enrichment is off
+  enriched: number;
+  failed: number;
+  reapplied: number;        // Events whose AI categories were restored from event_enrichments
+}
+
+interface EnrichmentCandidate {
+  id: string;
+  title: string;
+  description: string | null;
+  location_name: string | null;
+  start_datetime: string;
+  categories: string | null;
+  categories_source: string | null;
+  content_hash: string | null;
+}
+
+// Model calls per run; the rest wait for the next sync
+const MAX_PER_RUN = 20;
+
+// Events the source left uncategorized, or whose categories came from a model
+const AI_CATEGORIES_SQL = `(categories IS NULL OR categories = '[]' OR categories_source = 'ai')`;
+
+function parseCategories(json: string | null): string[] {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Enrich up to `limit` events (or just `eventIds`, whatever their state).
+ * `provider` overrides ENRICHMENT_PROVIDER.
+ */
+export async function enrichEvents(
+  env: Bindings,
+  options: { limit?: number; eventIds?: string[]; provider?: EnrichmentProvider | null } = {}
+): Promise<EnrichmentStats> {
+  const { DB } = env;
+  const provider = options.provider !== undefined ? options.provider : createEnrichmentProvider(env);
+
+  // A status-only sync update resets categories to the source's; put back
+  // the suggestions made for the same content
+  const reapplied = await DB.prepare(`
+    UPDATE events SET
+      categories = (SELECT en.categories FROM event_enrichments en WHERE en.event_id = events.id),
+      categories_source = 'ai'
+    WHERE (categories IS NULL OR categories = '[]')
+      AND EXISTS (
+        SELECT 1 FROM event_enrichments en
+        WHERE en.event_id = events.id AND en.content_hash = events.content_hash AND en.categories != '[]'
+      )
+    RETURNING id
+  `).all();
+
+  const stats: EnrichmentStats = {
+    provider: provider?.name ?? null,
+    enriched: 0,
+    failed: 0,
+    reapplied: reapplied.results?.length || 0,
+  };
+  if (!provider) return stats;
+
+  const ids = options.eventIds || [];
+  const where = ids.length > 0
+    ? `e.id IN (${ids.map(() => '?').join(', ')})`
+    : `${LIVE_STATUS_SQL}
+        AND e.end_datetime >= ?
+        AND e.canonical_event_id IS NULL
+        AND (en.event_id IS NULL OR en.content_hash IS NOT e.content_hash)`;
+  const params = ids.length > 0 ? ids : [new Date().toISOString()];
+
+  const candidates = await DB.prepare(`
+    SELECT e.id, e.title, e.description, e.location_name, e.start_datetime,
+      e.categories, e.categories_source, e.content_hash
+    FROM events e
+    LEFT JOIN event_enrichments en ON en.event_id = e.id
+    WHERE ${where}
+    ORDER BY (e.categories IS NULL OR e.categories = '[]' OR e.categories_source = 'ai') DESC, e.start_datetime
+    LIMIT ?
+  `).bind(...params, Math.min(options.limit ?? MAX_PER_RUN, 100)).all<EnrichmentCandidate>();
+
+  const events = candidates.results || [];
+  if (events.length === 0) return stats;
+
+  const taxonomy = await loadTaxonomy(DB);
+  const statements: D1PreparedStatement[] = [];
+  const now = new Date().toISOString();
+
+  const saveStmt = DB.prepare(`
+    INSERT INTO event_enrichments (
+      event_id, content_hash, provider, model, categories, audience, price_hint, summary,
+      error, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?)
+    ON CONFLICT(event_id) DO UPDATE SET
+      content_hash = excluded.content_hash,
+      provider = excluded.provider,
+      model = excluded.model,
+      categories = excluded.categories,
+      audience = excluded.audience,
+      price_hint = excluded.price_hint,
+      summary = excluded.summary,
+      error = NULL,
+      updated_at = excluded.updated_at
+  `);
+  const applyStmt = DB.prepare(`
+    UPDATE events SET
+      summary = ?,
+      audience = ?,
+      price_hint = ?,
+      categories = CASE WHEN ${AI_CATEGORIES_SQL} THEN ? ELSE categories END,
+      categories_source = CASE WHEN ${AI_CATEGORIES_SQL} AND ? != '[]' THEN 'ai' ELSE 'source' END
+    WHERE id = ?
+  `);
+  // Failures keep the previous result; content_hash stays as it was, so the
+  // event is tried again next run
+  const failStmt = DB.prepare(`
+    INSERT INTO event_enrichments (event_id, provider, model, error, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(event_id) DO UPDATE SET error = excluded.error, updated_at = excluded.updated_at
+  `);
+
+  for (const event of events) {
+    try {
+      const enrichment = await provider.enrich({
+        title: event.title,
+        description: cleanDescription(event.description || '', event.title),
+        location_name: event.location_name,
+        start_datetime: event.start_datetime,
+        categories: event.categories_source === 'ai' ? [] : parseCategories(event.categories),
+      }, taxonomy);
+
+      const categories = JSON.stringify(enrichment.categories);
+      statements.push(
+        saveStmt.bind(
+          event.id, event.content_hash, provider.name, provider.model, categories,
+          enrichment.audience, enrichment.price_hint, enrichment.summary, now, now
+        ),
+        applyStmt.bind(enrichment.summary, enrichment.audience, enrichment.price_hint, categories, categories, event.id),
+      );
+      stats.enriched++;
+    } catch (error) {
+      console.error(`Enrichment failed for ${event.id}:`, error);
+      statements.push(failStmt.bind(event.id, provider.name, provider.model, String(error).slice(0, 1000), now, now));
+      stats.failed++;
+    }
+  }
+
+  await runBatches(DB, statements);
+  return stats;
+}
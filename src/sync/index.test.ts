@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isSourceDue } from './index';
+import { SourceRow } from './sources';
+
+const source: SourceRow = {
+  id: 'test',
+  name: 'Test',
+  url: 'https://example.org/events',
+  type: 'ical',
+  section: 'downtown',
+  sync_interval_minutes: 60,
+  last_sync: '2025-06-01T12:00:00.000Z',
+  last_sync_status: 'success',
+  last_sync_count: 0,
+  is_active: 1,
+  config: null,
+};
+
+test('a source is due exactly one interval after its last run started', () => {
+  assert.equal(isSourceDue(source, new Date('2025-06-01T13:00:00.000Z')), true);
+});
+
+test('a source is not due before its interval has elapsed', () => {
+  assert.equal(isSourceDue(source, new Date('2025-06-01T12:59:59.999Z')), false);
+});
+
+test('inactive sources are never due', () => {
+  assert.equal(isSourceDue({ ...source, is_active: 0, last_sync: null }, new Date('2025-06-01T13:00:00.000Z')), false);
+});
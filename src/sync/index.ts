@@ -0,0 +1,276 @@
+/**
+ * Multi-source event sync for the Worker cron
+ *
+ * Runs the adapter for every active source whose sync interval has elapsed,
+ * writes changed events to D1 and records a sync_runs row per source so sync
+ * health is visible from /api/sources. The raw responses each adapter fetched
+ * are archived to R2 and logged in raw_scrapes.
+ */
+
+import { Bindings } from '../types';
+import { UnifiedEvent } from './types';
+import { SourceAdapter, SourceRow, adapterForSource } from './sources';
+import { writeEvents, cleanupPastEvents, cleanupMissingEvents, SyncStats } from './writer';
+import { dedupeEvents } from './dedupe';
+import { enrichEvents } from './enrich';
+import { seriesEnd } from '../lib/recurrence';
+import { loadVenueIndex } from '../lib/venue-resolver';
+import { loadTaxonomy } from '../lib/categories';
+import { createRecordingFetch, saveRawArchive, logRawScrape, ArchivedResponse } from './archive';
+
+export interface SourceSyncResult {
+  sourceId: string;
+  status: 'success' | 'error';
+  found: number;
+  stats?: SyncStats;
+  error?: string;
+}
+
+/**
+ * Drop past events, sort by start and drop repeated title + date within a source.
+ * Cross-source duplicates are kept and linked to a canonical event by dedupeEvents.
+ */
+export function prepareEvents(events: UnifiedEvent[]): UnifiedEvent[] {
+  // Filter to future events (recurring series: until their last occurrence ends)
+  const now = new Date();
+  const futureEvents = events.filter(e => {
+    if (!e.recurrence) return e.endDateTime > now;
+    const end = seriesEnd(e.startDateTime.toISOString(), e.endDateTime.toISOString(), e.recurrence.rule);
+    return end === null || end > now;
+  });
+
+  // Sort by start date
+  futureEvents.sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+  // Deduplicate by title + date within each source
+  const seen = new Set<string>();
+  return futureEvents.filter(e => {
+    const key = `${e.source}_${e.title.toLowerCase()}_${e.startDateTime.toISOString().split('T')[0]}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+async function startSyncRun(env: Bindings, sourceId: string, startedAt: Date): Promise<number | null> {
+  try {
+    const result = await env.DB.prepare(`
+      INSERT INTO sync_runs (source_id, started_at, status) VALUES (?, ?, 'running')
+    `).bind(sourceId, startedAt.toISOString()).run();
+    return result.meta.last_row_id ?? null;
+  } catch (error) {
+    console.error(`Failed to record sync run for ${sourceId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record a run's outcome. last_sync is the run's start, not its finish, so
+ * the next cron tick one interval later still finds the source due.
+ */
+async function finishSyncRun(env: Bindings, runId: number | null, result: SourceSyncResult, startedAt: Date): Promise<void> {
+  const now = new Date().toISOString();
+  const statements = [
+    env.DB.prepare(`
+      UPDATE sources SET last_sync = ?, last_sync_status = ?, last_sync_count = ?
+      WHERE id = ?
+    `).bind(startedAt.toISOString(), result.status, result.found, result.sourceId),
+  ];
+
+  if (runId !== null) {
+    statements.push(env.DB.prepare(`
+      UPDATE sync_runs SET
+        completed_at = ?, status = ?, events_found = ?,
+        events_inserted = ?, events_updated = ?, events_unchanged = ?,
+        error_message = ?
+      WHERE id = ?
+    `).bind(
+      now,
+      result.status,
+      result.found,
+      result.stats?.inserted ?? 0,
+      result.stats?.updated ?? 0,
+      result.stats?.unchanged ?? 0,
+      result.error ?? null,
+      runId,
+    ));
+  }
+
+  try {
+    await env.DB.batch(statements);
+  } catch (error) {
+    console.error(`Failed to finish sync run for ${result.sourceId}:`, error);
+  }
+}
+
+/**
+ * Store the raw responses behind a fetch in R2 and log a raw_scrapes row.
+ * Archiving failures are logged but never fail the sync itself.
+ */
+async function archiveRawResponses(
+  env: Bindings,
+  sourceId: string,
+  source: SourceRow | undefined,
+  fetchedAt: string,
+  responses: ArchivedResponse[],
+  result: SourceSyncResult
+): Promise<void> {
+  let rawContentUrl: string | null = null;
+
+  if (env.RAW_DATA && responses.length > 0) {
+    try {
+      rawContentUrl = await saveRawArchive(env.RAW_DATA, { sourceId, source, fetchedAt, responses });
+    } catch (error) {
+      console.error(`Failed to archive raw responses for ${sourceId}:`, error);
+    }
+  }
+
+  try {
+    await logRawScrape(env.DB, {
+      sourceId,
+      status: result.status,
+      itemsFound: result.found,
+      rawContentUrl,
+      logMessage: result.error ?? `${responses.length} responses archived`,
+    });
+  } catch (error) {
+    console.error(`Failed to log raw scrape for ${sourceId}:`, error);
+  }
+}
+
+/**
+ * Whether a source is due for another sync at `now`
+ */
+export function isSourceDue(source: SourceRow, now: Date = new Date()): boolean {
+  if (!source.is_active) return false;
+  if (!source.last_sync) return true;
+
+  const lastSync = new Date(source.last_sync).getTime();
+  if (isNaN(lastSync)) return true;
+
+  const intervalMs = (source.sync_interval_minutes ?? 60) * 60 * 1000;
+  return now.getTime() - lastSync >= intervalMs;
+}
+
+/**
+ * Sync every active source whose interval has elapsed
+ */
+export async function runScheduledSync(env: Bindings, now: Date = new Date()): Promise<SourceSyncResult[]> {
+  const sources = await env.DB.prepare(`
+    SELECT * FROM sources WHERE is_active = 1 AND type != 'manual'
+  `).all<SourceRow>();
+
+  const due: { adapter: SourceAdapter; source: SourceRow }[] = [];
+  for (const source of sources.results || []) {
+    if (!isSourceDue(source, now)) continue;
+
+    const adapter = adapterForSource(source);
+    if (!adapter) {
+      console.log(`No adapter registered for source ${source.id} (${source.type}), skipping`);
+      continue;
+    }
+    due.push({ adapter, source });
+  }
+
+  if (due.length === 0) {
+    console.log('No sources due for sync');
+    return [];
+  }
+
+  return runSync(env, due, now);
+}
+
+/**
+ * Sync the given adapters into D1, regardless of their interval.
+ * `startedAt` is the run's start (the cron tick for scheduled runs).
+ */
+export async function runSync(
+  env: Bindings,
+  jobs: { adapter: SourceAdapter; source?: SourceRow }[],
+  startedAt: Date = new Date()
+): Promise<SourceSyncResult[]> {
+  const runIds = new Map<string, number | null>();
+  for (const { adapter } of jobs) {
+    runIds.set(adapter.id, await startSyncRun(env, adapter.id, startedAt));
+  }
+
+  // Fetch everything first so duplicates can be dropped across sources,
+  // recording each adapter's raw responses for the archive
+  const fetchedAt = new Date().toISOString();
+  const recorders = jobs.map(() => createRecordingFetch());
+  const fetched = await Promise.allSettled(
+    jobs.map(({ adapter, source }, i) => adapter.fetch({ http: recorders[i].http, source }))
+  );
+
+  const results: SourceSyncResult[] = [];
+  const ownerOf = new Map<UnifiedEvent, string>();
+
+  fetched.forEach((outcome, i) => {
+    const sourceId = jobs[i].adapter.id;
+    if (outcome.status === 'fulfilled') {
+      outcome.value.forEach(event => ownerOf.set(event, sourceId));
+      results.push({ sourceId, status: 'success', found: outcome.value.length });
+    } else {
+      console.error(`Sync fetch failed for ${sourceId}:`, outcome.reason);
+      results.push({ sourceId, status: 'error', found: 0, error: String(outcome.reason) });
+    }
+  });
+
+  await Promise.all(results.map((result, i) =>
+    archiveRawResponses(env, result.sourceId, jobs[i].source, fetchedAt, recorders[i].responses, result)
+  ));
+
+  const eventsBySource = new Map<string, UnifiedEvent[]>();
+  for (const event of prepareEvents([...ownerOf.keys()])) {
+    const sourceId = ownerOf.get(event)!;
+    const sourceEvents = eventsBySource.get(sourceId) || [];
+    sourceEvents.push(event);
+    eventsBySource.set(sourceId, sourceEvents);
+  }
+
+  const venueIndex = await loadVenueIndex(env.DB);
+  const taxonomy = await loadTaxonomy(env.DB);
+
+  for (const result of results) {
+    if (result.status === 'success') {
+      try {
+        result.stats = await writeEvents(env.DB, eventsBySource.get(result.sourceId) || [], venueIndex, taxonomy);
+        console.log(
+          `Synced ${result.sourceId}: ${result.stats.inserted} new, ${result.stats.updated} updated, ` +
+          `${result.stats.unchanged} unchanged`
+        );
+      } catch (error) {
+        console.error(`Sync write failed for ${result.sourceId}:`, error);
+        result.status = 'error';
+        result.error = String(error);
+      }
+    }
+    await finishSyncRun(env, runIds.get(result.sourceId) ?? null, result, startedAt);
+  }
+
+  const archived = await cleanupPastEvents(env.DB);
+  const cancelled = await cleanupMissingEvents(
+    env.DB,
+    results.filter(r => r.status === 'success').map(r => r.sourceId)
+  );
+  console.log(`Cleanup: ${archived} past events archived, ${cancelled} missing events cancelled`);
+
+  // Link cross-source duplicates once cleanup has settled which events are live
+  try {
+    const dedupe = await dedupeEvents(env.DB);
+    console.log(`Dedupe: ${dedupe.groups} duplicate groups, ${dedupe.linked} linked, ${dedupe.unlinked} unlinked`);
+  } catch (error) {
+    console.error('Dedupe failed:', error);
+  }
+
+  try {
+    const enrichment = await enrichEvents(env);
+    if (enrichment.provider) {
+      console.log(`Enrichment (${enrichment.provider}): ${enrichment.enriched} enriched, ${enrichment.failed} failed, ${enrichment.reapplied} reapplied`);
+    }
+  } catch (error) {
+    console.error('Enrichment failed:', error);
+  }
+
+  return results;
+}
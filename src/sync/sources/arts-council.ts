@@ -0,0 +1,113 @@
+/**
+ * Source: Arts Council of Fayetteville (Wix events scraping)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { decodeHtmlEntities } from '../utils';
+
+const ARTS_COUNCIL_URL = 'https://www.wearethearts.com';
+
+export async function fetchArtsCouncilEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+
+  try {
+    const response = await http(ARTS_COUNCIL_URL, {
+      headers: {
+        'User-Agent': 'FayettevilleCentralCalendar/1.0',
+        'Accept': 'text/html',
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`  HTTP error: ${response.status}`);
+      return results;
+    }
+
+    const html = await response.text();
+
+    // Extract event data from embedded Wix JSON
+    // Pattern: "title":"Event Name","description":"...","mainImage":{...},"slug":"event-slug"
+    const eventJsonPattern = /"title":"([^"]+)","description":"([^"]+)","about":"[^"]*","mainImage":\{[^}]+\},"slug":"([^"]+)"/g;
+
+    // Also extract scheduling data
+    // Pattern: "startDate":"2026-01-23T23:00:00.000Z","endDate":"2026-01-24T02:00:00.000Z"
+    const schedulePattern = /"startDate":"(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z)","endDate":"(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z)"/g;
+
+    // Collect all events with their data
+    const eventData: { title: string; description: string; slug: string }[] = [];
+    let match;
+
+    while ((match = eventJsonPattern.exec(html)) !== null) {
+      const [, title, description, slug] = match;
+
+      // Skip navigation/system items
+      if (title.includes('My ') || title === 'Events' || title === 'Profile') continue;
+
+      eventData.push({
+        title: decodeHtmlEntities(title),
+        description: decodeHtmlEntities(description),
+        slug,
+      });
+    }
+
+    // Collect scheduling data (ISO dates)
+    const schedules: { startDate: Date; endDate: Date }[] = [];
+    while ((match = schedulePattern.exec(html)) !== null) {
+      const [, startDate, endDate] = match;
+      schedules.push({
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+      });
+    }
+
+    // Match events with schedules (they appear in same order on the page)
+    // Filter to only unique events (some may appear duplicated)
+    const seenSlugs = new Set<string>();
+
+    for (let i = 0; i < Math.min(eventData.length, schedules.length); i++) {
+      const event = eventData[i];
+      const schedule = schedules[i];
+
+      // Skip duplicates and past events
+      if (seenSlugs.has(event.slug)) continue;
+      if (schedule.endDate < now) continue;
+
+      seenSlugs.add(event.slug);
+
+      // Extract image URL
+      const imgPattern = new RegExp(`"slug":"${event.slug.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, '\\$&')}"[^}]*"mainImage":\\{[^}]*"url":"([^"]+)"`, 'i');
+      const imgMatch = html.match(imgPattern);
+      let imageUrl: string | undefined;
+      if (imgMatch) {
+        imageUrl = imgMatch[1].replace(/\\\//g, '/');
+      }
+
+      results.push({
+        id: `arts_council_${event.slug}`,
+        source: 'arts_council',
+        sourceId: event.slug,
+        title: event.title,
+        description: event.description,
+        startDateTime: schedule.startDate,
+        endDateTime: schedule.endDate,
+        venue: {
+          name: 'The Arts Center',
+          address: '301 Hay St',
+          city: 'Fayetteville',
+          state: 'NC',
+          zip: '28301',
+        },
+        categories: ['Arts & Culture', 'Gallery'],
+        url: `${ARTS_COUNCIL_URL}/event-details-registration/${event.slug}`,
+        imageUrl,
+        lastModified: new Date(),
+        section: 'downtown',
+      });
+    }
+  } catch (error) {
+    console.error('  Error fetching Arts Council events:', error);
+  }
+
+  return results;
+}
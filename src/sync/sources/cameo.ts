@@ -0,0 +1,268 @@
+/**
+ * Source: Cameo Art House Theatre (now showing + special events)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { slugify } from '../utils';
+import { TIMEZONE, fromWallTime, toWallTime } from '../../lib/timezone';
+
+// Cameo Art House Theatre URLs
+const CAMEO_NOW_SHOWING_URL = 'https://www.cameoarthouse.com/now-showing/';
+const CAMEO_SPECIAL_EVENTS_URL = 'https://www.cameoarthouse.com/special-events/';
+
+// Cameo Art House venue
+const CAMEO_VENUE: UnifiedEvent['venue'] = {
+  name: 'Cameo Art House Theatre',
+  address: '225 Hay Street',
+  city: 'Fayetteville',
+  state: 'NC',
+  zip: '28301',
+  phone: '910-486-6633',
+};
+
+/**
+ * Parse a showtime string like "Tuesday, December 30: 4:15 & 7:30"
+ * Returns array of Date objects for each showtime
+ */
+function parseCameoShowtimes(showtimeText: string, currentYear: number): Date[] {
+  const results: Date[] = [];
+
+  // Match pattern: "Day, Month Date: Time(s)"
+  const dayMatch = showtimeText.match(/^(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday),\s+(\w+)\s+(\d{1,2}):\s*(.+)$/i);
+  if (!dayMatch) return results;
+
+  const [, , month, day, timesStr] = dayMatch;
+
+  // Parse month
+  const monthNames: Record<string, number> = {
+    january: 0, february: 1, march: 2, april: 3, may: 4, june: 5,
+    july: 6, august: 7, september: 8, october: 9, november: 10, december: 11,
+  };
+  const monthIndex = monthNames[month.toLowerCase()];
+  if (monthIndex === undefined) return results;
+
+  // Determine year - showtimes are typically for current or next few months
+  // If the month is significantly before current month (more than 1 month ago), assume next year
+  const now = new Date();
+  let year = currentYear;
+  const monthDiff = monthIndex - (toWallTime(now, TIMEZONE).month - 1);
+
+  // If month is more than 1 month in the past, it's probably next year
+  // (allows for late-month scheduling of early-month events)
+  if (monthDiff < -1) {
+    year = currentYear + 1;
+  }
+
+  // Parse times (can be "4:15 & 7:30" or "1:00, 4:15 & 7:30" or "1:00PM")
+  const timePattern = /(\d{1,2}):?(\d{2})?\s*(AM|PM)?/gi;
+  let timeMatch;
+
+  while ((timeMatch = timePattern.exec(timesStr)) !== null) {
+    let hours = parseInt(timeMatch[1]);
+    const minutes = parseInt(timeMatch[2] || '0');
+    const period = timeMatch[3]?.toUpperCase();
+
+    // If no AM/PM specified, infer from hour (movie theaters rarely show before noon)
+    if (!period) {
+      // Times like 1:00, 1:30 are likely PM (1 PM), times like 4:00+ are definitely PM
+      if (hours < 12) {
+        hours += 12; // Assume PM for movie showtimes
+      }
+    } else if (period === 'PM' && hours !== 12) {
+      hours += 12;
+    } else if (period === 'AM' && hours === 12) {
+      hours = 0;
+    }
+
+    const showDate = fromWallTime({ year, month: monthIndex + 1, day: parseInt(day), hour: hours, minute: minutes, second: 0 }, TIMEZONE);
+    if (showDate > now) {
+      results.push(showDate);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Parse movie block from Cameo HTML
+ */
+function parseCameoMovieBlock(block: string, currentYear: number): {
+  title: string;
+  description: string;
+  rating: string;
+  runtime: string;
+  director: string;
+  showtimes: Date[];
+  imageUrl?: string;
+  ticketUrl?: string;
+} | null {
+  // Extract title from <strong>TITLE</strong>
+  const titleMatch = block.match(/<p><strong>([^<]+)<\/strong><\/p>/);
+  if (!titleMatch) return null;
+
+  let title = titleMatch[1].trim();
+  // Clean up title (remove date suffixes like "- JANUARY 11TH")
+  title = title.replace(/\s*[-–]\s*(JANUARY|FEBRUARY|MARCH|APRIL|MAY|JUNE|JULY|AUGUST|SEPTEMBER|OCTOBER|NOVEMBER|DECEMBER)\s+\d{1,2}(ST|ND|RD|TH)?/i, '');
+
+  // Extract showtimes
+  const showtimeSection = block.match(/UPCOMING SHOWTIMES:<\/div>\s*<div>\s*<p>([\s\S]*?)<\/p>\s*<\/div>/i);
+  const showtimes: Date[] = [];
+
+  if (showtimeSection) {
+    const showtimeLines = showtimeSection[1].split(/<br\s*\/?>/i);
+    for (const line of showtimeLines) {
+      // Remove HTML tags and decode HTML entities
+      let cleanLine = line.replace(/<[^>]*>/g, '').trim();
+      cleanLine = cleanLine.replace(/&amp;/g, '&').replace(/&nbsp;/g, ' ');
+      if (cleanLine) {
+        showtimes.push(...parseCameoShowtimes(cleanLine, currentYear));
+      }
+    }
+  }
+
+  // Extract description (paragraph after showtimes, before director)
+  const descMatch = block.match(/<\/div>\s*<p>([^<]+(?:(?!Directed By:).)*?)<\/p>\s*<p>Directed By:/i);
+  const description = descMatch ? descMatch[1].trim() : '';
+
+  // Extract rating and runtime
+  const ratingMatch = block.match(/Rated\s+(\w+);\s*Runtime\s+([\dhr\s]+min)/i);
+  const rating = ratingMatch ? ratingMatch[1] : 'NR';
+  const runtime = ratingMatch ? ratingMatch[2] : '';
+
+  // Extract director
+  const directorMatch = block.match(/Directed By:\s*([^<]+)/i);
+  const director = directorMatch ? directorMatch[1].trim() : '';
+
+  // Extract image URL
+  const imageMatch = block.match(/src="(https:\/\/www\.cameoarthouse\.com\/wordpress\/wp-content\/uploads\/[^"]+)"/);
+  const imageUrl = imageMatch ? imageMatch[1] : undefined;
+
+  // Extract ticket URL
+  const ticketMatch = block.match(/href="(https:\/\/ticketmesandhills\.com\/events\/[^"]+)"/);
+  const ticketUrl = ticketMatch ? ticketMatch[1] : undefined;
+
+  if (showtimes.length === 0) return null;
+
+  return { title, description, rating, runtime, director, showtimes, imageUrl, ticketUrl };
+}
+
+export async function fetchCameoEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+  const currentYear = toWallTime(now, TIMEZONE).year;
+
+  // Fetch both pages in parallel
+  const [nowShowingRes, specialEventsRes] = await Promise.all([
+    http(CAMEO_NOW_SHOWING_URL, {
+      headers: { 'User-Agent': 'FayettevilleCentralCalendar/1.0', 'Accept': 'text/html' },
+    }),
+    http(CAMEO_SPECIAL_EVENTS_URL, {
+      headers: { 'User-Agent': 'FayettevilleCentralCalendar/1.0', 'Accept': 'text/html' },
+    }),
+  ]);
+
+  // Process Now Showing page
+  if (nowShowingRes.ok) {
+    const html = await nowShowingRes.text();
+
+    // Split by movie blocks (each movie is in a panel-grid-cell)
+    const movieBlocks = html.split(/class="panel-grid-cell"/);
+
+    for (const block of movieBlocks) {
+      const movie = parseCameoMovieBlock(block, currentYear);
+      if (!movie) continue;
+
+      // Create an event for each showtime
+      for (const showtime of movie.showtimes) {
+        // Calculate end time based on runtime
+        const runtimeMatch = movie.runtime.match(/(\d+)hr\s*(\d+)?min/i);
+        let durationMinutes = 120; // Default 2 hours
+        if (runtimeMatch) {
+          durationMinutes = parseInt(runtimeMatch[1]) * 60 + (parseInt(runtimeMatch[2] || '0'));
+        }
+        const endTime = new Date(showtime.getTime() + durationMinutes * 60 * 1000);
+
+        const dateStr = showtime.toISOString().split('T')[0];
+        const timeStr = showtime.toTimeString().slice(0, 5).replace(':', '');
+
+        results.push({
+          id: `cameo_${slugify(movie.title)}_${dateStr}_${timeStr}`,
+          source: 'cameo_art_house',
+          sourceId: `${slugify(movie.title)}_${dateStr}_${timeStr}`,
+          title: movie.title,
+          description: `${movie.description} Directed by ${movie.director}. Rated ${movie.rating}, ${movie.runtime}.`,
+          startDateTime: showtime,
+          endDateTime: endTime,
+          venue: CAMEO_VENUE,
+          categories: ['Film', 'Movies', 'Arts & Culture'],
+          url: CAMEO_NOW_SHOWING_URL,
+          ticketUrl: movie.ticketUrl,
+          imageUrl: movie.imageUrl,
+          lastModified: new Date(),
+          section: 'downtown',
+        });
+      }
+    }
+  }
+
+  // Process Special Events page
+  if (specialEventsRes.ok) {
+    const html = await specialEventsRes.text();
+
+    // Split by event blocks
+    const eventBlocks = html.split(/class="panel-grid-cell"/);
+
+    for (const block of eventBlocks) {
+      const event = parseCameoMovieBlock(block, currentYear);
+      if (!event) continue;
+
+      // Special events typically have single showtimes
+      for (const showtime of event.showtimes) {
+        const runtimeMatch = event.runtime.match(/(\d+)hr\s*(\d+)?min/i);
+        let durationMinutes = 120;
+        if (runtimeMatch) {
+          durationMinutes = parseInt(runtimeMatch[1]) * 60 + (parseInt(runtimeMatch[2] || '0'));
+        }
+        const endTime = new Date(showtime.getTime() + durationMinutes * 60 * 1000);
+
+        const dateStr = showtime.toISOString().split('T')[0];
+        const timeStr = showtime.toTimeString().slice(0, 5).replace(':', '');
+
+        // Determine category based on title/content
+        let categories = ['Film', 'Special Screening'];
+        if (event.title.match(/\(\d{4}\)/)) {
+          categories.push('Classic Film');
+        }
+        if (event.description.toLowerCase().includes('documentary')) {
+          categories = ['Documentary', 'Special Screening'];
+        }
+        if (event.title.toLowerCase().includes('holocaust') || event.description.toLowerCase().includes('holocaust')) {
+          categories.push('Educational');
+        }
+
+        results.push({
+          id: `cameo_special_${slugify(event.title)}_${dateStr}_${timeStr}`,
+          source: 'cameo_art_house',
+          sourceId: `special_${slugify(event.title)}_${dateStr}_${timeStr}`,
+          title: `Cameo Special: ${event.title}`,
+          description: `${event.description} ${event.director ? `Directed by ${event.director}.` : ''} Rated ${event.rating}, ${event.runtime}.`,
+          startDateTime: showtime,
+          endDateTime: endTime,
+          venue: CAMEO_VENUE,
+          categories,
+          url: CAMEO_SPECIAL_EVENTS_URL,
+          ticketUrl: event.ticketUrl,
+          imageUrl: event.imageUrl,
+          lastModified: new Date(),
+          section: 'downtown',
+        });
+      }
+    }
+  }
+
+  // Deduplicate by ID
+  const unique = Array.from(new Map(results.map(e => [e.id, e])).values());
+  unique.sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+  return unique;
+}
@@ -0,0 +1,91 @@
+/**
+ * Per-source settings for generic adapters
+ *
+ * Sources read by a generic adapter (types 'ical' and 'jsonld') have no code
+ * of their own; sources.config (JSON) fills in what their feed or markup
+ * leaves out. Every key is optional:
+ *
+ *   {
+ *     "categories": ["Community"],          // Categories for the source's events...
+ *     "categories_mode": "default",         // ...when they have none ('default'), always added ('add'), or instead of theirs ('replace')
+ *     "timezone": "America/New_York",       // For times without an offset
+ *     "venue": { "name": "...", "address": "..." },  // For events without a location
+ *     "link": "https://example.org/events"  // For events without their own URL
+ *   }
+ *
+ * The section is the sources row's own. Adapter-specific keys are listed in
+ * each adapter.
+ */
+
+import { UnifiedEvent, EventSection } from '../types';
+import type { SourceRow } from './index';
+import { TIMEZONE, isValidTimeZone } from '../../lib/timezone';
+
+export type CategoriesMode = 'default' | 'add' | 'replace';
+
+export interface SourceConfig {
+  categories?: string[];
+  categories_mode?: CategoriesMode;
+  timezone?: string;
+  venue?: {
+    name: string;
+    address?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+  };
+  link?: string;
+  // jsonld: follow links matching this pattern and read their markup too
+  follow?: string;
+  max_pages?: number;
+}
+
+const SECTIONS: EventSection[] = ['downtown', 'fort_bragg', 'crown'];
+
+/**
+ * sources.config as an object; invalid JSON is logged and ignored
+ */
+export function parseSourceConfig(source: SourceRow): SourceConfig {
+  if (!source.config) return {};
+  try {
+    const config = JSON.parse(source.config);
+    return config && typeof config === 'object' && !Array.isArray(config) ? config : {};
+  } catch {
+    console.error(`  Invalid config JSON for source ${source.id}, ignoring`);
+    return {};
+  }
+}
+
+export function sourceSection(source: SourceRow): EventSection {
+  return SECTIONS.includes(source.section as EventSection) ? source.section as EventSection : 'downtown';
+}
+
+/**
+ * Zone for times without an offset: the config's, then `fallback` (e.g. a
+ * feed's own), then Fayetteville
+ */
+export function sourceTimeZone(config: SourceConfig, fallback?: string | null): string {
+  for (const zone of [config.timezone, fallback]) {
+    if (zone && isValidTimeZone(zone)) return zone;
+  }
+  return TIMEZONE;
+}
+
+/**
+ * An event's own categories combined with the configured ones
+ */
+export function applyCategories(own: string[], config: SourceConfig): string[] {
+  const configured = Array.isArray(config.categories) ? config.categories : [];
+  switch (config.categories_mode) {
+    case 'replace':
+      return configured;
+    case 'add':
+      return [...new Set([...own, ...configured])];
+    default:
+      return own.length > 0 ? own : configured;
+  }
+}
+
+export function configVenue(config: SourceConfig): UnifiedEvent['venue'] {
+  return config.venue?.name ? { city: 'Fayetteville', state: 'NC', ...config.venue } : null;
+}
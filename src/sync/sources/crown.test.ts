@@ -0,0 +1,35 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchCrownComplexEvents } from './crown';
+
+const page = 'Knoxville at Fayetteville Jan. 9 Crown Coliseum Buy Tickets Fayetteville Fishing Expo Jan. 30 - Feb. 1 Crown Expo Buy Tickets';
+
+const researchTools = async () => Response.json({ success: true, data: { url: '', content: { text: page, word_count: 0 } } });
+
+test('dates are Fayetteville midnight, rolled into next year once past', async () => {
+  mock.timers.enable({ apis: ['Date'], now: new Date('2025-12-01T12:00:00Z') });
+  try {
+    const events = await fetchCrownComplexEvents(researchTools);
+    const game = events.find(e => e.title === 'Knoxville at Fayetteville');
+    const expo = events.find(e => e.title === 'Fayetteville Fishing Expo');
+
+    // Midnight EST
+    assert.equal(game?.startDateTime.toISOString(), '2026-01-09T05:00:00.000Z');
+    assert.equal(expo?.startDateTime.toISOString(), '2026-01-30T05:00:00.000Z');
+    assert.equal(expo?.endDateTime?.toISOString(), '2026-02-01T05:00:00.000Z');
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('dates still ahead this year stay in this year', async () => {
+  // 8 PM on January 8 in Fayetteville is already January 9 in UTC
+  mock.timers.enable({ apis: ['Date'], now: new Date('2026-01-09T01:00:00Z') });
+  try {
+    const events = await fetchCrownComplexEvents(researchTools);
+    const game = events.find(e => e.title === 'Knoxville at Fayetteville');
+    assert.equal(game?.startDateTime.toISOString(), '2026-01-09T05:00:00.000Z');
+  } finally {
+    mock.timers.reset();
+  }
+});
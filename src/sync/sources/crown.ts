@@ -0,0 +1,141 @@
+/**
+ * Source: Crown Complex (scraped via ResearchTools, page is client-side rendered)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { slugify, fetchWithResearchTools } from '../utils';
+import { TIMEZONE, fromWallTime, toWallTime } from '../../lib/timezone';
+
+const CROWN_COMPLEX_URL = 'https://www.crowncomplexnc.com/events/all';
+
+export async function fetchCrownComplexEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  // Use ResearchTools API since the page is client-side rendered
+  const scraped = await fetchWithResearchTools(CROWN_COMPLEX_URL, http);
+  if (!scraped || !scraped.content?.text) {
+    console.error('  Failed to fetch Crown Complex page');
+    return [];
+  }
+
+  const text = scraped.content.text;
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+  const currentYear = toWallTime(now, TIMEZONE).year;
+
+  // Parse events from plain text format:
+  // "Event Title Month. Day Crown Venue Buy Tickets"
+  // "Event Title Month. Start - Month. End Crown Venue Buy Tickets"
+  // Examples:
+  // Knoxville at Fayetteville Jan. 9 Crown Coliseum Buy Tickets
+  // Fayetteville Fishing Expo Jan. 30 - Feb. 1 Crown Expo Buy Tickets
+  // Whose Live Anyway? Feb. 1 Crown Theatre Buy Tickets
+  
+  // Match: Title + Month. Day[-Day] + Crown Venue + Buy Tickets
+  // Format: "Event Name Jan. 9 Crown Coliseum Buy Tickets"
+  const eventRegex = /([A-Z][A-Za-z0-9 \.?&'-]+?)\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\.\s+(\d{1,2})(?:\s*[-–]\s*(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\.\s+(\d{1,2}))?\s+(Crown\s+(?:Coliseum|Theatre|Expo))\s+Buy\s+Tickets/gi;
+
+  const monthMap: Record<string, number> = {
+    jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+    jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+  };
+
+  let match;
+  const seenIds = new Set<string>();
+
+  while ((match = eventRegex.exec(text)) !== null) {
+    let title = match[1].trim();
+    
+    // Clean up title - remove "Buy Tickets" if still there
+    title = title.replace(/Buy\s+Tickets.*$/i, '').trim();
+    
+    // Filter out junk: titles that are too long or contain navigation keywords
+    if (!title || title.length < 3 || title.length > 80) continue;
+    if (/home|events|calendar|tickets?|office|contact|policy|faq|accessibility|streaming|parking|directions|about|information|lost.*found|group|benefits|seating|charts|vendor/i.test(title)) continue;
+
+    const startMonth = monthMap[match[2].toLowerCase()];
+    const startDay = parseInt(match[3]);
+    const endMonthStr = match[4];
+    const endDayStr = match[5];
+    const venueName = match[6].trim();
+
+    // Handle date ranges
+    const endMonth = endMonthStr && endDayStr ? monthMap[endMonthStr.toLowerCase()] : startMonth;
+    const endDay = endMonthStr && endDayStr ? parseInt(endDayStr) : startDay;
+
+    // Local midnight of a day in the given year
+    const localDay = (year: number, month: number, day: number) =>
+      fromWallTime({ year, month: month + 1, day, hour: 0, minute: 0, second: 0 }, TIMEZONE);
+
+    // Adjust year if date is in the past
+    const year = localDay(currentYear, endMonth, endDay) < now ? currentYear + 1 : currentYear;
+    const startDate = localDay(year, startMonth, startDay);
+    const endDate = localDay(year, endMonth, endDay);
+
+    // Venue mapping
+    const venueInfo: Record<string, UnifiedEvent['venue']> = {
+      'crown coliseum': {
+        name: 'Crown Coliseum',
+        address: '1960 Coliseum Drive',
+        city: 'Fayetteville',
+        state: 'NC',
+        zip: '28306',
+      },
+      'crown theatre': {
+        name: 'Crown Theatre',
+        address: '1960 Coliseum Drive',
+        city: 'Fayetteville',
+        state: 'NC',
+        zip: '28306',
+      },
+      'crown expo': {
+        name: 'Crown Expo',
+        address: '1960 Coliseum Drive',
+        city: 'Fayetteville',
+        state: 'NC',
+        zip: '28306',
+      },
+    };
+
+    const venue = venueInfo[venueName.toLowerCase()] || {
+      name: venueName,
+      city: 'Fayetteville',
+      state: 'NC',
+    };
+
+    // Infer categories from title
+    let categories: string[] = [];
+    if (title.toLowerCase().includes('fishing') || title.toLowerCase().includes('expo')) {
+      categories.push('Expos & Trade Shows');
+    } else if (title.toLowerCase().includes('hockey') || /\s(at|vs|v)\s/i.test(title)) {
+      categories.push('Sports');
+    } else if (title.toLowerCase().includes('concert') || title.toLowerCase().includes('live') || title.toLowerCase().includes('anyway')) {
+      categories.push('Performing Arts');
+    } else {
+      categories.push('Events');
+    }
+
+    const eventId = slugify(title).substring(0, 40);
+    const eventDate = startDate.toISOString().split('T')[0];
+    const uniqueId = `crown_${eventDate}_${eventId}`;
+
+    // Avoid duplicates
+    if (seenIds.has(uniqueId)) continue;
+    seenIds.add(uniqueId);
+
+    results.push({
+      id: uniqueId,
+      source: 'crown_complex',
+      sourceId: eventId,
+      title,
+      description: '',
+      startDateTime: startDate,
+      endDateTime: endDate,
+      venue,
+      categories,
+      url: CROWN_COMPLEX_URL,
+      lastModified: new Date(),
+      section: 'crown',
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,287 @@
+/**
+ * Source: Distinctly Fayetteville (RSS feed + event page enrichment)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { decodeHtmlEntities, extractXmlTag } from '../utils';
+import { TIMEZONE, fromWallTime, toWallTime } from '../../lib/timezone';
+
+const DISTINCTLY_RSS = 'https://www.distinctlyfayettevillenc.com/event/rss/';
+
+interface DistinctlyEventData {
+  recid: string;
+  title: string;
+  description: string;
+  latitude?: number;
+  longitude?: number;
+  location?: string;  // Venue name
+  hostname?: string;
+  categories?: Array<{ catName: string; catId: string }>;
+  media_raw?: Array<{ mediaurl: string; mediatype: string }>;
+  phone?: string;
+  email?: string;
+  linkUrl?: string;
+  admission?: string;
+  expired?: boolean;
+  past?: boolean;
+  host?: {
+    address1?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    company?: string;
+  };
+}
+
+/**
+ * Parse date string like "Wednesday, December 31, 2025 9:00 PM"
+ */
+function parseDistinctlyDate(dateStr: string): Date | null {
+  if (!dateStr) return null;
+
+  // Format: "Weekday, Month DD, YYYY H:MM AM/PM", local time
+  const match = dateStr.match(/(\w+),\s+(\w+)\s+(\d{1,2}),\s+(\d{4})\s+(\d{1,2}):(\d{2})\s+(AM|PM)/i);
+  if (match) {
+    const [, , monthName, day, year, hour, minute, ampm] = match;
+    const months: Record<string, number> = {
+      'january': 0, 'february': 1, 'march': 2, 'april': 3, 'may': 4, 'june': 5,
+      'july': 6, 'august': 7, 'september': 8, 'october': 9, 'november': 10, 'december': 11
+    };
+    const month = months[monthName.toLowerCase()];
+    if (month !== undefined) {
+      let h = parseInt(hour);
+      if (ampm.toUpperCase() === 'PM' && h !== 12) h += 12;
+      if (ampm.toUpperCase() === 'AM' && h === 12) h = 0;
+      return fromWallTime({
+        year: parseInt(year), month: month + 1, day: parseInt(day), hour: h, minute: parseInt(minute), second: 0,
+      }, TIMEZONE);
+    }
+  }
+
+  // Anything else only if it carries its own offset; the built-in parser
+  // would read a bare time as UTC
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(dateStr.trim())) {
+    const parsed = new Date(dateStr);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+
+  return null;
+}
+
+/**
+ * Fetch detailed event data from Distinctly Fayetteville event page
+ */
+async function fetchDistinctlyEventDetails(eventUrl: string, http: HttpFetch): Promise<{
+  data: DistinctlyEventData | null;
+  startDate: string | null;
+  endDate: string | null;
+  ogImage: string | null;
+  streetAddress: string | null;
+}> {
+  try {
+    const response = await http(eventUrl, {
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; EventBot/1.0)' }
+    });
+
+    if (!response.ok) {
+      return { data: null, startDate: null, endDate: null, ogImage: null, streetAddress: null };
+    }
+
+    const html = await response.text();
+
+    // Extract og:image for high-res image
+    const ogImageMatch = html.match(/<meta\s+property="og:image"\s+content="([^"]+)"/);
+    const ogImage = ogImageMatch?.[1] || null;
+
+    // Extract embedded JSON data: var data = {...}
+    // The JSON is on one line ending with }; then other vars follow
+    const dataMatch = html.match(/var\s+data\s*=\s*(\{[^\n]+\});/);
+    let data: DistinctlyEventData | null = null;
+
+    if (dataMatch) {
+      try {
+        // Clean up the JSON - handle HTML entities in strings
+        let jsonStr = dataMatch[1]
+          .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+          .replace(/&amp;/g, '&')
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&quot;/g, '"');
+        data = JSON.parse(jsonStr);
+      } catch (e) {
+        // Try field-by-field extraction as fallback
+        const recidMatch = html.match(/"recid"\s*:\s*"(\d+)"/);
+        const locationMatch = html.match(/"location"\s*:\s*"([^"]*)"/);
+        const titleMatch = html.match(/var\s+data\s*=\s*\{[^}]*"title"\s*:\s*"([^"]*)"/);
+        const descMatch = html.match(/"description"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+        const latMatch = html.match(/"latitude"\s*:\s*([\d.-]+)/);
+        const lngMatch = html.match(/"longitude"\s*:\s*([\d.-]+)/);
+
+        if (recidMatch && titleMatch) {
+          data = {
+            recid: recidMatch[1],
+            location: locationMatch?.[1] || '',
+            title: titleMatch[1],
+            description: descMatch?.[1]?.replace(/\\r\\n/g, '\n').replace(/\\"/g, '"') || '',
+            latitude: latMatch ? parseFloat(latMatch[1]) : undefined,
+            longitude: lngMatch ? parseFloat(lngMatch[1]) : undefined,
+          };
+        }
+      }
+    }
+
+    // Extract startDate and endDate
+    const startDateMatch = html.match(/var\s+startDate\s*=\s*"([^"]+)"/);
+    const endDateMatch = html.match(/var\s+endDate\s*=\s*"([^"]+)"/);
+    const streetAddressMatch = html.match(/var\s+streetAddress\s*=\s*"([^"]*)"/);
+
+    return {
+      data,
+      startDate: startDateMatch?.[1] || null,
+      endDate: endDateMatch?.[1] || null,
+      ogImage,
+      streetAddress: streetAddressMatch?.[1] || null
+    };
+  } catch (error) {
+    return { data: null, startDate: null, endDate: null, ogImage: null, streetAddress: null };
+  }
+}
+
+export async function fetchDistinctlyEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  // Step 1: Get event URLs from RSS feed
+  const response = await http(DISTINCTLY_RSS);
+  const xml = await response.text();
+
+  const items = xml.match(/<item>[\s\S]*?<\/item>/g) || [];
+  const eventUrls: Array<{ url: string; pubDate: string; rssCategories: string[] }> = [];
+
+  for (const item of items) {
+    const link = extractXmlTag(item, 'link');
+    const pubDate = extractXmlTag(item, 'pubDate') || '';
+
+    // Extract categories from RSS as fallback
+    const categoryMatches = item.match(/<category><!\[CDATA\[\s*([^\]]+)\s*\]\]><\/category>/g) || [];
+    const rssCategories = categoryMatches.map(c =>
+      c.replace(/<category><!\[CDATA\[\s*/, '').replace(/\s*\]\]><\/category>/, '').replace(/&amp;/g, '&').trim()
+    );
+
+    if (link) {
+      eventUrls.push({ url: link, pubDate, rssCategories });
+    }
+  }
+
+  // Step 2: Fetch detailed data for each event (with rate limiting)
+  const results: UnifiedEvent[] = [];
+  const BATCH_SIZE = 5;
+  const DELAY_MS = 200;
+
+  for (let i = 0; i < eventUrls.length; i += BATCH_SIZE) {
+    const batch = eventUrls.slice(i, i + BATCH_SIZE);
+
+    const batchResults = await Promise.all(
+      batch.map(async ({ url, pubDate, rssCategories }) => {
+        const details = await fetchDistinctlyEventDetails(url, http);
+
+        // Extract ID from URL
+        const idMatch = url.match(/\/(\d+)\/?$/);
+        const sourceId = details.data?.recid || idMatch?.[1] || String(Date.now());
+
+        // Parse dates
+        let startDateTime = parseDistinctlyDate(details.startDate || '');
+        let endDateTime = parseDistinctlyDate(details.endDate || '');
+
+        // Fallback to noon if no time info
+        if (!startDateTime) {
+          startDateTime = fromWallTime({ ...toWallTime(new Date(), TIMEZONE), hour: 12, minute: 0, second: 0 }, TIMEZONE);
+        }
+        if (!endDateTime) {
+          endDateTime = fromWallTime({ ...toWallTime(startDateTime, TIMEZONE), hour: 23, minute: 59, second: 0 }, TIMEZONE);
+        }
+
+        // Handle overnight events (end time before start time means next day)
+        // e.g., NYE event 7:30 PM - 12:30 AM should end on Jan 1
+        if (endDateTime <= startDateTime) {
+          const endWall = toWallTime(endDateTime, TIMEZONE);
+          endDateTime = fromWallTime({ ...endWall, day: endWall.day + 1 }, TIMEZONE);
+        }
+
+        // Get image - prefer og:image (high res), then media_raw
+        let imageUrl = details.ogImage;
+        if (!imageUrl && details.data?.media_raw?.[0]?.mediaurl) {
+          imageUrl = details.data.media_raw[0].mediaurl;
+        }
+
+        // Get categories - prefer API data, fallback to RSS
+        let categories = rssCategories;
+        if (details.data?.categories?.length) {
+          categories = details.data.categories.map(c => c.catName);
+        }
+
+        // Get venue info
+        const venueName = details.data?.location || details.data?.hostname || 'Fayetteville';
+        const host = details.data?.host;
+
+        // Build description
+        let description = '';
+        if (details.data?.description) {
+          // Strip HTML tags and decode entities
+          description = details.data.description
+            .replace(/<[^>]*>/g, ' ')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+            .replace(/\s+/g, ' ')
+            .trim();
+        }
+
+        // Add venue and admission info to description
+        if (details.data?.admission && details.data.admission !== 'Free') {
+          description = `Admission: ${details.data.admission}. ${description}`;
+        }
+
+        const title = decodeHtmlEntities(details.data?.title || '');
+
+        return {
+          id: `distinctly_${sourceId}`,
+          source: 'distinctly_fayetteville',
+          sourceId,
+          title,
+          description: description || `Event at ${venueName} in Fayetteville`,
+          startDateTime,
+          endDateTime,
+          venue: {
+            name: venueName,
+            address: details.streetAddress || host?.address1,
+            city: host?.city || 'Fayetteville',
+            state: host?.state || 'NC',
+            zip: host?.zip,
+            latitude: details.data?.latitude,
+            longitude: details.data?.longitude,
+          },
+          categories,
+          url,
+          ticketUrl: details.data?.linkUrl || undefined,
+          imageUrl,
+          lastModified: pubDate ? new Date(pubDate) : new Date(),
+          section: 'downtown',
+        } as UnifiedEvent;
+      })
+    );
+
+    results.push(...batchResults.filter(e => e.title));
+
+    // Rate limiting delay between batches
+    if (i + BATCH_SIZE < eventUrls.length) {
+      await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+    }
+  }
+
+  // Filter out past/expired events (keep events that ended within the last 12 hours for overnight sync)
+  const now = new Date();
+  const twelveHoursAgo = new Date(now.getTime() - 12 * 60 * 60 * 1000);
+  const futureEvents = results.filter(e => e.endDateTime > twelveHoursAgo);
+
+  return futureEvents;
+}
@@ -0,0 +1,20 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchDogwoodEvents } from './dogwood';
+
+test('festival dates are Fayetteville midnight', async () => {
+  mock.timers.enable({ apis: ['Date'], now: new Date('2026-01-01T12:00:00Z') });
+  try {
+    const html = '<p>April 24 - 26, 2026: Dogwood Festival</p><p>October 16, 2026: Fall Fest</p>';
+    const events = await fetchDogwoodEvents(async () => new Response(html));
+    const festival = events.find(e => e.title === 'Dogwood Festival');
+    const fall = events.find(e => e.title === 'Fall Fest');
+
+    // Midnight EDT
+    assert.equal(festival?.startDateTime.toISOString(), '2026-04-24T04:00:00.000Z');
+    assert.equal(festival?.endDateTime?.toISOString(), '2026-04-26T04:00:00.000Z');
+    assert.equal(fall?.startDateTime.toISOString(), '2026-10-16T04:00:00.000Z');
+  } finally {
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,81 @@
+/**
+ * Source: Dogwood Festival (web scraping)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { parseMonthDate, slugify } from '../utils';
+
+const DOGWOOD_URL = 'https://www.thedogwoodfestival.com/2025-2026-events';
+
+export async function fetchDogwoodEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const response = await http(DOGWOOD_URL);
+  const html = await response.text();
+
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+
+  // Pattern: "Month DD, YYYY: Event Name"
+  const singleRegex = /([A-Z][a-z]+)\s+(\d{1,2}),?\s+(\d{4}):\s*([^\n<●]+)/g;
+  let match;
+
+  while ((match = singleRegex.exec(html)) !== null) {
+    const [, month, day, year, title] = match;
+    const date = parseMonthDate(month, day, year);
+
+    if (date && date > now) {
+      results.push({
+        id: `dogwood_${date.toISOString().split('T')[0]}_${slugify(title)}`,
+        source: 'dogwood_festival',
+        sourceId: slugify(title),
+        title: title.trim(),
+        description: '',
+        startDateTime: date,
+        endDateTime: date,
+        venue: {
+          name: 'Fayetteville',
+          city: 'Fayetteville',
+          state: 'NC',
+        },
+        categories: ['Festivals & Fairs', 'Community'],
+        url: DOGWOOD_URL,
+        lastModified: new Date(),
+        section: 'downtown',
+      });
+    }
+  }
+
+  // Pattern: "Month DD - DD, YYYY: Event Name" (date ranges)
+  const rangeRegex = /([A-Z][a-z]+)\s+(\d{1,2})\s*[-–]\s*(\d{1,2}),?\s+(\d{4}):\s*([^\n<●]+)/g;
+
+  while ((match = rangeRegex.exec(html)) !== null) {
+    const [, month, startDay, endDay, year, title] = match;
+    const startDate = parseMonthDate(month, startDay, year);
+    const endDate = parseMonthDate(month, endDay, year);
+
+    if (startDate && endDate && endDate > now) {
+      results.push({
+        id: `dogwood_${startDate.toISOString().split('T')[0]}_${slugify(title)}`,
+        source: 'dogwood_festival',
+        sourceId: slugify(title),
+        title: title.trim(),
+        description: '',
+        startDateTime: startDate,
+        endDateTime: endDate,
+        venue: {
+          name: 'Festival Park',
+          city: 'Fayetteville',
+          state: 'NC',
+        },
+        categories: ['Festivals & Fairs', 'Signature Events'],
+        url: DOGWOOD_URL,
+        lastModified: new Date(),
+        section: 'downtown',
+      });
+    }
+  }
+
+  // Deduplicate
+  const unique = Array.from(new Map(results.map(e => [e.id, e])).values());
+
+  return unique;
+}
@@ -0,0 +1,108 @@
+/**
+ * Source: Visit Downtown Fayetteville (Event Espresso API)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { cleanDescription } from '../utils';
+
+const DOWNTOWN_API = 'https://visitdowntownfayetteville.com/wp-json/ee/v4.8.36';
+
+// Cache for venue data to avoid redundant API calls
+const venueCache = new Map<number, any>();
+
+async function fetchVenueDetails(eventId: number, http: HttpFetch = fetch): Promise<any | null> {
+  try {
+    const response = await http(`${DOWNTOWN_API}/events/${eventId}/venues`);
+    if (!response.ok) return null;
+    const venues = await response.json<any>();
+    return venues?.[0] || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchDowntownEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  // Fetch events, datetimes, and all venues in parallel
+  const [eventsRes, datetimesRes, venuesRes] = await Promise.all([
+    http(`${DOWNTOWN_API}/events?limit=200&order_by=EVT_modified&order=DESC`),
+    http(`${DOWNTOWN_API}/datetimes?limit=200&order_by=DTT_EVT_start&order=DESC`),
+    http(`${DOWNTOWN_API}/venues?limit=200`),
+  ]);
+
+  const [events, datetimes, venues] = await Promise.all([
+    eventsRes.json<any[]>(),
+    datetimesRes.json<any[]>(),
+    venuesRes.json<any[]>(),
+  ]);
+
+  // Build venue lookup by ID
+  for (const venue of venues) {
+    venueCache.set(venue.VNU_ID, venue);
+  }
+
+  // Build datetime lookup
+  const datetimesByEvent = new Map<number, any[]>();
+  for (const dt of datetimes) {
+    if (dt.DTT_deleted) continue;
+    const existing = datetimesByEvent.get(dt.EVT_ID) || [];
+    existing.push(dt);
+    datetimesByEvent.set(dt.EVT_ID, existing);
+  }
+
+  const results: UnifiedEvent[] = [];
+
+  for (const event of events) {
+    if (event.status?.raw !== 'publish') continue;
+
+    const eventDatetimes = datetimesByEvent.get(event.EVT_ID) || [];
+    if (eventDatetimes.length === 0) continue;
+
+    // Try to get venue for this event (from linked venues endpoint)
+    let venueData = null;
+    const venuesLink = event._links?.['https://api.eventespresso.com/venues']?.[0]?.href;
+    if (venuesLink) {
+      try {
+        const venueRes = await http(venuesLink);
+        if (venueRes.ok) {
+          const eventVenues = await venueRes.json<any>();
+          venueData = eventVenues?.[0];
+        }
+      } catch {
+        // Fall back to cached venues or default
+      }
+    }
+
+    for (const dt of eventDatetimes) {
+      results.push({
+        id: `downtown_${event.EVT_ID}_${dt.DTT_ID}`,
+        source: 'visit_downtown_fayetteville',
+        sourceId: String(event.EVT_ID),
+        title: event.EVT_name,
+        description: cleanDescription(event.EVT_desc?.rendered || '', event.EVT_name),
+        startDateTime: new Date(dt.DTT_EVT_start_gmt || dt.DTT_EVT_start),
+        endDateTime: new Date(dt.DTT_EVT_end_gmt || dt.DTT_EVT_end),
+        venue: venueData ? {
+          name: venueData.VNU_name || 'Downtown Fayetteville',
+          address: venueData.VNU_address || undefined,
+          city: venueData.VNU_city || 'Fayetteville',
+          state: 'NC',
+          zip: venueData.VNU_zip || undefined,
+          phone: venueData.VNU_phone || undefined,
+          googleMapsUrl: venueData.VNU_google_map_link || undefined,
+        } : {
+          name: 'Downtown Fayetteville',
+          city: 'Fayetteville',
+          state: 'NC',
+        },
+        categories: [],
+        url: event.link,
+        ticketUrl: event.EVT_external_URL || undefined,
+        contactPhone: event.EVT_phone || undefined,
+        lastModified: new Date(event.EVT_modified_gmt || event.EVT_modified),
+        section: 'downtown',
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,113 @@
+/**
+ * Source: Downtown Alliance / FayDTA (Modern Events Calendar API + signature events)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { cleanDescription } from '../utils';
+import { TIMEZONE, fromWallTime, toWallTime } from '../../lib/timezone';
+
+const FAYDTA_API = 'https://www.faydta.com/wp-json/mec/v1/events';
+const DICKENS_HOLIDAY_URL = 'http://adickensholiday.com/';
+
+export async function fetchFayDTAEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+  const currentYear = toWallTime(now, TIMEZONE).year;
+
+  // 1. Try to fetch from MEC API (may be empty)
+  try {
+    const response = await http(FAYDTA_API);
+    if (response.ok) {
+      const events = await response.json<any>();
+
+      if (Array.isArray(events) && events.length > 0) {
+        for (const event of events) {
+          const startDate = new Date(event.date?.start?.date || event.meta?.mec_start_date);
+          const endDate = new Date(event.date?.end?.date || event.meta?.mec_end_date || startDate);
+
+          if (endDate < now) continue;
+
+          results.push({
+            id: `faydta_${event.ID || event.id}`,
+            source: 'faydta',
+            sourceId: String(event.ID || event.id),
+            title: event.title?.rendered || event.title || 'Downtown Alliance Event',
+            description: cleanDescription(event.content?.rendered || event.excerpt?.rendered || '', event.title?.rendered),
+            startDateTime: startDate,
+            endDateTime: endDate,
+            venue: {
+              name: event.location?.name || 'Downtown Fayetteville',
+              address: event.location?.address || undefined,
+              city: 'Fayetteville',
+              state: 'NC',
+            },
+            categories: event.categories?.map((c: any) => c.name) || ['Community'],
+            url: event.link || event.permalink || 'https://www.faydta.com/events/',
+            imageUrl: event.featured_image?.large || event.thumbnail || undefined,
+            lastModified: new Date(event.modified || event.date_gmt || new Date()),
+            section: 'downtown',
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('  MEC API error (may be empty):', error);
+  }
+
+  // 2. Add signature annual events that are on separate sites
+
+  // A Dickens Holiday - Last Friday of November (day after Thanksgiving)
+  // Calculate the date for the current/next occurrence
+  let dickensYear = currentYear;
+  if (dickensTime(dickensYear, 0) < now) {
+    // Event passed this year, use next year
+    dickensYear++;
+  }
+  const dickensDate = dickensTime(dickensYear, 12); // Starts at noon
+
+  // Only add if within next 12 months
+  const oneYearFromNow = new Date(now);
+  oneYearFromNow.setFullYear(oneYearFromNow.getFullYear() + 1);
+
+  if (dickensDate <= oneYearFromNow) {
+    results.push({
+      id: `faydta_dickens_${dickensYear}`,
+      source: 'faydta',
+      sourceId: `dickens_${dickensYear}`,
+      title: 'A Dickens Holiday',
+      description: 'Annual Victorian-themed holiday celebration in Downtown Fayetteville. Features holiday shopping, artisan vendors, food trucks, costumed Dickens characters, carolers, carriage rides, candlelight procession, tree lighting ceremony, and fireworks. Free admission.',
+      startDateTime: dickensDate,
+      endDateTime: dickensTime(dickensYear, 22), // Ends around 10 PM
+      venue: {
+        name: 'Downtown Fayetteville',
+        city: 'Fayetteville',
+        state: 'NC',
+      },
+      categories: ['Festivals & Fairs', 'Community', 'Holiday'],
+      url: DICKENS_HOLIDAY_URL,
+      lastModified: new Date(),
+      section: 'downtown',
+    });
+  }
+
+  // Midsummer Magic - typically in June (exact date varies, skip for now unless we can scrape it)
+  // TODO: Add Midsummer Magic when dates are announced
+
+  return results;
+}
+
+/**
+ * Get the last Friday of November (day after Thanksgiving) for a given year,
+ * as a day of November
+ */
+function getLastFridayOfNovember(year: number): number {
+  const lastDay = new Date(Date.UTC(year, 10, 30)).getUTCDay();
+  return 30 - (lastDay + 2) % 7; // 5 = Friday
+}
+
+/**
+ * A Dickens Holiday's date at the given local hour
+ */
+function dickensTime(year: number, hour: number): Date {
+  return fromWallTime({ year, month: 11, day: getLastFridayOfNovember(year), hour, minute: 0, second: 0 }, TIMEZONE);
+}
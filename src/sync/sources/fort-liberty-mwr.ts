@@ -0,0 +1,316 @@
+/**
+ * Source: Fort Bragg MWR calendar (web scraping)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { decodeHtmlEntities, parseTimeString } from '../utils';
+import { TIMEZONE, fromWallTime, toWallTime } from '../../lib/timezone';
+
+const FORT_BRAGG_MWR_URL = 'https://bragg.armymwr.com/calendar';
+
+// Helper to fetch and parse individual MWR event pages for rich data
+interface MwrEventDetails {
+  description: string;
+  imageUrl?: string;
+  cost?: string;
+  venue?: {
+    name: string;
+    address?: string;
+    city: string;
+    state: string;
+  };
+  endTime?: { hours: number; minutes: number };
+  registrationRequired?: boolean;
+  ageRequirement?: string;
+}
+
+async function fetchMwrEventDetails(eventUrl: string, http: HttpFetch): Promise<MwrEventDetails | null> {
+  try {
+    const response = await http(eventUrl, {
+      headers: {
+        'User-Agent': 'FayettevilleCentralCalendar/1.0',
+        'Accept': 'text/html',
+      },
+      redirect: 'follow',
+    });
+
+    if (!response.ok) {
+      console.error(`  Failed to fetch MWR event page: ${response.status}`);
+      return null;
+    }
+
+    const html = await response.text();
+    const details: MwrEventDetails = { description: '' };
+
+    // Extract og:image
+    const ogImageMatch = html.match(/<meta\s+property=["']og:image["']\s+content=["']([^"']+)["']/i);
+    if (ogImageMatch) {
+      details.imageUrl = ogImageMatch[1];
+    }
+
+    // Extract og:description or meta description
+    const ogDescMatch = html.match(/<meta\s+property=["']og:description["']\s+content=["']([^"']+)["']/i);
+    const metaDescMatch = html.match(/<meta\s+name=["']description["']\s+content=["']([^"']+)["']/i);
+    if (ogDescMatch) {
+      details.description = decodeHtmlEntities(ogDescMatch[1]);
+    } else if (metaDescMatch) {
+      details.description = decodeHtmlEntities(metaDescMatch[1]);
+    }
+
+    // Extract description from event-main-details section
+    const mainDetailsMatch = html.match(/<section[^>]*class=["'][^"']*event-main-details[^"']*["'][^>]*>([\s\S]*?)<\/section>/i);
+    if (mainDetailsMatch) {
+      // Get text content, strip HTML tags
+      let detailsText = mainDetailsMatch[1]
+        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      if (detailsText.length > details.description.length) {
+        details.description = decodeHtmlEntities(detailsText);
+      }
+    }
+
+    // Extract cost/price information - look in main content only (not JS bundles)
+    // Match patterns like "Free program", "$5.00", "Cost: $10 per person"
+    const mainContent = html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] ||
+                        html.match(/<article[^>]*>([\s\S]*?)<\/article>/i)?.[1] ||
+                        html.match(/<section[^>]*class="[^"]*event[^"]*"[^>]*>([\s\S]*?)<\/section>/i)?.[1] ||
+                        html;
+
+    // Strip out script and style tags from content before searching
+    const cleanContent = mainContent
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
+
+    // Look for "Free" first (common for MWR events)
+    if (/\bfree\s+(?:program|event|admission|entry|to\s+attend)/i.test(cleanContent)) {
+      details.cost = 'Free';
+    } else {
+      // Look for price mentions like "$5.00" or "Cost: $10"
+      const priceMatch = cleanContent.match(/\$(\d+(?:\.\d{2})?)\s*(?:per\s+person|each)?/i);
+      if (priceMatch) {
+        details.cost = `$${priceMatch[1]}`;
+      }
+    }
+
+    // Check for registration requirement
+    if (/registration\s+(?:is\s+)?required/i.test(html) || /must\s+register/i.test(html) || /sign\s+up\s+required/i.test(html)) {
+      details.registrationRequired = true;
+    }
+
+    // Extract age requirement
+    const ageMatch = html.match(/(?:ages?|open\s+to)[:\s]*([\d]+(?:\s*[-–]\s*\d+)?(?:\s*(?:years?|yrs?|and\s+(?:up|over|under)))?[^<\n]{0,30})/i);
+    if (ageMatch) {
+      details.ageRequirement = ageMatch[1].trim();
+    }
+
+    // Extract venue/location details from program links
+    const locationMatch = html.match(/<a[^>]*href=["']\/programs\/[^"']+["'][^>]*>([^<]+)<\/a>/i);
+    if (locationMatch) {
+      details.venue = {
+        name: decodeHtmlEntities(locationMatch[1].trim()),
+        city: 'Fort Bragg',
+        state: 'NC',
+      };
+    }
+
+    // Extract end time if available
+    const timeRangeMatch = html.match(/(\d{1,2}(?::\d{2})?\s*(?:am|pm))\s*[-–]\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm))/i);
+    if (timeRangeMatch) {
+      // Combined with the event's date in the main function
+      details.endTime = parseTimeString(timeRangeMatch[2]) ?? undefined;
+    }
+
+    return details;
+  } catch (error) {
+    console.error(`  Error fetching MWR event details:`, error);
+    return null;
+  }
+}
+
+export async function fetchFortBraggMwrEvents(http: HttpFetch = fetch, useEnhanced = false): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+  const currentMonth = toWallTime(now, TIMEZONE).month;
+
+  // Fetch current week and next 4 weeks
+  for (let weekOffset = 0; weekOffset < 5; weekOffset++) {
+    const targetDate = toWallTime(new Date(now.getTime() + weekOffset * 7 * 24 * 60 * 60 * 1000), TIMEZONE);
+
+    const month = String(targetDate.month).padStart(2, '0');
+    const day = String(targetDate.day).padStart(2, '0');
+    const year = targetDate.year;
+    const dateParam = `${month}/${day}/${year}`;
+
+    try {
+      const url = `${FORT_BRAGG_MWR_URL}?date=${encodeURIComponent(dateParam)}&mode=agenda`;
+      const response = await http(url, {
+        headers: {
+          'User-Agent': 'FayettevilleCentralCalendar/1.0',
+          'Accept': 'text/html',
+        },
+      });
+
+      if (!response.ok) continue;
+
+      const html = await response.text();
+
+      // Extract events from HTML
+      // Pattern: /calendar/event/slug/eventId/occurrenceId
+      const eventRegex = /\/calendar\/event\/([a-zA-Z0-9-]+)\/(\d+)\/(\d+)/gi;
+      let match;
+
+      while ((match = eventRegex.exec(html)) !== null) {
+        const [fullPath, slug, eventId, occurrenceId] = match;
+
+        // Extract title from nearby content (alt text or link text)
+        const contextStart = Math.max(0, match.index - 300);
+        const contextEnd = Math.min(html.length, match.index + 500);
+        const context = html.slice(contextStart, contextEnd);
+
+        // Convert slug to title as default (most reliable source)
+        let title = slug.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+        const slugTitle = title; // Save original slug-based title
+
+        // Try to find better title from link text, but validate it matches the slug
+        const linkTextMatch = context.match(/>([A-Z][^<]{4,60})<\/a>/);
+        if (linkTextMatch && !linkTextMatch[1].includes('.png') && !linkTextMatch[1].includes('.jpg')) {
+          const contextTitle = linkTextMatch[1].trim();
+          // Only use context title if it shares significant words with slug
+          // This prevents picking up unrelated nearby event titles
+          const slugWords = slug.toLowerCase().split('-').filter(w => w.length > 3);
+          const contextWords = contextTitle.toLowerCase().split(/\s+/).filter(w => w.length > 3);
+          const sharedWords = slugWords.filter(w => contextWords.some(cw => cw.includes(w) || w.includes(cw)));
+          if (sharedWords.length >= 2 || (sharedWords.length >= 1 && slugWords.length <= 3)) {
+            title = contextTitle;
+          }
+        }
+
+        // Decode HTML entities
+        title = title
+          .replace(/&#039;/g, "'")
+          .replace(/&amp;/g, '&')
+          .replace(/&quot;/g, '"')
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>');
+
+        // Try to find time
+        const timeMatch = context.match(/(\d{1,2}(?::\d{2})?\s*(?:am|pm))\s*[-–]\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm))/i);
+
+        // Try to find venue
+        const venueMatch = context.match(/\/programs\/[^"]+">([^<]+)</);
+
+        // Try to find date from context
+        const dateTextMatch = context.match(/(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{1,2})/i);
+
+        let eventDay = { year, month: targetDate.month, day: targetDate.day };
+        if (dateTextMatch) {
+          const monthNames = ['january', 'february', 'march', 'april', 'may', 'june',
+                              'july', 'august', 'september', 'october', 'november', 'december'];
+          const monthIdx = monthNames.indexOf(dateTextMatch[1].toLowerCase());
+          if (monthIdx >= 0) {
+            // Adjust year if month is in the past
+            eventDay = { year: monthIdx + 1 < currentMonth ? year + 1 : year, month: monthIdx + 1, day: parseInt(dateTextMatch[2]) };
+          }
+        }
+
+        // Local time on the event's day (or `dayOffset` days after it)
+        const atTime = (time: { hours: number; minutes: number } | null, dayOffset = 0): Date =>
+          fromWallTime({ ...eventDay, day: eventDay.day + dayOffset, hour: time?.hours ?? 0, minute: time?.minutes ?? 0, second: 0 }, TIMEZONE);
+
+        // Parse time if found
+        const eventDate = atTime(timeMatch ? parseTimeString(timeMatch[1]) : null);
+
+        const uniqueId = `ftliberty_${eventId}_${occurrenceId}`;
+
+        // Skip if already added
+        if (results.some(e => e.id === uniqueId)) continue;
+
+        const eventUrl = `https://bragg.armymwr.com${fullPath}`;
+
+        // Fetch individual event page for rich details
+        const eventDetails = await fetchMwrEventDetails(eventUrl, http);
+
+        // Rate limit individual page fetches (300ms between requests)
+        await new Promise(r => setTimeout(r, 300));
+
+        // Build description with cost/registration info if available
+        let description = eventDetails?.description || '';
+        if (eventDetails?.cost) {
+          description = description ? `${description}\n\nCost: ${eventDetails.cost}` : `Cost: ${eventDetails.cost}`;
+        }
+        if (eventDetails?.registrationRequired) {
+          description = description ? `${description}\nRegistration required.` : 'Registration required.';
+        }
+        if (eventDetails?.ageRequirement) {
+          description = description ? `${description}\nAges: ${eventDetails.ageRequirement}` : `Ages: ${eventDetails.ageRequirement}`;
+        }
+
+        // Calculate proper end time
+        let endDateTime: Date;
+        if (eventDetails?.endTime) {
+          // Use end time from event page, but with the correct date
+          endDateTime = atTime(eventDetails.endTime);
+          // Handle overnight events
+          if (endDateTime <= eventDate) {
+            endDateTime = atTime(eventDetails.endTime, 1);
+          }
+        } else if (timeMatch) {
+          // Use end time from calendar context
+          const endTime = parseTimeString(timeMatch[2]);
+          if (endTime) {
+            endDateTime = atTime(endTime);
+            if (endDateTime <= eventDate) {
+              endDateTime = atTime(endTime, 1);
+            }
+          } else {
+            endDateTime = new Date(eventDate.getTime() + 2 * 60 * 60 * 1000);
+          }
+        } else {
+          endDateTime = new Date(eventDate.getTime() + 2 * 60 * 60 * 1000);
+        }
+
+        // Use venue from event details if available, otherwise from calendar
+        const venue = eventDetails?.venue || (venueMatch ? {
+          name: venueMatch[1].trim(),
+          city: 'Fort Bragg',
+          state: 'NC',
+        } : {
+          name: 'Fort Bragg',
+          city: 'Fort Bragg',
+          state: 'NC',
+        });
+
+        results.push({
+          id: uniqueId,
+          source: 'fort_liberty_mwr',
+          sourceId: `${eventId}_${occurrenceId}`,
+          title,
+          description,
+          startDateTime: eventDate,
+          endDateTime,
+          venue,
+          categories: ['Military', 'MWR'],
+          url: eventUrl,
+          imageUrl: eventDetails?.imageUrl,
+          lastModified: new Date(),
+          section: 'fort_bragg',
+        });
+      }
+
+      // Rate limit: wait 500ms between requests
+      await new Promise(r => setTimeout(r, 500));
+    } catch (error) {
+      console.error(`  Error fetching week ${weekOffset}:`, error);
+    }
+  }
+
+  // Sort by date and deduplicate
+  const unique = Array.from(new Map(results.map(e => [e.id, e])).values());
+  unique.sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+  return unique;
+}
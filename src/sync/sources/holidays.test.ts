@@ -0,0 +1,17 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchFortBraggHolidays } from './holidays';
+
+test('holidays span whole Fayetteville days', async () => {
+  mock.timers.enable({ apis: ['Date'], now: new Date('2025-11-01T12:00:00Z') });
+  try {
+    const events = await fetchFortBraggHolidays();
+    const thanksgiving = events.find(e => e.sourceId === 'holiday_2025-11-27');
+
+    // Midnight EST on the first day to the last second of the last
+    assert.equal(thanksgiving?.startDateTime.toISOString(), '2025-11-27T05:00:00.000Z');
+    assert.equal(thanksgiving?.endDateTime?.toISOString(), '2025-12-01T04:59:59.000Z');
+  } finally {
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,82 @@
+/**
+ * Source: Fort Bragg training holidays (static FY26 schedule)
+ */
+
+import { UnifiedEvent } from '../types';
+import { TIMEZONE, fromWallTime } from '../../lib/timezone';
+
+// FY26 Training Holiday Schedule (Oct 2025 - Sep 2026)
+// Source: XVIII Airborne Corps Compensatory Schedule
+const FY26_TRAINING_HOLIDAYS = [
+  // October 2025
+  { name: 'Columbus Day Weekend', start: '2025-10-10', end: '2025-10-13', days: 4, type: 'federal' },
+  // November 2025
+  { name: 'Veterans Day Weekend', start: '2025-11-08', end: '2025-11-11', days: 4, type: 'federal' },
+  { name: 'Thanksgiving Weekend', start: '2025-11-27', end: '2025-11-30', days: 4, type: 'federal' },
+  // December 2025
+  { name: 'Christmas Block Leave', start: '2025-12-22', end: '2025-12-26', days: 5, type: 'block' },
+  { name: 'New Year Block Leave', start: '2025-12-29', end: '2026-01-02', days: 5, type: 'block' },
+  // January 2026
+  { name: 'MLK Day Weekend', start: '2026-01-16', end: '2026-01-19', days: 4, type: 'federal' },
+  // February 2026
+  { name: 'Presidents Day Weekend', start: '2026-02-13', end: '2026-02-16', days: 4, type: 'federal' },
+  // March 2026
+  { name: 'Training Holiday Weekend', start: '2026-03-13', end: '2026-03-15', days: 3, type: 'training' },
+  // April 2026
+  { name: 'Easter Weekend', start: '2026-04-03', end: '2026-04-06', days: 4, type: 'federal' },
+  // May 2026
+  { name: 'Memorial Day Weekend', start: '2026-05-22', end: '2026-05-25', days: 4, type: 'federal' },
+  // July 2026
+  { name: 'Independence Day Weekend', start: '2026-07-03', end: '2026-07-06', days: 4, type: 'federal' },
+  // September 2026
+  { name: 'Labor Day Weekend', start: '2026-09-04', end: '2026-09-07', days: 4, type: 'federal' },
+];
+
+export async function fetchFortBraggHolidays(): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+
+  for (const holiday of FY26_TRAINING_HOLIDAYS) {
+    const [startYear, startMonth, startDay] = holiday.start.split('-').map(Number);
+    const [endYear, endMonth, endDay] = holiday.end.split('-').map(Number);
+    const startDate = fromWallTime({ year: startYear, month: startMonth, day: startDay, hour: 0, minute: 0, second: 0 }, TIMEZONE);
+    const endDate = fromWallTime({ year: endYear, month: endMonth, day: endDay, hour: 23, minute: 59, second: 59 }, TIMEZONE);
+
+    // Skip past holidays
+    if (endDate < now) continue;
+
+    // Create a merchant-friendly title
+    const title = `🎖️ ${holiday.days}-Day Weekend: ${holiday.name}`;
+
+    // Create description based on type
+    let description = '';
+    if (holiday.type === 'federal') {
+      description = `Fort Bragg soldiers have a ${holiday.days}-day weekend for ${holiday.name}. Expect increased activity in downtown Fayetteville as military families enjoy time off.`;
+    } else if (holiday.type === 'block') {
+      description = `Fort Bragg Block Leave period - many soldiers will be on leave. Some may travel, others will stay local. Good time for family-friendly events and promotions.`;
+    } else {
+      description = `Corps Training Holiday - soldiers have a ${holiday.days}-day weekend. Great opportunity for local businesses to welcome military families.`;
+    }
+
+    results.push({
+      id: `ft_liberty_holiday_${holiday.start}`,
+      source: 'fort_liberty_holidays',
+      sourceId: `holiday_${holiday.start}`,
+      title: title,
+      description: description,
+      startDateTime: startDate,
+      endDateTime: endDate,
+      venue: {
+        name: 'Fort Bragg',
+        city: 'Fort Bragg',
+        state: 'NC',
+      },
+      categories: ['Military', 'Long Weekend'],
+      url: 'https://home.army.mil/liberty',
+      lastModified: new Date(),
+      section: 'fort_bragg',
+    });
+  }
+
+  return results;
+}
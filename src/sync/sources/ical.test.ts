@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { icalToEvents } from './ical';
+import { SourceRow } from './index';
+
+const source: SourceRow = {
+  id: 'fellowship',
+  name: 'Hay Street Fellowship',
+  url: 'webcal://example.org/calendar.ics',
+  type: 'ical',
+  section: 'downtown',
+  sync_interval_minutes: null,
+  last_sync: null,
+  last_sync_status: null,
+  last_sync_count: null,
+  is_active: 1,
+  config: null,
+};
+
+const fixture = (name: string) =>
+  icalToEvents(fs.readFileSync(path.join(__dirname, '../../../fixtures/ical', name), 'utf-8'), source);
+
+test('TZID times are Fayetteville wall-clock times, including Outlook zone names', () => {
+  const supper = fixture('google-calendar.ics').find(e => e.title === 'Wednesday Community Supper');
+  // 6:30pm EST on November 4
+  assert.equal(supper?.startDateTime.toISOString(), '2026-11-04T23:30:00.000Z');
+  assert.equal(supper?.endDateTime?.toISOString(), '2026-11-05T01:00:00.000Z');
+
+  const reading = fixture('outlook.ics').find(e => e.title === 'Fall Author Series');
+  // TZID="Eastern Standard Time", 7:00pm plus a 90 minute DURATION
+  assert.equal(reading?.startDateTime.toISOString(), '2026-11-13T00:00:00.000Z');
+  assert.equal(reading?.endDateTime?.toISOString(), '2026-11-13T01:30:00.000Z');
+});
+
+test('RRULE is kept on the series, with EXDATEs and overridden occurrences excluded', () => {
+  const supper = fixture('google-calendar.ics').find(e => e.title === 'Wednesday Community Supper');
+  assert.equal(supper?.recurrence?.rule, 'FREQ=WEEKLY;UNTIL=20270127T235959Z;BYDAY=WE');
+  assert.deepEqual(supper?.recurrence?.exdates?.map(d => d.toISOString()), [
+    '2026-11-25T23:30:00.000Z',
+    '2026-12-30T23:30:00.000Z',
+    '2026-12-16T23:30:00.000Z',  // RECURRENCE-ID of the Christmas supper
+  ]);
+
+  const lunch = fixture('outlook.ics').find(e => e.title === 'Career Center Lunch & Learn');
+  assert.equal(lunch?.recurrence?.rule, 'FREQ=MONTHLY;COUNT=6;BYDAY=1MO');
+  assert.equal(lunch?.recurrence?.exdates, undefined);
+});
+
+test('a RECURRENCE-ID override becomes its own event with its own time', () => {
+  const christmas = fixture('google-calendar.ics').find(e => e.title === 'Christmas Community Supper');
+  assert.equal(christmas?.id, 'fellowship_5k2b9q0v7h1m3c8e4d6f_google.com_20261216T183000');
+  assert.equal(christmas?.startDateTime.toISOString(), '2026-12-16T22:00:00.000Z');
+  assert.equal(christmas?.recurrence, undefined);
+});
+
+test('all-day ends, cancelled events and unsupported rules', () => {
+  const events = fixture('google-calendar.ics');
+  const fair = events.find(e => e.title === 'Holiday Craft Fair');
+  assert.equal(fair?.startDateTime.toISOString(), '2026-12-05T05:00:00.000Z');
+  assert.equal(fair?.endDateTime?.toISOString(), '2026-12-07T04:59:59.000Z');
+  assert.equal(events.find(e => e.title === 'Fall Cleanup Day')?.status, 'cancelled');
+
+  const studio = fixture('outlook.ics').find(e => e.title === 'Open Studio Night');
+  assert.equal(studio?.recurrence, undefined);
+});
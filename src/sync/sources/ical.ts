@@ -0,0 +1,332 @@
+/**
+ * Source: any iCalendar (.ics) feed
+ *
+ * Google Calendar, Outlook and most church/department/brewery calendars
+ * publish an .ics feed, so these sources need no code: a sources row with
+ * type 'ical' and the feed in url is enough. sources.config can set
+ * categories, a venue for events without LOCATION, a link for events without
+ * URL (default: the feed) and a zone for floating times (default: the feed's
+ * X-WR-TIMEZONE); see config.ts.
+ *
+ * VEVENTs keep their RRULE and EXDATEs (occurrences are expanded by
+ * src/lib/recurrence.ts); a changed occurrence (RECURRENCE-ID) becomes its own
+ * event and an exdate on the series. TZID wall times are converted with Intl.
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import type { SourceRow } from './index';
+import { parseDuration, stripHtml } from '../utils';
+import { applyCategories, configVenue, parseSourceConfig, sourceSection, sourceTimeZone } from './config';
+import { normalizeRRule } from '../../lib/recurrence';
+import { WallTime, fromWallTime, isValidTimeZone } from '../../lib/timezone';
+
+/**
+ * One content line: NAME;PARAM=value:VALUE
+ */
+interface IcalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+type IcalComponent = Map<string, IcalProperty[]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// Outlook/Exchange feeds use Windows zone names in TZID
+const WINDOWS_ZONES: Record<string, string> = {
+  'eastern standard time': 'America/New_York',
+  'central standard time': 'America/Chicago',
+  'mountain standard time': 'America/Denver',
+  'pacific standard time': 'America/Los_Angeles',
+  'utc': 'UTC',
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Undo line folding (RFC 5545 3.1): a line starting with a space or tab
+ * continues the previous one
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+}
+
+/**
+ * Split a content line into name, parameters and value. Parameter values may
+ * be quoted and contain ':' or ';'.
+ */
+function parseContentLine(line: string): IcalProperty | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Unescape a TEXT value (\n, \, \; \\)
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/**
+ * VEVENTs of a calendar, each as its properties by name, plus the calendar's
+ * X-WR-TIMEZONE. Nested components (VALARM) and VTIMEZONE are skipped.
+ */
+export function parseIcal(feed: string): { events: IcalComponent[]; timezone: string | null } {
+  const events: IcalComponent[] = [];
+  const stack: string[] = [];
+  let current: IcalComponent | null = null;
+  let timezone: string | null = null;
+
+  for (const line of unfoldLines(feed)) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      stack.push(prop.value.toUpperCase());
+      if (prop.value.toUpperCase() === 'VEVENT' && stack.length === 2) current = new Map();
+      continue;
+    }
+    if (prop.name === 'END') {
+      if (stack.pop() === 'VEVENT' && current && stack.length === 1) {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && stack.length === 2) {
+      const list = current.get(prop.name) || [];
+      list.push(prop);
+      current.set(prop.name, list);
+    } else if (stack.length === 1 && prop.name === 'X-WR-TIMEZONE') {
+      timezone = prop.value.trim();
+    }
+  }
+
+  return { events, timezone };
+}
+
+function resolveTimeZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  const zone = WINDOWS_ZONES[tzid.toLowerCase()] || tzid.replace(/^\//, '');
+  return isValidTimeZone(zone) ? zone : fallback;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value: UTC ('Z'), TZID wall time, or floating
+ * (in `timeZone`). All-day dates are local midnight.
+ */
+export function parseIcalDate(
+  value: string,
+  params: Record<string, string>,
+  timeZone: string
+): { date: Date; allDay: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s = '0', utc] = match;
+  const allDay = params.VALUE === 'DATE' || h === undefined;
+  const wall: WallTime = {
+    year: +y, month: +mo, day: +d,
+    hour: allDay ? 0 : +h, minute: allDay ? 0 : +mi, second: allDay ? 0 : +s,
+  };
+
+  const date = utc
+    ? new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second))
+    : fromWallTime(wall, resolveTimeZone(params.TZID, timeZone));
+
+  return isNaN(date.getTime()) ? null : { date, allDay };
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+function first(event: IcalComponent, name: string): IcalProperty | undefined {
+  return event.get(name)?.[0];
+}
+
+function text(event: IcalComponent, name: string): string {
+  const prop = first(event, name);
+  return prop ? unescapeText(prop.value).trim() : '';
+}
+
+/**
+ * All date values of a property that may repeat and hold lists (EXDATE)
+ */
+function dateList(event: IcalComponent, name: string, timeZone: string): Date[] {
+  const dates: Date[] = [];
+  for (const prop of event.get(name) || []) {
+    for (const value of prop.value.split(',')) {
+      const parsed = parseIcalDate(value, prop.params, timeZone);
+      if (parsed) dates.push(parsed.date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * LOCATION is free text, usually "Venue, 123 Street, City, ST 12345"
+ */
+function parseLocation(location: string): UnifiedEvent['venue'] {
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean);
+  if (/^(USA?|United States)$/i.test(parts[parts.length - 1] || '')) parts.pop();
+  if (parts.length === 0) return null;
+
+  const stateZip = parts.length >= 3 ? parts[parts.length - 1].match(/^([A-Z]{2})(?:\s+(\d{5}))?$/) : null;
+  if (!stateZip) {
+    return { name: parts[0], address: parts.slice(1).join(', ') || undefined, city: 'Fayetteville', state: 'NC' };
+  }
+
+  const city = parts[parts.length - 2];
+  const street = parts.slice(1, -2).join(', ');
+  // "123 Main St, Fayetteville, NC" has no venue name
+  const unnamed = /^\d/.test(parts[0]);
+  return {
+    name: parts[0],
+    address: unnamed ? [parts[0], street].filter(Boolean).join(', ') : street || undefined,
+    city,
+    state: stateZip[1],
+    zip: stateZip[2],
+  };
+}
+
+function feedUrl(source: SourceRow): string {
+  return source.url.replace(/^webcal:\/\//i, 'https://');
+}
+
+/**
+ * Map a feed's VEVENTs to UnifiedEvents for the given sources row
+ */
+export function icalToEvents(feed: string, source: SourceRow): UnifiedEvent[] {
+  const config = parseSourceConfig(source);
+  const { events: vevents, timezone: calendarZone } = parseIcal(feed);
+  const timeZone = sourceTimeZone(config, calendarZone && resolveTimeZone(calendarZone, ''));
+  const section = sourceSection(source);
+
+  // Changed occurrences are removed from their series
+  const overridden = new Map<string, Date[]>();
+  for (const vevent of vevents) {
+    const recurrenceId = first(vevent, 'RECURRENCE-ID');
+    const uid = text(vevent, 'UID');
+    if (!recurrenceId || !uid) continue;
+    const parsed = parseIcalDate(recurrenceId.value, recurrenceId.params, timeZone);
+    if (parsed) overridden.set(uid, [...(overridden.get(uid) || []), parsed.date]);
+  }
+
+  const results: UnifiedEvent[] = [];
+
+  for (const vevent of vevents) {
+    const uid = text(vevent, 'UID');
+    const title = text(vevent, 'SUMMARY');
+    const dtstart = first(vevent, 'DTSTART');
+    if (!uid || !title || !dtstart) continue;
+
+    // A cancelled occurrence is already an exdate on its series
+    const recurrenceId = first(vevent, 'RECURRENCE-ID');
+    const cancelled = text(vevent, 'STATUS').toUpperCase() === 'CANCELLED';
+    if (cancelled && recurrenceId) continue;
+
+    const start = parseIcalDate(dtstart.value, dtstart.params, timeZone);
+    if (!start) continue;
+
+    let end: Date | null = null;
+    const dtend = first(vevent, 'DTEND');
+    const duration = first(vevent, 'DURATION');
+    if (dtend) {
+      end = parseIcalDate(dtend.value, dtend.params, timeZone)?.date || null;
+    } else if (duration) {
+      const ms = parseDuration(duration.value);
+      if (ms !== null) end = new Date(start.date.getTime() + ms);
+    }
+    if (!end || end < start.date) {
+      end = new Date(start.date.getTime() + (start.allDay ? DAY_MS : DEFAULT_DURATION_MS));
+    }
+    // All-day DTEND is exclusive: end the last day at 23:59:59
+    if (start.allDay && end > start.date) end = new Date(end.getTime() - 1000);
+
+    let recurrence: UnifiedEvent['recurrence'];
+    const rrule = first(vevent, 'RRULE');
+    if (rrule && !recurrenceId) {
+      const rule = normalizeRRule(rrule.value);
+      if (rule) {
+        const exdates = [...dateList(vevent, 'EXDATE', timeZone), ...(overridden.get(uid) || [])];
+        recurrence = { rule, exdates: exdates.length > 0 ? exdates : undefined };
+      } else {
+        console.error(`  Unsupported RRULE for ${uid} (${rrule.value}), keeping the first occurrence only`);
+      }
+    }
+
+    const externalId = recurrenceId ? `${uid}_${recurrenceId.value.replace(/[^0-9TZ]/g, '')}` : uid;
+    const rawDescription = text(vevent, 'DESCRIPTION');
+    const location = text(vevent, 'LOCATION');
+    const categories = (vevent.get('CATEGORIES') || [])
+      .flatMap(prop => unescapeText(prop.value.replace(/\\,/g, '\u0000')).split(','))
+      .map(category => category.replace(/\u0000/g, ',').trim())
+      .filter(Boolean);
+    const image = (vevent.get('ATTACH') || []).find(prop => prop.params.FMTTYPE?.startsWith('image/'));
+    const lastModified = first(vevent, 'LAST-MODIFIED') || first(vevent, 'DTSTAMP');
+
+    results.push({
+      id: `${source.id}_${externalId.replace(/[^A-Za-z0-9_.-]/g, '_')}`,
+      source: source.id,
+      sourceId: externalId,
+      title,
+      description: /<[a-z][^>]*>/i.test(rawDescription) ? stripHtml(rawDescription.replace(/<br\s*\/?>/gi, '\n')) : rawDescription,
+      startDateTime: start.date,
+      endDateTime: end,
+      venue: location ? parseLocation(location) : configVenue(config),
+      categories: applyCategories(categories, config),
+      url: text(vevent, 'URL') || config.link || feedUrl(source),
+      imageUrl: image?.value,
+      lastModified: (lastModified && parseIcalDate(lastModified.value, lastModified.params, timeZone)?.date) || new Date(),
+      section,
+      recurrence,
+      status: cancelled ? 'cancelled' : undefined,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Fetch and parse the feed a sources row points at
+ */
+export async function fetchIcalEvents(source: SourceRow, http: HttpFetch): Promise<UnifiedEvent[]> {
+  const response = await http(feedUrl(source), {
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; EventBot/1.0)', Accept: 'text/calendar' }
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${source.url}`);
+  }
+
+  const body = await response.text();
+  if (!body.includes('BEGIN:VCALENDAR')) {
+    throw new Error(`${source.url} is not an iCalendar feed`);
+  }
+
+  return icalToEvents(body, source);
+}
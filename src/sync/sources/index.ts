@@ -0,0 +1,123 @@
+/**
+ * Source adapter registry
+ *
+ * Each adapter turns one row of the sources table into UnifiedEvent[]. The
+ * registry is shared by the Worker cron (src/sync/index.ts) and the CLI
+ * (scripts/sync-all-events.ts); adding a source means registering an adapter
+ * under its sources.id, except for feeds a generic adapter can read (types
+ * 'ical' and 'jsonld'), which only need a sources row.
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { fetchDowntownEvents } from './downtown';
+import { fetchSegraEvents } from './segra';
+import { fetchWoodpeckersGames } from './woodpeckers';
+import { fetchDistinctlyEvents } from './distinctly';
+import { fetchDogwoodEvents } from './dogwood';
+import { fetchFortBraggMwrEvents } from './fort-liberty-mwr';
+import { fetchCrownComplexEvents } from './crown';
+import { fetchFayDTAEvents } from './faydta';
+import { fetchMLKEvents } from './mlk';
+import { fetchLibraryEvents } from './library';
+import { fetchFortBraggHolidays } from './holidays';
+import { fetchArtsCouncilEvents } from './arts-council';
+import { fetchSymphonyEvents } from './symphony';
+import { fetchCameoEvents } from './cameo';
+import { fetchFayettevilleSpeedwayEvents } from './speedway';
+import { fetchFSUSportsEvents } from './fsu';
+import { fetchIcalEvents } from './ical';
+import { fetchJsonLdEvents } from './jsonld';
+
+export type SourceType = 'api' | 'rss' | 'scrape' | 'json' | 'ical' | 'jsonld';
+
+/**
+ * Row from the sources table
+ */
+export interface SourceRow {
+  id: string;
+  name: string;
+  url: string;
+  type: string;
+  section: string;
+  sync_interval_minutes: number | null;
+  last_sync: string | null;
+  last_sync_status: string | null;
+  last_sync_count: number | null;
+  is_active: number | boolean;
+  config: string | null;  // JSON settings for generic adapters (see config.ts)
+}
+
+export interface SourceContext {
+  http: HttpFetch;     // All network access goes through this (recorded/replayed)
+  source?: SourceRow;  // The sources row, when run by the scheduler
+}
+
+export interface SourceAdapter {
+  id: string;        // sources.id in D1
+  key: string;       // Short name used by the CLI (--source=segra)
+  type: SourceType;  // Matches sources.type
+  fetch: (ctx: SourceContext) => Promise<UnifiedEvent[]>;
+}
+
+// Registry of adapters keyed by sources.id
+const adapters = new Map<string, SourceAdapter>();
+
+export function registerAdapter(adapter: SourceAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Look up an adapter by sources.id or by its CLI key
+ */
+export function getAdapter(idOrKey: string): SourceAdapter | undefined {
+  return adapters.get(idOrKey) || [...adapters.values()].find(a => a.key === idOrKey);
+}
+
+export function listAdapters(): SourceAdapter[] {
+  return [...adapters.values()];
+}
+
+/**
+ * Adapter for a sources row: the one registered under its id, or the generic
+ * adapter for its type
+ */
+export function adapterForSource(source: SourceRow): SourceAdapter | undefined {
+  const registered = adapters.get(source.id);
+  if (registered) return registered;
+
+  switch (source.type) {
+    case 'ical':
+      return { id: source.id, key: source.id, type: 'ical', fetch: ({ http }) => fetchIcalEvents(source, http) };
+    case 'jsonld':
+      return { id: source.id, key: source.id, type: 'jsonld', fetch: ({ http }) => fetchJsonLdEvents(source, http) };
+    default:
+      return undefined;
+  }
+}
+
+registerAdapter({ id: 'visit_downtown', key: 'downtown', type: 'api', fetch: ({ http }) => fetchDowntownEvents(http) });
+registerAdapter({ id: 'segra_stadium', key: 'segra', type: 'json', fetch: ({ http }) => fetchSegraEvents(http) });
+registerAdapter({ id: 'woodpeckers', key: 'woodpeckers', type: 'api', fetch: ({ http }) => fetchWoodpeckersGames(http) });
+registerAdapter({ id: 'distinctly_fayetteville', key: 'distinctly', type: 'rss', fetch: ({ http }) => fetchDistinctlyEvents(http) });
+registerAdapter({ id: 'dogwood_festival', key: 'dogwood', type: 'scrape', fetch: ({ http }) => fetchDogwoodEvents(http) });
+registerAdapter({ id: 'fort_liberty_mwr', key: 'fortliberty', type: 'scrape', fetch: ({ http }) => fetchFortBraggMwrEvents(http) });
+registerAdapter({ id: 'crown_complex', key: 'crown', type: 'scrape', fetch: ({ http }) => fetchCrownComplexEvents(http) });
+registerAdapter({ id: 'faydta', key: 'faydta', type: 'api', fetch: ({ http }) => fetchFayDTAEvents(http) });
+registerAdapter({ id: 'mlk_committee', key: 'mlk', type: 'scrape', fetch: () => fetchMLKEvents() });
+registerAdapter({ id: 'library_hq', key: 'library', type: 'scrape', fetch: ({ http }) => fetchLibraryEvents(http) });
+registerAdapter({ id: 'fort_liberty_holidays', key: 'holidays', type: 'json', fetch: () => fetchFortBraggHolidays() });
+registerAdapter({ id: 'arts_council', key: 'artscouncil', type: 'scrape', fetch: ({ http }) => fetchArtsCouncilEvents(http) });
+registerAdapter({ id: 'fayetteville_symphony', key: 'symphony', type: 'scrape', fetch: () => fetchSymphonyEvents() });
+registerAdapter({ id: 'cameo_art_house', key: 'cameo', type: 'scrape', fetch: ({ http }) => fetchCameoEvents(http) });
+registerAdapter({ id: 'fayetteville_speedway', key: 'speedway', type: 'scrape', fetch: ({ http }) => fetchFayettevilleSpeedwayEvents(http) });
+registerAdapter({ id: 'fsu_sports', key: 'fsu', type: 'scrape', fetch: ({ http }) => fetchFSUSportsEvents(http) });
+
+/**
+ * Map the `source` value a fetcher stamps on its events to the sources.id in D1
+ */
+export function mapSourceId(source: string): string {
+  const mapping: Record<string, string> = {
+    'visit_downtown_fayetteville': 'visit_downtown',
+  };
+  return mapping[source] || source;
+}
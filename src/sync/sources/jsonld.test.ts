@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jsonLdToEvents } from './jsonld';
+import { SourceRow } from './index';
+
+const source: SourceRow = {
+  id: 'taproom',
+  name: 'Cape Fear Taproom',
+  url: 'https://example.com/events/',
+  type: 'jsonld',
+  section: 'downtown',
+  sync_interval_minutes: null,
+  last_sync: null,
+  last_sync_status: null,
+  last_sync_count: null,
+  is_active: 1,
+  config: null,
+};
+
+const page = (...events: object[]) =>
+  `<script type="application/ld+json">${JSON.stringify(events.map(e => ({ '@context': 'https://schema.org', '@type': 'Event', ...e })))}</script>`;
+
+test('an event with a url keeps its id when it moves to another date', () => {
+  const before = jsonLdToEvents(page({ name: 'Jazz Night', startDate: '2026-11-06T19:00', url: 'jazz-night/' }), source.url, source);
+  const after = jsonLdToEvents(page({ name: 'Jazz Night', startDate: '2026-11-13T19:00', url: 'jazz-night/' }), source.url, source);
+  assert.equal(before[0].id, after[0].id);
+  assert.equal(before[0].sourceId, 'example.com/events/jazz-night/');
+});
+
+test('@id wins over url, and events without either fall back to title and date', () => {
+  const events = jsonLdToEvents(page(
+    { '@id': 'https://example.com/#jazz', name: 'Jazz Night', startDate: '2026-11-06T19:00', url: 'jazz-night/' },
+    { name: 'Trivia', startDate: '2026-11-10T19:00' },
+  ), source.url, source);
+  assert.deepEqual(events.map(e => e.sourceId), ['example.com/#jazz', 'trivia_2026-11-10']);
+});
+
+test('a url shared by several events identifies none of them', () => {
+  const events = jsonLdToEvents(page(
+    { name: 'Market', startDate: '2026-12-05T10:00', url: 'market/' },
+    { name: 'Market', startDate: '2026-12-12T10:00', url: 'market/' },
+  ), source.url, source);
+  assert.deepEqual(events.map(e => e.sourceId), ['market_2026-12-05', 'market_2026-12-12']);
+});
+
+test('eventStatus maps onto status, venue and description', () => {
+  const [rescheduled, online] = jsonLdToEvents(page(
+    { name: 'Jazz Night', startDate: '2026-11-06T19:00', eventStatus: 'https://schema.org/EventRescheduled' },
+    {
+      name: 'Book Talk', startDate: '2026-11-07T19:00', eventStatus: 'https://schema.org/EventMovedOnline',
+      location: [{ '@type': 'Place', name: 'Headquarters Library' }, { '@type': 'VirtualLocation', url: 'https://example.com/stream' }],
+    },
+  ), source.url, source);
+  assert.equal(rescheduled.status, 'rescheduled');
+  assert.equal(online.venue, null);
+  assert.equal(online.url, 'https://example.com/stream');
+  assert.match(online.description, /^This event has moved online\./);
+});
@@ -0,0 +1,420 @@
+/**
+ * Source: any page with schema.org Event markup (application/ld+json)
+ *
+ * Ticketing platforms, Wix, Squarespace and most WordPress event plugins
+ * embed Event objects for search engines, so these pages can be read without
+ * page-specific parsing: a sources row with type 'jsonld' and the page in url
+ * is enough. Event, its subtypes (MusicEvent, Festival...) and EventSeries are
+ * found anywhere in the markup, including @graph and ItemList.
+ *
+ * An event is identified by its @id or url (a detail page's own event by the
+ * page), so a source moving it to another date reschedules it; events with
+ * neither fall back to title and date.
+ *
+ * sources.config can set categories, a venue, a link and a zone for dates
+ * without an offset (see config.ts), plus:
+ *
+ *   {
+ *     "follow": "/events/[^/]+/?$",  // Also read the pages the listing links to (detail pages)
+ *     "max_pages": 20                // How many of them per sync
+ *   }
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import type { SourceRow } from './index';
+import { decodeHtmlEntities, parseDuration, slugify, stripHtml } from '../utils';
+import { SourceConfig, applyCategories, configVenue, parseSourceConfig, sourceSection, sourceTimeZone } from './config';
+import { fromWallTime, localDateString } from '../../lib/timezone';
+
+type JsonObject = Record<string, unknown>;
+
+interface SchemaDate {
+  date: Date;
+  allDay: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const DEFAULT_MAX_PAGES = 20;
+
+// Event subtypes that map onto a taxonomy label
+const TYPE_CATEGORIES: Record<string, string> = {
+  MusicEvent: 'Live Music',
+  ScreeningEvent: 'Movies',
+  SportsEvent: 'Sports',
+  Festival: 'Festivals',
+  TheaterEvent: 'Arts',
+  DanceEvent: 'Arts',
+  VisualArtsEvent: 'Arts',
+  LiteraryEvent: 'Arts',
+  ChildrensEvent: 'Family',
+  ComedyEvent: 'Nightlife',
+  ExhibitionEvent: 'Expos',
+};
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+function types(node: JsonObject): string[] {
+  const type = node['@type'];
+  const list = Array.isArray(type) ? type : [type];
+  return list.filter((t): t is string => typeof t === 'string').map(t => t.replace(/^(https?:\/\/)?schema\.org\//, ''));
+}
+
+function isEvent(node: JsonObject): boolean {
+  return types(node).some(type => /Event$|^Festival$|^EventSeries$/.test(type));
+}
+
+function asObject(value: unknown): JsonObject | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : null;
+}
+
+function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Parse the contents of one ld+json script. Sites often leave HTML comments,
+ * CDATA markers or raw newlines inside strings; those are cleaned up first.
+ */
+function parseJsonLdBlock(raw: string): unknown {
+  const cleaned = raw
+    .replace(/^\s*(<!--|\/\/\s*<!\[CDATA\[)/, '')
+    .replace(/(-->|\/\/\s*\]\]>)\s*$/, '')
+    .trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    try {
+      return JSON.parse(cleaned.replace(/[\u0000-\u001f]+/g, ' '));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Every schema.org Event object in a page. An EventSeries (or Event) with
+ * subEvents yields its subEvents, filled in with the parent's name, location,
+ * offers and so on where they have none; without dated subEvents it yields
+ * itself.
+ */
+export function extractJsonLdEvents(html: string): JsonObject[] {
+  const events: JsonObject[] = [];
+  const scripts = html.matchAll(/<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+
+  const visit = (value: unknown, depth: number): void => {
+    if (depth > 6) return;
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, depth + 1));
+      return;
+    }
+    const node = asObject(value);
+    if (!node) return;
+
+    if (isEvent(node)) {
+      const children = [...asList(node.subEvent), ...asList(node.subEvents)]
+        .map(asObject)
+        .filter((child): child is JsonObject => child !== null && typeof child.startDate === 'string');
+      if (children.length > 0) {
+        const parent = Object.fromEntries(
+          Object.entries(node).filter(([key]) => !['subEvent', 'subEvents', '@id'].includes(key))
+        );
+        children.forEach(child => events.push({ ...parent, ...child, '@type': child['@type'] || node['@type'] }));
+      } else {
+        events.push(node);
+      }
+      return;
+    }
+
+    visit(node['@graph'], depth + 1);
+    for (const element of asList(node.itemListElement)) {
+      const item = asObject(element);
+      visit(item && types(item).includes('ListItem') ? item.item : item, depth + 1);
+    }
+  };
+
+  for (const [, raw] of scripts) {
+    visit(parseJsonLdBlock(raw), 0);
+  }
+  return events;
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+function str(value: unknown): string {
+  if (typeof value === 'string') return decodeHtmlEntities(value).trim();
+  if (typeof value === 'number') return String(value);
+  return '';
+}
+
+/**
+ * A schema.org Date or DateTime. With an offset it is an instant; without,
+ * a wall time in `timeZone`; a bare date is an all-day start.
+ */
+export function parseSchemaDate(value: unknown, timeZone: string): SchemaDate | null {
+  const text = str(value);
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s = '0', offset] = match;
+  if (offset) {
+    const date = new Date(text.replace(' ', 'T').replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+    return isNaN(date.getTime()) ? null : { date, allDay: false };
+  }
+
+  const allDay = h === undefined;
+  const date = fromWallTime({
+    year: +y, month: +mo, day: +d,
+    hour: allDay ? 0 : +h, minute: allDay ? 0 : +mi, second: allDay ? 0 : +s,
+  }, timeZone);
+  return isNaN(date.getTime()) ? null : { date, allDay };
+}
+
+function mapLocation(value: unknown): UnifiedEvent['venue'] {
+  for (const item of asList(value)) {
+    if (typeof item === 'string' && item.trim()) {
+      return { name: decodeHtmlEntities(item).trim(), city: 'Fayetteville', state: 'NC' };
+    }
+    const place = asObject(item);
+    if (!place || types(place).includes('VirtualLocation')) continue;
+
+    const address = asObject(place.address);
+    const geo = asObject(place.geo);
+    const name = str(place.name) || str(address?.name) || str(address?.streetAddress) || str(place.address);
+    if (!name) continue;
+
+    const latitude = parseFloat(str(geo?.latitude));
+    const longitude = parseFloat(str(geo?.longitude));
+    return {
+      name,
+      address: address ? str(address.streetAddress) || undefined : str(place.address) || undefined,
+      city: str(address?.addressLocality) || 'Fayetteville',
+      state: str(address?.addressRegion) || 'NC',
+      zip: str(address?.postalCode) || undefined,
+      latitude: isNaN(latitude) ? undefined : latitude,
+      longitude: isNaN(longitude) ? undefined : longitude,
+      phone: str(place.telephone) || undefined,
+    };
+  }
+  return null;
+}
+
+function formatPrice(price: number): string {
+  return `$${Number.isInteger(price) ? price : price.toFixed(2)}`;
+}
+
+/**
+ * Ticket link and a one-line price note ("Tickets: $25–$40.", "Free.",
+ * "Sold out.") from offers
+ */
+function mapOffers(value: unknown): { ticketUrl?: string; note: string | null } {
+  const offers = asList(value).map(asObject).filter((offer): offer is JsonObject => offer !== null);
+  if (offers.length === 0) return { note: null };
+
+  const prices: number[] = [];
+  for (const offer of offers) {
+    for (const key of ['price', 'lowPrice', 'highPrice']) {
+      const price = parseFloat(str(offer[key]).replace(/[^0-9.]/g, ''));
+      if (!isNaN(price)) prices.push(price);
+    }
+  }
+  const ticketUrl = offers.map(offer => str(offer.url)).find(Boolean);
+  const soldOut = offers.every(offer => /SoldOut$/.test(str(offer.availability)));
+
+  let note: string | null = null;
+  if (soldOut) {
+    note = 'Sold out.';
+  } else if (prices.length > 0) {
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    if (high === 0) note = 'Free.';
+    else note = `Tickets: ${low === high ? formatPrice(low) : `${formatPrice(low)}–${formatPrice(high)}`}.`;
+  }
+  return { ticketUrl, note };
+}
+
+function mapPerformers(value: unknown): string[] {
+  return asList(value)
+    .map(item => (typeof item === 'string' ? decodeHtmlEntities(item).trim() : str(asObject(item)?.name)))
+    .filter(Boolean);
+}
+
+function mapImage(value: unknown): string | undefined {
+  for (const item of asList(value)) {
+    const url = typeof item === 'string' ? item : str(asObject(item)?.url) || str(asObject(item)?.contentUrl);
+    if (url) return url;
+  }
+  return undefined;
+}
+
+function mapStatus(value: unknown): UnifiedEvent['status'] {
+  const status = str(value);
+  if (/EventCancelled$/.test(status)) return 'cancelled';
+  if (/EventPostponed$/.test(status)) return 'postponed';
+  if (/EventRescheduled$/.test(status)) return 'rescheduled';
+  return undefined;
+}
+
+function movedOnline(node: JsonObject): boolean {
+  return /EventMovedOnline$/.test(str(node.eventStatus));
+}
+
+/**
+ * Link to join an event held online, from its VirtualLocation
+ */
+function virtualUrl(value: unknown): string {
+  for (const item of asList(value)) {
+    const place = asObject(item);
+    if (place && types(place).includes('VirtualLocation') && str(place.url)) return str(place.url);
+  }
+  return '';
+}
+
+function mapCategories(node: JsonObject): string[] {
+  const keywords = asList(node.keywords)
+    .flatMap(keyword => (typeof keyword === 'string' ? keyword.split(',') : []))
+    .map(keyword => decodeHtmlEntities(keyword).trim())
+    .filter(Boolean);
+  const fromType = types(node).map(type => TYPE_CATEGORIES[type]).filter(Boolean);
+  return [...new Set([...fromType, ...keywords])];
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  if (!href.trim()) return null;
+  try {
+    return new URL(decodeHtmlEntities(href), base).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map the Event objects found on `pageUrl` to UnifiedEvents for a sources row
+ */
+export function jsonLdToEvents(html: string, pageUrl: string, source: SourceRow, config: SourceConfig = parseSourceConfig(source)): UnifiedEvent[] {
+  const timeZone = sourceTimeZone(config);
+  const results: UnifiedEvent[] = [];
+
+  const nodes = extractJsonLdEvents(html)
+    .map(node => ({ node, title: str(node.name), start: parseSchemaDate(node.startDate, timeZone) }))
+    .filter((item): item is { node: JsonObject; title: string; start: SchemaDate } => !!item.title && item.start !== null);
+
+  // @id, then url; the only event on a followed detail page is that page's.
+  // Keys shared by several events on the page (a series' url) identify none.
+  const keys = nodes.map(({ node }) =>
+    resolveUrl(str(node['@id']), pageUrl) ||
+    resolveUrl(str(node.url), pageUrl) ||
+    (nodes.length === 1 && pageUrl !== source.url ? pageUrl : null));
+  const shared = new Set(keys.filter((key, i) => key !== null && keys.indexOf(key) !== i));
+
+  nodes.forEach(({ node, title, start }, i) => {
+
+    // A bare end date (or start date, without an end) runs through that day
+    const endValue = parseSchemaDate(node.endDate, timeZone);
+    const duration = parseDuration(str(node.duration));
+    let end: Date | null = null;
+    if (endValue) end = endValue.allDay ? new Date(endValue.date.getTime() + DAY_MS - 1000) : endValue.date;
+    else if (duration !== null) end = new Date(start.date.getTime() + duration);
+    else if (start.allDay) end = new Date(start.date.getTime() + DAY_MS - 1000);
+    if (!end || end < start.date) end = new Date(start.date.getTime() + DEFAULT_DURATION_MS);
+
+    const offers = mapOffers(node.offers);
+    const performers = mapPerformers(node.performer);
+    const online = movedOnline(node);
+    const description = [
+      online ? 'This event has moved online.' : '',
+      performers.length > 0 ? `Featuring ${performers.join(', ')}.` : '',
+      offers.note || '',
+      stripHtml(str(node.description)).replace(/\s+([.,;:!?])/g, '$1'),
+    ].filter(Boolean).join(' ');
+
+    const eventUrl = resolveUrl((online && virtualUrl(node.location)) || str(node.url), pageUrl);
+    const key = keys[i];
+    const externalId = key && !shared.has(key)
+      ? key.replace(/^https?:\/\//, '')
+      : `${slugify(title)}_${localDateString(start.date, timeZone)}`;
+
+    results.push({
+      id: `${source.id}_${externalId.replace(/[^A-Za-z0-9_.-]/g, '_')}`,
+      source: source.id,
+      sourceId: externalId,
+      title,
+      description,
+      startDateTime: start.date,
+      endDateTime: end,
+      venue: online ? null : mapLocation(node.location) || configVenue(config),
+      categories: applyCategories(mapCategories(node), config),
+      url: eventUrl || config.link || pageUrl,
+      ticketUrl: offers.ticketUrl ? resolveUrl(offers.ticketUrl, pageUrl) || undefined : undefined,
+      imageUrl: mapImage(node.image),
+      lastModified: new Date(),
+      section: sourceSection(source),
+      status: mapStatus(node.eventStatus),
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Links on a listing page that match the source's follow pattern
+ */
+function followLinks(html: string, pageUrl: string, pattern: string, max: number): string[] {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    console.error(`  Invalid follow pattern ${pattern}, ignoring`);
+    return [];
+  }
+
+  const links = new Set<string>();
+  for (const [, href] of html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"'#]+)["']/gi)) {
+    const url = resolveUrl(href, pageUrl);
+    if (url && url !== pageUrl && regex.test(url)) links.add(url);
+    if (links.size >= max) break;
+  }
+  return [...links];
+}
+
+async function fetchPage(url: string, http: HttpFetch): Promise<string> {
+  const response = await http(url, {
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; EventBot/1.0)', Accept: 'text/html' }
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${url}`);
+  }
+  return response.text();
+}
+
+/**
+ * Fetch the page a sources row points at (and the pages it links to, when
+ * configured) and read its Event markup
+ */
+export async function fetchJsonLdEvents(source: SourceRow, http: HttpFetch): Promise<UnifiedEvent[]> {
+  const config = parseSourceConfig(source);
+  const html = await fetchPage(source.url, http);
+  const events = jsonLdToEvents(html, source.url, source, config);
+
+  if (config.follow) {
+    const links = followLinks(html, source.url, config.follow, config.max_pages || DEFAULT_MAX_PAGES);
+    for (const link of links) {
+      try {
+        events.push(...jsonLdToEvents(await fetchPage(link, http), link, source, config));
+      } catch (error) {
+        console.error(`  Failed to read ${link}:`, error);
+      }
+    }
+  }
+
+  // The listing and a detail page often mark up the same event; the detail
+  // page, read last, has the fuller version
+  const results = [...new Map(events.map(event => [event.id, event])).values()];
+
+  return results;
+}
@@ -0,0 +1,181 @@
+/**
+ * Source: Cumberland County Library - Headquarters branch (web scraping)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { parseTimeString } from '../utils';
+import { TIMEZONE, fromWallTime } from '../../lib/timezone';
+
+const LIBRARY_URL = 'https://cumberland.librarycalendar.com/events/upcoming';
+
+export async function fetchLibraryEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+
+  try {
+    const response = await http(LIBRARY_URL);
+    if (!response.ok) {
+      console.error(`  HTTP error: ${response.status}`);
+      return results;
+    }
+
+    const html = await response.text();
+
+    // Parse event blocks - look for event links and their associated data
+    // Pattern: /event/[slug]-[id]
+    const eventPattern = /href="\/event\/([^"]+)"[^>]*>.*?<\/a>/gs;
+    const eventUrls = new Set<string>();
+
+    // Extract unique event URLs
+    const urlMatches = html.matchAll(/href="(\/event\/[^"]+)"/g);
+    for (const match of urlMatches) {
+      eventUrls.add(match[1]);
+    }
+
+    // For each unique event, extract its details from the page
+    // The page shows events in a featured carousel and list format
+    // We'll extract from the structured data in the HTML
+
+    // Find event blocks that contain "Headquarters Library" in the location field
+    const eventBlocks = html.split(/class="lc-featured-event-content"/);
+
+    for (let i = 1; i < eventBlocks.length; i++) {
+      const block = eventBlocks[i];
+
+      // Check if this event is at Headquarters Library by looking at the location div specifically
+      // The location is in: <div class="lc-featured-event-location">...at Headquarters Library</div>
+      const locationMatch = block.match(/class="lc-featured-event-location"[^>]*>([^<]+(?:<[^>]+>[^<]*)*?)at\s+([\w\s]+Library)/i);
+      if (!locationMatch || !locationMatch[2].includes('Headquarters')) {
+        continue;
+      }
+
+      // Extract event URL
+      const urlMatch = block.match(/href="(\/event\/[^"]+)"/);
+      if (!urlMatch) continue;
+      const eventUrl = urlMatch[1];
+      const eventId = eventUrl.split('/').pop() || '';
+
+      // Extract title from aria-label or link text
+      const titleMatch = block.match(/aria-label="View Details - ([^"]+)"/);
+      const title = titleMatch ? titleMatch[1] : 'Library Event';
+
+      // Extract date and time
+      // Format: "Saturday, January 3, 2026 at 10:00am - 10:30am"
+      const dateMatch = block.match(/([A-Z][a-z]+day),\s+([A-Z][a-z]+)\s+(\d{1,2}),\s+(\d{4})\s+at\s+(\d{1,2}:\d{2}[ap]m)\s*-\s*(\d{1,2}:\d{2}[ap]m)/i);
+
+      if (!dateMatch) continue;
+
+      const [, , month, day, year, startTime, endTime] = dateMatch;
+
+      // Parse date
+      const monthIndex = ['January', 'February', 'March', 'April', 'May', 'June',
+        'July', 'August', 'September', 'October', 'November', 'December'].indexOf(month);
+
+      if (monthIndex === -1) continue;
+
+      const date = { year: parseInt(year), month: monthIndex + 1, day: parseInt(day) };
+
+      // Times that don't parse fall back to local midnight
+      const startTimeParsed = parseTimeString(startTime);
+      const startDate = fromWallTime({
+        ...date, hour: startTimeParsed?.hours ?? 0, minute: startTimeParsed?.minutes ?? 0, second: 0,
+      }, TIMEZONE);
+
+      const endTimeParsed = parseTimeString(endTime);
+      const endDate = fromWallTime({
+        ...date, hour: endTimeParsed?.hours ?? 0, minute: endTimeParsed?.minutes ?? 0, second: 0,
+      }, TIMEZONE);
+
+      // Skip past events
+      if (endDate < now) continue;
+
+      // Extract program type/category
+      const categoryMatch = block.match(/Program Type:<\/h4>\s*([^<]+)/);
+      const category = categoryMatch ? categoryMatch[1].trim() : 'Library Programs';
+
+      // Extract age group
+      const ageMatch = block.match(/Age Group:<\/h4>\s*([^<]+)/);
+      const ageGroup = ageMatch ? ageMatch[1].trim() : '';
+
+      // Extract room/location detail
+      const roomMatch = block.match(/at Headquarters Library\s*<\/div>\s*<\/div>/i);
+      const locationDetail = block.match(/([^>]+)\s+at Headquarters Library/);
+      const room = locationDetail ? locationDetail[1].trim() : '';
+
+      // Build base description
+      let description = ageGroup ? `${category} program for ${ageGroup}. ${room ? `Location: ${room}` : ''}`.trim() : `${category} program at Headquarters Library.`;
+      let imageUrl: string | undefined;
+
+      // Fetch individual event page for better description and image
+      const fullEventUrl = `https://cumberland.librarycalendar.com${eventUrl}`;
+      try {
+        const eventResponse = await http(fullEventUrl, {
+          headers: { 'User-Agent': 'Mozilla/5.0 (compatible; EventBot/1.0)' }
+        });
+        if (eventResponse.ok) {
+          const eventHtml = await eventResponse.text();
+
+          // Extract description from JSON or meta
+          const jsonDescMatch = eventHtml.match(/"description"\s*:\s*"([^"]+)"/);
+          if (jsonDescMatch) {
+            const fullDesc = jsonDescMatch[1]
+              .replace(/\\u[\dA-Fa-f]{4}/g, '')
+              .replace(/<[^>]*>/g, ' ')
+              .replace(/&nbsp;/g, ' ')
+              .replace(/&amp;/g, '&')
+              .replace(/\\r\\n/g, ' ')
+              .replace(/\s+/g, ' ')
+              .trim();
+            if (fullDesc.length > description.length) {
+              description = fullDesc.slice(0, 500);
+            }
+          }
+
+          // Fallback to meta description
+          if (description.length < 50) {
+            const metaDescMatch = eventHtml.match(/<meta\s+name="description"\s+content="([^"]+)"/i);
+            if (metaDescMatch && metaDescMatch[1].length > description.length) {
+              description = metaDescMatch[1].replace(/&amp;/g, '&').trim();
+            }
+          }
+
+          // Extract event image
+          const imgMatch = eventHtml.match(/field--name-field-lc-image[^>]*>.*?<img[^>]+src="([^"]+)"/s);
+          if (imgMatch) {
+            imageUrl = imgMatch[1];
+          }
+        }
+        // Rate limit
+        await new Promise(r => setTimeout(r, 100));
+      } catch (e) {
+        // Continue with basic data
+      }
+
+      results.push({
+        id: `library_hq_${eventId}`,
+        source: 'library_hq',
+        sourceId: eventId,
+        title: title,
+        description,
+        startDateTime: startDate,
+        endDateTime: endDate,
+        venue: {
+          name: 'Headquarters Library',
+          address: '300 Maiden Lane',
+          city: 'Fayetteville',
+          state: 'NC',
+          zip: '28301',
+        },
+        categories: [category, 'Library Programs'].filter(Boolean),
+        url: fullEventUrl,
+        imageUrl,
+        lastModified: new Date(),
+        section: 'downtown',
+      });
+    }
+  } catch (error) {
+    console.error('  Error fetching library events:', error);
+  }
+
+  return results;
+}
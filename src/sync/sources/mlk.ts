@@ -0,0 +1,65 @@
+/**
+ * Source: MLK Committee (signature annual events)
+ */
+
+import { UnifiedEvent } from '../types';
+import { TIMEZONE, fromWallTime, toWallTime } from '../../lib/timezone';
+
+const MLK_URL = 'https://mlkmemorialpark.org/upcoming-events/';
+
+/**
+ * Get MLK Day (3rd Monday of January) for a given year, as a day of January
+ */
+function getMLKDay(year: number): number {
+  const newYearsDay = new Date(Date.UTC(year, 0, 1)).getUTCDay();
+  const firstMonday = 1 + (8 - newYearsDay) % 7; // 1 = Monday
+  return firstMonday + 14;
+}
+
+export async function fetchMLKEvents(): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+  let year = toWallTime(now, TIMEZONE).year;
+
+  // MLK Parade - held on or around MLK Day (3rd Monday of January)
+  // If MLK Day has passed, use next year
+  if (fromWallTime({ year, month: 1, day: getMLKDay(year), hour: 0, minute: 0, second: 0 }, TIMEZONE) < now) {
+    year++;
+  }
+
+  // Parade is typically the Saturday before MLK Day
+  const paradeDay = getMLKDay(year) - 2;
+  const paradeDate = fromWallTime({ year, month: 1, day: paradeDay, hour: 10, minute: 0, second: 0 }, TIMEZONE); // Starts at 10 AM
+
+  // Only add if within next 12 months
+  const oneYearFromNow = new Date(now);
+  oneYearFromNow.setFullYear(oneYearFromNow.getFullYear() + 1);
+
+  if (paradeDate <= oneYearFromNow) {
+    results.push({
+      id: `mlk_parade_${year}`,
+      source: 'mlk_committee',
+      sourceId: `parade_${year}`,
+      title: 'Dr. Martin Luther King Jr. Parade',
+      description: 'Annual MLK Parade through Downtown Fayetteville celebrating the life and legacy of Dr. Martin Luther King Jr. The parade features local organizations, schools, marching bands, and community groups. Free to attend.',
+      startDateTime: paradeDate,
+      endDateTime: fromWallTime({ year, month: 1, day: paradeDay, hour: 13, minute: 0, second: 0 }, TIMEZONE), // Ends around 1 PM
+      venue: {
+        name: 'Downtown Fayetteville',
+        address: 'Hay Street',
+        city: 'Fayetteville',
+        state: 'NC',
+      },
+      categories: ['Parades', 'Community', 'Cultural'],
+      url: MLK_URL,
+      lastModified: new Date(),
+      section: 'downtown',
+    });
+  }
+
+  // MLK Banquet - typically held in late January or February
+  // Date varies each year, so we'll add it when announced
+  // For now, just add the parade as the signature event
+
+  return results;
+}
@@ -0,0 +1,47 @@
+/**
+ * Source: Segra Stadium (Squarespace events JSON)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { cleanDescription } from '../utils';
+
+const SEGRA_API = 'https://www.segrastadium.com/events-tickets?format=json';
+
+export async function fetchSegraEvents(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const response = await http(SEGRA_API);
+  const data = await response.json<any>();
+
+  const results: UnifiedEvent[] = [];
+
+  // Squarespace events collections have 'upcoming' and 'past' arrays
+  const items = data.upcoming || data.items || [];
+
+  for (const item of items) {
+    if (item.draft) continue;
+
+    results.push({
+      id: `segra_${item.id}`,
+      source: 'segra_stadium',
+      sourceId: item.id,
+      title: item.title,
+      description: cleanDescription(item.body || item.excerpt || '', item.title),
+      startDateTime: new Date(item.startDate),
+      endDateTime: new Date(item.endDate),
+      venue: {
+        name: 'Segra Stadium',
+        address: '460 Hay St',
+        city: 'Fayetteville',
+        state: 'NC',
+        zip: '28301',
+      },
+      categories: item.tags || [],
+      url: `https://www.segrastadium.com${item.fullUrl}`,
+      ticketUrl: item.sourceUrl || undefined,
+      imageUrl: item.assetUrl ? `https:${item.assetUrl}` : undefined,
+      lastModified: new Date(item.updatedOn),
+      section: 'downtown',
+    });
+  }
+
+  return results;
+}
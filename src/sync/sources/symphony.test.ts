@@ -0,0 +1,17 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchSymphonyEvents } from './symphony';
+
+test('season times are Fayetteville wall-clock times', async () => {
+  mock.timers.enable({ apis: ['Date'], now: new Date('2025-11-01T12:00:00Z') });
+  try {
+    const events = await fetchSymphonyEvents();
+    const matinee = events.find(e => e.sourceId === 'coffee-cantata-2025');
+
+    // 2:00pm EST on November 22
+    assert.equal(matinee?.startDateTime.toISOString(), '2025-11-22T19:00:00.000Z');
+    assert.equal(matinee?.endDateTime?.toISOString(), '2025-11-22T21:00:00.000Z');
+  } finally {
+    mock.timers.reset();
+  }
+});
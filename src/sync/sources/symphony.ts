@@ -0,0 +1,141 @@
+/**
+ * Source: Fayetteville Symphony Orchestra (season schedule)
+ */
+
+import { UnifiedEvent } from '../types';
+import { TIMEZONE, fromWallTime } from '../../lib/timezone';
+
+const SYMPHONY_URL = 'https://www.fayettevillesymphony.org/2025-2026-season/';
+
+// Fayetteville Symphony Orchestra venues with full location data
+const SYMPHONY_VENUES: Record<string, UnifiedEvent['venue']> = {
+  'arts_xl': {
+    name: 'Arts XL',
+    address: '214 Burgess St',
+    city: 'Fayetteville',
+    state: 'NC',
+    zip: '28301',
+  },
+  'st_johns': {
+    name: "St. John's Episcopal Church",
+    address: '302 Green Street',
+    city: 'Fayetteville',
+    state: 'NC',
+    zip: '28301',
+  },
+  'seabrook': {
+    name: 'Seabrook Auditorium (Fayetteville State University)',
+    address: '1200 Murchison Rd',
+    city: 'Fayetteville',
+    state: 'NC',
+    zip: '28301',
+  },
+  'huff': {
+    name: 'Huff Concert Hall (Methodist University)',
+    address: '5400 Ramsey Street',
+    city: 'Fayetteville',
+    state: 'NC',
+    zip: '28311',
+  },
+};
+
+// 2025-2026 Season concerts with researched venue data
+// Source: https://www.fayettevillesymphony.org/concert-calendar/ (authoritative for dates/venues)
+const SYMPHONY_2025_2026_SEASON = [
+  {
+    id: 'coffee-cantata-2025',
+    title: 'Coffee Cantata',
+    description: "Chamber concert featuring Bach's Coffee Cantata with voice and strings, telling a comedic story of a girl and her father arguing over love, life, and caffeine. Coffee and pastries available.",
+    date: '2025-11-22',
+    time: '14:00', // 2:00pm (also 7:30pm show)
+    endTime: '16:00',
+    venue: 'arts_xl',
+    categories: ['Classical Music', 'Chamber Music'],
+  },
+  {
+    id: 'coffee-cantata-evening-2025',
+    title: 'Coffee Cantata (Evening Performance)',
+    description: "Chamber concert featuring Bach's Coffee Cantata with voice and strings, telling a comedic story of a girl and her father arguing over love, life, and caffeine. Coffee and pastries available.",
+    date: '2025-11-22',
+    time: '19:30', // 7:30pm
+    endTime: '21:30',
+    venue: 'arts_xl',
+    categories: ['Classical Music', 'Chamber Music'],
+  },
+  {
+    id: 'road-to-america-250-2026',
+    title: 'The Road to America 250',
+    description: "Chamber concert celebrating American musical history with music by American composers, ahead of the country's 250th anniversary.",
+    date: '2026-01-17',
+    time: '19:30',
+    endTime: '21:30',
+    venue: 'huff', // Per concert calendar (not season page which said St. John's)
+    categories: ['Classical Music', 'Chamber Music', 'Americana'],
+  },
+  {
+    id: 'night-on-the-town-2026',
+    title: 'A Night on the Town',
+    description: 'Features award-winning bassist Kebra-Seyoun Charles performing their original bass concerto "Night Life," plus a gospel choir performing gospel settings.',
+    date: '2026-02-28',
+    time: '19:30',
+    endTime: '21:30',
+    venue: 'seabrook',
+    categories: ['Classical Music', 'Orchestra', 'Gospel'],
+  },
+  {
+    id: 'side-by-side-2026',
+    title: 'Side by Side',
+    description: 'Annual concert where the Fayetteville Symphony Youth Orchestra performs alongside professional symphony musicians. A celebration of music education and mentorship. Free admission, tickets required.',
+    date: '2026-03-15',
+    time: '16:00', // 4:00pm
+    endTime: '18:00',
+    venue: 'huff',
+    categories: ['Classical Music', 'Orchestra', 'Family', 'Youth'],
+  },
+  {
+    id: 'john-williams-2026',
+    title: 'John Williams and His Influences',
+    description: 'Features iconic John Williams film scores paired with some of the classical greats that inspired them. A celebration of cinematic music.',
+    date: '2026-04-21', // Per concert calendar (not Apr 18 from season page)
+    time: '19:30',
+    endTime: '21:30',
+    venue: 'huff',
+    categories: ['Classical Music', 'Orchestra', 'Film Music'],
+  },
+];
+
+export async function fetchSymphonyEvents(): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+
+  for (const concert of SYMPHONY_2025_2026_SEASON) {
+    const [year, month, day] = concert.date.split('-').map(Number);
+    const [hours, minutes] = concert.time.split(':').map(Number);
+    const [endHours, endMinutes] = concert.endTime.split(':').map(Number);
+
+    const startDateTime = fromWallTime({ year, month, day, hour: hours, minute: minutes, second: 0 }, TIMEZONE);
+    const endDateTime = fromWallTime({ year, month, day, hour: endHours, minute: endMinutes, second: 0 }, TIMEZONE);
+
+    // Skip past events
+    if (endDateTime < now) continue;
+
+    const venue = SYMPHONY_VENUES[concert.venue];
+
+    results.push({
+      id: `symphony_${concert.id}`,
+      source: 'fayetteville_symphony',
+      sourceId: concert.id,
+      title: `Fayetteville Symphony: ${concert.title}`,
+      description: concert.description,
+      startDateTime,
+      endDateTime,
+      venue,
+      categories: concert.categories,
+      url: SYMPHONY_URL,
+      lastModified: new Date(),
+      section: 'downtown',
+    });
+  }
+
+  return results;
+}
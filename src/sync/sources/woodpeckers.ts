@@ -0,0 +1,83 @@
+/**
+ * Source: Fayetteville Woodpeckers home games (MLB Stats API)
+ */
+
+import { UnifiedEvent, HttpFetch } from '../types';
+import { TIMEZONE, toWallTime } from '../../lib/timezone';
+
+const WOODPECKERS_TEAM_ID = 3712;
+const MLB_STATS_API = 'https://statsapi.mlb.com/api/v1';
+
+const SEGRA_STADIUM_VENUE: UnifiedEvent['venue'] = {
+  name: 'Segra Stadium',
+  address: '460 Hay St',
+  city: 'Fayetteville',
+  state: 'NC',
+  zip: '28301',
+};
+
+export async function fetchWoodpeckersGames(http: HttpFetch = fetch): Promise<UnifiedEvent[]> {
+  const results: UnifiedEvent[] = [];
+  const now = new Date();
+  const currentYear = toWallTime(now, TIMEZONE).year;
+
+  // Fetch current and next year schedules to cover offseason
+  const years = [currentYear, currentYear + 1];
+
+  for (const year of years) {
+    try {
+      const url = `${MLB_STATS_API}/schedule?teamId=${WOODPECKERS_TEAM_ID}&season=${year}&sportId=14&gameType=R&startDate=${year}-03-01&endDate=${year}-09-30`;
+      const response = await http(url);
+
+      if (!response.ok) {
+        console.error(`  Failed to fetch ${year} schedule: ${response.status}`);
+        continue;
+      }
+
+      const data = await response.json<any>();
+
+      // Process each date in the schedule
+      for (const dateEntry of data.dates || []) {
+        for (const game of dateEntry.games || []) {
+          // Only include HOME games (played at Segra Stadium)
+          const isHome = game.teams?.home?.team?.id === WOODPECKERS_TEAM_ID;
+          if (!isHome) continue;
+
+          const gameDate = new Date(game.gameDate);
+          // Skip past games
+          if (gameDate < now) continue;
+
+          const awayTeam = game.teams?.away?.team?.name || 'TBD';
+          const homeTeam = game.teams?.home?.team?.name || 'Fayetteville Woodpeckers';
+
+          // Game duration is typically 3 hours for minor league
+          const endDate = new Date(gameDate);
+          endDate.setHours(endDate.getHours() + 3);
+
+          const gameId = game.gamePk || `${year}-${dateEntry.date}-${awayTeam.replace(/\s+/g, '')}`;
+
+          results.push({
+            id: `woodpeckers_${gameId}`,
+            source: 'woodpeckers',
+            sourceId: String(gameId),
+            title: `Woodpeckers vs ${awayTeam}`,
+            description: `Fayetteville Woodpeckers (Houston Astros Single-A affiliate) take on the ${awayTeam} at Segra Stadium in downtown Fayetteville. Gates typically open 1 hour before first pitch. Family-friendly fun with promotions, concessions, and entertainment between innings!`,
+            startDateTime: gameDate,
+            endDateTime: endDate,
+            venue: SEGRA_STADIUM_VENUE,
+            categories: ['Sports', 'Family'],
+            url: `https://www.milb.com/fayetteville/schedule/${year}-${String(toWallTime(gameDate, TIMEZONE).month).padStart(2, '0')}`,
+            ticketUrl: 'https://www.milb.com/fayetteville/tickets',
+            imageUrl: 'https://www.milb.com/images/logos/t3712.png',
+            lastModified: new Date(),
+            section: 'downtown',
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`  Error fetching ${year} schedule:`, error);
+    }
+  }
+
+  return results;
+}
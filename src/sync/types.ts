@@ -0,0 +1,47 @@
+/**
+ * Shared types for the multi-source event sync
+ */
+
+export type EventSection = 'downtown' | 'fort_bragg' | 'crown';
+
+export interface UnifiedEvent {
+  id: string;
+  source: string;
+  sourceId: string;
+  title: string;
+  description: string;
+  startDateTime: Date;
+  endDateTime: Date;
+  venue: {
+    name: string;
+    address?: string;
+    city: string;
+    state: string;
+    zip?: string;
+    latitude?: number;
+    longitude?: number;
+    phone?: string;
+    googleMapsUrl?: string;
+  } | null;
+  categories: string[];
+  url: string;
+  ticketUrl?: string;
+  imageUrl?: string;
+  contactPhone?: string;
+  lastModified: Date;
+  section: EventSection;
+  // Cancelled/postponed/rescheduled as marked by the source's data (titles are checked too)
+  status?: 'cancelled' | 'postponed' | 'rescheduled';
+  // Repeating events: startDateTime/endDateTime are the first occurrence
+  recurrence?: {
+    rule: string;     // RRULE value, e.g. 'FREQ=WEEKLY;BYDAY=TU'
+    exdates?: Date[]; // Skipped occurrence starts
+  };
+}
+
+/**
+ * fetch() as seen by the source fetchers. The sync passes a recording
+ * implementation so raw payloads can be archived, and replay passes one that
+ * serves an archive instead of the network.
+ */
+export type HttpFetch = (input: string, init?: RequestInit) => Promise<Response>;
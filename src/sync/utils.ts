@@ -0,0 +1,172 @@
+/**
+ * Parsing and fetch helpers shared by the source fetchers
+ */
+
+import { HttpFetch } from './types';
+import { TIMEZONE, fromWallTime } from '../lib/timezone';
+
+const RESEARCH_TOOLS_API = 'https://researchtools.net/api';
+
+interface ScrapingResult {
+  url: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  content?: {
+    text: string;
+    word_count: number;
+  };
+  metadata?: {
+    og_title?: string;
+    og_description?: string;
+    og_image?: string;
+  };
+}
+
+export async function fetchWithResearchTools(url: string, http: HttpFetch = fetch): Promise<ScrapingResult | null> {
+  try {
+    const response = await http(`${RESEARCH_TOOLS_API}/web-scraper`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, extract_mode: 'full' }),
+    });
+
+    if (!response.ok) return null;
+
+    const result = await response.json<{ success: boolean; data: ScrapingResult }>();
+    return result.success ? result.data : null;
+  } catch (error) {
+    console.error(`  ResearchTools fetch failed for ${url}:`, error);
+    return null;
+  }
+}
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function decodeHtmlEntities(text: string): string {
+  return text
+    // Named entities
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&ndash;/g, '–')
+    .replace(/&mdash;/g, '—')
+    .replace(/&lsquo;/g, "'")
+    .replace(/&rsquo;/g, "'")
+    .replace(/&ldquo;/g, '"')
+    .replace(/&rdquo;/g, '"')
+    .replace(/&hellip;/g, '…')
+    // Hex entities (&#x2019; etc)
+    .replace(/&#x([0-9A-Fa-f]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    // Decimal entities (&#8217; etc)
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)));
+}
+
+/**
+ * Clean up event description text by:
+ * 1. Decoding HTML entities
+ * 2. Stripping HTML tags
+ * 3. Removing date prefixes like "12/31/2025 to 12/31/2025 - "
+ * 4. Removing title repetition at the start
+ * 5. Cleaning up whitespace and punctuation
+ */
+export function cleanDescription(text: string, title?: string): string {
+  if (!text) return '';
+
+  let cleaned = decodeHtmlEntities(stripHtml(text));
+
+  // Remove date prefix patterns like "12/31/2025 to 12/31/2025 - " or "01/02/2026 to 01/02/2026 - "
+  cleaned = cleaned.replace(/^\d{2}\/\d{2}\/\d{4}\s+to\s+\d{2}\/\d{2}\/\d{4}\s*[-–—]\s*/i, '');
+
+  // Remove single date prefix like "12/31/2025 - "
+  cleaned = cleaned.replace(/^\d{2}\/\d{2}\/\d{4}\s*[-–—]\s*/i, '');
+
+  // Remove title if it appears at the very start of description
+  if (title && cleaned.toLowerCase().startsWith(title.toLowerCase())) {
+    cleaned = cleaned.slice(title.length).replace(/^[\s\-–—:]+/, '');
+  }
+
+  // Clean up leading/trailing punctuation
+  cleaned = cleaned
+    .replace(/^[\s\-–—:]+/, '')  // Remove leading dashes/colons
+    .replace(/[\s\-–—]+$/, '')   // Remove trailing dashes
+    .replace(/\s+/g, ' ')        // Normalize whitespace
+    .trim();
+
+  // Capitalize first letter if it got lowercased
+  if (cleaned.length > 0 && /[a-z]/.test(cleaned[0])) {
+    cleaned = cleaned[0].toUpperCase() + cleaned.slice(1);
+  }
+
+  return cleaned;
+}
+
+export function extractXmlTag(xml: string, tag: string): string | null {
+  // CDATA with possible whitespace before closing tag
+  const match = xml.match(new RegExp(`<${tag}[^>]*>\\s*<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>\\s*</${tag}>`, 'i'));
+  if (match) return match[1];
+
+  // Simple tag content (no CDATA)
+  const simpleMatch = xml.match(new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`, 'i'));
+  return simpleMatch?.[1] || null;
+}
+
+/**
+ * Local midnight of a date like ('March', '14', '2026')
+ */
+export function parseMonthDate(month: string, day: string, year: string): Date | null {
+  const months: Record<string, number> = {
+    January: 0, February: 1, March: 2, April: 3,
+    May: 4, June: 5, July: 6, August: 7,
+    September: 8, October: 9, November: 10, December: 11,
+  };
+
+  const monthNum = months[month];
+  if (monthNum === undefined) return null;
+
+  return fromWallTime({ year: parseInt(year), month: monthNum + 1, day: parseInt(day), hour: 0, minute: 0, second: 0 }, TIMEZONE);
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 50);
+}
+
+export function parseTimeString(timeStr: string): { hours: number; minutes: number } | null {
+  const match = timeStr.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2] || '0');
+  const period = match[3].toLowerCase();
+
+  if (period === 'pm' && hours !== 12) hours += 12;
+  if (period === 'am' && hours === 12) hours = 0;
+
+  return { hours, minutes };
+}
+
+/**
+ * ISO 8601 duration (P1D, PT1H30M, P1W) in milliseconds, as used by iCalendar
+ * DURATION and schema.org duration
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || value.trim().replace(/^[+-]/, '') === 'P') return null;
+  const [, sign, w = '0', d = '0', h = '0', m = '0', s = '0'] = match;
+  const ms = ((+w * 7 + +d) * 24 * 3600 + +h * 3600 + +m * 60 + +s) * 1000;
+  return sign === '-' ? -ms : ms;
+}
@@ -0,0 +1,338 @@
+/**
+ * D1 writer for synced events
+ *
+ * Upserts UnifiedEvents through prepared statements sent in D1 batches,
+ * using content hashes to skip rows that have not changed.
+ */
+
+import { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { UnifiedEvent } from './types';
+import { mapSourceId } from './sources';
+import { normalizeRRule, seriesEnd } from '../lib/recurrence';
+import { SYNC_REASONS, isSyncReason, statusFromTitle } from '../lib/event-status';
+import { LocationInput, VenueIndex, queueUnmatched, resolveVenueId } from '../lib/venue-resolver';
+import { CategoryTaxonomy, normalizeCategories } from '../lib/categories';
+
+export interface SyncStats {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  errors: number;
+}
+
+// Statements per DB.batch() call
+const BATCH_SIZE = 50;
+
+// End of an event's last occurrence (open-ended series never end)
+const LAST_END_SQL = `CASE WHEN recurrence_rule IS NULL THEN end_datetime
+  ELSE COALESCE(recurrence_end, '9999-12-31T23:59:59.999Z') END`;
+
+interface ExistingEvent {
+  id: string;
+  content_hash: string | null;
+  start_datetime: string;
+  status: string;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  previous_start_datetime: string | null;
+}
+
+interface StatusFields {
+  status: string;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  previous_start_datetime: string | null;
+}
+
+// =============================================================================
+// Venue Lookup
+// =============================================================================
+
+function venueLocation(event: UnifiedEvent): LocationInput {
+  return {
+    name: event.venue?.name,
+    address: event.venue?.address,
+    latitude: event.venue?.latitude,
+    longitude: event.venue?.longitude,
+  };
+}
+
+// =============================================================================
+// Change Detection
+// =============================================================================
+
+/**
+ * Create a simple hash of event content for change detection.
+ * Uses a fast string hash (djb2) instead of crypto for portability.
+ */
+export function hashContent(event: UnifiedEvent, taxonomy: CategoryTaxonomy): string {
+  const content = [
+    event.title,
+    event.description.slice(0, 1000),
+    event.startDateTime.toISOString(),
+    event.endDateTime.toISOString(),
+    event.venue?.name || '',
+    event.url,
+    event.ticketUrl || '',
+    event.imageUrl || '',
+    JSON.stringify(normalizeCategories(event.categories, taxonomy)),
+    event.recurrence?.rule || '',
+    (event.recurrence?.exdates || []).map(d => d.toISOString()).join(','),
+  ].join('|');
+
+  // djb2 hash algorithm - fast and good distribution
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash) ^ content.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// =============================================================================
+// Writes
+// =============================================================================
+
+/**
+ * Run statements in D1 batches. A failed batch is logged and counted, the
+ * remaining batches still run.
+ */
+export async function runBatches(DB: D1Database, statements: D1PreparedStatement[]): Promise<number> {
+  let errors = 0;
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    try {
+      await DB.batch(statements.slice(i, i + BATCH_SIZE));
+    } catch (error) {
+      console.error(`  Batch ${Math.floor(i / BATCH_SIZE) + 1} failed:`, error);
+      errors++;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Status for a synced event. A cancellation or postponement the source
+ * announces (in its data or the title) wins; a changed start time, or the
+ * source saying so, marks the event rescheduled; an event the sync had
+ * cancelled comes back when the source lists it again. Statuses set by a
+ * moderator are kept.
+ */
+function syncedStatus(existing: ExistingEvent | undefined, event: UnifiedEvent, start: string, now: string): StatusFields {
+  const announced = event.status || statusFromTitle(event.title);
+  const changed = (status: string, reason: string | null, previousStart: string | null): StatusFields =>
+    ({ status, status_reason: reason, status_changed_at: now, previous_start_datetime: previousStart });
+
+  if (!existing) {
+    if (announced === 'cancelled') return changed('cancelled', SYNC_REASONS.cancelledBySource, null);
+    if (announced === 'postponed') return changed('postponed', SYNC_REASONS.postponedBySource, null);
+    if (announced === 'rescheduled') return changed('rescheduled', SYNC_REASONS.rescheduledBySource, null);
+    return { status: 'confirmed', status_reason: null, status_changed_at: null, previous_start_datetime: null };
+  }
+
+  const current: StatusFields = {
+    status: existing.status,
+    status_reason: existing.status_reason,
+    status_changed_at: existing.status_changed_at,
+    previous_start_datetime: existing.previous_start_datetime,
+  };
+  if (existing.status !== 'confirmed' && !isSyncReason(existing.status_reason)) return current;
+
+  if (announced === 'cancelled' || announced === 'postponed') {
+    if (existing.status === announced) return current;
+    const reason = announced === 'cancelled' ? SYNC_REASONS.cancelledBySource : SYNC_REASONS.postponedBySource;
+    return changed(announced, reason, existing.previous_start_datetime);
+  }
+
+  const moved = !event.recurrence && existing.start_datetime !== start;
+  if (moved) return changed('rescheduled', SYNC_REASONS.moved, existing.start_datetime);
+
+  if (announced === 'rescheduled') {
+    if (existing.status === 'rescheduled') return current;
+    return changed('rescheduled', SYNC_REASONS.rescheduledBySource, existing.previous_start_datetime);
+  }
+
+  if (existing.status === 'cancelled' || existing.status === 'postponed') {
+    return changed('confirmed', null, existing.previous_start_datetime);
+  }
+  return current;
+}
+
+function sameStatus(a: StatusFields, b: ExistingEvent): boolean {
+  return a.status === b.status && a.status_reason === b.status_reason;
+}
+
+/**
+ * Upsert events into D1 with content-hash change detection. Categories are
+ * normalized against the taxonomy; locations the venue resolver can't match
+ * confidently go to venue_match_queue.
+ */
+export async function writeEvents(
+  DB: D1Database,
+  events: UnifiedEvent[],
+  venueIndex: VenueIndex,
+  taxonomy: CategoryTaxonomy
+): Promise<SyncStats> {
+  const stats: SyncStats = { inserted: 0, updated: 0, unchanged: 0, deleted: 0, errors: 0 };
+  if (events.length === 0) return stats;
+
+  const now = new Date().toISOString();
+
+  // Existing hashes and statuses for the sources being written
+  const sourceIds = [...new Set(events.map(e => mapSourceId(e.source)))];
+  const existingResult = await DB.prepare(`
+    SELECT id, content_hash, start_datetime, status, status_reason, status_changed_at, previous_start_datetime
+    FROM events
+    WHERE source_id IN (${sourceIds.map(() => '?').join(', ')})
+  `).bind(...sourceIds).all<ExistingEvent>();
+
+  const existingEvents = new Map<string, ExistingEvent>();
+  for (const row of existingResult.results || []) {
+    existingEvents.set(row.id, row);
+  }
+
+  const touchStmt = DB.prepare('UPDATE events SET last_seen_at = ? WHERE id = ?');
+  const upsertStmt = DB.prepare(`
+    INSERT INTO events (
+      id, source_id, external_id, title, description,
+      start_datetime, end_datetime, venue_id, location_name,
+      url, ticket_url, image_url, categories, tags,
+      status, section, raw_data, last_modified, updated_at,
+      content_hash, last_seen_at,
+      recurrence_rule, recurrence_exdates, recurrence_end,
+      status_reason, status_changed_at, previous_start_datetime
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '[]', ?, ?, NULL, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(source_id, external_id) DO UPDATE SET
+      title = excluded.title,
+      description = excluded.description,
+      start_datetime = excluded.start_datetime,
+      end_datetime = excluded.end_datetime,
+      venue_id = excluded.venue_id,
+      location_name = excluded.location_name,
+      url = excluded.url,
+      ticket_url = excluded.ticket_url,
+      image_url = excluded.image_url,
+      categories = excluded.categories,
+      categories_source = 'source',
+      section = excluded.section,
+      last_modified = excluded.last_modified,
+      updated_at = excluded.updated_at,
+      content_hash = excluded.content_hash,
+      last_seen_at = excluded.last_seen_at,
+      recurrence_rule = excluded.recurrence_rule,
+      recurrence_exdates = excluded.recurrence_exdates,
+      recurrence_end = excluded.recurrence_end,
+      status = excluded.status,
+      status_reason = excluded.status_reason,
+      status_changed_at = excluded.status_changed_at,
+      previous_start_datetime = excluded.previous_start_datetime
+  `);
+
+  const statements: D1PreparedStatement[] = [];
+
+  for (const event of events) {
+    const contentHash = hashContent(event, taxonomy);
+    const existing = existingEvents.get(event.id);
+    const start = event.startDateTime.toISOString();
+    const end = event.endDateTime.toISOString();
+    const status = syncedStatus(existing, event, start, now);
+
+    // Skip if hash and status match (no changes), but still record that we saw it
+    if (existing && existing.content_hash === contentHash && sameStatus(status, existing)) {
+      stats.unchanged++;
+      statements.push(touchStmt.bind(now, event.id));
+      continue;
+    }
+
+    if (existing) {
+      stats.updated++;
+    } else {
+      stats.inserted++;
+    }
+
+    const rule = event.recurrence ? normalizeRRule(event.recurrence.rule) : null;
+    const recurrenceEnd = rule ? seriesEnd(start, end, rule) : null;
+
+    statements.push(upsertStmt.bind(
+      event.id,
+      mapSourceId(event.source),
+      event.sourceId,
+      event.title,
+      event.description.slice(0, 5000),
+      start,
+      end,
+      resolveVenueId(venueIndex, venueLocation(event)),
+      event.venue?.name || '',
+      event.url,
+      event.ticketUrl || null,
+      event.imageUrl || null,
+      JSON.stringify(normalizeCategories(event.categories, taxonomy)),
+      status.status,
+      event.section,
+      event.lastModified.toISOString(),
+      now,
+      contentHash,
+      now,
+      rule,
+      rule && event.recurrence?.exdates?.length ? JSON.stringify(event.recurrence.exdates.map(d => d.toISOString())) : null,
+      recurrenceEnd ? recurrenceEnd.toISOString() : null,
+      status.status_reason,
+      status.status_changed_at,
+      status.previous_start_datetime,
+    ));
+  }
+
+  const located = events.filter(event => event.venue?.name);
+  statements.push(...queueUnmatched(DB, venueIndex, located.map(venueLocation), now));
+
+  stats.errors = await runBatches(DB, statements);
+  return stats;
+}
+
+// =============================================================================
+// Cleanup
+// =============================================================================
+
+/**
+ * Archive events that ended more than 24 hours ago.
+ * Soft deletes by setting status to 'past' instead of hard delete.
+ * Recurring series are archived once their last occurrence has ended.
+ */
+export async function cleanupPastEvents(DB: D1Database): Promise<number> {
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+  const result = await DB.prepare(`
+    UPDATE events SET status = 'past'
+    WHERE ${LAST_END_SQL} < ? AND status IN ('confirmed', 'rescheduled')
+  `).bind(cutoff).run();
+
+  return result.meta.changes || 0;
+}
+
+/**
+ * Soft delete events that haven't been seen in the last N hours.
+ * Only sources that synced successfully are considered, so a failing
+ * fetcher does not cancel its whole catalogue. The reason and time are
+ * recorded so listings can flag the cancellation for a grace period.
+ */
+export async function cleanupMissingEvents(
+  DB: D1Database,
+  sourceIds: string[],
+  hoursThreshold = 48
+): Promise<number> {
+  if (sourceIds.length === 0) return 0;
+
+  const now = new Date().toISOString();
+  const cutoff = new Date(Date.now() - hoursThreshold * 60 * 60 * 1000).toISOString();
+
+  // updated_at moves too: feeds derive SEQUENCE and LAST-MODIFIED from it
+  const result = await DB.prepare(`
+    UPDATE events SET status = 'cancelled', status_reason = ?, status_changed_at = ?, updated_at = ?
+    WHERE last_seen_at < ? AND status IN ('confirmed', 'rescheduled')
+      AND source_id IN (${sourceIds.map(() => '?').join(', ')})
+      AND ${LAST_END_SQL} > datetime('now')
+    RETURNING id
+  `).bind(SYNC_REASONS.missing, now, now, cutoff, ...sourceIds).all();
+
+  // meta.changes would also count the event_revisions rows written by trigger
+  return result.results?.length || 0;
+}
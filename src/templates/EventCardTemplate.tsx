@@ -0,0 +1,149 @@
+import React from 'react';
+import { TIMEZONE } from '../lib/timezone';
+
+export interface EventCardEvent {
+  title: string;
+  start_datetime: string;
+  section: string;
+  location_name: string | null;
+  venue_name?: string | null;
+  categories?: string | null;
+  category_emoji?: string | null;  // From the category taxonomy
+}
+
+interface Props {
+  event: EventCardEvent;
+  width?: number;
+  height?: number;
+}
+
+// Matches the section palette used in Discord embeds and the web app
+const SECTION_THEMES: Record<string, { color: string; label: string; emoji: string }> = {
+  downtown: { color: '#A65D57', label: 'Downtown', emoji: '🏙️' },     // brick
+  crown: { color: '#2D6A4F', label: 'Crown Complex', emoji: '🏟️' },   // capefear
+  fort_bragg: { color: '#1E3A5F', label: 'Fort Bragg', emoji: '🎖️' }, // liberty
+  default: { color: '#4A5568', label: 'Fayetteville', emoji: '📍' },
+};
+
+export const EventCardTemplate = ({ event, width = 1200, height = 630 }: Props) => {
+  const theme = SECTION_THEMES[event.section] || SECTION_THEMES.default;
+  const startDate = new Date(event.start_datetime);
+  const dayStr = startDate.toLocaleString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: TIMEZONE });
+  const timeStr = startDate.toLocaleString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: TIMEZONE });
+  const venue = event.venue_name || event.location_name || 'Fayetteville, NC';
+
+  // Parse categories
+  let category: string | null = null;
+  try {
+    if (event.categories) {
+      category = JSON.parse(event.categories)[0] || null;
+    }
+  } catch (e) {}
+  const emoji = event.category_emoji || theme.emoji;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'row',
+        width: `${width}px`,
+        height: `${height}px`,
+        backgroundColor: 'white',
+        fontFamily: 'Inter',
+        overflow: 'hidden',
+      }}
+    >
+      {/* Section color band */}
+      <div style={{ display: 'flex', width: '24px', height: '100%', backgroundColor: theme.color }} />
+
+      <div style={{ display: 'flex', flexDirection: 'column', width: `${width - 24}px`, padding: '56px 64px 40px 56px' }}>
+        {/* Section + category */}
+        <div style={{ display: 'flex', flexDirection: 'row', alignItems: 'center', gap: '16px' }}>
+          <div
+            style={{
+              display: 'flex',
+              padding: '8px 20px',
+              backgroundColor: theme.color,
+              color: 'white',
+              borderRadius: '50px',
+              fontSize: '20px',
+              fontWeight: 700,
+              letterSpacing: '1px',
+              textTransform: 'uppercase',
+            }}
+          >
+            {theme.label}
+          </div>
+          {category && (
+            <div style={{ display: 'flex', fontSize: '22px', fontWeight: 700, color: '#57534e' }}>{category}</div>
+          )}
+        </div>
+
+        {/* Title */}
+        <div style={{ display: 'flex', flexDirection: 'row', alignItems: 'flex-start', marginTop: '40px', flexGrow: 1 }}>
+          <div style={{ display: 'flex', fontSize: '80px', lineHeight: 1, marginRight: '32px', flexShrink: 0 }}>{emoji}</div>
+          <div
+            style={{
+              display: 'flex',
+              flex: 1,
+              fontSize: event.title.length > 60 ? '48px' : '60px',
+              fontWeight: 800,
+              color: '#1c1917',
+              lineHeight: 1.15,
+              maxHeight: '210px',
+              overflow: 'hidden',
+            }}
+          >
+            {event.title}
+          </div>
+        </div>
+
+        {/* When + where */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '30px', color: '#57534e' }}>
+          <div style={{ display: 'flex', flexDirection: 'row' }}>
+            <span style={{ fontWeight: 700, color: theme.color, marginRight: '16px' }}>{dayStr}</span>
+            <span style={{ fontWeight: 700, color: '#1c1917' }}>{timeStr}</span>
+          </div>
+          <div style={{ display: 'flex', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>
+            {venue}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginTop: '32px',
+            paddingTop: '24px',
+            borderTop: '1px solid #f0e0da',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center' }}>
+            <div
+              style={{
+                width: '40px',
+                height: '40px',
+                backgroundColor: '#A65D57',
+                borderRadius: '8px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                color: 'white',
+                fontWeight: 900,
+                fontSize: '20px',
+                marginRight: '12px',
+              }}
+            >
+              F
+            </div>
+            <div style={{ display: 'flex', fontSize: '22px', fontWeight: 700, color: '#1c1917' }}>Fayetteville Events</div>
+          </div>
+          <div style={{ display: 'flex', fontSize: '22px', fontWeight: 600, color: '#A65D57' }}>ncfayetteville.com</div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { TIMEZONE } from '../lib/timezone';
 
 export interface Event {
   id: string;
@@ -16,16 +17,18 @@ interface Props {
   events: Event[];
   title: string;
   subtitle: string;
+  width?: number;   // px (default 800)
+  height?: number;  // px (default: fit content)
 }
 
-export const EventListTemplate = ({ events, title, subtitle }: Props) => {
+export const EventListTemplate = ({ events, title, subtitle, width = 800, height }: Props) => {
   return (
     <div
       style={{
         display: 'flex',
         flexDirection: 'column',
-        width: '800px',
-        height: '100%',
+        width: `${width}px`,
+        height: height ? `${height}px` : '100%',
         backgroundColor: 'white',
         fontFamily: 'Inter',
         overflow: 'hidden',
@@ -82,9 +85,9 @@ export const EventListTemplate = ({ events, title, subtitle }: Props) => {
         ) : (
           events.map((event, index) => {
             const startDate = new Date(event.start_datetime);
-            const dateStr = startDate.getDate().toString();
-            const monthStr = startDate.toLocaleString('en-US', { month: 'short' }).toUpperCase();
-            const timeStr = startDate.toLocaleString('en-US', { hour: 'numeric', minute: '2-digit' });
+            const dateStr = startDate.toLocaleString('en-US', { day: 'numeric', timeZone: TIMEZONE });
+            const monthStr = startDate.toLocaleString('en-US', { month: 'short', timeZone: TIMEZONE }).toUpperCase();
+            const timeStr = startDate.toLocaleString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: TIMEZONE });
             
             // Parse categories
             let cats: string[] = [];
@@ -1,10 +1,28 @@
-
 import { D1Database, R2Bucket, Ai } from '@cloudflare/workers-types';
+import type { AuthContext } from './lib/auth';
 
 export type Bindings = {
   DB: D1Database;
   RAW_DATA: R2Bucket;
   DISCORD_WEBHOOK_URL: string;
+  DISCORD_PUBLIC_KEY: string; // Application public key; verifies /api/discord/interactions requests
+  DISCORD_BOT_TOKEN: string;  // Bot token for /subscribe reminder DMs (optional)
+  MAIL_TRANSPORT: string;     // 'http', 'smtp' or 'log' (default); see lib/mail.ts
+  MAIL_FROM: string;
+  MAIL_API_URL: string;       // 'http' transport (default: Resend)
+  MAIL_API_KEY: string;
+  SMTP_HOST: string;          // 'smtp' transport (default: localhost:1025)
+  SMTP_PORT: string;
+  EMAIL_TOKEN_SECRET: string; // Signs email confirmation and unsubscribe links
+  PUBLIC_API_URL: string;     // Base URL for links in emails (default: the workers.dev URL)
+  ENRICHMENT_PROVIDER: string; // 'workers-ai', 'openai' or 'stub'; unset = off (see lib/enrichment.ts)
   OPENAI_API_KEY: string;
+  ADMIN_API_KEY: string; // Break-glass admin token (wrangler secret put ADMIN_API_KEY)
   AI: Ai; // Cloudflare Workers AI (alternative to OpenAI)
 };
+
+// Per-request values set by middleware
+export type Variables = {
+  auth: AuthContext; // Set by requireScope()
+  actor: string;     // Who is making an authenticated request (recorded as reviewer)
+};
@@ -0,0 +1,5 @@
+// Wrangler bundles *.wasm imports as compiled modules (see [[rules]] in wrangler.toml)
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
@@ -33,6 +33,19 @@ const CRAWLER_PATTERNS = [
   'W3C_Validator',
 ]
 
+// Link previews lead with the status so a shared cancelled event isn't misleading
+const STATUS_LABELS: Record<string, string> = {
+  cancelled: 'Cancelled',
+  postponed: 'Postponed',
+  rescheduled: 'Rescheduled',
+}
+
+const SCHEMA_EVENT_STATUS: Record<string, string> = {
+  cancelled: 'https://schema.org/EventCancelled',
+  postponed: 'https://schema.org/EventPostponed',
+  rescheduled: 'https://schema.org/EventRescheduled',
+}
+
 function isCrawler(userAgent: string | null): boolean {
   if (!userAgent) return false
   return CRAWLER_PATTERNS.some(pattern =>
@@ -88,9 +101,11 @@ export const onRequest: PagesFunction<Env> = async (context) => {
 
     const { data: event } = await apiResponse.json() as { data: any }
 
-    const title = escapeHtml(event.title)
+    const statusLabel = STATUS_LABELS[event.status]
+    const title = escapeHtml(statusLabel ? `${statusLabel}: ${event.title}` : event.title)
     const description = escapeHtml(truncate(event.description || `Event in Fayetteville, NC`, 200))
-    const imageUrl = event.image_url || 'https://ncfayetteville.com/og-default.png'
+    // Branded card from the Worker; image_url stays in the JSON-LD below
+    const imageUrl = `${API_BASE}/og/events/${encodeURIComponent(eventId)}.png`
     const url = `https://ncfayetteville.com/events/${eventId}`
     const dateFormatted = formatDate(event.start_datetime)
     const location = event.venue_name || event.location_name || 'Fayetteville, NC'
@@ -103,7 +118,10 @@ export const onRequest: PagesFunction<Env> = async (context) => {
       description: event.description,
       startDate: event.start_datetime,
       endDate: event.end_datetime,
-      eventStatus: 'https://schema.org/EventScheduled',
+      eventStatus: SCHEMA_EVENT_STATUS[event.status] || 'https://schema.org/EventScheduled',
+      ...(event.status === 'rescheduled' && event.previous_start_datetime
+        ? { previousStartDate: event.previous_start_datetime }
+        : {}),
       eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
       location: {
         '@type': 'Place',
@@ -117,7 +135,7 @@ export const onRequest: PagesFunction<Env> = async (context) => {
           addressCountry: 'US'
         }
       },
-      image: imageUrl,
+      image: event.image_url || imageUrl,
       url: url,
       organizer: {
         '@type': 'Organization',
@@ -140,6 +158,8 @@ export const onRequest: PagesFunction<Env> = async (context) => {
   <meta property="og:title" content="${title}">
   <meta property="og:description" content="${description}">
   <meta property="og:image" content="${imageUrl}">
+  <meta property="og:image:width" content="1200">
+  <meta property="og:image:height" content="630">
   <meta property="og:url" content="${url}">
   <meta property="og:site_name" content="Fayetteville Events">
   <meta property="og:locale" content="en_US">
@@ -13,13 +13,13 @@ import {
   eachDayOfInterval,
   isSameMonth,
   isSameDay,
-  isToday,
   addMonths,
   subMonths,
   parseISO,
 } from 'date-fns'
 import type { Event } from '../lib/types'
 import { formatEventTime } from '../lib/utils'
+import { eventDateKey, eventToday, isEventToday } from '../lib/timezone'
 
 interface CalendarGridProps {
   events: Event[]
@@ -27,8 +27,8 @@ interface CalendarGridProps {
 }
 
 export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps) {
-  const [currentMonth, setCurrentMonth] = useState(new Date())
-  const [selectedDate, setSelectedDate] = useState<Date | null>(new Date())
+  const [currentMonth, setCurrentMonth] = useState(eventToday)
+  const [selectedDate, setSelectedDate] = useState<Date | null>(eventToday)
   const dateScrollRef = useRef<HTMLDivElement>(null)
 
   // Get all days in the current month for the horizontal picker
@@ -48,11 +48,11 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
     return eachDayOfInterval({ start: calendarStart, end: calendarEnd })
   }, [currentMonth])
 
-  // Group events by date
+  // Group events by their date in Fayetteville
   const eventsByDate = useMemo(() => {
     const map = new Map<string, Event[]>()
     events.forEach((event) => {
-      const dateKey = format(parseISO(event.start_datetime), 'yyyy-MM-dd')
+      const dateKey = eventDateKey(event.start_datetime)
       const existing = map.get(dateKey) || []
       map.set(dateKey, [...existing, event])
     })
@@ -106,8 +106,8 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
   const handlePrevMonth = () => setCurrentMonth(subMonths(currentMonth, 1))
   const handleNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1))
   const handleToday = () => {
-    setCurrentMonth(new Date())
-    setSelectedDate(new Date())
+    setCurrentMonth(eventToday())
+    setSelectedDate(eventToday())
   }
 
   const handleDateClick = (date: Date) => {
@@ -166,7 +166,7 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
             const dateKey = format(date, 'yyyy-MM-dd')
             const dayEvents = eventsByDate.get(dateKey) || []
             const isSelected = selectedDate && isSameDay(date, selectedDate)
-            const isTodayDate = isToday(date)
+            const isTodayDate = isEventToday(date)
             const hasEvents = dayEvents.length > 0
 
             // Count events by section for dots
@@ -249,15 +249,15 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
                   <div className="flex items-center gap-3 mb-3">
                     <div
                       className={`rounded-xl px-3 py-2 ${
-                        isToday(eventDate)
+                        isEventToday(eventDate)
                           ? 'bg-gradient-to-br from-brick to-brick-600 text-white'
                           : 'bg-sand'
                       }`}
                     >
-                      <div className={`text-xs uppercase font-medium ${isToday(eventDate) ? 'text-white/80' : 'text-stone'}`}>
+                      <div className={`text-xs uppercase font-medium ${isEventToday(eventDate) ? 'text-white/80' : 'text-stone'}`}>
                         {format(eventDate, 'EEE')}
                       </div>
-                      <div className={`text-lg font-bold ${isToday(eventDate) ? 'text-white' : 'text-gray-900'}`}>
+                      <div className={`text-lg font-bold ${isEventToday(eventDate) ? 'text-white' : 'text-gray-900'}`}>
                         {format(eventDate, 'd')}
                       </div>
                     </div>
@@ -265,7 +265,7 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
                       <div className="h-px bg-gradient-to-r from-gray-200 to-transparent" />
                       <p className="text-xs text-stone mt-1">
                         {format(eventDate, 'MMMM yyyy')}
-                        {isToday(eventDate) && <span className="ml-2 text-brick font-medium">Today</span>}
+                        {isEventToday(eventDate) && <span className="ml-2 text-brick font-medium">Today</span>}
                       </p>
                     </div>
                   </div>
@@ -274,7 +274,7 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
                   <div className="space-y-2 pl-2">
                     {dayEvents.map((event) => (
                       <Link
-                        key={event.id}
+                        key={`${event.id}-${event.start_datetime}`}
                         to={`/events/${event.id}`}
                         className="block p-3 bg-white rounded-xl border border-sand hover:border-brick/30 hover:shadow-md transition-all"
                       >
@@ -363,7 +363,7 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
                 const dayEvents = eventsByDate.get(dateKey) || []
                 const isCurrentMonth = isSameMonth(day, currentMonth)
                 const isSelected = selectedDate && isSameDay(day, selectedDate)
-                const isTodayDate = isToday(day)
+                const isTodayDate = isEventToday(day)
 
                 // Count events by section
                 const downtownCount = dayEvents.filter(e => e.section === 'downtown').length
@@ -433,7 +433,7 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
             {selectedDate ? (
               <>
                 <h3 className="font-semibold text-gray-900 mb-3">
-                  {isToday(selectedDate)
+                  {isEventToday(selectedDate)
                     ? 'Today'
                     : format(selectedDate, 'EEEE, MMM d')}
                 </h3>
@@ -444,7 +444,7 @@ export default function CalendarGrid({ events, onDateSelect }: CalendarGridProps
                   <div className="space-y-2">
                     {selectedDateEvents.map((event) => (
                         <Link
-                          key={event.id}
+                          key={`${event.id}-${event.start_datetime}`}
                           to={`/events/${event.id}`}
                           className="block p-3 bg-white rounded-lg border border-sand hover:border-brick/30 hover:shadow-sm transition-all"
                         >
@@ -1,62 +1,30 @@
 import { useState, useRef, useEffect } from 'react'
 import { ChevronDownIcon, FunnelIcon } from '@heroicons/react/24/outline'
 import { CheckIcon } from '@heroicons/react/24/solid'
+import type { Category } from '../lib/types'
 
 interface CategoryFilterProps {
   categories: string[]
+  taxonomy: Category[]
   selectedCategories: string[]
   onSelectionChange: (selected: string[]) => void
 }
 
-// Category icons for visual appeal
-const CATEGORY_ICONS: Record<string, string> = {
-  'Community': '🏘️',
-  'Arts': '🎨',
-  'Live Music': '🎵',
-  'Movies': '🎬',
-  'Family': '👨‍👩‍👧‍👦',
-  'Festivals': '🎉',
-  'Sports': '⚽',
-  'FSU Sports': '🏀',
-  'Military': '🎖️',
-  'Long Weekend': '📅',
-  'Nightlife': '🌙',
-  'Expos': '🏛️',
-}
-
-// Preferred display order for categories
-const CATEGORY_ORDER = [
-  'Community',
-  'Arts',
-  'Live Music',
-  'Movies',
-  'Family',
-  'Festivals',
-  'Sports',
-  'FSU Sports',
-  'Military',
-  'Long Weekend',
-  'Nightlife',
-  'Expos',
-]
-
 export default function CategoryFilter({
   categories,
+  taxonomy,
   selectedCategories,
   onSelectionChange,
 }: CategoryFilterProps) {
   const [isOpen, setIsOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
-  // Sort categories by preferred order
-  const sortedCategories = [...categories].sort((a, b) => {
-    const aIdx = CATEGORY_ORDER.indexOf(a)
-    const bIdx = CATEGORY_ORDER.indexOf(b)
-    if (aIdx === -1 && bIdx === -1) return a.localeCompare(b)
-    if (aIdx === -1) return 1
-    if (bIdx === -1) return -1
-    return aIdx - bIdx
-  })
+  // Icons and display order come from the category taxonomy (/api/categories)
+  const byLabel = new Map(taxonomy.map(c => [c.label, c]))
+  const iconFor = (category: string) => byLabel.get(category)?.emoji || '📌'
+  const order = (category: string) => byLabel.get(category)?.display_order ?? Number.MAX_SAFE_INTEGER
+
+  const sortedCategories = [...categories].sort((a, b) => order(a) - order(b) || a.localeCompare(b))
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -91,14 +59,14 @@ export default function CategoryFilter({
     if (noneSelected) return 'No Categories'
     if (selectedCategories.length === 1) {
       const cat = selectedCategories[0]
-      return `${CATEGORY_ICONS[cat] || '📌'} ${cat}`
+      return `${iconFor(cat)} ${cat}`
     }
     if (hiddenCount === 1) {
       const hidden = categories.find(c => !selectedCategories.includes(c))
       return `All except ${hidden}`
     }
     if (selectedCategories.length <= 3) {
-      return selectedCategories.map(c => CATEGORY_ICONS[c] || '📌').join(' ')
+      return selectedCategories.map(iconFor).join(' ')
     }
     return `${selectedCategories.length} categories`
   }
@@ -165,13 +133,16 @@ export default function CategoryFilter({
           <div className="max-h-80 overflow-y-auto p-2">
             {sortedCategories.map((category) => {
               const isSelected = selectedCategories.includes(category)
-              const icon = CATEGORY_ICONS[category] || '📌'
+              const icon = iconFor(category)
+              const isSubcategory = Boolean(byLabel.get(category)?.parent)
 
               return (
                 <button
                   key={category}
                   onClick={() => toggleCategory(category)}
-                  className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all ${
+                  className={`w-full flex items-center gap-3 py-2.5 pr-3 rounded-lg transition-all ${
+                    isSubcategory ? 'pl-8' : 'pl-3'
+                  } ${
                     isSelected
                       ? 'bg-brick/10 text-forest'
                       : 'text-stone/60 hover:bg-stone/5'
@@ -2,7 +2,7 @@ import { Link } from 'react-router-dom'
 import { MapPinIcon, ClockIcon, TicketIcon } from '@heroicons/react/24/outline'
 import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid'
 import type { Event } from '../lib/types'
-import { formatEventDate, formatEventTime, getSectionBadge, truncateText, parseCategories } from '../lib/utils'
+import { formatEventDate, formatEventTime, getSectionBadge, getStatusBanner, truncateText, parseCategories } from '../lib/utils'
 import { ShareIconButton } from './share/ShareButton'
 import type { ShareableContent } from '../hooks/useShare'
 
@@ -14,6 +14,8 @@ interface EventCardProps {
 export default function EventCard({ event, variant = 'default' }: EventCardProps) {
   const badge = getSectionBadge(event.section)
   const isFeatured = event.featured === 1 || event.featured === true
+  const statusBanner = getStatusBanner(event)
+  const isCancelled = event.status === 'cancelled'
 
   const shareContent: ShareableContent = {
     type: 'event',
@@ -30,7 +32,7 @@ export default function EventCard({ event, variant = 'default' }: EventCardProps
       <Link
         to={`/events/${event.id}`}
         className="flex gap-4 p-3 bg-white rounded-lg hover:bg-sand/50 transition-colors border border-transparent hover:border-dogwood/30 group"
-        aria-label={`${event.title} on ${formatEventDate(event.start_datetime)}${event.location_name ? ` at ${event.location_name}` : ''}`}
+        aria-label={`${statusBanner ? `${statusBanner.label}: ` : ''}${event.title} on ${formatEventDate(event.start_datetime)}${event.location_name ? ` at ${event.location_name}` : ''}`}
       >
         {/* Date Block */}
         <div className="flex-shrink-0 w-14 h-14 bg-brick/10 rounded-lg flex flex-col items-center justify-center">
@@ -44,9 +46,14 @@ export default function EventCard({ event, variant = 'default' }: EventCardProps
 
         {/* Content */}
         <div className="flex-1 min-w-0">
-          <h3 className="font-medium text-gray-900 truncate group-hover:text-brick transition-colors">
+          <h3 className={`font-medium text-gray-900 truncate group-hover:text-brick transition-colors ${isCancelled ? 'line-through opacity-60' : ''}`}>
             {event.title}
           </h3>
+          {statusBanner && (
+            <span className={`inline-block mt-0.5 px-1.5 py-0.5 text-xs font-semibold rounded border ${statusBanner.className}`}>
+              {statusBanner.label}
+            </span>
+          )}
           <p className="text-sm text-stone">
             {formatEventTime(event.start_datetime)}
             {event.location_name && ` • ${event.location_name}`}
@@ -67,7 +74,7 @@ export default function EventCard({ event, variant = 'default' }: EventCardProps
       <Link
         to={`/events/${event.id}`}
         className={`card group block ${isFeatured ? 'ring-2 ring-amber-400 shadow-lg shadow-amber-100' : ''}`}
-        aria-label={`${isFeatured ? 'Featured: ' : ''}${event.title} on ${formatEventDate(event.start_datetime)}${event.location_name ? ` at ${event.location_name}` : ''}`}
+        aria-label={`${statusBanner ? `${statusBanner.label}: ` : ''}${isFeatured ? 'Featured: ' : ''}${event.title} on ${formatEventDate(event.start_datetime)}${event.location_name ? ` at ${event.location_name}` : ''}`}
       >
       {/* Image */}
       {event.image_url ? (
@@ -123,6 +130,14 @@ export default function EventCard({ event, variant = 'default' }: EventCardProps
         </div>
       )}
 
+      {/* Status Banner */}
+      {statusBanner && (
+        <div className={`px-4 py-2 text-sm border-b ${statusBanner.className}`} role="status">
+          <span className="font-semibold">{statusBanner.label}</span>
+          <span className="block text-xs">{statusBanner.message}</span>
+        </div>
+      )}
+
       {/* Content */}
       <div className="p-4 space-y-2">
         {/* Date & Time */}
@@ -134,7 +149,7 @@ export default function EventCard({ event, variant = 'default' }: EventCardProps
         </div>
 
         {/* Title */}
-        <h3 className="font-body text-lg font-semibold text-gray-900 group-hover:text-brick transition-colors line-clamp-2">
+        <h3 className={`font-body text-lg font-semibold text-gray-900 group-hover:text-brick transition-colors line-clamp-2 ${isCancelled ? 'line-through opacity-60' : ''}`}>
           {event.title}
         </h3>
 
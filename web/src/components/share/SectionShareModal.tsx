@@ -10,6 +10,7 @@ import {
 } from '@heroicons/react/24/outline'
 import { format } from 'date-fns'
 import type { Event } from '../../lib/types'
+import { fetchShareImage } from '../../lib/api'
 import { type DateRange } from '../DateRangeFilter'
 
 interface SectionShareModalProps {
@@ -102,8 +103,25 @@ export default function SectionShareModal({
     }
   }
 
-  // Generate image client-side using canvas (2x resolution for quality)
+  // Prefer the Worker-rendered card (same image as Discord/link previews);
+  // custom ranges and offline use fall back to the canvas renderer
   const generateImage = async (): Promise<Blob | null> => {
+    if (dateRange !== 'custom') {
+      try {
+        return await fetchShareImage({
+          date: dateRange === 'all' ? 'upcoming' : dateRange,
+          section: sectionName,
+          size: 'square',
+        })
+      } catch (err) {
+        console.warn('Server share image unavailable, drawing locally', err)
+      }
+    }
+    return generateCanvasImage()
+  }
+
+  // Generate image client-side using canvas (2x resolution for quality)
+  const generateCanvasImage = async (): Promise<Blob | null> => {
     try {
       const scale = 2 // 2x resolution for crisp images
       const eventsToShow = events.slice(0, 8)
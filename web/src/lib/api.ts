@@ -1,4 +1,6 @@
-import type { Event, EventsResponse, SourcesResponse } from './types'
+import type {
+  CalendarFilterSet, CalendarSubscription, CategoriesResponse, Event, EventsResponse, SourcesResponse,
+} from './types'
 
 // Configuration for resilient API calls
 const RETRY_CONFIG = {
@@ -11,7 +13,7 @@ const RETRY_CONFIG = {
 // Cache keys for localStorage fallback
 const CACHE_KEYS = {
   events: 'downtown_guide_events_cache',
-  categories: 'downtown_guide_categories_cache',
+  categories: 'downtown_guide_category_taxonomy_cache',
   sources: 'downtown_guide_sources_cache',
 }
 
@@ -184,6 +186,10 @@ export async function fetchEvents(params?: {
   to?: string
   search?: string
   category?: string
+  lat?: number
+  lng?: number
+  radius_miles?: number
+  sort?: 'start' | 'distance'
   limit?: number
   offset?: number
 }): Promise<EventsResponse> {
@@ -241,18 +247,37 @@ export async function fetchUpcomingEvents(): Promise<{
   )
 }
 
+export type ShareImageSize = 'og' | 'square' | 'story'
+
+// Server-rendered event list card (PNG). `date` is today, tomorrow, week, month or upcoming.
+export function getShareImageUrl(params: {
+  date: string
+  section?: string
+  size?: ShareImageSize
+}): string {
+  const queryParams = new URLSearchParams({
+    date: params.date,
+    section: params.section || 'all',
+    format: 'png',
+    size: params.size || 'og',
+  })
+  return `/api/events/image?${queryParams}`
+}
+
+export async function fetchShareImage(params: Parameters<typeof getShareImageUrl>[0]): Promise<Blob> {
+  const response = await fetch(getShareImageUrl(params))
+  if (!response.ok) {
+    throw new Error('Failed to render share image')
+  }
+  return response.blob()
+}
+
 export async function fetchSources(): Promise<SourcesResponse> {
   return resilientFetch<SourcesResponse>('/api/sources', CACHE_KEYS.sources)
 }
 
-export async function fetchCategories(): Promise<{
-  data: string[]
-  count: number
-}> {
-  return resilientFetch<{ data: string[]; count: number }>(
-    '/api/categories',
-    CACHE_KEYS.categories
-  )
+export async function fetchCategories(): Promise<CategoriesResponse> {
+  return resilientFetch<CategoriesResponse>('/api/categories', CACHE_KEYS.categories)
 }
 
 // Date Planner API
@@ -548,6 +573,41 @@ export function hasCachedEvents(params?: Record<string, unknown>): boolean {
   return getCache(CACHE_KEYS.events, cacheParams) !== null
 }
 
+// Save a personal feed. Keep edit_token: it is the only way to change the filters later.
+export async function createCalendarSubscription(
+  name: string,
+  filters: CalendarFilterSet
+): Promise<CalendarSubscription & { token: string; edit_token: string }> {
+  const response = await fetch('/api/calendar/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, ...filters })
+  })
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to save calendar')
+  }
+  return response.json()
+}
+
+// Change a saved feed's filters; the subscription URL stays the same
+export async function updateCalendarSubscription(
+  token: string,
+  editToken: string,
+  changes: Partial<CalendarFilterSet> & { name?: string }
+): Promise<{ data: CalendarSubscription }> {
+  const response = await fetch(`/api/calendar/subscriptions/${encodeURIComponent(token)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', 'X-Edit-Token': editToken },
+    body: JSON.stringify(changes)
+  })
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to update calendar')
+  }
+  return response.json()
+}
+
 // Worker URL for calendar feeds (needs full URL for external calendar apps)
 const WORKER_URL = 'https://downtown-guide.wemea-5ahhf.workers.dev'
 
@@ -0,0 +1,31 @@
+import { format, parseISO } from 'date-fns'
+
+// Events are in Fayetteville, so calendar days follow Eastern time (DST-aware)
+// regardless of where the visitor is. Matches TIMEZONE in the Worker.
+export const EVENT_TIMEZONE = 'America/New_York'
+
+const dateKeyFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EVENT_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+})
+
+// Calendar date of an instant in Fayetteville, e.g. '2025-03-09'
+export function eventDateKey(date: Date | string): string {
+  const parts: Record<string, string> = {}
+  for (const part of dateKeyFormatter.formatToParts(typeof date === 'string' ? parseISO(date) : date)) {
+    parts[part.type] = part.value
+  }
+  return `${parts.year}-${parts.month}-${parts.day}`
+}
+
+// Today's Fayetteville date as a local-midnight Date, for calendar cells
+export function eventToday(): Date {
+  return parseISO(eventDateKey(new Date()))
+}
+
+// Whether a calendar cell (local-midnight Date) is today in Fayetteville
+export function isEventToday(day: Date): boolean {
+  return format(day, 'yyyy-MM-dd') === eventDateKey(new Date())
+}
@@ -1,5 +1,15 @@
 export type EventSection = 'downtown' | 'fort_bragg' | 'crown'
 
+// Cancelled and postponed events stay listed for a week after the change
+export type EventStatus =
+  | 'confirmed'
+  | 'active'
+  | 'tentative'
+  | 'rescheduled'
+  | 'postponed'
+  | 'cancelled'
+  | 'past'
+
 export interface Event {
   id: string
   source_id: string
@@ -14,8 +24,17 @@ export interface Event {
   image_url: string | null
   categories: string | null
   section: EventSection
-  status: string
+  status: EventStatus
+  status_reason?: string | null // Why the status last changed (sync or moderator)
+  status_changed_at?: string | null
+  previous_start_datetime?: string | null // Start time before the event was rescheduled
   source_name: string | null
+  source_urls?: string | null // JSON array of EventSourceLink (canonical event + duplicates)
+  canonical_event_id?: string | null
+  search_snippet?: string // Present on ?search= results; escaped HTML with matches wrapped in <mark>
+  title_highlight?: string
+  distance_miles?: number | null // Present when lat/lng are passed
+  recurrence_rule?: string | null // RRULE for recurring series; list endpoints return one entry per occurrence
   featured?: number | boolean
   venue_name?: string
   venue_address?: string
@@ -35,6 +54,12 @@ export interface Event {
   venue_coordinates?: { lat: number; lng: number } // Legacy fallback
 }
 
+export interface EventSourceLink {
+  source_id: string
+  source_name: string | null
+  url: string | null
+}
+
 export interface Source {
   id: string
   name: string
@@ -48,6 +73,16 @@ export interface Source {
   is_active: boolean
 }
 
+// Entry in the category taxonomy (emoji and color inherited from the parent)
+export interface Category {
+  slug: string
+  label: string
+  emoji: string | null
+  color: string | null
+  display_order: number
+  parent: string | null
+}
+
 export interface EventsResponse {
   data: Event[]
   count: number
@@ -61,6 +96,37 @@ export interface SourcesResponse {
   count: number
 }
 
+export interface CategoriesResponse {
+  data: Category[]
+  count: number
+}
+
+// Saved calendar filter set behind /cal/u/:token.ics
+export interface CalendarFilterSet {
+  include: {
+    section?: string
+    source?: string
+    categories?: string[]
+    lat?: number
+    lng?: number
+    radius_miles?: number
+  }[]
+  exclude: {
+    keywords?: string[]
+    sources?: string[]
+    venues?: string[]
+    categories?: string[]
+  }
+  alarm_minutes?: number | null
+}
+
+export interface CalendarSubscription {
+  name: string
+  filters: CalendarFilterSet
+  url: string
+  webcal_url: string
+}
+
 export interface TimeGroup {
   label: string
   emoji: string
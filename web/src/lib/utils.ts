@@ -1,5 +1,5 @@
 import { format, isToday, isTomorrow, isThisWeek, parseISO, differenceInDays } from 'date-fns'
-import type { Event, TimeGroup } from './types'
+import type { Event, EventSourceLink, TimeGroup } from './types'
 
 export function formatEventDate(dateString: string): string {
   const date = parseISO(dateString)
@@ -101,6 +101,15 @@ export function parseCategories(categoriesJson: string | null): string[] {
   }
 }
 
+export function parseSourceUrls(sourceUrlsJson: string | null | undefined): EventSourceLink[] {
+  if (!sourceUrlsJson) return []
+  try {
+    return JSON.parse(sourceUrlsJson)
+  } catch {
+    return []
+  }
+}
+
 export function getSectionBadge(section: string): { label: string; emoji: string; className: string } {
   if (section === 'fort_bragg') {
     return {
@@ -139,3 +148,39 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text
   return text.slice(0, maxLength).trim() + '...'
 }
+
+export interface StatusBanner {
+  label: string
+  message: string
+  className: string
+}
+
+// Banner for events that are not happening as originally listed
+export function getStatusBanner(event: Event): StatusBanner | null {
+  const reason = event.status_reason ? ` ${event.status_reason}.` : ''
+  if (event.status === 'cancelled') {
+    return {
+      label: 'Cancelled',
+      message: `This event has been cancelled.${reason}`,
+      className: 'bg-red-50 text-red-800 border-red-200',
+    }
+  }
+  if (event.status === 'postponed') {
+    return {
+      label: 'Postponed',
+      message: `This event has been postponed. A new date has not been announced yet.${reason}`,
+      className: 'bg-amber-50 text-amber-800 border-amber-200',
+    }
+  }
+  if (event.status === 'rescheduled') {
+    const previous = event.previous_start_datetime
+      ? ` It was originally ${formatEventDate(event.previous_start_datetime)} at ${formatEventTime(event.previous_start_datetime)}.`
+      : ''
+    return {
+      label: 'Rescheduled',
+      message: `This event has a new date or time.${previous}`,
+      className: 'bg-sky-50 text-sky-800 border-sky-200',
+    }
+  }
+  return null
+}
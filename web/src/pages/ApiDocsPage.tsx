@@ -141,11 +141,14 @@ export default function ApiDocsPage() {
             { name: 'section', type: 'string', default: 'all', description: 'Filter by area: downtown, fort_bragg, crown, or all' },
             { name: 'from', type: 'string', default: 'now', description: 'Start date (ISO 8601 format, e.g., 2025-01-01)' },
             { name: 'to', type: 'string', description: 'End date (ISO 8601 format)' },
-            { name: 'search', type: 'string', description: 'Text search in title and description' },
+            { name: 'search', type: 'string', description: 'Full-text search (title, description, venue, categories); results are ranked by relevance and include search_snippet' },
             { name: 'category', type: 'string', description: 'Filter by single category (e.g., Arts, Live Music)' },
             { name: 'categories', type: 'string', description: 'Filter by multiple categories (comma-separated)' },
             { name: 'featured', type: 'boolean', description: 'Filter featured events only (true/false)' },
             { name: 'source', type: 'string', description: 'Filter by source ID' },
+            { name: 'lat / lng', type: 'number', description: 'Origin point; each event gets distance_miles to its venue' },
+            { name: 'radius_miles', type: 'number', description: 'Only events at venues within this many miles of lat/lng (max 100)' },
+            { name: 'sort', type: 'string', default: 'start', description: 'start, or distance (nearest first; requires lat/lng)' },
             { name: 'limit', type: 'integer', default: '100', description: 'Results per page (max 500)' },
             { name: 'offset', type: 'integer', default: '0', description: 'Pagination offset' },
           ]}
@@ -218,17 +221,51 @@ export default function ApiDocsPage() {
 }`}
         />
 
+        <Endpoint
+          method="GET"
+          path="/api/search"
+          description="Search events and venues together. Words are ANDed, &quot;quoted text&quot; matches a phrase and a trailing * matches a prefix. Matches are wrapped in <mark> tags."
+          params={[
+            { name: 'q', type: 'string', description: 'Search query (required)' },
+            { name: 'type', type: 'string', default: 'all', description: 'all, events or venues' },
+            { name: 'limit', type: 'integer', default: '20', description: 'Maximum hits (max 50)' },
+          ]}
+          example={`curl "${API_BASE}/api/search?q=jazz%20fest*"`}
+          response={`{
+  "query": "jazz fest*",
+  "data": [
+    {
+      "type": "event",
+      "id": "distinctly_12345",
+      "title": "Jazz Festival",
+      "title_highlight": "<mark>Jazz</mark> <mark>Festival</mark>",
+      "snippet": "…an evening of <mark>jazz</mark> at the…",
+      "score": 8.4,
+      "start_datetime": "2025-01-03T23:00:00.000Z",
+      "venue_name": "Festival Park"
+    },
+    {
+      "type": "venue",
+      "id": "festival_park",
+      "title": "Festival Park",
+      "snippet": "<mark>Festival</mark> Park",
+      "score": 3.1
+    }
+  ],
+  "count": 2
+}`}
+        />
+
         <Endpoint
           method="GET"
           path="/api/categories"
-          description="Get all available event categories."
+          description="Get the category taxonomy in display order. Events list categories by label; subcategories name their parent and inherit its emoji and color."
           example={`curl "${API_BASE}/api/categories"`}
           response={`{
   "data": [
-    "Arts", "Community", "Expos", "Family",
-    "Festivals", "FSU Sports", "Live Music",
-    "Long Weekend", "Military", "Movies",
-    "Nightlife", "Sports"
+    { "slug": "community", "label": "Community", "emoji": "🏘️", "color": "#A65D57", "display_order": 10, "parent": null },
+    { "slug": "sports", "label": "Sports", "emoji": "⚽", "color": "#2D6A4F", "display_order": 70, "parent": null },
+    { "slug": "fsu-sports", "label": "FSU Sports", "emoji": "🏀", "color": "#2D6A4F", "display_order": 75, "parent": "sports" }
   ],
   "count": 12
 }`}
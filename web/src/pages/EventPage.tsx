@@ -12,6 +12,7 @@ import {
   InformationCircleIcon,
   MapIcon,
   SparklesIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline'
 import type { Event } from '../lib/types'
 import { fetchEvent } from '../lib/api'
@@ -20,6 +21,8 @@ import {
   formatEventTimeRange,
   getSectionBadge,
   getSourceBadge,
+  getStatusBanner,
+  parseSourceUrls,
 } from '../lib/utils'
 import DirectionsModal from '../components/DirectionsModal'
 import ShareModal from '../components/share/ShareModal'
@@ -73,6 +76,10 @@ export default function EventPage() {
 
   const sectionBadge = getSectionBadge(event.section)
   const sourceBadge = getSourceBadge(event.source_id)
+  const statusBanner = getStatusBanner(event)
+  const otherSources = parseSourceUrls(event.source_urls).filter(
+    (source) => source.source_id !== event.source_id && source.url
+  )
 
   const googleCalendarUrl = new URL('https://calendar.google.com/calendar/render')
   googleCalendarUrl.searchParams.set('action', 'TEMPLATE')
@@ -169,6 +176,19 @@ export default function EventPage() {
         </div>
       </header>
 
+      {/* Status Banner */}
+      {statusBanner && (
+        <div className={`border-b ${statusBanner.className}`} role="status">
+          <div className="max-w-4xl mx-auto px-4 py-4 flex items-start gap-3">
+            <ExclamationTriangleIcon className="w-6 h-6 flex-shrink-0" aria-hidden="true" />
+            <div>
+              <p className="font-semibold">{statusBanner.label}</p>
+              <p className="text-sm">{statusBanner.message}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="max-w-4xl mx-auto px-4 py-8 md:py-12">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -215,6 +235,24 @@ export default function EventPage() {
                 Event information provided by{' '}
                 <span className="font-medium">{event.source_name || event.source_id}</span>
               </p>
+              {otherSources.length > 0 && (
+                <p className="mt-2 text-sm text-stone">
+                  Also listed on{' '}
+                  {otherSources.map((source, i) => (
+                    <span key={source.source_id}>
+                      {i > 0 && ', '}
+                      <a
+                        href={source.url!}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-capefear hover:underline"
+                      >
+                        {source.source_name || source.source_id}
+                      </a>
+                    </span>
+                  ))}
+                </p>
+              )}
             </section>
           </div>
 
@@ -6,7 +6,7 @@ import {
   WifiIcon,
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline'
-import type { Event } from '../lib/types'
+import type { Category, Event } from '../lib/types'
 import { fetchEvents, fetchCategories, isOnline } from '../lib/api'
 import { groupEventsByTime } from '../lib/utils'
 import EventCard from '../components/EventCard'
@@ -43,6 +43,7 @@ export default function HomePage() {
   const [dateRange, setDateRange] = useState<DateRange>('week')
   const [customDateRange, setCustomDateRange] = useState<CustomDateRange | undefined>(undefined)
   const [categories, setCategories] = useState<string[]>([])
+  const [taxonomy, setTaxonomy] = useState<Category[]>([])
   const [selectedCategories, setSelectedCategories] = useState<string[] | null>(null)
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
   const retryCountRef = useRef(0)
@@ -64,7 +65,8 @@ export default function HomePage() {
   useEffect(() => {
     fetchCategories()
       .then((res) => {
-        const allCats = res.data
+        const allCats = res.data.map(c => c.label)
+        setTaxonomy(res.data)
         setCategories(allCats)
 
         // Initialize selected categories from localStorage or defaults
@@ -205,12 +207,15 @@ export default function HomePage() {
         ? JSON.parse(event.categories)
         : event.categories || []
 
+      // Labels outside the taxonomy can't be unchecked, so they don't count
+      const known = eventCategories.filter(cat => categories.includes(cat))
+
       // Show uncategorized events
-      if (eventCategories.length === 0) return true
+      if (known.length === 0) return true
 
       // Hide event if ANY of its categories is excluded (not in selectedCategories)
       // This ensures that a movie tagged as ["Arts", "Movies"] is hidden when Movies is unchecked
-      return eventCategories.every(cat => selectedCategories.includes(cat))
+      return known.every(cat => selectedCategories.includes(cat))
     } catch {
       return true // Keep event if categories can't be parsed
     }
@@ -271,6 +276,7 @@ export default function HomePage() {
           {categories.length > 0 && selectedCategories && (
             <CategoryFilter
               categories={categories}
+              taxonomy={taxonomy}
               selectedCategories={selectedCategories}
               onSelectionChange={handleSelectionChange}
             />
@@ -386,7 +392,7 @@ export default function HomePage() {
                           />
                           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
                             {visibleEvents.map((event) => (
-                              <EventCard key={event.id} event={event} />
+                              <EventCard key={`${event.id}-${event.start_datetime}`} event={event} />
                             ))}
                           </div>
                           {hiddenCount > 0 && (